@@ -1,17 +1,29 @@
-import { Plugin, MarkdownView } from 'obsidian';
+import { Plugin, MarkdownView, Notice } from 'obsidian';
 import { openAiBotConfigModal } from './src/prompt_modal';
 import { AiBotSidePanel, AI_BOT_PANEL_VIEW_TYPE, openAiBotSidePanel } from './src/side_panel';
-import { ChatView, CHAT_VIEW_TYPE, openChatView } from './src/chat/chat_view';
+import { ChatView, CHAT_VIEW_TYPE, getChatViews, openChatView } from './src/chat/chat_view';
 import { loadChatFromNote } from './src/chat/note_loader';
+import { UsageDashboardView, USAGE_DASHBOARD_VIEW_TYPE, openUsageDashboard } from './src/usage_dashboard';
 import { CommandHandler } from './src/command_handler';
 import { zipOldAiCalls } from './src/archiveCalls';
 import { VaultBotPluginSettings, DEFAULT_SETTINGS, VaultBotSettingTab } from './src/settings';
 import { initDebugMode } from './src/utils/debug';
 import { needsMigration, migrateToHistoryStructure, createPreMigrationBackup } from './src/migration';
+import { SearchIndexService } from './src/services/search_index';
+import { EmbeddingIndexService } from './src/services/embedding_index';
+import { ContentRetrievalService } from './src/services/content_retrieval';
+import { resolveStorageDir } from './src/storage_paths';
+import { ProviderRegistry } from './src/providers';
+import { listPromptTemplates, isInTemplatesFolder } from './src/services/prompt_templates';
 
 export default class VaultBotPlugin extends Plugin {
 	settings: VaultBotPluginSettings;
 	commandHandler: CommandHandler;
+	private searchIndexExclusions = '';
+	private semanticIndexExclusions = '';
+	private semanticIndexTimer: number | null = null;
+	private promptTemplateCommands = new Set<string>();
+	private promptTemplatesFolder: string | null = null;
 
 	async onload() {
 		await this.loadSettings();
@@ -33,6 +45,12 @@ export default class VaultBotPlugin extends Plugin {
 			(leaf) => new ChatView(leaf, this)
 		);
 
+		// Register the usage dashboard view
+		this.registerView(
+			USAGE_DASHBOARD_VIEW_TYPE,
+			(leaf) => new UsageDashboardView(leaf, this)
+		);
+
 		// On startup, sort prior-day AI call logs into date folders (skip today), then solid-compress those folders
 		try { await zipOldAiCalls((this as any).app); } catch (err) { console.error('zipOldAiCalls failed:', err); }
 
@@ -56,6 +74,36 @@ export default class VaultBotPlugin extends Plugin {
 			}
 		});
 
+		this.addCommand({
+			id: 'rewrite-selection',
+			name: 'Rewrite Selection',
+			editorCallback: (editor, view) => {
+				if (view instanceof MarkdownView) {
+					this.commandHandler.handleRewriteSelection(editor, view);
+				}
+			}
+		});
+
+		this.addCommand({
+			id: 'continue-writing',
+			name: 'Continue Writing at Cursor',
+			editorCallback: (editor, view) => {
+				if (view instanceof MarkdownView) {
+					this.commandHandler.handleContinueWriting(editor, view);
+				}
+			}
+		});
+
+		this.addCommand({
+			id: 'fill-in-at-cursor',
+			name: 'Fill In at Cursor',
+			editorCallback: (editor, view) => {
+				if (view instanceof MarkdownView) {
+					this.commandHandler.handleContinueWriting(editor, view, true);
+				}
+			}
+		});
+
 		this.addCommand({
 		  id: 'stop-response',
 		  name: 'Stop Response',
@@ -83,6 +131,20 @@ export default class VaultBotPlugin extends Plugin {
 		  callback: () => openChatView(this)
 		});
 
+		// Add command to open another chat tab with its own conversation
+		this.addCommand({
+			id: 'open-new-ai-chat-tab',
+			name: 'Open New AI Chat Tab',
+			callback: () => openChatView(this, { newTab: true })
+		});
+
+		// Add command to open the AI usage and cost dashboard
+		this.addCommand({
+			id: 'open-usage-dashboard',
+			name: 'Open AI Usage Dashboard',
+			callback: () => openUsageDashboard(this)
+		});
+
 		// Add command to load chat from note
 		this.addCommand({
 		  id: 'load-chat-from-note',
@@ -98,6 +160,48 @@ export default class VaultBotPlugin extends Plugin {
 		  }
 		});
 
+		// Add command to rebuild the vault search index from scratch
+		this.addCommand({
+			id: 'rebuild-vault-search-index',
+			name: 'Rebuild Vault Search Index',
+			checkCallback: (checking) => {
+				const index = SearchIndexService.getInstance();
+				if (!index) return false;
+				if (!checking) {
+					void index.rebuild().then(() => new Notice(`Vault search index rebuilt: ${index.size} notes`));
+				}
+				return true;
+			}
+		});
+
+		// Keep the vault search index current; registered after layout ready so the
+		// initial 'create' events for every file don't each trigger a re-index
+		this.app.workspace.onLayoutReady(() => {
+			this.registerEvent(this.app.vault.on('create', (file) => {
+				void SearchIndexService.getInstance()?.onModify(file);
+				EmbeddingIndexService.getInstance()?.onModify(file);
+				if (isInTemplatesFolder(file.path, this.settings.promptTemplatesFolder || '')) this.updatePromptTemplateCommands();
+			}));
+			this.registerEvent(this.app.vault.on('modify', (file) => {
+				void SearchIndexService.getInstance()?.onModify(file);
+				EmbeddingIndexService.getInstance()?.onModify(file);
+			}));
+			this.registerEvent(this.app.vault.on('delete', (file) => {
+				SearchIndexService.getInstance()?.onDelete(file);
+				EmbeddingIndexService.getInstance()?.onDelete(file);
+				if (isInTemplatesFolder(file.path, this.settings.promptTemplatesFolder || '')) this.updatePromptTemplateCommands();
+			}));
+			this.registerEvent(this.app.vault.on('rename', (file, oldPath) => {
+				void SearchIndexService.getInstance()?.onRename(file, oldPath);
+				EmbeddingIndexService.getInstance()?.onRename(file, oldPath);
+				const folder = this.settings.promptTemplatesFolder || '';
+				if (isInTemplatesFolder(file.path, folder) || isInTemplatesFolder(oldPath, folder)) this.updatePromptTemplateCommands();
+			}));
+			this.updateSearchIndex();
+			this.updateSemanticIndex();
+			this.updatePromptTemplateCommands();
+		});
+
 		// Add ribbon icon for quick access to side panel
 		this.addRibbonIcon('bot', 'AI Bot Panel', () => {
 			openAiBotSidePanel(this);
@@ -107,7 +211,11 @@ export default class VaultBotPlugin extends Plugin {
 	}
 
 	onunload() {
-
+		void SearchIndexService.getInstance()?.close();
+		SearchIndexService.setInstance(null);
+		if (this.semanticIndexTimer !== null) window.clearTimeout(this.semanticIndexTimer);
+		void EmbeddingIndexService.getInstance()?.close();
+		EmbeddingIndexService.setInstance(null);
 	}
 
 	async loadSettings() {
@@ -119,15 +227,132 @@ export default class VaultBotPlugin extends Plugin {
 		await this.saveData(this.settings);
 		initDebugMode(this.settings);
 		this.commandHandler.onSettingsChanged();
+		this.updateSearchIndex();
+		this.updateSemanticIndex();
+		// Edits inside the folder are picked up by the vault events; only a new folder needs a refresh here
+		if ((this.settings.promptTemplatesFolder || '') !== this.promptTemplatesFolder) {
+			this.updatePromptTemplateCommands();
+		}
 		
-		// Refresh chat view if it's open
-		const chatLeaves = this.app.workspace.getLeavesOfType(CHAT_VIEW_TYPE);
-		if (chatLeaves.length > 0) {
-			const chatView = chatLeaves[0].view as ChatView;
+		// Refresh open chat views
+		for (const chatView of getChatViews(this.app)) {
 			chatView.refreshModelInfo();
 		}
 	}
 
+	/**
+	 * Start or stop the vault search index to match the Vault Search setting.
+	 * Excluded notes are filtered at query time, but notes that are no longer
+	 * excluded need a sync to be indexed.
+	 */
+	updateSearchIndex() {
+		const current = SearchIndexService.getInstance();
+		if (!this.settings.enableVaultSearch) {
+			if (current) {
+				void current.close();
+				SearchIndexService.setInstance(null);
+			}
+			return;
+		}
+		const exclusions = JSON.stringify(this.settings.noteExclusionsLevel1 || []);
+		if (current) {
+			if (exclusions !== this.searchIndexExclusions) {
+				this.searchIndexExclusions = exclusions;
+				void current.initialize().then(() => current.sync());
+			}
+			return;
+		}
+		this.searchIndexExclusions = exclusions;
+
+		const index = new SearchIndexService(
+			this.app,
+			resolveStorageDir('search-index', this.app),
+			(path) => new ContentRetrievalService(this.app, this.settings).isExcluded(path, 1)
+		);
+		SearchIndexService.setInstance(index);
+		index.initialize().catch((error) => console.error('Failed to build the vault search index:', error));
+	}
+
+	/**
+	 * Start, stop or restart the embedding index to match the Semantic Search settings.
+	 * A different provider or model needs new vectors, so the index is replaced.
+	 */
+	updateSemanticIndex() {
+		const providerId = this.settings.embeddingProvider || 'openai';
+		const model = this.settings.embeddingModel || '';
+		const modelKey = `${providerId}:${model}`;
+		const current = EmbeddingIndexService.getInstance();
+		if (current && (!this.settings.enableSemanticSearch || current.modelKey !== modelKey)) {
+			void current.close();
+			EmbeddingIndexService.setInstance(null);
+		}
+		if (this.semanticIndexTimer !== null) {
+			window.clearTimeout(this.semanticIndexTimer);
+			this.semanticIndexTimer = null;
+		}
+		if (!this.settings.enableSemanticSearch || !model) return;
+
+		const exclusions = JSON.stringify(this.settings.noteExclusionsLevel1 || []);
+		const running = EmbeddingIndexService.getInstance();
+		if (running) {
+			if (exclusions !== this.semanticIndexExclusions) {
+				this.semanticIndexExclusions = exclusions;
+				void running.sync();
+			}
+			return;
+		}
+
+		// Every keystroke in the model field saves settings; only embed once it settles
+		this.semanticIndexTimer = window.setTimeout(() => {
+			this.semanticIndexTimer = null;
+			this.semanticIndexExclusions = exclusions;
+			const index = new EmbeddingIndexService(
+				this.app,
+				resolveStorageDir('embeddings', this.app),
+				modelKey,
+				(texts, signal) => {
+					const provider = ProviderRegistry.getInstance().createProvider(providerId, this.settings.aiProviderSettings[providerId]);
+					if (!provider.embed) {
+						throw new Error(`${ProviderRegistry.getInstance().get(providerId)?.displayName || providerId} does not support embeddings`);
+					}
+					return provider.embed(texts, model, signal);
+				},
+				(path) => new ContentRetrievalService(this.app, this.settings).isExcluded(path, 1)
+			);
+			EmbeddingIndexService.setInstance(index);
+			index.initialize().catch((error) => console.error('Failed to load the semantic index:', error));
+		}, 2000);
+	}
+
+	/**
+	 * Register a "Prompt: ..." command for each note in the prompt templates folder and
+	 * remove the commands of templates that were deleted, renamed or moved out of it.
+	 */
+	updatePromptTemplateCommands() {
+		this.promptTemplatesFolder = this.settings.promptTemplatesFolder || '';
+		const templates = listPromptTemplates(this.app, this.promptTemplatesFolder);
+		const commandIds = new Set(templates.map(template => template.commandId));
+		const staleIds = Array.from(this.promptTemplateCommands).filter(id => !commandIds.has(id));
+		// Plugin.removeCommand is missing before Obsidian 1.7.2; there the old commands last until a reload
+		if (typeof this.removeCommand === 'function') {
+			for (const id of staleIds) this.removeCommand(id);
+		} else if (staleIds.length > 0) {
+			new Notice('Reload Obsidian to remove the commands of renamed or deleted prompt templates.');
+		}
+		for (const template of templates) {
+			this.addCommand({
+				id: template.commandId,
+				name: `Prompt: ${template.name}`,
+				editorCallback: (editor, view) => {
+					if (view instanceof MarkdownView) {
+						void this.commandHandler.handleRunPromptTemplate(editor, view, template.path);
+					}
+				}
+			});
+		}
+		this.promptTemplateCommands = commandIds;
+	}
+
 	/**
 	 * Checks if migration from old file structure to new history structure is needed
 	 * and performs the migration automatically with backup
@@ -1,7 +1,10 @@
 import { VaultBotPluginSettings } from './settings';
 import { type ChatMessage } from './recorder';
-import { ContentRetrievalService } from './services/content_retrieval';
-import { App, TFile } from 'obsidian';
+import { ContentRetrievalService, type RetrievedNote, type VaultMention } from './services/content_retrieval';
+import { allocateContext, describeContextDrops, type ContextDrop } from './services/context_budget';
+import { ModelService } from './services/model_service';
+import { VaultToolService } from './services/vault_tools';
+import { App, TFile, Notice } from 'obsidian';
 import { debugConsole } from './utils/debug';
 
 // Type for recording callback
@@ -9,21 +12,45 @@ export type RecordingCallback = (messages: ChatMessage[], model: string, options
 
 import { 
     AIProvider, 
-    OpenAIProvider, 
-    OpenRouterProvider, 
     AIMessage,
+    AIMessageContent,
+    AIContentPart,
     ModelInfo,
-    type OpenAIProviderSettings, 
-    type OpenRouterProviderSettings 
+    AIResponseMetadata,
+    TokenUsage,
+    ProviderRegistry,
+    getMessageText
 } from "./providers";
 
-export type ProviderType = 'openai' | 'openrouter';
-export type { AIMessage, ModelInfo };
+// Upper bound on model -> tools -> model round trips for a single request
+const MAX_TOOL_ROUNDS = 8;
+
+// Tokens kept free for the reply when the provider has no max_tokens setting
+const DEFAULT_RESPONSE_RESERVE = 4096;
+
+/**
+ * A request assembled by prepareRequest: the system prompt and conversation, plus the notes and
+ * images that will be attached to the last user message. Edit it before sendPreparedRequest to
+ * change what goes out.
+ */
+export interface PreparedRequest {
+    messages: AIMessage[];
+    notes: RetrievedNote[];
+    imageParts: AIContentPart[];
+    dropped: ContextDrop[]; // left out or truncated to fit the context window
+    model: string;
+    contextLength?: number;
+}
+
+// Provider ids are whatever has been registered with the ProviderRegistry
+export type ProviderType = string;
+export type { AIMessage, ModelInfo, AIResponseMetadata };
 
 export class AIProviderWrapper {
     private settings: VaultBotPluginSettings;
     private provider: AIProvider;
     private contentRetrievalService?: ContentRetrievalService;
+    private vaultToolService?: VaultToolService;
 
     constructor(settings: VaultBotPluginSettings, app?: App) {
         this.settings = settings;
@@ -31,24 +58,14 @@ export class AIProviderWrapper {
         
         if (app) {
             this.contentRetrievalService = new ContentRetrievalService(app, settings);
+            this.vaultToolService = new VaultToolService(app, this.contentRetrievalService);
         }
     }
 
     private createProvider(): AIProvider {
         const providerType = this.settings.apiProvider as ProviderType;
-
-        switch (providerType) {
-            case 'openai':
-                const openaiSettings = this.settings.aiProviderSettings['openai'] as OpenAIProviderSettings;
-                return new OpenAIProvider(openaiSettings);
-            
-            case 'openrouter':
-                const openrouterSettings = this.settings.aiProviderSettings['openrouter'] as OpenRouterProviderSettings;
-                return new OpenRouterProvider(openrouterSettings);
-            
-            default:
-                throw new Error(`Unsupported AI provider: ${providerType}`);
-        }
+        const providerSettings = this.settings.aiProviderSettings[providerType];
+        return ProviderRegistry.getInstance().createProvider(providerType, providerSettings);
     }
 
     async getStreamingResponse(
@@ -57,7 +74,7 @@ export class AIProviderWrapper {
         signal: AbortSignal,
         recordingCallback?: RecordingCallback,
         currentFile?: TFile
-    ): Promise<void> {
+    ): Promise<AIResponseMetadata> {
         // Normalize single prompt to message array and use wrapper's conversation method
         const messages = this.normalizeToMessages(prompt);
         return this.getStreamingResponseWithConversation(messages, onUpdate, signal, recordingCallback, currentFile);
@@ -69,14 +86,37 @@ export class AIProviderWrapper {
         signal: AbortSignal,
         recordingCallback?: RecordingCallback,
         currentFile?: TFile,
-        isConversationMode?: boolean
-    ): Promise<void> {
-        // Enhance messages with linked content if content retrieval service is available
-        const enhancedMessages = await this.enhanceMessagesWithContent(messages, currentFile, isConversationMode);
+        isConversationMode?: boolean,
+        mentions?: VaultMention[]
+    ): Promise<AIResponseMetadata> {
+        const request = await this.prepareRequest(messages, currentFile, isConversationMode, mentions);
+        return this.sendPreparedRequest(request, onUpdate, signal, recordingCallback);
+    }
+
+    /**
+     * Assemble everything that would be sent (system prompt, conversation, retrieved notes and
+     * images, trimmed to the context window) without sending it, so it can be reviewed first.
+     * Mentioned files, folders and tags are included whatever the retrieval settings are.
+     */
+    async prepareRequest(messages: AIMessage[], currentFile?: TFile, isConversationMode?: boolean, mentions?: VaultMention[]): Promise<PreparedRequest> {
+        // Gather linked content and images if content retrieval service is available
+        const { notes, imageParts } = await this.retrieveContext(messages, currentFile, isConversationMode, mentions);
         
         // Prepend system prompt if it doesn't already exist and system prompt is configured
-        const messagesWithSystemPrompt = this.prependSystemPrompt(enhancedMessages);
-        
+        const messagesWithSystemPrompt = this.prependSystemPrompt(messages);
+
+        // Trim to the model's context window
+        return this.fitToContextWindow(messagesWithSystemPrompt, notes, imageParts);
+    }
+
+    async sendPreparedRequest(
+        request: PreparedRequest,
+        onUpdate: (text: string) => void,
+        signal: AbortSignal,
+        recordingCallback?: RecordingCallback
+    ): Promise<AIResponseMetadata> {
+        const messagesToSend = this.assembleMessages(request);
+
         // Record the exact messages being sent if callback provided
         if (recordingCallback && this.settings.recordApiCalls) {
             const providerType = this.settings.apiProvider as ProviderType;
@@ -86,15 +126,57 @@ export class AIProviderWrapper {
             const options = { temperature };
             
             // Convert AIMessage[] to ChatMessage[] for recording
-            const chatMessages: ChatMessage[] = messagesWithSystemPrompt.map(msg => ({
+            const chatMessages: ChatMessage[] = messagesToSend.map(msg => ({
                 role: msg.role,
-                content: msg.content
+                content: toRecordedContent(msg.content)
             }));
             
             recordingCallback(chatMessages, model, options);
         }
         
-        return this.provider.getStreamingResponseWithConversation(messagesWithSystemPrompt, onUpdate, signal);
+        return this.streamWithTools(messagesToSend, onUpdate, signal);
+    }
+
+    /**
+     * Stream a response, running any vault tools the model asks for and feeding the results
+     * back until it answers. Without an app or with tools disabled this is a single request.
+     */
+    private async streamWithTools(messages: AIMessage[], onUpdate: (text: string) => void, signal: AbortSignal): Promise<AIResponseMetadata> {
+        if (!this.vaultToolService || !this.settings.enableVaultTools) {
+            return this.provider.getStreamingResponseWithConversation(messages, onUpdate, signal);
+        }
+
+        const tools = this.vaultToolService.getToolDefinitions();
+        const conversation = [...messages];
+        let usage: TokenUsage | undefined;
+        let streamedText = false;
+
+        for (let round = 1; ; round++) {
+            let roundText = '';
+            const metadata = await this.provider.getStreamingResponseWithConversation(conversation, (text) => {
+                if (!text) return;
+                // Keep text from separate rounds from running together
+                if (!roundText && streamedText) onUpdate('\n\n');
+                roundText += text;
+                streamedText = true;
+                onUpdate(text);
+            }, signal, { tools });
+            usage = addUsage(usage, metadata.usage);
+
+            if (!metadata.tool_calls?.length || signal.aborted) {
+                return { ...metadata, usage };
+            }
+            if (round >= MAX_TOOL_ROUNDS) {
+                new Notice(`Stopped after ${MAX_TOOL_ROUNDS} rounds of vault tool calls`);
+                return { ...metadata, usage, tool_calls: undefined };
+            }
+
+            conversation.push({ role: 'assistant', content: roundText, tool_calls: metadata.tool_calls });
+            for (const call of metadata.tool_calls) {
+                const result = await this.vaultToolService.executeToolCall(call);
+                conversation.push({ role: 'tool', tool_call_id: call.id, name: call.name, content: result });
+            }
+        }
     }
 
     async listModels(): Promise<ModelInfo[]> {
@@ -133,92 +215,156 @@ export class AIProviderWrapper {
         ];
     }
 
-    private async enhanceMessagesWithContent(messages: AIMessage[], currentFile?: TFile, isConversationMode?: boolean): Promise<AIMessage[]> {
+    private async retrieveContext(messages: AIMessage[], currentFile?: TFile, isConversationMode?: boolean, mentions: VaultMention[] = []): Promise<{ notes: RetrievedNote[]; imageParts: AIContentPart[] }> {
+        const none = { notes: [], imageParts: [] };
         if (!this.contentRetrievalService) {
-            return messages; // No content retrieval service available
+            return none; // No content retrieval service available
         }
 
         // Check if any content retrieval features are enabled
         const hasContentFeatures = this.settings.includeCurrentNote || 
                                    this.settings.includeOpenNotes || 
-                                   this.settings.includeLinkedNotes;
+                                   this.settings.includeLinkedNotes ||
+                                   this.settings.enableVaultSearch ||
+                                   this.settings.enableSemanticSearch ||
+                                   this.settings.includeBacklinks ||
+                                   this.settings.includeGraphNeighborhood;
+        const includeImages = this.settings.includeImages !== false;
         
-        if (!hasContentFeatures) {
-            return messages; // No content features enabled
+        if (!hasContentFeatures && !includeImages && mentions.length === 0) {
+            return none; // No content features enabled and nothing mentioned
         }
 
         try {
-            // Get the last user message to analyze for links
+            // Get the last user message to analyze for links and images
             const lastUserMessage = messages.filter(msg => msg.role === 'user').pop();
             if (!lastUserMessage) {
-                return messages; // No user message to analyze
+                return none; // No user message to analyze
             }
+            const messageText = getMessageText(lastUserMessage.content);
 
             // In conversation mode, exclude current file content to avoid duplication of conversation history
             const excludeCurrentFileContent = isConversationMode && messages.length > 1;
 
             // Retrieve content based on settings
-            const retrievedNotes = await this.contentRetrievalService.retrieveContent(
-                lastUserMessage.content, 
-                currentFile,
-                excludeCurrentFileContent
-            );
-
-            if (retrievedNotes.length === 0) {
-                return messages; // No content retrieved
-            }
+            const retrieved = hasContentFeatures
+                ? await this.contentRetrievalService.retrieveContent(messageText, currentFile, excludeCurrentFileContent)
+                : [];
 
-            // Format the retrieved content
-            const formattedContent = this.contentRetrievalService.formatNotesForAI(retrievedNotes);
+            // Mentioned notes go first, and notes retrieved by the settings don't repeat them
+            const mentionNotes = mentions.length > 0 ? await this.contentRetrievalService.retrieveMentions(mentions) : [];
+            const mentioned = new Set(mentionNotes.map(note => note.path));
+            const notes = [...mentionNotes, ...retrieved.filter(note => !mentioned.has(note.file.path))];
 
-            // Create a new array of messages with the enhanced last user message
-            const enhancedMessages = [...messages];
-            
-            // Find the last user message index and enhance it
-            for (let i = enhancedMessages.length - 1; i >= 0; i--) {
-                if (enhancedMessages[i].role === 'user') {
-                    let updatedContent = enhancedMessages[i].content + formattedContent;
-
-                    // If any images were returned in retrieved notes, attempt to upload them via provider
-                    try {
-                        const imageRefs = retrievedNotes.flatMap(n => (n as any).images || []);
-                        for (const img of imageRefs) {
-                            if (!img || !img.raw) continue;
-                            try {
-                                let uploadResult: { url?: string; id?: string } | null = null;
-                                if (img.sourceType === 'data' && this.provider.uploadImageFromDataURI) {
-                                    uploadResult = await this.provider.uploadImageFromDataURI(img.raw, img.filename || img.alt);
-                                } else if (img.sourceType === 'url' && this.provider.uploadImageFromUrl) {
-                                    uploadResult = await this.provider.uploadImageFromUrl(img.raw, img.filename || img.alt);
-                                }
-
-                                if (uploadResult && (uploadResult.url || uploadResult.id)) {
-                                    const replacement = uploadResult.url || uploadResult.id || img.raw;
-                                    // Replace occurrences of the raw string in the updated content with a provider URL placeholder
-                                    updatedContent = updatedContent.split(img.raw).join(replacement);
-                                }
-                            } catch (err) {
-                                debugConsole.warn('Image upload failed, leaving original reference.', err);
-                            }
-                        }
-                    } catch (err) {
-                        debugConsole.warn('Failed to process image uploads for retrieved notes:', err);
-                    }
-
-                    enhancedMessages[i] = {
-                        ...enhancedMessages[i],
-                        content: updatedContent
-                    };
-                    break;
-                }
-            }
+            // Images from the message itself and from every included note go to the model as image parts
+            const imageParts = includeImages
+                ? await this.contentRetrievalService.loadImageParts([
+                    ...this.contentRetrievalService.findImages(messageText, currentFile?.path),
+                    ...notes.flatMap(note => note.images || [])
+                ])
+                : [];
 
-            return enhancedMessages;
+            return { notes, imageParts };
         } catch (error) {
             console.error('Error enhancing messages with content:', error);
-            // Return original messages if enhancement fails
-            return messages;
+            // Send the original messages if enhancement fails
+            return none;
+        }
+    }
+
+    /**
+     * Trim notes and older history by priority when the model's context window is known to be too small
+     */
+    private async fitToContextWindow(messages: AIMessage[], notes: RetrievedNote[], imageParts: AIContentPart[]): Promise<PreparedRequest> {
+        const model = this.getModelId();
+        const lastUserIndex = findLastUserIndex(messages);
+        const contextLength = await this.getContextLength();
+        if (lastUserIndex === -1 || !contextLength) {
+            return { messages, notes, imageParts, dropped: [], model, contextLength };
+        }
+
+        const systemPrompt = messages[0].role === 'system' && lastUserIndex > 0 ? messages[0] : undefined;
+        const plan = allocateContext({
+            contextLength,
+            reservedForResponse: this.getResponseReserve(contextLength),
+            systemPrompt,
+            history: messages.slice(systemPrompt ? 1 : 0, lastUserIndex),
+            latestTurn: [this.attachContent(messages[lastUserIndex], [], imageParts), ...messages.slice(lastUserIndex + 1)],
+            notes
+        });
+
+        if (plan.dropped.length > 0) {
+            const summary = describeContextDrops(plan.dropped, model);
+            debugConsole.log(summary, plan);
+            new Notice(summary, 8000);
+        }
+        if (plan.estimatedTokens > plan.budget) {
+            new Notice(`This message may be too long for ${model} (about ${plan.estimatedTokens.toLocaleString()} of ${plan.budget.toLocaleString()} tokens)`);
         }
+
+        return {
+            messages: [...(systemPrompt ? [systemPrompt] : []), ...plan.history, ...messages.slice(lastUserIndex)],
+            notes: plan.notes,
+            imageParts,
+            dropped: plan.dropped,
+            model,
+            contextLength
+        };
+    }
+
+    /**
+     * The final message list: retrieved notes and images go on the last user message
+     */
+    assembleMessages(request: PreparedRequest): AIMessage[] {
+        const lastUserIndex = findLastUserIndex(request.messages);
+        if (lastUserIndex === -1) {
+            return request.messages;
+        }
+        const messages = [...request.messages];
+        messages[lastUserIndex] = this.attachContent(messages[lastUserIndex], request.notes, request.imageParts);
+        return messages;
+    }
+
+    private attachContent(message: AIMessage, notes: RetrievedNote[], imageParts: AIContentPart[]): AIMessage {
+        if (notes.length === 0 && imageParts.length === 0) {
+            return message;
+        }
+        const text = getMessageText(message.content) + (notes.length > 0 && this.contentRetrievalService
+            ? this.contentRetrievalService.formatNotesForAI(notes)
+            : '');
+        const existingImages = typeof message.content === 'string' ? [] : message.content.filter(part => part.type !== 'text');
+        const images = [...existingImages, ...imageParts];
+        return {
+            ...message,
+            content: images.length > 0 ? [{ type: 'text', text }, ...images] : text
+        };
+    }
+
+    private getModelId(): string {
+        const providerSettings = this.settings.aiProviderSettings[this.settings.apiProvider as ProviderType];
+        return providerSettings && 'model' in providerSettings ? (providerSettings as any).model || '' : '';
+    }
+
+    /**
+     * Context length reported by the provider's model list, if any
+     */
+    private async getContextLength(): Promise<number | undefined> {
+        const model = this.getModelId();
+        if (!model) return undefined;
+        try {
+            const models = await ModelService.getInstance().getModels(this.settings);
+            return models?.find(m => m.id === model)?.context_length;
+        } catch (error) {
+            debugConsole.warn('Could not look up context length:', error);
+            return undefined;
+        }
+    }
+
+    private getResponseReserve(contextLength: number): number {
+        const providerSettings = this.settings.aiProviderSettings[this.settings.apiProvider as ProviderType] as any;
+        const requested = providerSettings?.max_tokens || DEFAULT_RESPONSE_RESERVE;
+        // Never let the reserve crowd out the prompt on small models
+        return Math.min(requested, Math.floor(contextLength / 4));
     }
 
     public getSystemPrompt(): string | null {
@@ -282,5 +428,32 @@ export class AIProviderWrapper {
     }
 }
 
+function findLastUserIndex(messages: AIMessage[]): number {
+    for (let i = messages.length - 1; i >= 0; i--) {
+        if (messages[i].role === 'user') return i;
+    }
+    return -1;
+}
+
+function addUsage(total: TokenUsage | undefined, next: TokenUsage | undefined): TokenUsage | undefined {
+    if (!next) return total;
+    if (!total) return { ...next };
+    return {
+        prompt_tokens: total.prompt_tokens + next.prompt_tokens,
+        completion_tokens: total.completion_tokens + next.completion_tokens,
+        total_tokens: total.total_tokens + next.total_tokens
+    };
+}
+
+// Recordings keep a placeholder for each image rather than the image data
+function toRecordedContent(content: AIMessageContent): string {
+    if (typeof content === 'string') return content;
+    return content.map(part => {
+        if (part.type === 'text') return part.text;
+        const label = part.name || (part.type === 'image_url' ? part.url : part.mime_type);
+        return `[image: ${label}]`;
+    }).join('\n\n');
+}
+
 // Re-export types for backward compatibility
-export type { OpenAIProviderSettings, OpenRouterProviderSettings } from "./providers";
+export type { OpenAIProviderSettings, OpenRouterProviderSettings, AnthropicProviderSettings, OpenAICompatibleProviderSettings } from "./providers";
@@ -58,11 +58,8 @@ function uniqueName(basename: string, existing: Set<string>): string {
   return `${name}_${Date.now()}${ext}`; // last resort
 }
 
-async function create7z(target7z: string, files: string[], baseDir: string): Promise<void> {
-  await fs.promises.mkdir(path.dirname(target7z), { recursive: true });
-  const tmp = `${target7z}.tmp-${Date.now()}-${Math.random().toString(36).slice(2,8)}`;
-
-  // Prefer a locally bundled 7za in bin/ near the plugin, with multiple candidate locations, fallback to package binary
+// Prefer a locally bundled 7za in bin/ near the plugin, with multiple candidate locations, fallback to package binary
+async function resolve7zaPath(baseDir: string): Promise<string> {
   let sevenZipPath = path7zaPkg;
   try {
     const exe = process.platform === 'win32' ? '7za.exe' : '7za';
@@ -87,44 +84,61 @@ async function create7z(target7z: string, files: string[], baseDir: string): Pro
       if (st?.isFile()) { sevenZipPath = cand; break; }
     }
   } catch {}
+  return sevenZipPath;
+}
 
-  const rels = files.map(f => path.relative(baseDir, f));
-  await new Promise<void>((resolve, reject) => {
-    const args = [
-      'a',              // add
-      '-t7z',           // 7z format
-      '-mx=9',          // max compression
-      '-m0=lzma2',      // LZMA2 method
-      '-ms=on',         // solid compression
-      '-mmt=on',        // multithread
-      '-spf',           // use fully qualified paths safely
-      '-y',             // assume yes
-      tmp,
-      ...rels
-    ];
-    const child = spawn(sevenZipPath, args, { cwd: baseDir });
+function run7z(sevenZipPath: string, args: string[], cwd: string): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    const child = spawn(sevenZipPath, args, { cwd });
     let stderr = '';
     child.stderr.on('data', d => { stderr += d.toString(); });
     child.on('error', reject);
-    child.on('close', async (code) => {
-      if (code === 0) {
-        try {
-          await fs.promises.rename(tmp, target7z).catch(async () => {
-            try { await fs.promises.unlink(target7z); } catch {}
-            await fs.promises.rename(tmp, target7z);
-          });
-          resolve();
-        } catch (e) {
-          reject(e);
-        }
-      } else {
-        try { await fs.promises.unlink(tmp); } catch {}
-        reject(new Error(`7z exited with code ${code}: ${stderr}`));
-      }
+    child.on('close', (code) => {
+      if (code === 0) resolve();
+      else reject(new Error(`7z exited with code ${code}: ${stderr}`));
     });
   });
 }
 
+async function create7z(target7z: string, files: string[], baseDir: string): Promise<void> {
+  await fs.promises.mkdir(path.dirname(target7z), { recursive: true });
+  const tmp = `${target7z}.tmp-${Date.now()}-${Math.random().toString(36).slice(2,8)}`;
+  const sevenZipPath = await resolve7zaPath(baseDir);
+
+  const rels = files.map(f => path.relative(baseDir, f));
+  const args = [
+    'a',              // add
+    '-t7z',           // 7z format
+    '-mx=9',          // max compression
+    '-m0=lzma2',      // LZMA2 method
+    '-ms=on',         // solid compression
+    '-mmt=on',        // multithread
+    '-spf',           // use fully qualified paths safely
+    '-y',             // assume yes
+    tmp,
+    ...rels
+  ];
+  try {
+    await run7z(sevenZipPath, args, baseDir);
+  } catch (err) {
+    try { await fs.promises.unlink(tmp); } catch {}
+    throw err;
+  }
+  await fs.promises.rename(tmp, target7z).catch(async () => {
+    try { await fs.promises.unlink(target7z); } catch {}
+    await fs.promises.rename(tmp, target7z);
+  });
+}
+
+/**
+ * Extract an ai-calls archive into destDir (created if needed), using the same 7za lookup as archiving
+ */
+export async function extractAiCallsArchive(archivePath: string, destDir: string): Promise<void> {
+  await ensureDir(destDir);
+  const sevenZipPath = await resolve7zaPath(path.dirname(archivePath));
+  await run7z(sevenZipPath, ['x', '-y', `-o${destDir}`, archivePath], path.dirname(archivePath));
+}
+
 export async function zipOldAiCalls(appLike?: any, now: Date = new Date()): Promise<void> {
   const dir = resolveAiCallsDir(appLike);
 
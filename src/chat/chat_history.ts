@@ -0,0 +1,273 @@
+/**
+ * Conversation history pane for the chat view: stored conversations grouped by date, with
+ * search across message content, rename, pin, delete and click-to-resume. The view supplies
+ * the list from ChatStorage's index a page at a time.
+ */
+
+import { ChatConversation } from './chat_types';
+import type { ConversationSearchMatch, ConversationSummary } from './chat_storage';
+
+export interface ConversationGroup {
+  label: string;
+  conversations: ConversationSummary[];
+}
+
+export interface ConversationMatch {
+  snippet: string | null; // text around the first match in a message, null when only the title matched
+}
+
+export interface ChatHistoryCallbacks {
+  onOpen: (conversationId: string) => void;
+  onRename: (conversationId: string, title: string) => void;
+  onDelete: (conversationId: string) => void;
+  onTogglePin: (conversationId: string) => void;
+  onSearch: (query: string) => void;
+  onLoadMore: () => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SNIPPET_CONTEXT = 40;
+
+function startOfDay(date: Date): number {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+}
+
+/**
+ * Group conversations by when they were last updated, pinned ones first. Conversations keep
+ * their order within a group.
+ */
+export function groupConversationsByDate(conversations: ConversationSummary[], now: Date = new Date()): ConversationGroup[] {
+  const groups: ConversationGroup[] = [];
+  const add = (label: string, conversation: ConversationSummary) => {
+    let group = groups.find(g => g.label === label);
+    if (!group) {
+      group = { label, conversations: [] };
+      groups.push(group);
+    }
+    group.conversations.push(conversation);
+  };
+
+  const pinned = conversations.filter(c => c.pinned);
+  if (pinned.length > 0) groups.push({ label: 'Pinned', conversations: pinned });
+
+  const today = startOfDay(now);
+  for (const conversation of conversations) {
+    if (conversation.pinned) continue;
+    const daysAgo = Math.round((today - startOfDay(conversation.updatedAt)) / DAY_MS);
+    if (daysAgo <= 0) add('Today', conversation);
+    else if (daysAgo === 1) add('Yesterday', conversation);
+    else if (daysAgo < 7) add('Previous 7 days', conversation);
+    else if (daysAgo < 30) add('Previous 30 days', conversation);
+    else add(conversation.updatedAt.toLocaleDateString([], { month: 'long', year: 'numeric' }), conversation);
+  }
+
+  return groups;
+}
+
+/**
+ * Whether the conversation's title or messages contain every word of the query, ignoring case
+ */
+export function matchConversation(conversation: ChatConversation, query: string): ConversationMatch | null {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return { snippet: null };
+
+  const messages = [...conversation.messages, ...(conversation.alternates || [])];
+  const haystack = [conversation.title, ...messages.map(m => m.content)].join('\n').toLowerCase();
+  if (!terms.every(term => haystack.includes(term))) return null;
+
+  for (const message of messages) {
+    const content = message.content;
+    const index = content.toLowerCase().indexOf(terms[0]);
+    if (index === -1) continue;
+    const start = Math.max(0, index - SNIPPET_CONTEXT);
+    const end = Math.min(content.length, index + terms[0].length + SNIPPET_CONTEXT);
+    return { snippet: `${start > 0 ? '…' : ''}${content.slice(start, end).replace(/\s+/g, ' ').trim()}${end < content.length ? '…' : ''}` };
+  }
+  return { snippet: null };
+}
+
+export class ChatHistoryPane {
+  private element: HTMLElement;
+  private searchInput: HTMLInputElement;
+  private listEl: HTMLElement;
+  private callbacks: ChatHistoryCallbacks;
+  private items: ConversationSearchMatch[] = [];
+  private hasMore = false;
+  private activeId: string | null = null;
+  private renamingId: string | null = null;
+  private confirmingDeleteId: string | null = null;
+  private searchTimeout: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(container: HTMLElement, callbacks: ChatHistoryCallbacks) {
+    this.callbacks = callbacks;
+    this.element = container.createDiv('chat-history-pane');
+    this.searchInput = this.element.createEl('input', {
+      type: 'search',
+      cls: 'chat-history-search',
+      attr: { placeholder: 'Search conversations...' }
+    });
+    // Searching reads every stored conversation, so wait for a pause in typing
+    this.searchInput.addEventListener('input', () => {
+      if (this.searchTimeout) clearTimeout(this.searchTimeout);
+      this.searchTimeout = setTimeout(() => {
+        this.searchTimeout = null;
+        this.callbacks.onSearch(this.getQuery());
+      }, 250);
+    });
+    this.listEl = this.element.createDiv('chat-history-list');
+  }
+
+  /**
+   * Get the DOM element for this pane
+   */
+  getElement(): HTMLElement {
+    return this.element;
+  }
+
+  getQuery(): string {
+    return this.searchInput.value.trim();
+  }
+
+  /**
+   * Show these conversations in the order given, marking the open one. `hasMore` adds a
+   * button for loading the next page.
+   */
+  setConversations(items: ConversationSearchMatch[], activeId: string | null, hasMore: boolean): void {
+    this.items = items;
+    this.activeId = activeId;
+    this.hasMore = hasMore;
+    this.renamingId = null;
+    this.confirmingDeleteId = null;
+    this.renderList();
+  }
+
+  focusSearch(): void {
+    this.searchInput.focus();
+  }
+
+  /**
+   * Render the grouped list
+   */
+  private renderList(): void {
+    this.listEl.empty();
+
+    if (this.items.length === 0) {
+      this.listEl.createDiv({
+        cls: 'chat-history-empty',
+        text: this.getQuery() ? 'No conversations match your search' : 'No saved conversations yet'
+      });
+      return;
+    }
+
+    const snippets = new Map(this.items.map(item => [item.summary.id, item.snippet] as [string, string | null]));
+    for (const group of groupConversationsByDate(this.items.map(item => item.summary))) {
+      const groupEl = this.listEl.createDiv('chat-history-group');
+      groupEl.createDiv({ cls: 'chat-history-group-label', text: group.label });
+      for (const conversation of group.conversations) {
+        this.renderItem(groupEl, conversation, snippets.get(conversation.id) || null);
+      }
+    }
+
+    if (this.hasMore) {
+      const moreBtn = this.listEl.createEl('button', { cls: 'chat-history-more', text: 'Show more' });
+      moreBtn.onclick = () => this.callbacks.onLoadMore();
+    }
+  }
+
+  /**
+   * Render one conversation row with its actions
+   */
+  private renderItem(container: HTMLElement, conversation: ConversationSummary, snippet: string | null): void {
+    const itemEl = container.createDiv('chat-history-item');
+    itemEl.toggleClass('is-active', conversation.id === this.activeId);
+    itemEl.toggleClass('is-pinned', !!conversation.pinned);
+
+    const mainEl = itemEl.createDiv('chat-history-item-main');
+    if (conversation.id === this.renamingId) {
+      this.renderRenameInput(mainEl, conversation);
+    } else {
+      mainEl.createDiv({ cls: 'chat-history-item-title', text: conversation.title });
+      mainEl.onclick = () => this.callbacks.onOpen(conversation.id);
+    }
+
+    const messageCount = conversation.messageCount;
+    mainEl.createDiv({
+      cls: 'chat-history-item-meta',
+      text: [
+        conversation.updatedAt.toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' }),
+        `${messageCount} message${messageCount === 1 ? '' : 's'}`,
+        conversation.model
+      ].filter(Boolean).join(' · ')
+    });
+    if (snippet || conversation.preview) {
+      mainEl.createDiv({ cls: 'chat-history-item-snippet', text: snippet || conversation.preview });
+    }
+
+    const actionsEl = itemEl.createDiv('chat-history-item-actions');
+    this.createActionButton(actionsEl, conversation.pinned ? 'Unpin' : 'Pin', '📌', () => {
+      this.callbacks.onTogglePin(conversation.id);
+    }).toggleClass('is-pinned', !!conversation.pinned);
+    this.createActionButton(actionsEl, 'Rename', '✏️', () => {
+      this.renamingId = conversation.id;
+      this.renderList();
+    });
+
+    // Deleting takes a second click to confirm
+    const confirming = conversation.id === this.confirmingDeleteId;
+    const deleteBtn = this.createActionButton(actionsEl, confirming ? 'Click again to delete' : 'Delete', confirming ? 'Delete?' : '🗑️', () => {
+      if (confirming) {
+        this.confirmingDeleteId = null;
+        this.callbacks.onDelete(conversation.id);
+      } else {
+        this.confirmingDeleteId = conversation.id;
+        this.renderList();
+      }
+    });
+    deleteBtn.addClass('chat-history-action-delete');
+  }
+
+  /**
+   * Inline title editor; Enter saves and Escape cancels
+   */
+  private renderRenameInput(container: HTMLElement, conversation: ConversationSummary): void {
+    const input = container.createEl('input', { type: 'text', cls: 'chat-history-rename' });
+    input.value = conversation.title;
+
+    let done = false;
+    const finish = (save: boolean) => {
+      if (done) return;
+      done = true;
+      this.renamingId = null;
+      const title = input.value.trim();
+      if (save && title && title !== conversation.title) {
+        this.callbacks.onRename(conversation.id, title);
+      } else {
+        this.renderList();
+      }
+    };
+
+    input.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter') {
+        e.preventDefault();
+        finish(true);
+      } else if (e.key === 'Escape') {
+        finish(false);
+      }
+    });
+    input.addEventListener('blur', () => finish(true));
+
+    setTimeout(() => {
+      input.focus();
+      input.select();
+    }, 0);
+  }
+
+  private createActionButton(container: HTMLElement, tooltip: string, text: string, onClick: () => void): HTMLElement {
+    const btn = container.createEl('button', { cls: 'chat-history-action', text, attr: { title: tooltip } });
+    btn.onclick = (e) => {
+      e.stopPropagation();
+      onClick();
+    };
+    return btn;
+  }
+}
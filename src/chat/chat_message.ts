@@ -3,6 +3,8 @@
  */
 
 import { ChatMessage } from './chat_types';
+import type { MessageBranchInfo } from './message_tree';
+import { createMentionChip } from './mention_suggest';
 import { MarkdownRenderer, Component } from 'obsidian';
 import { debugConsole } from '../utils/debug';
 
@@ -11,6 +13,7 @@ export interface ChatMessageCallbacks {
   onDelete: (messageId: string) => void;
   onCopy: (content: string) => void;
   onRegenerate: (messageId: string) => void;
+  onSwitchBranch: (messageId: string, step: number) => void;
 }
 
 export class ChatMessageComponent {
@@ -21,15 +24,18 @@ export class ChatMessageComponent {
   private editTextarea: HTMLTextAreaElement | null = null;
   private renderingMode: 'reading' | 'source' = 'reading';
   private component: Component | null = null;
+  private branch: MessageBranchInfo | null = null;
 
   constructor(
     message: ChatMessage,
     callbacks: ChatMessageCallbacks,
-    renderingMode: 'reading' | 'source' = 'reading'
+    renderingMode: 'reading' | 'source' = 'reading',
+    branch: MessageBranchInfo | null = null
   ) {
     this.message = message;
     this.callbacks = callbacks;
     this.renderingMode = renderingMode;
+    this.branch = branch;
     this.element = this.createElement();
   }
 
@@ -98,6 +104,11 @@ export class ChatMessageComponent {
     roleEl.textContent = this.capitalizeRole(this.message.role);
     header.appendChild(roleEl);
     
+    // Navigation between alternate versions of this turn
+    if (this.branch && this.branch.count > 1 && !isStreaming) {
+      header.appendChild(this.createBranchNavigation(this.branch));
+    }
+    
     const timestampEl = document.createElement('span');
     timestampEl.className = 'chat-message-timestamp';
     timestampEl.textContent = this.formatTimestamp(this.message.timestamp);
@@ -125,6 +136,16 @@ export class ChatMessageComponent {
     
     this.element.appendChild(contentEl);
     
+    // Notes, folders and tags that were mentioned with this turn
+    if (this.message.attachments?.length && !isEditing) {
+      const attachmentsEl = document.createElement('div');
+      attachmentsEl.className = 'chat-message-attachments';
+      for (const mention of this.message.attachments) {
+        createMentionChip(attachmentsEl, mention);
+      }
+      this.element.appendChild(attachmentsEl);
+    }
+    
     // Hover actions (only show for non-system messages and when not editing)
     if (this.message.role !== 'system' && !isEditing && !isStreaming) {
       const actionsEl = this.createActionsElement();
@@ -132,6 +153,37 @@ export class ChatMessageComponent {
     }
   }
 
+  /**
+   * Create the "◀ 2/3 ▶" control for switching between alternates
+   */
+  private createBranchNavigation(branch: MessageBranchInfo): HTMLElement {
+    const navEl = document.createElement('span');
+    navEl.className = 'chat-message-branch-nav';
+    
+    const prevBtn = document.createElement('button');
+    prevBtn.className = 'chat-message-branch-prev';
+    prevBtn.title = 'Previous version';
+    prevBtn.textContent = '◀';
+    prevBtn.disabled = branch.index === 0;
+    prevBtn.onclick = () => this.callbacks.onSwitchBranch(this.message.id, -1);
+    
+    const countEl = document.createElement('span');
+    countEl.className = 'chat-message-branch-count';
+    countEl.textContent = `${branch.index + 1}/${branch.count}`;
+    
+    const nextBtn = document.createElement('button');
+    nextBtn.className = 'chat-message-branch-next';
+    nextBtn.title = 'Next version';
+    nextBtn.textContent = '▶';
+    nextBtn.disabled = branch.index >= branch.count - 1;
+    nextBtn.onclick = () => this.callbacks.onSwitchBranch(this.message.id, 1);
+    
+    navEl.appendChild(prevBtn);
+    navEl.appendChild(countEl);
+    navEl.appendChild(nextBtn);
+    return navEl;
+  }
+
   /**
    * Render message in view mode
    */
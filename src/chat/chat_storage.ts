@@ -4,8 +4,116 @@
 
 import { App, TFile } from 'obsidian';
 import { ChatConversation, ChatMessage } from './chat_types';
+import { matchConversation } from './chat_history';
+
+const INDEX_FILENAME = 'index.json';
+const INDEX_VERSION = 1;
+const PREVIEW_LENGTH = 120;
+
+/**
+ * What the conversation index keeps about each stored conversation, enough to list and sort
+ * them without reading their messages
+ */
+export interface ConversationSummary {
+  id: string;
+  title: string;
+  createdAt: Date;
+  updatedAt: Date;
+  messageCount: number;
+  model?: string;
+  preview: string; // start of the first user message
+  pinned?: boolean;
+}
+
+export interface ConversationPage {
+  conversations: ConversationSummary[];
+  total: number;
+}
+
+export interface ConversationSearchMatch {
+  summary: ConversationSummary;
+  snippet: string | null;
+}
+
+export function summarizeConversation(conversation: ChatConversation): ConversationSummary {
+  const firstUserMessage = conversation.messages.find(m => m.role === 'user');
+  return {
+    id: conversation.id,
+    title: conversation.title,
+    createdAt: conversation.createdAt,
+    updatedAt: conversation.updatedAt,
+    messageCount: conversation.messages.filter(m => m.role !== 'system').length,
+    model: conversation.model,
+    preview: (firstUserMessage?.content || '').replace(/\s+/g, ' ').trim().slice(0, PREVIEW_LENGTH),
+    pinned: conversation.pinned || undefined
+  };
+}
+
+// Pinned first, then most recently updated
+function compareSummaries(a: ConversationSummary, b: ConversationSummary): number {
+  return Number(!!b.pinned) - Number(!!a.pinned) || b.updatedAt.getTime() - a.updatedAt.getTime();
+}
+
+function parseSummary(data: any): ConversationSummary | null {
+  if (!data || typeof data.id !== 'string' || typeof data.title !== 'string') return null;
+  const createdAt = new Date(data.createdAt);
+  const updatedAt = new Date(data.updatedAt);
+  if (isNaN(createdAt.getTime()) || isNaN(updatedAt.getTime())) return null;
+  return {
+    id: data.id,
+    title: data.title,
+    createdAt,
+    updatedAt,
+    messageCount: typeof data.messageCount === 'number' ? data.messageCount : 0,
+    model: typeof data.model === 'string' ? data.model : undefined,
+    preview: typeof data.preview === 'string' ? data.preview : '',
+    pinned: data.pinned === true || undefined
+  };
+}
+
+/**
+ * JSON-ready copy of a conversation, including the alternates on inactive branches
+ */
+export function serializeConversation(conversation: ChatConversation): Record<string, any> {
+  const serializeMessage = (msg: ChatMessage) => ({
+    ...msg,
+    timestamp: msg.timestamp.toISOString(),
+    // Remove runtime-only properties
+    isStreaming: undefined,
+    isEditing: undefined
+  });
+
+  return {
+    ...conversation,
+    messages: conversation.messages.map(serializeMessage),
+    alternates: conversation.alternates?.map(serializeMessage),
+    createdAt: conversation.createdAt.toISOString(),
+    updatedAt: conversation.updatedAt.toISOString()
+  };
+}
+
+/**
+ * Rebuild a conversation from its JSON form
+ */
+export function deserializeConversation(data: any): ChatConversation {
+  const deserializeMessage = (msg: any): ChatMessage => ({
+    ...msg,
+    timestamp: new Date(msg.timestamp),
+    isStreaming: false,
+    isEditing: false
+  });
+
+  return {
+    ...data,
+    createdAt: new Date(data.createdAt),
+    updatedAt: new Date(data.updatedAt),
+    messages: data.messages.map(deserializeMessage),
+    alternates: Array.isArray(data.alternates) ? data.alternates.map(deserializeMessage) : undefined
+  };
+}
 
 export class ChatStorage {
+  private static shared = new Map<string, ChatStorage>();
   private app: App;
   private dataDir: string;
 
@@ -14,6 +122,19 @@ export class ChatStorage {
     this.dataDir = chatsDirOverride || `${pluginDataDir}/chats`;
   }
 
+  /**
+   * The storage for a plugin folder shared by every chat view, so they use one index cache
+   * and one write lock
+   */
+  static getShared(app: App, pluginDataDir: string): ChatStorage {
+    let storage = ChatStorage.shared.get(pluginDataDir);
+    if (!storage || storage.app !== app) {
+      storage = new ChatStorage(app, pluginDataDir);
+      ChatStorage.shared.set(pluginDataDir, storage);
+    }
+    return storage;
+  }
+
   /**
    * Ensure the chat storage directory exists
    */
@@ -25,25 +146,68 @@ export class ChatStorage {
   }
 
   /**
-   * Save a conversation to storage
+   * Save a conversation to storage and update its index entry
    */
   async saveConversation(conversation: ChatConversation): Promise<void> {
-    await this.ensureDataDir();
-    const filename = `${conversation.id}.json`;
-    const filepath = `${this.dataDir}/${filename}`;
+    // This save supersedes a pending auto-save
+    const pendingSave = this.saveTimeouts.get(conversation.id);
+    if (pendingSave) {
+      clearTimeout(pendingSave);
+      this.saveTimeouts.delete(conversation.id);
+    }
     
-    const data = {
-      ...conversation,
-      messages: conversation.messages.map(msg => ({
-        ...msg,
-        timestamp: msg.timestamp.toISOString(),
-        // Remove runtime-only properties
-        isStreaming: undefined,
-        isEditing: undefined
-      }))
+    const summary = summarizeConversation(conversation);
+    const data = JSON.stringify(serializeConversation(conversation), null, 2);
+    
+    await this.runExclusive(async () => {
+      await this.ensureDataDir();
+      await this.app.vault.adapter.write(this.getConversationPath(conversation.id), data);
+      
+      const index = await this.loadIndex();
+      index.set(summary.id, summary);
+      await this.writeIndex();
+    });
+  }
+
+  /**
+   * One page of stored conversations, pinned first and then most recently updated
+   */
+  async queryConversations(options: { offset?: number; limit?: number } = {}): Promise<ConversationPage> {
+    const { offset = 0, limit = 50 } = options;
+    const summaries = await this.runExclusive(async () => Array.from((await this.loadIndex()).values()));
+    summaries.sort(compareSummaries);
+    return {
+      conversations: summaries.slice(offset, offset + limit),
+      total: summaries.length
     };
+  }
+
+  /**
+   * Full-text search across stored conversations, reading each one's messages
+   */
+  async searchConversations(query: string): Promise<ConversationSearchMatch[]> {
+    const { conversations } = await this.queryConversations({ limit: Infinity });
+    const matches: ConversationSearchMatch[] = [];
+    
+    for (const summary of conversations) {
+      const conversation = await this.loadConversation(summary.id);
+      const match = conversation && matchConversation(conversation, query);
+      if (match) {
+        matches.push({ summary, snippet: match.snippet });
+      }
+    }
+    
+    return matches;
+  }
 
-    await this.app.vault.adapter.write(filepath, JSON.stringify(data, null, 2));
+  /**
+   * Rebuild the index by reading every stored conversation, e.g. after it was corrupted
+   */
+  async rebuildIndex(): Promise<void> {
+    await this.runExclusive(async () => {
+      await this.ensureDataDir();
+      await this.rebuildIndexFromFiles();
+    });
   }
 
   /**
@@ -55,19 +219,7 @@ export class ChatStorage {
     
     try {
       const content = await this.app.vault.adapter.read(filepath);
-      const data = JSON.parse(content);
-      
-      return {
-        ...data,
-        createdAt: new Date(data.createdAt),
-        updatedAt: new Date(data.updatedAt),
-        messages: data.messages.map((msg: any) => ({
-          ...msg,
-          timestamp: new Date(msg.timestamp),
-          isStreaming: false,
-          isEditing: false
-        }))
-      };
+      return deserializeConversation(JSON.parse(content));
     } catch (error) {
       console.error(`Failed to load conversation ${conversationId}:`, error);
       return null;
@@ -75,24 +227,19 @@ export class ChatStorage {
   }
 
   /**
-   * List all saved conversations
+   * List all saved conversations with their messages. Use queryConversations to list
+   * without reading every conversation.
    */
   async listConversations(): Promise<ChatConversation[]> {
     await this.ensureDataDir();
     
     try {
-      const files = await this.app.vault.adapter.list(this.dataDir);
       const conversations: ChatConversation[] = [];
       
-      for (const file of files.files) {
-        if (file.endsWith('.json')) {
-          const conversationId = file.replace('.json', '').split('/').pop();
-          if (conversationId) {
-            const conversation = await this.loadConversation(conversationId);
-            if (conversation) {
-              conversations.push(conversation);
-            }
-          }
+      for (const conversationId of await this.listStoredIds()) {
+        const conversation = await this.loadConversation(conversationId);
+        if (conversation) {
+          conversations.push(conversation);
         }
       }
       
@@ -111,19 +258,34 @@ export class ChatStorage {
     const filename = `${conversationId}.json`;
     const filepath = `${this.dataDir}/${filename}`;
     
-    try {
-      await this.app.vault.adapter.remove(filepath);
-    } catch (error) {
-      console.error(`Failed to delete conversation ${conversationId}:`, error);
+    // A pending auto-save would write the conversation back
+    const pendingSave = this.saveTimeouts.get(conversationId);
+    if (pendingSave) {
+      clearTimeout(pendingSave);
+      this.saveTimeouts.delete(conversationId);
     }
+    
+    await this.runExclusive(async () => {
+      try {
+        await this.app.vault.adapter.remove(filepath);
+      } catch (error) {
+        console.error(`Failed to delete conversation ${conversationId}:`, error);
+      }
+      
+      // An entry whose file survived is added back when the index is next read from disk
+      const index = await this.loadIndex();
+      if (index.delete(conversationId)) {
+        await this.writeIndex();
+      }
+    });
   }
 
   /**
-   * Update conversation metadata (title, updatedAt)
+   * Update conversation metadata (title, updatedAt, pinned)
    */
   async updateConversationMetadata(
     conversationId: string, 
-    updates: Partial<Pick<ChatConversation, 'title' | 'updatedAt'>>
+    updates: Partial<Pick<ChatConversation, 'title' | 'updatedAt' | 'pinned'>>
   ): Promise<void> {
     const conversation = await this.loadConversation(conversationId);
     if (conversation) {
@@ -132,6 +294,131 @@ export class ChatStorage {
     }
   }
 
+  /**
+   * Run index reads and writes one at a time so concurrent saves don't overwrite each other's entries
+   */
+  private indexQueue: Promise<void> = Promise.resolve();
+  private index: Map<string, ConversationSummary> | null = null;
+
+  private runExclusive<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.indexQueue.then(task, task);
+    this.indexQueue = result.then(() => undefined, () => undefined);
+    return result;
+  }
+
+  private getConversationPath(conversationId: string): string {
+    return `${this.dataDir}/${conversationId}.json`;
+  }
+
+  private get indexPath(): string {
+    return `${this.dataDir}/${INDEX_FILENAME}`;
+  }
+
+  /**
+   * Ids of the conversation files on disk, without reading them
+   */
+  private async listStoredIds(): Promise<string[]> {
+    const files = await this.app.vault.adapter.list(this.dataDir);
+    return files.files
+      .map(file => file.split('/').pop() || '')
+      .filter(name => name.endsWith('.json') && name !== INDEX_FILENAME)
+      .map(name => name.slice(0, -'.json'.length));
+  }
+
+  /**
+   * The cached index, read from disk on first use. An unreadable index is rebuilt from the
+   * conversation files, and one that lists a different set of files than the folder holds
+   * (e.g. after a sync) is brought back in line. Callers must hold the index lock.
+   */
+  private async loadIndex(): Promise<Map<string, ConversationSummary>> {
+    if (this.index) return this.index;
+    
+    await this.ensureDataDir();
+    let summaries: ConversationSummary[] | null = null;
+    try {
+      if (await this.app.vault.adapter.exists(this.indexPath)) {
+        const data = JSON.parse(await this.app.vault.adapter.read(this.indexPath));
+        if (data?.version === INDEX_VERSION && Array.isArray(data.conversations)) {
+          summaries = data.conversations.map(parseSummary).filter((summary: ConversationSummary | null): summary is ConversationSummary => !!summary);
+        }
+      }
+    } catch (error) {
+      console.warn('Chat index is unreadable, rebuilding it:', error);
+    }
+    
+    if (!summaries) {
+      return this.rebuildIndexFromFiles();
+    }
+    
+    const index = new Map(summaries.map(summary => [summary.id, summary] as [string, ConversationSummary]));
+    const storedIds = await this.listStoredIds();
+    let changed = false;
+    for (const id of storedIds) {
+      if (index.has(id)) continue;
+      const conversation = await this.loadConversation(id);
+      if (conversation) {
+        index.set(id, summarizeConversation(conversation));
+        changed = true;
+      }
+    }
+    const stored = new Set(storedIds);
+    for (const id of Array.from(index.keys())) {
+      if (!stored.has(id)) {
+        index.delete(id);
+        changed = true;
+      }
+    }
+    
+    this.index = index;
+    if (changed) {
+      await this.writeIndex();
+    }
+    return index;
+  }
+
+  private async rebuildIndexFromFiles(): Promise<Map<string, ConversationSummary>> {
+    const index = new Map<string, ConversationSummary>();
+    for (const id of await this.listStoredIds()) {
+      const conversation = await this.loadConversation(id);
+      if (conversation) {
+        index.set(id, summarizeConversation(conversation));
+      }
+    }
+    
+    this.index = index;
+    await this.writeIndex();
+    return index;
+  }
+
+  /**
+   * Write the cached index. If that fails the index file is removed, so the next read
+   * rebuilds it from the conversation files rather than trusting a stale copy.
+   */
+  private async writeIndex(): Promise<void> {
+    if (!this.index) return;
+    
+    const data = {
+      version: INDEX_VERSION,
+      conversations: Array.from(this.index.values()).map(summary => ({
+        ...summary,
+        createdAt: summary.createdAt.toISOString(),
+        updatedAt: summary.updatedAt.toISOString()
+      }))
+    };
+    
+    try {
+      await this.app.vault.adapter.write(this.indexPath, JSON.stringify(data));
+    } catch (error) {
+      console.error('Failed to write chat index:', error);
+      this.index = null;
+      try {
+        await this.app.vault.adapter.remove(this.indexPath);
+      } catch {
+        // Nothing to remove
+      }
+    }
+  }
+
   /**
    * Auto-save conversation with debouncing
    */
@@ -147,7 +434,6 @@ export class ChatStorage {
       try {
         conversation.updatedAt = new Date();
         await this.saveConversation(conversation);
-        this.saveTimeouts.delete(conversation.id);
       } catch (error) {
         console.error('Auto-save failed:', error);
       }
@@ -2,6 +2,9 @@
  * Chat data models and types for the Vault-Bot chat view
  */
 
+import type { ConversationFormat } from '../services/conversation_format';
+import type { VaultMention } from '../services/content_retrieval';
+
 export interface ChatMessage {
   id: string;
   role: 'user' | 'assistant' | 'system';
@@ -9,12 +12,17 @@ export interface ChatMessage {
   timestamp: Date;
   isStreaming?: boolean;
   isEditing?: boolean;
+  parentId?: string | null; // set on alternates only; a message on the active path follows the one before it
+  attachments?: VaultMention[]; // files, folders and tags @-mentioned with a user message
 }
 
 export interface ChatConversation {
   id: string;
   title: string;
-  messages: ChatMessage[];
+  messages: ChatMessage[]; // the active path through the message tree
+  alternates?: ChatMessage[]; // messages on inactive branches, see message_tree.ts
+  pinned?: boolean; // kept at the top of the history pane
+  model?: string; // model that wrote the latest response
   createdAt: Date;
   updatedAt: Date;
 }
@@ -27,6 +35,7 @@ export interface ChatViewState {
 
 export interface SavedChatMetadata {
   chatSeparator: string;
+  conversationFormat?: ConversationFormat; // missing in notes saved before labelled turns, which use the separator
   apiProvider: string;
   model: string;
   systemPrompt: string;
@@ -34,6 +43,19 @@ export interface SavedChatMetadata {
   createdAt: string;
   updatedAt: string;
   messageCount: number;
+  alternates?: SavedAlternate[];
+}
+
+/**
+ * An alternate message as written to a note's frontmatter. `parent` is the index of a turn
+ * in the note body, the id of another alternate, or null before the first turn.
+ */
+export interface SavedAlternate {
+  id: string;
+  parent: number | string | null;
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+  timestamp: string;
 }
 
 /**
@@ -2,7 +2,7 @@
  * Main chat view component using Obsidian ItemView
  */
 
-import { ItemView, WorkspaceLeaf, Notice } from 'obsidian';
+import { App, ItemView, WorkspaceLeaf, Notice, type ViewStateResult } from 'obsidian';
 import VaultBotPlugin from '../../main';
 import { 
   ChatConversation, 
@@ -12,20 +12,35 @@ import {
   createChatMessage, 
   generateConversationTitle 
 } from './chat_types';
-import { ChatStorage } from './chat_storage';
+import { ChatStorage, serializeConversation, deserializeConversation } from './chat_storage';
 import { resolveStorageDir } from '../storage_paths';
 import * as path from 'path';
 import { NoteSaver } from './note_saver';
 import { NoteLoader, loadChatFromNote } from './note_loader';
 import { ChatMessageComponent } from './chat_message';
-import { AIProviderWrapper, AIMessage } from '../aiprovider';
+import { branchFrom, getBranchInfo, removeMessage, selectBranch, switchSibling } from './message_tree';
+import { ChatHistoryPane } from './chat_history';
+import { MentionSuggest, collectMentionCandidates, createMentionChip, isSameMention } from './mention_suggest';
+import { AIProviderWrapper, AIMessage, type AIResponseMetadata, type PreparedRequest } from '../aiprovider';
+import { inspectRequest } from '../ui/context_inspector_modal';
+import type { VaultMention } from '../services/content_retrieval';
 import { generateTitle } from '../utils/title_generator';
-import { recordChatCall, type ChatMessage as RecorderChatMessage, type ChatRequestRecord, type ChatResponseRecord } from '../recorder';
+import { recordChatCall, applyResponseMetadata, type ChatMessage as RecorderChatMessage, type ChatRequestRecord, type ChatResponseRecord } from '../recorder';
 import { resolveAiCallsDir } from '../storage_paths';
 import { debugConsole } from '../utils/debug';
 
 export const CHAT_VIEW_TYPE = 'vault-bot-chat';
 
+const HISTORY_PAGE_SIZE = 50;
+
+/**
+ * Workspace state saved for each chat leaf. A string opens that stored conversation, null
+ * starts a new one, and leaves without the key open the last active conversation.
+ */
+interface ChatLeafState {
+  conversationId?: string | null;
+}
+
 export class ChatView extends ItemView {
   private plugin: VaultBotPlugin;
   private state: ChatViewState;
@@ -44,13 +59,22 @@ export class ChatView extends ItemView {
   // UI Elements
   private headerEl: HTMLElement;
   private messagesContainer: HTMLElement;
+  private historyPane: ChatHistoryPane;
+  private historyButton: HTMLButtonElement;
+  private isHistoryOpen = false;
+  private historyCount = HISTORY_PAGE_SIZE;
   private inputContainer: HTMLElement;
   private inputTextarea: HTMLTextAreaElement;
+  private attachmentsEl: HTMLElement;
+  private mentionSuggest: MentionSuggest;
+  private pendingMentions: VaultMention[] = [];
   private sendButton: HTMLButtonElement;
   private stopButton: HTMLButtonElement;
   private toggleSwitch: HTMLElement;
   private toggleLabels: HTMLElement;
   private modelInfoEl: HTMLElement;
+  private initialized: Promise<void> | null = null;
+  private requestedConversationId: string | null | undefined = undefined;
 
   constructor(leaf: WorkspaceLeaf, plugin: VaultBotPlugin) {
     super(leaf);
@@ -61,7 +85,7 @@ export class ChatView extends ItemView {
       abortController: null
     };
     
-    this.storage = new ChatStorage(this.app, this.plugin.manifest.dir || '');
+    this.storage = ChatStorage.getShared(this.app, this.plugin.manifest.dir || '');
     this.noteSaver = new NoteSaver(this.app, this.plugin.settings);
     this.noteLoader = new NoteLoader(this.app, this.plugin.settings);
   }
@@ -71,7 +95,8 @@ export class ChatView extends ItemView {
   }
 
   getDisplayText(): string {
-    return 'AI Chat';
+    const title = this.state.currentConversation?.title;
+    return title ? `AI Chat: ${title}` : 'AI Chat';
   }
 
   getIcon(): string {
@@ -80,11 +105,38 @@ export class ChatView extends ItemView {
 
   async onOpen(): Promise<void> {
     this.createUI();
-    await this.initializeConversation();
+    this.initialized = this.initializeConversation();
+    await this.initialized;
   }
 
   async onClose(): Promise<void> {
-    this.cleanup();
+    await this.cleanup();
+  }
+
+  getState(): Record<string, unknown> {
+    const state: ChatLeafState = { conversationId: this.state.currentConversation?.id ?? null };
+    return { ...super.getState(), ...state };
+  }
+
+  async setState(state: unknown, result: ViewStateResult): Promise<void> {
+    await super.setState(state, result);
+    
+    const leafState = (state || {}) as ChatLeafState;
+    if (leafState.conversationId === undefined) return;
+    
+    // Before onOpen, initializeConversation picks this up
+    this.requestedConversationId = leafState.conversationId;
+    if (this.initialized) {
+      await this.initialized;
+      await this.openConversationById(leafState.conversationId);
+    }
+  }
+
+  /**
+   * Id of the conversation shown in this leaf
+   */
+  getConversationId(): string | null {
+    return this.state.currentConversation?.id ?? null;
   }
 
   /**
@@ -103,6 +155,20 @@ export class ChatView extends ItemView {
     this.messagesContainer = container.createDiv('chat-view-messages');
     this.messagesContainer.addEventListener('scroll', this.handleScroll.bind(this));
 
+    // History pane, shown in place of the messages
+    this.historyPane = new ChatHistoryPane(container, {
+      onOpen: this.resumeConversation.bind(this),
+      onRename: this.renameConversation.bind(this),
+      onDelete: this.deleteConversation.bind(this),
+      onTogglePin: this.togglePinConversation.bind(this),
+      onSearch: () => this.refreshHistory(),
+      onLoadMore: () => {
+        this.historyCount += HISTORY_PAGE_SIZE;
+        this.refreshHistory();
+      }
+    });
+    this.historyPane.getElement().style.display = 'none';
+
     // Input container
     this.inputContainer = container.createDiv('chat-view-input');
     this.createInputControls();
@@ -158,12 +224,22 @@ export class ChatView extends ItemView {
       this.setRenderingMode(newMode);
     };
 
+    // History button
+    this.historyButton = controlsEl.createEl('button', {
+      text: 'History',
+      cls: 'chat-control-button'
+    });
+    this.historyButton.onclick = () => this.toggleHistory();
+
     // New chat button
     const newChatBtn = controlsEl.createEl('button', {
       text: 'New Chat',
       cls: 'chat-control-button'
     });
-    newChatBtn.onclick = () => this.startNewChat();
+    newChatBtn.onclick = () => {
+      this.closeHistory();
+      this.startNewChat();
+    };
 
     // Save to note button
     const saveBtn = controlsEl.createEl('button', {
@@ -207,14 +283,26 @@ export class ChatView extends ItemView {
     autoSaveIndicator.innerHTML = '<span class="save-icon">💾</span>Auto-saved';
     this.lastAutoSaveIndicator = autoSaveIndicator;
 
+    // Notes, folders and tags mentioned for the next message
+    this.attachmentsEl = this.inputContainer.createDiv('chat-input-attachments');
+    this.renderPendingMentions();
+
     // Main input area
     const inputMainEl = this.inputContainer.createDiv('chat-input-main');
 
     // Input textarea
     this.inputTextarea = inputMainEl.createEl('textarea', {
       cls: 'chat-input-textarea',
-      attr: { placeholder: 'Type your message...' }
+      attr: { placeholder: 'Type your message... (@ to mention notes, folders or tags)' }
     });
+
+    // @-mention autocomplete
+    this.mentionSuggest = new MentionSuggest(
+      inputMainEl,
+      this.inputTextarea,
+      () => collectMentionCandidates(this.app),
+      (mention) => this.addMention(mention)
+    );
     
     // Auto-resize textarea
     this.inputTextarea.addEventListener('input', this.handleInputResize.bind(this));
@@ -234,19 +322,43 @@ export class ChatView extends ItemView {
    * Initialize with a new conversation or load existing
    */
   private async initializeConversation(): Promise<void> {
+    // Leaves restored from the workspace know which conversation they showed
+    if (this.requestedConversationId !== undefined) {
+      await this.openConversationById(this.requestedConversationId);
+      return;
+    }
+    
     // Try to load the last active conversation
     const lastConversation = await this.loadLastActiveConversation();
     
-    if (lastConversation) {
-      this.state.currentConversation = lastConversation;
-      this.renderAllMessages();
-      this.updateTitle();
+    if (lastConversation && !getChatViews(this.app).some(view => view !== this && view.getConversationId() === lastConversation.id)) {
+      this.showConversation(lastConversation);
     } else {
-      // Start with a new conversation if none exists
+      // Start with a new conversation if none exists or it's open in another leaf
       this.startNewChat();
     }
   }
 
+  /**
+   * Show a stored conversation, or a new one for null or an id that was never saved
+   */
+  private async openConversationById(conversationId: string | null): Promise<void> {
+    if (conversationId && conversationId === this.state.currentConversation?.id) return;
+    
+    const conversation = conversationId ? await this.storage.loadConversation(conversationId) : null;
+    this.showConversation(conversation || createConversation());
+  }
+
+  /**
+   * Replace the shown conversation without saving the previous one
+   */
+  private showConversation(conversation: ChatConversation): void {
+    this.state.currentConversation = conversation;
+    this.renderAllMessages();
+    this.updateTitle();
+    this.saveActiveConversation();
+  }
+
   /**
    * Load the last active conversation
    */
@@ -258,17 +370,7 @@ export class ChatView extends ItemView {
       
       if (await adapter.exists(activeConversationPath)) {
         const data = await adapter.read(activeConversationPath);
-        const conversationData = JSON.parse(data);
-        
-        // Convert timestamp strings back to Date objects
-        conversationData.messages = conversationData.messages.map((msg: any) => ({
-          ...msg,
-          timestamp: new Date(msg.timestamp)
-        }));
-        conversationData.createdAt = new Date(conversationData.createdAt);
-        conversationData.updatedAt = new Date(conversationData.updatedAt);
-        
-        return conversationData as ChatConversation;
+        return deserializeConversation(JSON.parse(data));
       }
     } catch (error) {
       console.error('Error loading last active conversation:', error);
@@ -295,15 +397,7 @@ export class ChatView extends ItemView {
       
       // Prepare data for saving (convert dates to strings)
       const dataToSave = {
-        ...this.state.currentConversation,
-        messages: this.state.currentConversation.messages.map(msg => ({
-          ...msg,
-          timestamp: msg.timestamp.toISOString(),
-          // Remove runtime-only properties
-          isStreaming: undefined,
-          isEditing: undefined
-        })),
-        createdAt: this.state.currentConversation.createdAt.toISOString(),
+        ...serializeConversation(this.state.currentConversation),
         updatedAt: new Date().toISOString()
       };
       
@@ -338,6 +432,160 @@ export class ChatView extends ItemView {
     this.saveActiveConversation();
   }
 
+  /**
+   * Show or hide the conversation history pane
+   */
+  private async toggleHistory(): Promise<void> {
+    if (this.isHistoryOpen) {
+      this.closeHistory();
+      return;
+    }
+    
+    this.isHistoryOpen = true;
+    this.historyCount = HISTORY_PAGE_SIZE;
+    this.historyButton.addClass('is-active');
+    this.messagesContainer.style.display = 'none';
+    this.inputContainer.style.display = 'none';
+    this.historyPane.getElement().style.display = '';
+    await this.refreshHistory();
+    this.historyPane.focusSearch();
+  }
+
+  private closeHistory(): void {
+    if (!this.isHistoryOpen) return;
+    this.isHistoryOpen = false;
+    this.historyButton.removeClass('is-active');
+    this.historyPane.getElement().style.display = 'none';
+    this.messagesContainer.style.display = '';
+    this.inputContainer.style.display = '';
+  }
+
+  /**
+   * Reload the stored conversations into the history pane
+   */
+  private async refreshHistory(): Promise<void> {
+    // Write the open conversation now so the list doesn't wait for the debounced auto-save
+    const current = this.state.currentConversation;
+    if (current && current.messages.length > 0) {
+      await this.storage.saveConversation(current);
+    }
+    
+    const query = this.historyPane.getQuery();
+    if (query) {
+      const matches = await this.storage.searchConversations(query);
+      // A newer search may have started while this one read the conversations
+      if (query !== this.historyPane.getQuery()) return;
+      this.historyPane.setConversations(matches, current?.id || null, false);
+      return;
+    }
+    
+    const page = await this.storage.queryConversations({ limit: this.historyCount });
+    this.historyPane.setConversations(
+      page.conversations.map(summary => ({ summary, snippet: null })),
+      current?.id || null,
+      page.total > page.conversations.length
+    );
+  }
+
+  /**
+   * Open a stored conversation from the history pane
+   */
+  private async resumeConversation(conversationId: string): Promise<void> {
+    if (this.state.isStreaming) {
+      new Notice('Please wait for the current response to complete');
+      return;
+    }
+    
+    const current = this.state.currentConversation;
+    if (current?.id !== conversationId) {
+      const conversation = await this.storage.loadConversation(conversationId);
+      if (!conversation) {
+        new Notice('Could not open that conversation');
+        return;
+      }
+      
+      // Two leaves editing one conversation would overwrite each other's messages
+      const openElsewhere = getChatViews(this.app).find(view => view !== this && view.getConversationId() === conversationId);
+      if (openElsewhere) {
+        this.closeHistory();
+        this.app.workspace.revealLeaf(openElsewhere.leaf);
+        return;
+      }
+      
+      if (current && current.messages.length > 0) {
+        await this.storage.saveConversation(current);
+      }
+      this.showConversation(conversation);
+    }
+    
+    this.closeHistory();
+  }
+
+  /**
+   * Rename a stored conversation, and the open one if it's the same
+   */
+  private async renameConversation(conversationId: string, title: string): Promise<void> {
+    await this.updateConversation(conversationId, { title });
+    await this.refreshHistory();
+  }
+
+  private async togglePinConversation(conversationId: string): Promise<void> {
+    const openConversation = getChatViews(this.app).find(view => view.getConversationId() === conversationId)?.state.currentConversation;
+    const conversation = openConversation ?? await this.storage.loadConversation(conversationId);
+    if (!conversation) return;
+    
+    await this.updateConversation(conversationId, { pinned: !conversation.pinned });
+    await this.refreshHistory();
+  }
+
+  /**
+   * Rename or pin a conversation. Leaves showing it save their own copy, which may have messages
+   * not yet written; a conversation that isn't open is updated on disk.
+   */
+  private async updateConversation(conversationId: string, updates: Partial<Pick<ChatConversation, 'title' | 'pinned'>>): Promise<void> {
+    const views = getChatViews(this.app).filter(view => view.getConversationId() === conversationId);
+    if (views.length === 0) {
+      await this.storage.updateConversationMetadata(conversationId, updates);
+      return;
+    }
+    for (const view of views) {
+      await view.updateConversationDetails(updates);
+    }
+  }
+
+  /**
+   * Delete a stored conversation; deleting the open one starts a new chat
+   */
+  private async deleteConversation(conversationId: string): Promise<void> {
+    const views = getChatViews(this.app).filter(view => view.getConversationId() === conversationId);
+    if (views.some(view => view.state.isStreaming)) {
+      new Notice('Please wait for the current response to complete');
+      return;
+    }
+    
+    // Leaves showing it move on to a new chat without saving it again
+    for (const view of views) {
+      view.showConversation(createConversation());
+    }
+    
+    await this.storage.deleteConversation(conversationId);
+    await this.refreshHistory();
+  }
+
+  /**
+   * Apply a rename or pin made from a history pane to the shown conversation
+   */
+  async updateConversationDetails(updates: Partial<Pick<ChatConversation, 'title' | 'pinned'>>): Promise<void> {
+    const conversation = this.state.currentConversation;
+    if (!conversation) return;
+    Object.assign(conversation, updates);
+    this.updateTitle();
+    this.saveActiveConversation();
+    if (conversation.messages.length > 0) {
+      await this.storage.saveConversation(conversation);
+    }
+  }
+
   /**
    * Auto-save current conversation to a note
    */
@@ -383,9 +631,7 @@ export class ChatView extends ItemView {
   async loadChatFromNote(): Promise<void> {
     const conversation = await loadChatFromNote(this.app, this.plugin.settings);
     if (conversation) {
-      this.state.currentConversation = conversation;
-      this.renderAllMessages();
-      this.updateTitle();
+      this.showConversation(conversation);
     }
   }
 
@@ -420,8 +666,11 @@ export class ChatView extends ItemView {
     this.inputTextarea.value = '';
     this.handleInputResize();
 
-    // Add user message
-    const userMessage = createChatMessage('user', content);
+    // Add user message with the notes mentioned for it
+    const attachments = this.pendingMentions;
+    const userMessage = createChatMessage('user', content, attachments.length > 0 ? { attachments } : {});
+    this.pendingMentions = [];
+    this.renderPendingMentions();
     debugConsole.log('ChatView: created user message:', userMessage);
     this.addMessage(userMessage);
 
@@ -461,6 +710,20 @@ export class ChatView extends ItemView {
     try {
       debugConsole.log('ChatView: creating AI provider');
       const provider = new AIProviderWrapper(this.plugin.settings, this.app);
+
+      // Let the user review what will be sent before the assistant message appears
+      let reviewedRequest: PreparedRequest | null = null;
+      if (this.plugin.settings.inspectContextBeforeSending) {
+        const prepared = await provider.prepareRequest(this.convertToAIMessages(), undefined, true, this.getConversationMentions());
+        reviewedRequest = await inspectRequest(this.app, prepared);
+        if (!reviewedRequest) {
+          new Notice('Request cancelled');
+          this.state.isStreaming = false;
+          this.state.abortController = null;
+          this.updateStreamingUI();
+          return;
+        }
+      }
       
       // Create assistant message for streaming
       const assistantMessage = createChatMessage('assistant', '', { isStreaming: true });
@@ -485,11 +748,14 @@ export class ChatView extends ItemView {
         this.updateMessage(assistantMessage);
       };
 
-      const onComplete = async () => {
+      const onComplete = async (metadata?: AIResponseMetadata) => {
         debugConsole.log('ChatView: AI response complete, final content:', accumulatedContent);
         assistantMessage.content = accumulatedContent;
         assistantMessage.isStreaming = false;
         this.updateMessage(assistantMessage);
+        if (this.state.currentConversation) {
+          this.state.currentConversation.model = metadata?.model || this.getModelName();
+        }
         this.state.isStreaming = false;
         this.state.abortController = null;
         this.updateStreamingUI();
@@ -507,7 +773,7 @@ export class ChatView extends ItemView {
               provider: this.pendingRecording.requestRecord.provider,
               model: this.pendingRecording.requestRecord.model,
               request: this.pendingRecording.requestRecord,
-              response: this.pendingRecording.responseRecord
+              response: applyResponseMetadata(this.pendingRecording.responseRecord, metadata)
             });
             
             this.pendingRecording = null;
@@ -523,16 +789,19 @@ export class ChatView extends ItemView {
       };
 
       debugConsole.log('ChatView: starting streaming response');
-      await provider.getStreamingResponseWithConversation(
-        aiMessages,
-        onUpdate,
-        this.state.abortController.signal,
-        this.createRecordingCallback(), // Recording callback
-        undefined, // currentFile
-        true // isConversationMode
-      );
+      const metadata = reviewedRequest
+        ? await provider.sendPreparedRequest(reviewedRequest, onUpdate, this.state.abortController.signal, this.createRecordingCallback())
+        : await provider.getStreamingResponseWithConversation(
+          aiMessages,
+          onUpdate,
+          this.state.abortController.signal,
+          this.createRecordingCallback(), // Recording callback
+          undefined, // currentFile
+          true, // isConversationMode
+          this.getConversationMentions()
+        );
       
-      await onComplete();
+      await onComplete(metadata);
     } catch (error: any) {
       console.error('ChatView: AI response error:', error);
       if (error.name !== 'AbortError') {
@@ -587,10 +856,15 @@ export class ChatView extends ItemView {
    */
   private updateModelInfo(): void {
     const provider = this.plugin.settings.apiProvider;
-    const settings = this.plugin.settings.aiProviderSettings[provider];
-    const model = settings && 'model' in settings ? (settings as any).model : 'Unknown';
-    
-    this.modelInfoEl.textContent = `${provider.toUpperCase()} - ${model}`;
+    this.modelInfoEl.textContent = `${provider.toUpperCase()} - ${this.getModelName()}`;
+  }
+
+  /**
+   * Model configured for the current provider
+   */
+  private getModelName(): string {
+    const settings = this.plugin.settings.aiProviderSettings[this.plugin.settings.apiProvider];
+    return settings && 'model' in settings ? (settings as any).model : 'Unknown';
   }
 
   /**
@@ -747,12 +1021,16 @@ export class ChatView extends ItemView {
   private renderMessage(message: ChatMessage): void {
     debugConsole.log('ChatView: renderMessage called with:', message);
     
+    const branch = this.state.currentConversation
+      ? getBranchInfo(this.state.currentConversation, message.id)
+      : null;
     const component = new ChatMessageComponent(message, {
       onEdit: this.handleMessageEdit.bind(this),
       onDelete: this.handleMessageDelete.bind(this),
       onCopy: this.handleMessageCopy.bind(this),
-      onRegenerate: this.handleMessageRegenerate.bind(this)
-    }, this.renderingMode);
+      onRegenerate: this.handleMessageRegenerate.bind(this),
+      onSwitchBranch: this.handleSwitchBranch.bind(this)
+    }, this.renderingMode, branch);
     
     debugConsole.log('ChatView: message component created');
     
@@ -777,6 +1055,20 @@ export class ChatView extends ItemView {
     this.scrollToBottom();
   }
 
+  /**
+   * Re-render after the active path changed, keeping the scroll position
+   */
+  private refreshMessages(): void {
+    const scrollTop = this.messagesContainer.scrollTop;
+    this.clearMessages();
+    if (this.state.currentConversation) {
+      for (const message of this.state.currentConversation.messages) {
+        this.renderMessage(message);
+      }
+    }
+    this.messagesContainer.scrollTop = scrollTop;
+  }
+
   /**
    * Clear all rendered messages
    */
@@ -793,6 +1085,11 @@ export class ChatView extends ItemView {
     if (titleEl) {
       titleEl.textContent = this.state.currentConversation?.title || 'New Chat';
     }
+    
+    // The tab shows the conversation title, and the workspace remembers which conversation is open
+    // @ts-ignore - updateHeader is available in Obsidian
+    this.leaf.updateHeader?.();
+    this.app.workspace.requestSaveLayout();
   }
 
   /**
@@ -823,6 +1120,8 @@ export class ChatView extends ItemView {
    * Handle input keydown events
    */
   private handleInputKeydown(e: KeyboardEvent): void {
+    if (this.mentionSuggest.handleKeydown(e)) return;
+
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
       this.sendMessage();
@@ -837,40 +1136,96 @@ export class ChatView extends ItemView {
   }
 
   /**
-   * Handle message edit
+   * Handle message edit. Editing a user turn starts a new branch with a fresh response;
+   * the original turn and its replies stay available as alternates.
    */
-  private handleMessageEdit(messageId: string, newContent: string): void {
+  private async handleMessageEdit(messageId: string, newContent: string): Promise<void> {
     if (!this.state.currentConversation) return;
     
-    const message = this.state.currentConversation.messages.find(m => m.id === messageId);
-    if (message) {
+    const messageIndex = this.state.currentConversation.messages.findIndex(m => m.id === messageId);
+    if (messageIndex === -1) return;
+    const message = this.state.currentConversation.messages[messageIndex];
+    
+    if (message.role !== 'user') {
       message.content = newContent;
       this.updateMessage(message);
       
       // Auto-save
       this.storage.autoSaveConversation(this.state.currentConversation);
+      return;
+    }
+    
+    if (this.state.isStreaming) {
+      new Notice('Please wait for the current response to complete');
+      return;
+    }
+    
+    branchFrom(this.state.currentConversation, messageIndex);
+    this.refreshMessages();
+    this.addMessage(createChatMessage('user', newContent, message.attachments ? { attachments: message.attachments } : {}));
+    await this.getAIResponse();
+  }
+
+  /**
+   * Add a mention chosen in the input to the next message
+   */
+  private addMention(mention: VaultMention): void {
+    if (!this.pendingMentions.some(m => isSameMention(m, mention))) {
+      this.pendingMentions = [...this.pendingMentions, mention];
+      this.renderPendingMentions();
+    }
+    this.handleInputResize();
+    this.inputTextarea.focus();
+  }
+
+  private renderPendingMentions(): void {
+    this.attachmentsEl.empty();
+    this.attachmentsEl.style.display = this.pendingMentions.length > 0 ? '' : 'none';
+    for (const mention of this.pendingMentions) {
+      createMentionChip(this.attachmentsEl, mention, () => {
+        this.pendingMentions = this.pendingMentions.filter(m => !isSameMention(m, mention));
+        this.renderPendingMentions();
+      });
     }
   }
 
+  /**
+   * Everything mentioned on the active path. Retrieved notes aren't kept in the history, so
+   * notes mentioned in earlier turns go out again with every request.
+   */
+  private getConversationMentions(): VaultMention[] {
+    const mentions: VaultMention[] = [];
+    for (const message of this.state.currentConversation?.messages || []) {
+      for (const mention of message.attachments || []) {
+        if (!mentions.some(m => isSameMention(m, mention))) mentions.push(mention);
+      }
+    }
+    return mentions;
+  }
+
   /**
    * Handle message delete
    */
   private handleMessageDelete(messageId: string): void {
-    if (!this.state.currentConversation) return;
+    if (!this.state.currentConversation || this.state.isStreaming) return;
     
-    const messageIndex = this.state.currentConversation.messages.findIndex(m => m.id === messageId);
-    if (messageIndex !== -1) {
-      // Remove message from conversation
-      this.state.currentConversation.messages.splice(messageIndex, 1);
-      
-      // Remove message component
-      const component = this.messageComponents.get(messageId);
-      if (component) {
-        component.destroy();
-        this.messageComponents.delete(messageId);
-      }
-      
-      // Auto-save
+    removeMessage(this.state.currentConversation, messageId);
+    this.refreshMessages();
+    
+    // Auto-save
+    this.saveActiveConversation();
+    this.storage.autoSaveConversation(this.state.currentConversation);
+  }
+
+  /**
+   * Show the previous or next alternate of a message
+   */
+  private handleSwitchBranch(messageId: string, step: number): void {
+    if (!this.state.currentConversation || this.state.isStreaming) return;
+    
+    if (switchSibling(this.state.currentConversation, messageId, step)) {
+      this.refreshMessages();
+      this.saveActiveConversation();
       this.storage.autoSaveConversation(this.state.currentConversation);
     }
   }
@@ -891,20 +1246,19 @@ export class ChatView extends ItemView {
     const messageIndex = this.state.currentConversation.messages.findIndex(m => m.id === messageId);
     if (messageIndex === -1) return;
     
-    // Remove the selected message and all messages after it
-    const messagesToRemove = this.state.currentConversation.messages.splice(messageIndex);
-    
-    // Remove components for deleted messages
-    for (const msg of messagesToRemove) {
-      const component = this.messageComponents.get(msg.id);
-      if (component) {
-        component.destroy();
-        this.messageComponents.delete(msg.id);
-      }
-    }
+    // Keep the selected message and everything after it as an alternate branch
+    const [previous] = branchFrom(this.state.currentConversation, messageIndex);
+    this.refreshMessages();
     
     // Get new AI response
     await this.getAIResponse();
+    
+    // The request was cancelled before anything was added, so show the previous response again
+    const conversation = this.state.currentConversation;
+    if (conversation && conversation.messages.length === messageIndex && selectBranch(conversation, previous.id)) {
+      this.refreshMessages();
+      this.saveActiveConversation();
+    }
   }
 
   /**
@@ -963,12 +1317,21 @@ export class ChatView extends ItemView {
     }
   }
 
-  private cleanup(): void {
+  private async cleanup(): Promise<void> {
     if (this.state.abortController) {
       this.state.abortController.abort();
     }
     
-    this.storage.cleanup();
+    // Storage is shared with other chat leaves, so write this conversation now rather than
+    // cancelling every pending auto-save
+    const current = this.state.currentConversation;
+    if (current && current.messages.length > 0) {
+      try {
+        await this.storage.saveConversation(current);
+      } catch (error) {
+        console.error('Error saving conversation on close:', error);
+      }
+    }
     
     for (const component of this.messageComponents.values()) {
       component.destroy();
@@ -978,11 +1341,29 @@ export class ChatView extends ItemView {
 }
 
 /**
- * Open chat view in workspace
+ * All open chat views
  */
-export async function openChatView(plugin: VaultBotPlugin): Promise<void> {
+export function getChatViews(app: App): ChatView[] {
+  return app.workspace.getLeavesOfType(CHAT_VIEW_TYPE)
+    .map(leaf => leaf.view)
+    .filter((view): view is ChatView => view instanceof ChatView);
+}
+
+/**
+ * Open chat view in workspace, reusing the first chat leaf unless `newTab` asks for another
+ * one with a new conversation
+ */
+export async function openChatView(plugin: VaultBotPlugin, options: { newTab?: boolean } = {}): Promise<void> {
   const { workspace } = plugin.app;
   
+  if (options.newTab) {
+    const leaf = workspace.getLeaf('tab');
+    const state: ChatLeafState = { conversationId: null };
+    await leaf.setViewState({ type: CHAT_VIEW_TYPE, active: true, state: state as Record<string, unknown> });
+    workspace.revealLeaf(leaf);
+    return;
+  }
+  
   let leaf = workspace.getLeavesOfType(CHAT_VIEW_TYPE)[0];
   if (!leaf) {
     const rightLeaf = workspace.getRightLeaf(false);
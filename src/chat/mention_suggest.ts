@@ -0,0 +1,244 @@
+/**
+ * @-mention autocomplete for the chat input. Typing `@` and a query fuzzy-searches the vault's
+ * notes, folders and tags; picking one removes the query from the text and hands the mention
+ * to the view, which shows it as a chip and sends the mentioned notes as context.
+ */
+
+import { App, TFolder } from 'obsidian';
+import type { VaultMention } from '../services/content_retrieval';
+import { getNoteTags } from '../services/note_exclusions';
+
+const MAX_SUGGESTIONS = 20;
+// `@` at the start of the input or after whitespace, up to the caret
+const MENTION_QUERY = /(?:^|\s)@([^\s@]*)$/;
+const WORD_BOUNDARY = /[\s/_\-.#]/;
+// A match in the name counts for more than one spread over the folder path
+const NAME_MATCH_BONUS = 5;
+
+const MENTION_ICONS: Record<VaultMention['kind'], string> = {
+  file: '📄',
+  folder: '📁',
+  tag: '🏷️',
+};
+
+/**
+ * Short name shown on chips and suggestions: the note name, the folder name or the tag
+ */
+export function getMentionLabel(mention: VaultMention): string {
+  if (mention.kind === 'tag') return mention.path;
+  const name = mention.path.split('/').pop() || mention.path;
+  return mention.kind === 'folder' ? `${name}/` : name.replace(/\.md$/, '');
+}
+
+export function isSameMention(a: VaultMention, b: VaultMention): boolean {
+  return a.kind === b.kind && a.path === b.path;
+}
+
+/**
+ * Score a case-insensitive subsequence match, or null when the query's characters don't all
+ * appear in order. Consecutive characters and matches at the start of a word score higher.
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+  const q = query.toLowerCase();
+  const t = text.toLowerCase();
+  let score = 0;
+  let from = 0;
+  let previous = -2;
+  for (const char of q) {
+    const index = t.indexOf(char, from);
+    if (index === -1) return null;
+    score += 1;
+    if (index === previous + 1) score += 2;
+    if (index === 0 || WORD_BOUNDARY.test(t[index - 1])) score += 3;
+    previous = index;
+    from = index + 1;
+  }
+  // Shorter names first among equally good matches
+  return score - t.length / 100;
+}
+
+/**
+ * Best matches for the query, keeping the candidates' order for an empty query and for ties
+ */
+export function rankMentions(candidates: VaultMention[], query: string, limit = MAX_SUGGESTIONS): VaultMention[] {
+  if (!query) return candidates.slice(0, limit);
+
+  const scored: { mention: VaultMention; score: number; index: number }[] = [];
+  candidates.forEach((mention, index) => {
+    const nameScore = fuzzyScore(query, getMentionLabel(mention));
+    const pathScore = mention.kind === 'tag' ? null : fuzzyScore(query, mention.path);
+    const score = Math.max(nameScore === null ? -Infinity : nameScore + NAME_MATCH_BONUS, pathScore ?? -Infinity);
+    if (score > -Infinity) scored.push({ mention, score, index });
+  });
+  return scored
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .slice(0, limit)
+    .map(entry => entry.mention);
+}
+
+/**
+ * Every note (most recently modified first), folder and tag in the vault. Nested tags also
+ * list their parents, so `#project` can be mentioned when only `#project/alpha` is used.
+ */
+export function collectMentionCandidates(app: App): VaultMention[] {
+  const files = app.vault.getMarkdownFiles().sort((a, b) => (b.stat?.mtime || 0) - (a.stat?.mtime || 0));
+  const folders = app.vault.getAllLoadedFiles()
+    .filter((file): file is TFolder => file instanceof TFolder && file.path !== '/' && file.path !== '')
+    .map(folder => folder.path)
+    .sort();
+
+  const tags = new Set<string>();
+  for (const file of files) {
+    for (const tag of getNoteTags(app.metadataCache.getFileCache(file))) {
+      const parts = tag.split('/');
+      for (let i = 1; i <= parts.length; i++) tags.add(parts.slice(0, i).join('/'));
+    }
+  }
+
+  return [
+    ...files.map(file => ({ kind: 'file' as const, path: file.path })),
+    ...folders.map(path => ({ kind: 'folder' as const, path })),
+    ...Array.from(tags).sort().map(path => ({ kind: 'tag' as const, path })),
+  ];
+}
+
+/**
+ * A mention chip. `onRemove` adds a remove button.
+ */
+export function createMentionChip(container: HTMLElement, mention: VaultMention, onRemove?: () => void): HTMLElement {
+  const chip = container.createSpan({ cls: `chat-mention-chip chat-mention-${mention.kind}`, attr: { title: mention.path } });
+  chip.createSpan({ cls: 'chat-mention-icon', text: MENTION_ICONS[mention.kind] });
+  chip.createSpan({ cls: 'chat-mention-label', text: getMentionLabel(mention) });
+  if (onRemove) {
+    const removeBtn = chip.createEl('button', { cls: 'chat-mention-remove', text: '×', attr: { title: 'Remove' } });
+    removeBtn.onclick = (e) => {
+      e.stopPropagation();
+      onRemove();
+    };
+  }
+  return chip;
+}
+
+export class MentionSuggest {
+  private textarea: HTMLTextAreaElement;
+  private popupEl: HTMLElement;
+  private getCandidates: () => VaultMention[];
+  private onSelect: (mention: VaultMention) => void;
+  private candidates: VaultMention[] | null = null; // collected when a query starts, dropped on close
+  private results: VaultMention[] = [];
+  private selected = 0;
+  private queryStart = -1;
+
+  constructor(
+    container: HTMLElement,
+    textarea: HTMLTextAreaElement,
+    getCandidates: () => VaultMention[],
+    onSelect: (mention: VaultMention) => void
+  ) {
+    this.textarea = textarea;
+    this.getCandidates = getCandidates;
+    this.onSelect = onSelect;
+    this.popupEl = container.createDiv('chat-mention-suggest');
+    this.popupEl.style.display = 'none';
+
+    this.textarea.addEventListener('input', () => this.update());
+    this.textarea.addEventListener('click', () => this.update());
+    this.textarea.addEventListener('blur', () => this.close());
+  }
+
+  isOpen(): boolean {
+    return this.queryStart !== -1;
+  }
+
+  /**
+   * Arrow keys, Enter or Tab and Escape while suggestions are showing. Returns whether the
+   * key was used, so the input doesn't also send the message.
+   */
+  handleKeydown(e: KeyboardEvent): boolean {
+    if (!this.isOpen()) return false;
+
+    switch (e.key) {
+      case 'ArrowDown':
+      case 'ArrowUp':
+        if (this.results.length === 0) return false;
+        e.preventDefault();
+        this.selected = (this.selected + (e.key === 'ArrowDown' ? 1 : -1) + this.results.length) % this.results.length;
+        this.render();
+        return true;
+      case 'Enter':
+      case 'Tab':
+        if (this.results.length === 0) return false;
+        e.preventDefault();
+        this.select(this.results[this.selected]);
+        return true;
+      case 'Escape':
+        e.preventDefault();
+        this.close();
+        return true;
+      default:
+        return false;
+    }
+  }
+
+  close(): void {
+    this.queryStart = -1;
+    this.candidates = null;
+    this.results = [];
+    this.popupEl.style.display = 'none';
+    this.popupEl.empty();
+  }
+
+  /**
+   * Show suggestions for the `@query` before the caret, or close when there isn't one
+   */
+  private update(): void {
+    const caret = this.textarea.selectionStart;
+    const match = this.textarea.value.slice(0, caret).match(MENTION_QUERY);
+    if (!match || this.textarea.selectionEnd !== caret) {
+      this.close();
+      return;
+    }
+
+    this.queryStart = caret - match[1].length - 1;
+    if (!this.candidates) this.candidates = this.getCandidates();
+    this.results = rankMentions(this.candidates, match[1]);
+    this.selected = 0;
+    this.render();
+  }
+
+  private render(): void {
+    this.popupEl.empty();
+    this.popupEl.style.display = '';
+
+    if (this.results.length === 0) {
+      this.popupEl.createDiv({ cls: 'chat-mention-empty', text: 'No matching notes, folders or tags' });
+      return;
+    }
+
+    this.results.forEach((mention, index) => {
+      const itemEl = this.popupEl.createDiv('chat-mention-item');
+      itemEl.toggleClass('is-selected', index === this.selected);
+      itemEl.createSpan({ cls: 'chat-mention-icon', text: MENTION_ICONS[mention.kind] });
+      itemEl.createSpan({ cls: 'chat-mention-label', text: getMentionLabel(mention) });
+      if (mention.kind !== 'tag' && mention.path.includes('/')) {
+        itemEl.createSpan({ cls: 'chat-mention-path', text: mention.path });
+      }
+      // Keep focus in the textarea so its blur doesn't close the list before the click lands
+      itemEl.addEventListener('mousedown', (e) => e.preventDefault());
+      itemEl.onclick = () => this.select(mention);
+      if (index === this.selected) itemEl.scrollIntoView?.({ block: 'nearest' });
+    });
+  }
+
+  /**
+   * Replace the `@query` with the chosen mention's chip
+   */
+  private select(mention: VaultMention): void {
+    const value = this.textarea.value;
+    const caret = this.textarea.selectionStart;
+    this.textarea.value = value.slice(0, this.queryStart) + value.slice(caret);
+    this.textarea.setSelectionRange(this.queryStart, this.queryStart);
+    this.close();
+    this.onSelect(mention);
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * Branching chat history. `conversation.messages` is the active path through a message tree;
+ * messages on other branches live in `conversation.alternates` with an explicit parentId.
+ * Alternates are appended as their branch is left, so the last child listed for a message is
+ * the one that was showing when its branch was last active.
+ */
+
+import { ChatConversation, ChatMessage } from './chat_types';
+
+export interface MessageBranchInfo {
+  index: number; // 0-based position among the siblings
+  count: number;
+}
+
+function parentIdAt(messages: ChatMessage[], index: number): string | null {
+  return index > 0 ? messages[index - 1].id : null;
+}
+
+/**
+ * The message and its alternates with the same role that answer the same parent, oldest first
+ */
+export function getSiblings(conversation: ChatConversation, messageId: string): ChatMessage[] {
+  const index = conversation.messages.findIndex(m => m.id === messageId);
+  if (index === -1) return [];
+  const message = conversation.messages[index];
+  const parentId = parentIdAt(conversation.messages, index);
+  const alternates = (conversation.alternates || [])
+    .filter(m => (m.parentId ?? null) === parentId && m.role === message.role);
+  return [message, ...alternates].sort((a, b) =>
+    a.timestamp.getTime() - b.timestamp.getTime() || a.id.localeCompare(b.id));
+}
+
+export function getBranchInfo(conversation: ChatConversation, messageId: string): MessageBranchInfo {
+  const siblings = getSiblings(conversation, messageId);
+  return { index: Math.max(0, siblings.findIndex(m => m.id === messageId)), count: Math.max(1, siblings.length) };
+}
+
+/**
+ * Move the active path from `index` onwards into the alternates, returning the moved messages
+ */
+export function branchFrom(conversation: ChatConversation, index: number): ChatMessage[] {
+  const moved = conversation.messages.splice(index);
+  moved.forEach((message, i) => {
+    message.parentId = i === 0 ? parentIdAt(conversation.messages, index) : moved[i - 1].id;
+  });
+  conversation.alternates = [...(conversation.alternates || []), ...moved];
+  return moved;
+}
+
+/**
+ * Make an alternate part of the active path, following its most recently shown descendants.
+ * Returns false when the alternate's parent isn't on the active path.
+ */
+export function selectBranch(conversation: ChatConversation, messageId: string): boolean {
+  const target = (conversation.alternates || []).find(m => m.id === messageId);
+  if (!target) return false;
+  const parentId = target.parentId ?? null;
+  const index = parentId === null ? 0 : conversation.messages.findIndex(m => m.id === parentId) + 1;
+  if (index === 0 && parentId !== null) return false;
+
+  branchFrom(conversation, index);
+  const alternates = conversation.alternates || [];
+  const path: ChatMessage[] = [];
+  let next: ChatMessage | undefined = target;
+  while (next) {
+    path.push(next);
+    const id: string = next.id;
+    next = undefined;
+    for (let i = alternates.length - 1; i >= 0; i--) {
+      if (alternates[i].parentId === id) {
+        next = alternates[i];
+        break;
+      }
+    }
+  }
+
+  conversation.alternates = alternates.filter(m => !path.includes(m));
+  for (const message of path) delete message.parentId;
+  conversation.messages.push(...path);
+  return true;
+}
+
+/**
+ * Show the previous (step -1) or next (step 1) sibling of a message on the active path
+ */
+export function switchSibling(conversation: ChatConversation, messageId: string, step: number): boolean {
+  const siblings = getSiblings(conversation, messageId);
+  const target = siblings[siblings.findIndex(m => m.id === messageId) + step];
+  return !!target && target.id !== messageId && selectBranch(conversation, target.id);
+}
+
+/**
+ * Delete a message from the active path. A message with siblings is deleted with its whole
+ * branch and a neighbouring sibling shown instead; otherwise only the message goes and the
+ * messages after it move up a level.
+ */
+export function removeMessage(conversation: ChatConversation, messageId: string): void {
+  const index = conversation.messages.findIndex(m => m.id === messageId);
+  if (index === -1) return;
+
+  const siblings = getSiblings(conversation, messageId);
+  if (siblings.length > 1) {
+    const position = siblings.findIndex(m => m.id === messageId);
+    const neighbour = siblings[position + 1] || siblings[position - 1];
+    selectBranch(conversation, neighbour.id);
+
+    const removed = new Set([messageId]);
+    const alternates = conversation.alternates || [];
+    let grew = true;
+    while (grew) {
+      grew = false;
+      for (const message of alternates) {
+        if (message.parentId && removed.has(message.parentId) && !removed.has(message.id)) {
+          removed.add(message.id);
+          grew = true;
+        }
+      }
+    }
+    conversation.alternates = alternates.filter(m => !removed.has(m.id));
+    return;
+  }
+
+  conversation.messages.splice(index, 1);
+  const parentId = parentIdAt(conversation.messages, index);
+  for (const message of conversation.alternates || []) {
+    if (message.parentId === messageId) message.parentId = parentId;
+  }
+}
@@ -3,8 +3,9 @@
  */
 
 import { App, TFile, Notice, FuzzySuggestModal } from 'obsidian';
-import { ChatConversation, ChatMessage, SavedChatMetadata, createChatMessage, generateConversationId } from './chat_types';
+import { ChatConversation, ChatMessage, SavedAlternate, SavedChatMetadata, createChatMessage, generateConversationId } from './chat_types';
 import { VaultBotPluginSettings } from '../settings';
+import { hasTurnMarkers, parseMarkedConversation, type ConversationFormat } from '../services/conversation_format';
 
 interface ParsedNote {
   metadata: SavedChatMetadata | null;
@@ -97,6 +98,12 @@ export class NoteLoader {
       const key = line.substring(0, colonIndex).trim();
       let value = line.substring(colonIndex + 1).trim();
       
+      // Alternate branches are stored as a JSON array
+      if (key === 'alternates') {
+        metadata.alternates = this.parseAlternates(value);
+        continue;
+      }
+      
       // Remove quotes from string values
       if ((value.startsWith('"') && value.endsWith('"')) || 
           (value.startsWith("'") && value.endsWith("'"))) {
@@ -124,16 +131,37 @@ export class NoteLoader {
     
     return {
       chatSeparator: metadata.chatSeparator || this.settings.chatSeparator,
+      conversationFormat: ['separator', 'callouts', 'headings'].includes(metadata.conversationFormat)
+        ? metadata.conversationFormat as ConversationFormat
+        : undefined,
       apiProvider: metadata.apiProvider || this.settings.apiProvider,
       model: metadata.model || 'unknown',
       systemPrompt: metadata.systemPrompt || '',
       temperature: metadata.temperature || 1.0,
       createdAt: metadata.createdAt || new Date().toISOString(),
       updatedAt: metadata.updatedAt || new Date().toISOString(),
-      messageCount: metadata.messageCount || 0
+      messageCount: metadata.messageCount || 0,
+      alternates: metadata.alternates
     };
   }
 
+  /**
+   * Parse the saved alternates, skipping entries that aren't well formed
+   */
+  private parseAlternates(value: string): SavedAlternate[] | undefined {
+    try {
+      const parsed = JSON.parse(value);
+      if (!Array.isArray(parsed)) return undefined;
+      return parsed.filter((entry: any) =>
+        entry && typeof entry.id === 'string' && typeof entry.content === 'string' &&
+        ['user', 'assistant', 'system'].includes(entry.role) &&
+        (entry.parent === null || typeof entry.parent === 'number' || typeof entry.parent === 'string'));
+    } catch (error) {
+      console.error('Failed to parse saved alternates:', error);
+      return undefined;
+    }
+  }
+
   /**
    * Convert kebab-case to camelCase
    */
@@ -159,6 +187,7 @@ export class NoteLoader {
     // Check if content contains chat separators or looks like a conversation
     const defaultSeparator = this.settings.chatSeparator;
     return content.includes(defaultSeparator) || 
+           hasTurnMarkers(content) ||
            content.includes('----') || 
            content.includes('User:') || 
            content.includes('Assistant:');
@@ -170,9 +199,6 @@ export class NoteLoader {
   private reconstructConversation(parsed: ParsedNote, filename: string): ChatConversation {
     const metadata = parsed.metadata;
     const chatSeparator = metadata?.chatSeparator || this.settings.chatSeparator;
-    
-    // Split content by separator
-    const parts = parsed.content.split(chatSeparator);
     const messages: ChatMessage[] = [];
     
     // Add system message if available
@@ -180,27 +206,75 @@ export class NoteLoader {
       messages.push(createChatMessage('system', metadata.systemPrompt));
     }
     
-    // Process conversation parts, alternating between user and assistant
-    for (let i = 0; i < parts.length; i++) {
-      const content = parts[i].trim();
-      if (!content) continue;
-      
-      // Alternate between user and assistant, starting with user
-      const role = i % 2 === 0 ? 'user' : 'assistant';
-      messages.push(createChatMessage(role, content));
+    // Saved chats record their format; notes without one are checked for labelled turns.
+    // Chats saved before labelled turns existed always used the separator.
+    const format = metadata ? metadata.conversationFormat || 'separator' : undefined;
+    const markedTurns = format === 'separator' ? null : parseMarkedConversation(parsed.content);
+    if (markedTurns) {
+      for (const turn of markedTurns) {
+        messages.push(createChatMessage(turn.role, turn.content));
+      }
+    } else {
+      // Split content by separator
+      const parts = parsed.content.split(chatSeparator);
+
+      // Process conversation parts, alternating between user and assistant
+      for (let i = 0; i < parts.length; i++) {
+        const content = parts[i].trim();
+        if (!content) continue;
+        
+        // Alternate between user and assistant, starting with user
+        const role = i % 2 === 0 ? 'user' : 'assistant';
+        messages.push(createChatMessage(role, content));
+      }
     }
     
+    const alternates = this.restoreAlternates(metadata?.alternates || [], messages);
+    
     // Create conversation
     const now = new Date();
     return {
       id: generateConversationId(),
       title: this.generateTitleFromFilename(filename),
       messages,
+      alternates: alternates.length > 0 ? alternates : undefined,
       createdAt: metadata?.createdAt ? new Date(metadata.createdAt) : now,
       updatedAt: metadata?.updatedAt ? new Date(metadata.updatedAt) : now
     };
   }
 
+  /**
+   * Link saved alternates back into the tree; parents given as turn indexes point at the
+   * loaded body turns, and alternates whose turn no longer exists are dropped
+   */
+  private restoreAlternates(saved: SavedAlternate[], messages: ChatMessage[]): ChatMessage[] {
+    const turns = messages.filter(message => message.role !== 'system');
+    const firstTurnIndex = turns.length > 0 ? messages.indexOf(turns[0]) : messages.length;
+    const rootParentId = firstTurnIndex > 0 ? messages[firstTurnIndex - 1].id : null;
+    
+    const alternates: ChatMessage[] = [];
+    for (const entry of saved) {
+      let parentId: string | null;
+      if (entry.parent === null) {
+        parentId = rootParentId;
+      } else if (typeof entry.parent === 'number') {
+        const turn = turns[entry.parent];
+        if (!turn) continue;
+        parentId = turn.id;
+      } else {
+        parentId = entry.parent;
+      }
+      
+      const timestamp = new Date(entry.timestamp);
+      alternates.push(createChatMessage(entry.role, entry.content, {
+        id: entry.id,
+        timestamp: isNaN(timestamp.getTime()) ? new Date() : timestamp,
+        parentId
+      }));
+    }
+    return alternates;
+  }
+
   /**
    * Generate conversation title from filename
    */
@@ -3,8 +3,9 @@
  */
 
 import { App, TFile, Notice } from 'obsidian';
-import { ChatConversation, SavedChatMetadata } from './chat_types';
+import { ChatConversation, SavedAlternate, SavedChatMetadata } from './chat_types';
 import { VaultBotPluginSettings } from '../settings';
+import { formatConversation } from '../services/conversation_format';
 
 export class NoteSaver {
   private app: App;
@@ -146,16 +147,41 @@ export class NoteSaver {
     
     return {
       chatSeparator: this.settings.chatSeparator,
+      conversationFormat: this.settings.conversationFormat || 'separator',
       apiProvider: this.settings.apiProvider,
       model: providerSettings.model || 'unknown',
       systemPrompt: providerSettings.system_prompt || '',
       temperature: providerSettings.temperature || 1.0,
       createdAt: conversation.createdAt.toISOString(),
       updatedAt: conversation.updatedAt.toISOString(),
-      messageCount: conversation.messages.length
+      messageCount: conversation.messages.length,
+      alternates: this.generateAlternates(conversation)
     };
   }
 
+  /**
+   * Alternates on inactive branches, with parents on the active path given as body turn indexes
+   */
+  private generateAlternates(conversation: ChatConversation): SavedAlternate[] | undefined {
+    const alternates = conversation.alternates || [];
+    if (alternates.length === 0) return undefined;
+    
+    const turns = conversation.messages.filter(message => message.role !== 'system');
+    return alternates.map(message => {
+      const parentId = message.parentId ?? null;
+      const turnIndex = turns.findIndex(turn => turn.id === parentId);
+      const onActivePath = conversation.messages.some(m => m.id === parentId);
+      return {
+        id: message.id,
+        // A system message isn't written to the body, so children of it start the conversation
+        parent: turnIndex !== -1 ? turnIndex : onActivePath ? null : parentId,
+        role: message.role,
+        content: message.content,
+        timestamp: message.timestamp.toISOString()
+      };
+    });
+  }
+
   /**
    * Generate YAML frontmatter
    */
@@ -163,31 +189,24 @@ export class NoteSaver {
     return `---
 vault-bot-chat: true
 chat-separator: ${JSON.stringify(metadata.chatSeparator)}
+conversation-format: "${metadata.conversationFormat || 'separator'}"
 api-provider: "${metadata.apiProvider}"
 model: "${metadata.model}"
 system-prompt: ${JSON.stringify(metadata.systemPrompt)}
 temperature: ${metadata.temperature}
 created-at: "${metadata.createdAt}"
 updated-at: "${metadata.updatedAt}"
-message-count: ${metadata.messageCount}
+message-count: ${metadata.messageCount}${metadata.alternates ? `\nalternates: ${JSON.stringify(metadata.alternates)}` : ''}
 ---`;
   }
 
   /**
-   * Generate chat content using chat separator
+   * Generate chat content in the configured format: joined by the chat separator, or as labelled turns
    */
   private generateChatContent(conversation: ChatConversation): string {
-    const separator = this.settings.chatSeparator;
-    const parts: string[] = [];
-    
-    for (const message of conversation.messages) {
-      // Skip system messages in the note content
-      if (message.role === 'system') continue;
-      
-      parts.push(message.content.trim());
-    }
-    
-    return parts.join(separator);
+    // Skip system messages in the note content
+    const turns = conversation.messages.filter(message => message.role !== 'system');
+    return formatConversation(turns, this.settings.conversationFormat || 'separator', this.settings.chatSeparator);
   }
 
   /**
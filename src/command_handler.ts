@@ -1,12 +1,45 @@
-import { Editor, MarkdownView, Notice } from 'obsidian';
-import { AIProviderWrapper, AIMessage } from './aiprovider';
+import { Editor, MarkdownView, Notice, type TFile } from 'obsidian';
+import { AIProviderWrapper, AIMessage, type AIResponseMetadata, type PreparedRequest } from './aiprovider';
 import VaultBotPlugin from '../main';
-import { recordChatCall, type ChatRequestRecord, type ChatResponseRecord, type ChatMessage } from './recorder';
+import { recordChatCall, applyResponseMetadata, type ChatRequestRecord, type ChatResponseRecord, type ChatMessage } from './recorder';
 import { resolveAiCallsDir } from './storage_paths';
 import { redactMessages } from './redaction';
+import { inspectRequest } from './ui/context_inspector_modal';
+import { resolveNoteSettings } from './services/note_config';
+import { debugConsole } from './utils/debug';
+import { readPromptTemplate, renderPromptTemplate, usesVariable } from './services/prompt_templates';
+import { reviewRewrite } from './ui/rewrite_modal';
+import { findTurnStart, formatTurn, formatTurnBody, formatTurnStart, parseMarkedConversation, type ConversationFormat } from './services/conversation_format';
+import type { VaultBotPluginSettings } from './settings';
 
 type Direction = 'above' | 'below';
 
+// Only the text nearest the cursor is sent when continuing long documents
+const MAX_CONTINUATION_BEFORE_CHARS = 12000;
+const MAX_CONTINUATION_AFTER_CHARS = 4000;
+
+const CONTINUATION_INSTRUCTIONS = 'You continue documents. Reply with only the text that comes next, in the same language, voice and formatting. Do not repeat the document or add commentary. Start with a space or line break if the text needs one.';
+
+/**
+ * The document goes in as text to continue rather than as a chat turn; the configured
+ * system prompt is kept as extra guidance
+ */
+function buildContinuationMessages(before: string, after: string, systemPrompt: string | null): AIMessage[] {
+    const system = systemPrompt ? `${CONTINUATION_INSTRUCTIONS}\n\n${systemPrompt}` : CONTINUATION_INSTRUCTIONS;
+    const beforeText = before.slice(-MAX_CONTINUATION_BEFORE_CHARS);
+    const user = after.trim()
+        ? `Write the text that belongs at the cursor, between the two parts of this document.\n\n<before_cursor>\n${beforeText}\n</before_cursor>\n\n<after_cursor>\n${after.slice(0, MAX_CONTINUATION_AFTER_CHARS)}\n</after_cursor>`
+        : `Continue this document from where it ends.\n\n<document>\n${beforeText}\n</document>`;
+    return [
+        { role: 'system', content: system },
+        { role: 'user', content: user },
+    ];
+}
+
+function buildRewritePrompt(text: string, instruction: string): string {
+    return `Rewrite the text below. ${instruction}\nReply with only the rewritten text, without quotes, code fences or commentary.\n\n${text}`;
+}
+
 export class CommandHandler {
     plugin: VaultBotPlugin;
     abortController: AbortController | null = null;
@@ -35,7 +68,33 @@ export class CommandHandler {
         this.calculateSeparatorMetrics();
     }
 
+    private get conversationFormat(): ConversationFormat {
+        return this.plugin.settings.conversationFormat || 'separator';
+    }
+
+    /**
+     * What replaces the selection before a response streams below it: the selection followed
+     * by the separator, or the selection as a user turn followed by an opened assistant turn
+     */
+    private openResponseBelow(selection: string): string {
+        const format = this.conversationFormat;
+        if (format === 'separator') {
+            return selection ? selection + this.plugin.settings.chatSeparator : '';
+        }
+        const userTurn = selection.trim() ? formatTurn('user', selection, format) + '\n\n' : '';
+        return userTurn + formatTurnStart('assistant', format);
+    }
+
     private parseConversationFromText(text: string, reverseOrder: boolean = false): { conversation: AIMessage[]; lastUserMessage: string } {
+        // Labelled turns are read whichever format is selected, so switching formats keeps old notes working
+        const markedTurns = parseMarkedConversation(text);
+        if (markedTurns) {
+            const conversation: AIMessage[] = (reverseOrder ? markedTurns.reverse() : markedTurns)
+                .map(turn => ({ role: turn.role, content: turn.content }));
+            const lastUser = conversation.filter(message => message.role === 'user').pop();
+            return { conversation, lastUserMessage: lastUser ? String(lastUser.content) : '' };
+        }
+
         const separator = this.plugin.settings.chatSeparator;
         
         // Split text by separator to get conversation parts
@@ -139,12 +198,18 @@ export class CommandHandler {
         const signal = this.abortController.signal;
 
         try {
-            const provider = new AIProviderWrapper(this.plugin.settings, (this.plugin as any).app);
             const requestStart = new Date();
             const currentFile = view.file; // Get the current file from the view
+            const settings = await this.getNoteSettings(currentFile);
+            const provider = new AIProviderWrapper(settings, (this.plugin as any).app);
 
             const cursor = editor.getCursor();
-            const currentLineStartPos = { line: cursor.line, ch: 0 };
+            const format = this.conversationFormat;
+            // Above the conversation, a question typed inside a labelled user turn starts at its marker
+            const turnStartLine = format !== 'separator' && direction === 'above'
+                ? findTurnStart((line) => editor.getLine(line), cursor.line)
+                : cursor.line;
+            const currentLineStartPos = { line: turnStartLine, ch: 0 };
             const currentLineEndPos = { line: cursor.line, ch: editor.getLine(cursor.line).length };
 
             // Direction-specific slice for conversation parsing (line-based)
@@ -165,9 +230,26 @@ export class CommandHandler {
                 return;
             }
 
+            // Let the user review what will be sent before anything is written to the note
+            let reviewedRequest: PreparedRequest | null = null;
+            if (this.plugin.settings.inspectContextBeforeSending) {
+                const messages: AIMessage[] = conversation.length > 0
+                    ? this.buildConversationMessages(conversation, provider)
+                    : [{ role: 'user', content: queryText }];
+                reviewedRequest = await this.reviewRequest(provider, messages, currentFile || undefined, conversation.length > 0);
+                if (!reviewedRequest) return;
+            }
+
             // Compute insertion positions at line boundaries based on direction
             let responseStartPos: { line: number; ch: number };
-            if (direction === 'below') {
+            if (format !== 'separator') {
+                // Labelled turns: open an assistant turn after the current line (below) or before it (above)
+                const assistantStart = formatTurnStart('assistant', format);
+                const insertionPos = direction === 'below' ? currentLineEndPos : currentLineStartPos;
+                const opening = direction === 'below' ? '\n\n' + assistantStart : assistantStart + '\n\n';
+                editor.replaceRange(opening, insertionPos, insertionPos);
+                responseStartPos = this.calculateResponseStartPosition(insertionPos, direction === 'below' ? opening : assistantStart);
+            } else if (direction === 'below') {
                 // Insert separator at end of current line; response streams after it
                 const insertionPos = currentLineEndPos;
                 const separatorWithNewline = this.plugin.settings.chatSeparator + '\n';
@@ -190,12 +272,13 @@ export class CommandHandler {
                 if (!text) return; // Skip empty chunks
 
                 responseBuffer += text;
+                const shown = formatTurnBody(responseBuffer, format);
 
                 // Replace only the previously inserted response region with the new buffer
-                editor.replaceRange(responseBuffer, responseStartPos, lastInsertedEnd);
+                editor.replaceRange(shown, responseStartPos, lastInsertedEnd);
 
                 // Update cursor position to end of inserted content
-                const newCursor = this.calculateEndPosition(responseStartPos, responseBuffer);
+                const newCursor = this.calculateEndPosition(responseStartPos, shown);
                 editor.setCursor(newCursor);
                 lastInsertedEnd = newCursor; // Advance the region end
             };
@@ -209,6 +292,7 @@ export class CommandHandler {
                 recordedModel = model;
                 recordedOptions = options;
             };
+            let responseMetadata: AIResponseMetadata | undefined;
 
             // Buffer for tracking final response to add separator after completion
             let finalResponseBuffer = '';
@@ -219,15 +303,29 @@ export class CommandHandler {
             };
 
             // Use conversation context if available, otherwise use simple prompt
-            if (conversation.length > 0) {
+            if (reviewedRequest) {
+                responseMetadata = await provider.sendPreparedRequest(reviewedRequest, enhancedOnUpdate, signal, recordingCallback);
+            } else if (conversation.length > 0) {
                 const conversationMessages = this.buildConversationMessages(conversation, provider);
-                await provider.getStreamingResponseWithConversation(conversationMessages, enhancedOnUpdate, signal, recordingCallback, currentFile || undefined, true);
+                responseMetadata = await provider.getStreamingResponseWithConversation(conversationMessages, enhancedOnUpdate, signal, recordingCallback, currentFile || undefined, true);
             } else {
-                await provider.getStreamingResponse(queryText, enhancedOnUpdate, signal, recordingCallback, currentFile || undefined);
+                responseMetadata = await provider.getStreamingResponse(queryText, enhancedOnUpdate, signal, recordingCallback, currentFile || undefined);
             }
 
             // After response is complete, add separator for next interaction
-            if (finalResponseBuffer) {
+            if (finalResponseBuffer && format !== 'separator') {
+                // Open a user turn for the next question: after the answer below, or above it for the reversed layout
+                const userStart = formatTurnStart('user', format);
+                if (direction === 'below') {
+                    const currentCursor = editor.getCursor();
+                    const nextTurn = '\n\n' + userStart;
+                    editor.replaceRange(nextTurn, currentCursor, currentCursor);
+                    editor.setCursor(this.calculateEndPosition(currentCursor, nextTurn));
+                } else {
+                    editor.replaceRange(userStart + '\n\n', currentLineStartPos, currentLineStartPos);
+                    editor.setCursor(this.calculateEndPosition(currentLineStartPos, userStart));
+                }
+            } else if (finalResponseBuffer) {
                 const currentCursor = editor.getCursor();
                 const separatorToAdd = direction === 'below' ? '\n' + this.plugin.settings.chatSeparator : this.plugin.settings.chatSeparator + '\n';
                 editor.replaceRange(separatorToAdd, currentCursor, currentCursor);
@@ -236,40 +334,7 @@ export class CommandHandler {
                 editor.setCursor(newCursorPos);
             }
 
-            // After streaming completes, optionally record the call using captured messages
-            if (this.plugin.settings.recordApiCalls && recordedMessages.length > 0) {
-                try {
-                    const redaction = redactMessages(recordedMessages);
-
-                    const requestRecord: ChatRequestRecord = {
-                        provider: this.plugin.settings.apiProvider,
-                        model: recordedModel,
-                        messages: redaction.messages,
-                        options: recordedOptions,
-                        timestamp: requestStart.toISOString(),
-                    };
-
-                    const responseRecord: ChatResponseRecord = {
-                        content: responseBuffer || null,
-                        provider: this.plugin.settings.apiProvider,
-                        model: recordedModel,
-                        timestamp: new Date().toISOString(),
-                        duration_ms: Date.now() - requestStart.getTime(),
-                    };
-
-                    const dir = resolveAiCallsDir((this.plugin as any).app);
-                    await recordChatCall({
-                        dir,
-                        provider: requestRecord.provider,
-                        model: requestRecord.model,
-                        request: requestRecord,
-                        response: responseRecord,
-                        redacted: redaction.redacted,
-                    });
-                } catch (recErr) {
-                    console.error('Recording AI call failed (non-fatal):', recErr);
-                }
-            }
+            await this.recordCall(settings.apiProvider, requestStart, recordedMessages, recordedModel, recordedOptions, responseBuffer, responseMetadata);
 
         } catch (error: any) {
             if (error.name !== 'AbortError') {
@@ -281,6 +346,35 @@ export class CommandHandler {
         }
     }
 
+    /**
+     * Open the context inspector on the assembled request; null means the user cancelled
+     */
+    private async reviewRequest(provider: AIProviderWrapper, messages: AIMessage[], currentFile: TFile | undefined, isConversationMode: boolean): Promise<PreparedRequest | null> {
+        const prepared = await provider.prepareRequest(messages, currentFile, isConversationMode);
+        const reviewed = await inspectRequest((this.plugin as any).app, prepared);
+        if (!reviewed) {
+            new Notice('Request cancelled');
+        }
+        return reviewed;
+    }
+
+    /**
+     * Global settings with the current note's vault-bot-* frontmatter applied
+     */
+    private async getNoteSettings(file: TFile | null): Promise<VaultBotPluginSettings> {
+        const app = (this.plugin as any).app;
+        if (!file || !app?.metadataCache) return this.plugin.settings;
+
+        const { settings, overrides, problems } = await resolveNoteSettings(app, this.plugin.settings, file);
+        if (overrides.length > 0) {
+            debugConsole.log(`Using note settings from ${file.path}: ${overrides.join(', ')}`);
+        }
+        if (problems.length > 0) {
+            new Notice(`Ignoring frontmatter settings in ${file.basename}: ${problems.join('; ')}`);
+        }
+        return settings;
+    }
+
     async handleGetResponseBelow(editor: Editor, view: MarkdownView) {
         const selection = editor.getSelection();
 
@@ -291,18 +385,254 @@ export class CommandHandler {
         }
 
         // Original behavior when text is selected
+        await this.streamResponseBelow(editor, view, selection, this.openResponseBelow(selection));
+    }
+
+    /**
+     * Run a prompt template from the templates folder, streaming the response below the
+     * selection (or at the cursor) the same way Get Response Below does
+     */
+    async handleRunPromptTemplate(editor: Editor, view: MarkdownView, templatePath: string) {
+        const app = (this.plugin as any).app;
+        const template = await readPromptTemplate(app, templatePath);
+        if (template === null) {
+            new Notice(`Prompt template not found: ${templatePath}`);
+            return;
+        }
+
+        const selection = editor.getSelection();
+        const currentFile = view.file;
+        let clipboard = '';
+        if (usesVariable(template, 'clipboard')) {
+            try {
+                clipboard = await navigator.clipboard.readText();
+            } catch (error) {
+                console.error('Could not read the clipboard for a prompt template:', error);
+            }
+        }
+
+        const prompt = renderPromptTemplate(template, {
+            selection,
+            note: editor.getValue(),
+            title: currentFile?.basename || '',
+            frontmatter: (currentFile && app?.metadataCache?.getFileCache(currentFile)?.frontmatter) || {},
+            clipboard,
+            date: new Date(),
+        });
+        if (!prompt.trim()) {
+            new Notice('The prompt template is empty.');
+            return;
+        }
+
+        await this.streamResponseBelow(editor, view, prompt, this.openResponseBelow(selection));
+    }
+
+    /**
+     * Stream a rewrite of the selection into a diff preview. Accepting replaces the selection
+     * in one edit, so a single undo restores the original.
+     */
+    async handleRewriteSelection(editor: Editor, view: MarkdownView) {
+        const selection = editor.getSelection();
+        if (!selection.trim()) {
+            new Notice('Select the text to rewrite first.');
+            return;
+        }
+        if (this.abortController) {
+            new Notice('A response is already in progress. Please stop it first.');
+            return;
+        }
+
+        const app = (this.plugin as any).app;
+        const from = editor.getCursor('from');
+        const to = editor.getCursor('to');
+        const currentFile = view.file;
+        const settings = await this.getNoteSettings(currentFile);
+        const provider = new AIProviderWrapper(settings, app);
+
+        const rewritten = await reviewRewrite(app, selection, async (instruction, onUpdate, signal) => {
+            // Each attempt gets its own controller so Stop Response can end it
+            const controller = new AbortController();
+            signal.addEventListener('abort', () => controller.abort());
+            this.abortController = controller;
+
+            const requestStart = new Date();
+            let recordedMessages: ChatMessage[] = [];
+            let recordedModel = '';
+            let recordedOptions: Record<string, any> = {};
+            let responseBuffer = '';
+            try {
+                // Every attempt retrieves its own context, so each one is reviewed
+                const messages: AIMessage[] = [{ role: 'user', content: buildRewritePrompt(selection, instruction) }];
+                const request = this.plugin.settings.inspectContextBeforeSending
+                    ? await this.reviewRequest(provider, messages, currentFile || undefined, false)
+                    : await provider.prepareRequest(messages, currentFile || undefined, false);
+                if (!request) {
+                    // The preview shows a cancelled review like a stopped attempt
+                    throw new DOMException('Request cancelled', 'AbortError');
+                }
+
+                const responseMetadata = await provider.sendPreparedRequest(
+                    request,
+                    (text) => {
+                        responseBuffer += text;
+                        onUpdate(text);
+                    },
+                    controller.signal,
+                    (messages, model, options) => {
+                        recordedMessages = messages;
+                        recordedModel = model;
+                        recordedOptions = options;
+                    }
+                );
+                await this.recordCall(settings.apiProvider, requestStart, recordedMessages, recordedModel, recordedOptions, responseBuffer, responseMetadata);
+            } finally {
+                if (this.abortController === controller) this.abortController = null;
+            }
+        });
+        if (rewritten === null) return;
+
+        // Keep the whitespace around the selection so surrounding paragraphs stay separated
+        const leading = selection.match(/^\s*/)?.[0] || '';
+        const trailing = selection.match(/\s*$/)?.[0] || '';
+        editor.replaceRange(leading + rewritten + trailing, from, to);
+    }
+
+    /**
+     * Stream a continuation of the document straight in at the cursor, without a chat separator.
+     * With fillInMiddle the text after the cursor is sent too, so the completion can lead into it.
+     */
+    async handleContinueWriting(editor: Editor, view: MarkdownView, fillInMiddle = false) {
         if (this.abortController) {
             new Notice('A response is already in progress. Please stop it first.');
             return;
         }
+
+        const cursor = editor.getCursor('to');
+        const before = editor.getRange({ line: 0, ch: 0 }, cursor);
+        const lastLine = editor.lastLine();
+        const after = fillInMiddle ? editor.getRange(cursor, { line: lastLine, ch: editor.getLine(lastLine).length }) : '';
+        if (!before.trim() && !after.trim()) {
+            new Notice('There is no text to continue.');
+            return;
+        }
+
         this.abortController = new AbortController();
         const signal = this.abortController.signal;
 
         try {
-            const provider = new AIProviderWrapper(this.plugin.settings, (this.plugin as any).app);
-            const initialContent = selection + this.plugin.settings.chatSeparator;
+            const requestStart = new Date();
+            const currentFile = view.file;
+            const settings = await this.getNoteSettings(currentFile);
+            const provider = new AIProviderWrapper(settings, (this.plugin as any).app);
+            const messages = buildContinuationMessages(before, after, provider.getSystemPrompt());
+
+            // The note is already in the messages, so retrieval runs in conversation mode to leave it out
+            let reviewedRequest: PreparedRequest | null = null;
+            if (this.plugin.settings.inspectContextBeforeSending) {
+                reviewedRequest = await this.reviewRequest(provider, messages, currentFile || undefined, true);
+                if (!reviewedRequest) return;
+            }
+
+            let responseBuffer = '';
+            const onUpdate = (text: string) => {
+                if (!text) return;
+                const insertAt = this.calculateEndPosition(cursor, responseBuffer);
+                responseBuffer += text;
+                editor.replaceRange(text, insertAt, insertAt);
+                editor.setCursor(this.calculateEndPosition(cursor, responseBuffer));
+            };
+
+            let recordedMessages: ChatMessage[] = [];
+            let recordedModel = '';
+            let recordedOptions: Record<string, any> = {};
+            const recordingCallback = (recorded: ChatMessage[], model: string, options: Record<string, any>) => {
+                recordedMessages = recorded;
+                recordedModel = model;
+                recordedOptions = options;
+            };
+
+            const responseMetadata = reviewedRequest
+                ? await provider.sendPreparedRequest(reviewedRequest, onUpdate, signal, recordingCallback)
+                : await provider.getStreamingResponseWithConversation(messages, onUpdate, signal, recordingCallback, currentFile || undefined, true);
+
+            await this.recordCall(settings.apiProvider, requestStart, recordedMessages, recordedModel, recordedOptions, responseBuffer, responseMetadata);
+        } catch (error) {
+            if (error.name !== 'AbortError') {
+                new Notice('Error getting response from AI.');
+                console.error(error);
+            }
+        } finally {
+            this.abortController = null;
+        }
+    }
+
+    /**
+     * Record a finished call when recording is on; failures are logged and otherwise ignored
+     */
+    private async recordCall(
+        providerId: string,
+        requestStart: Date,
+        messages: ChatMessage[],
+        model: string,
+        options: Record<string, any>,
+        content: string,
+        responseMetadata?: AIResponseMetadata
+    ) {
+        if (!this.plugin.settings.recordApiCalls || messages.length === 0) return;
+        try {
+            const redaction = redactMessages(messages);
+            const requestRecord: ChatRequestRecord = {
+                provider: providerId,
+                model,
+                messages: redaction.messages,
+                options,
+                timestamp: requestStart.toISOString(),
+            };
+            const responseRecord: ChatResponseRecord = applyResponseMetadata({
+                content: content || null,
+                provider: providerId,
+                model,
+                timestamp: new Date().toISOString(),
+                duration_ms: Date.now() - requestStart.getTime(),
+            }, responseMetadata);
+
+            await recordChatCall({
+                dir: resolveAiCallsDir((this.plugin as any).app),
+                provider: providerId,
+                model,
+                request: requestRecord,
+                response: responseRecord,
+                redacted: redaction.redacted,
+            });
+        } catch (recErr) {
+            console.error('Recording AI call failed (non-fatal):', recErr);
+        }
+    }
+
+    /**
+     * Replace the selection with initialContent, stream the response for query after it and
+     * add a separator (or an opened user turn) for the next message
+     */
+    private async streamResponseBelow(editor: Editor, view: MarkdownView, query: string, initialContent: string) {
+        if (this.abortController) {
+            new Notice('A response is already in progress. Please stop it first.');
+            return;
+        }
+        this.abortController = new AbortController();
+        const signal = this.abortController.signal;
+
+        try {
+            const format = this.conversationFormat;
             const requestStart = new Date();
             const currentFile = view.file; // Get the current file from the view
+            const settings = await this.getNoteSettings(currentFile);
+            const provider = new AIProviderWrapper(settings, (this.plugin as any).app);
+
+            let reviewedRequest: PreparedRequest | null = null;
+            if (this.plugin.settings.inspectContextBeforeSending) {
+                reviewedRequest = await this.reviewRequest(provider, [{ role: 'user', content: query }], currentFile || undefined, false);
+                if (!reviewedRequest) return;
+            }
             
             // Get the selection range before replacing
             const selectionStart = editor.getCursor('from');
@@ -322,13 +652,14 @@ export class CommandHandler {
                 if (!text) return; // Skip empty chunks
                 
                 responseBuffer += text;
+                const shown = formatTurnBody(responseBuffer, format);
                 
                 // Clear previous response and insert updated buffer
                 // This ensures we always have a clean, consistent state
-                editor.replaceRange(responseBuffer, lastUpdatePos, editor.getCursor());
+                editor.replaceRange(shown, lastUpdatePos, editor.getCursor());
                 
                 // Update cursor position to end of inserted content
-                const newCursor = this.calculateEndPosition(responseStartPos, responseBuffer);
+                const newCursor = this.calculateEndPosition(responseStartPos, shown);
                 editor.setCursor(newCursor);
                 lastUpdatePos = responseStartPos; // Reset for next update
             };
@@ -343,12 +674,16 @@ export class CommandHandler {
                 recordedOptions = options;
             };
 
-            await provider.getStreamingResponse(selection, onUpdate, signal, recordingCallback, currentFile || undefined);
+            const responseMetadata = reviewedRequest
+                ? await provider.sendPreparedRequest(reviewedRequest, onUpdate, signal, recordingCallback)
+                : await provider.getStreamingResponse(query, onUpdate, signal, recordingCallback, currentFile || undefined);
 
             // After response is complete, add separator for next interaction
             if (responseBuffer) {
                 const currentCursor = editor.getCursor();
-                const separatorToAdd = '\n' + this.plugin.settings.chatSeparator;
+                const separatorToAdd = format === 'separator'
+                    ? '\n' + this.plugin.settings.chatSeparator
+                    : '\n\n' + formatTurnStart('user', format);
                 editor.replaceRange(separatorToAdd, currentCursor, currentCursor);
                 // Position cursor after the separator for next input
                 const newCursorPos = this.calculateEndPosition(currentCursor, separatorToAdd);
@@ -356,40 +691,7 @@ export class CommandHandler {
             }
 
             // After streaming completes, optionally record the call using captured messages
-            if (this.plugin.settings.recordApiCalls && recordedMessages.length > 0) {
-                try {
-                    const redaction = redactMessages(recordedMessages);
-
-                    const requestRecord: ChatRequestRecord = {
-                        provider: this.plugin.settings.apiProvider,
-                        model: recordedModel,
-                        messages: redaction.messages,
-                        options: recordedOptions,
-                        timestamp: requestStart.toISOString(),
-                    };
-
-                    const responseRecord: ChatResponseRecord = {
-                        content: responseBuffer || null,
-                        provider: this.plugin.settings.apiProvider,
-                        model: recordedModel,
-                        timestamp: new Date().toISOString(),
-                        duration_ms: Date.now() - requestStart.getTime(),
-                    };
-
-                    const dir = resolveAiCallsDir((this.plugin as any).app);
-                    await recordChatCall({
-                        dir,
-                        provider: requestRecord.provider,
-                        model: requestRecord.model,
-                        request: requestRecord,
-                        response: responseRecord,
-                        redacted: redaction.redacted,
-                    });
-                } catch (recErr) {
-                    console.error('Recording AI call failed (non-fatal):', recErr);
-                    // Show a light notice only if it repeatedly fails would be ideal; keep it quiet here.
-                }
-            }
+            await this.recordCall(settings.apiProvider, requestStart, recordedMessages, recordedModel, recordedOptions, responseBuffer, responseMetadata);
 
         } catch (error) {
             if (error.name !== 'AbortError') {
@@ -413,6 +715,12 @@ export class CommandHandler {
         let separatorLineIndex: number | null = null;
 
         if (!selection) {
+            // Labelled turns are found with their markers and answered like any conversation above the cursor
+            if (this.conversationFormat !== 'separator') {
+                await this.handleDirectionalConversation(editor, 'above', view);
+                return;
+            }
+
             // No selection: first check for separator-mode, then fallback to conversation mode
             const cursor = editor.getCursor();
             const currentLine = cursor.line;
@@ -488,43 +796,35 @@ export class CommandHandler {
             const signal = this.abortController.signal;
 
             try {
-                const provider = new AIProviderWrapper(this.plugin.settings, (this.plugin as any).app);
                 const requestStart = new Date();
                 const currentFile = view.file; // Get the current file from the view
-
-                // Determine mode and setup accordingly
-                let conversationMode = false;
-                let conversation: AIMessage[] = [];
-                
-                if (!selection && !separatorMode) {
-                    // This is conversation mode - get text below cursor and parse it (reverse order)
-                    const cursor = editor.getCursor();
-                    const textBelowCursor = editor.getRange(cursor, { line: editor.lastLine(), ch: editor.getLine(editor.lastLine()).length });
-                    const parsedConversation = this.parseConversationFromText(textBelowCursor, true);
-                    conversation = parsedConversation.conversation;
-                    conversationMode = true;
+                const settings = await this.getNoteSettings(currentFile);
+                const provider = new AIProviderWrapper(settings, (this.plugin as any).app);
+                const format = this.conversationFormat;
+                // Without a selection the query is below a separator; conversations were handed off above
+                const promptText = selection || queryText;
+
+                // Let the user review what will be sent before anything is written to the note
+                let reviewedRequest: PreparedRequest | null = null;
+                if (this.plugin.settings.inspectContextBeforeSending) {
+                    reviewedRequest = await this.reviewRequest(provider, [{ role: 'user', content: promptText }], currentFile || undefined, false);
+                    if (!reviewedRequest) return;
                 }
 
-                const initialContent = separatorMode ? queryText : (selection ? (selection + this.plugin.settings.chatSeparator) : '');
-                
                 // Get the selection range before replacing
                 const selectionStart = editor.getCursor('from');
-                const selectionEnd = editor.getCursor('to');
 
                 // Determine where the response should be inserted based on mode
                 let responseStartPos: { line: number; ch: number };
 
                 // Handle text replacement based on mode
-                if (conversationMode) {
-                    // Conversation mode: insert separator first at start of current line, then stream response above it
-                    const cursor = editor.getCursor();
-                    const currentLineStartPos = { line: cursor.line, ch: 0 };
-                    // Do not add extra newlines; the chat separator already contains spacing
-                    const separatorOnly = this.plugin.settings.chatSeparator;
-                    editor.replaceRange(separatorOnly, currentLineStartPos, currentLineStartPos);
-                    
-                    // Calculate where the response should start (at the original line start position)
-                    responseStartPos = currentLineStartPos; // Response goes at the start of the current line
+                if (!separatorMode && format !== 'separator') {
+                    // Selection mode (Above) with labelled turns: open an assistant turn before the
+                    // selection and mark the selection as the user turn it answers
+                    const selectionLineStart = { line: selectionStart.line, ch: 0 };
+                    const assistantStart = formatTurnStart('assistant', format);
+                    editor.replaceRange(assistantStart + '\n\n' + formatTurnStart('user', format), selectionLineStart, selectionLineStart);
+                    responseStartPos = this.calculateResponseStartPosition(selectionLineStart, assistantStart);
                 } else if (!separatorMode) {
                     // Selection mode (Above): do NOT replace the selection.
                     // Insert the chat separator at the selection start; stream the response before it.
@@ -548,14 +848,7 @@ export class CommandHandler {
 
                     responseBuffer += text;
 
-                    if (conversationMode) {
-                        // Conversation mode: replace only the response part (separator already inserted)
-                        editor.replaceRange(responseBuffer, responseStartPos, lastInsertedEnd);
-                        lastInsertedEnd = this.calculateEndPosition(responseStartPos, responseBuffer);
-                        
-                        // Keep cursor positioned after the response
-                        editor.setCursor(lastInsertedEnd);
-                    } else if (separatorMode) {
+                    if (separatorMode) {
                         // Separator mode: insert response (no extra trailing newline)
                         const insertText = responseBuffer;
                         editor.replaceRange(insertText, responseStartPos, lastInsertedEnd);
@@ -566,8 +859,9 @@ export class CommandHandler {
                         editor.setCursor(afterQueryPos);
                     } else {
                         // Selection mode (Above): stream the response before the inserted separator; do not alter the original selection
-                        editor.replaceRange(responseBuffer, responseStartPos, lastInsertedEnd);
-                        lastInsertedEnd = this.calculateEndPosition(responseStartPos, responseBuffer);
+                        const shown = formatTurnBody(responseBuffer, format);
+                        editor.replaceRange(shown, responseStartPos, lastInsertedEnd);
+                        lastInsertedEnd = this.calculateEndPosition(responseStartPos, shown);
                         editor.setCursor(lastInsertedEnd);
                     }
                 };
@@ -581,73 +875,31 @@ export class CommandHandler {
                     recordedModel = model;
                     recordedOptions = options;
                 };
+                let responseMetadata: AIResponseMetadata | undefined;
 
                 // Make API call based on mode
-                if (conversationMode && conversation.length > 0) {
-                    const conversationMessages = this.buildConversationMessages(conversation, provider);
-                    await provider.getStreamingResponseWithConversation(conversationMessages, onUpdate, signal, recordingCallback, currentFile || undefined, true);
+                if (reviewedRequest) {
+                    responseMetadata = await provider.sendPreparedRequest(reviewedRequest, onUpdate, signal, recordingCallback);
                 } else {
-                    const promptText = selection || queryText;
-                    await provider.getStreamingResponse(promptText, onUpdate, signal, recordingCallback, currentFile || undefined);
+                    responseMetadata = await provider.getStreamingResponse(promptText, onUpdate, signal, recordingCallback, currentFile || undefined);
                 }
 
-                // After response is complete, add separator for next interaction (only if we actually got a response)
+                // After response is complete, open the next turn above the response (only if we actually got a response)
                 if (responseBuffer) {
-                    const currentCursor = editor.getCursor();
-                    let separatorToAdd: string;
-                    
-                    if (conversationMode) {
-                        // For conversation mode, add separator below the response
-                        separatorToAdd = '\n' + this.plugin.settings.chatSeparator;
+                    if (!separatorMode && format !== 'separator') {
+                        // Above the assistant turn, like the reversed layout of conversations
+                        const assistantLineStart = { line: selectionStart.line, ch: 0 };
+                        const userStart = formatTurnStart('user', format);
+                        editor.replaceRange(userStart + '\n\n', assistantLineStart, assistantLineStart);
+                        editor.setCursor(this.calculateEndPosition(assistantLineStart, userStart));
                     } else {
-                        // For other modes (selection/separator), add separator above the response
-                        separatorToAdd = this.plugin.settings.chatSeparator + '\n';
                         // Insert at the beginning of the response area
-                        const insertPos = responseStartPos;
-                        editor.replaceRange(separatorToAdd, insertPos, insertPos);
-                        return; // Early return to avoid duplicate separator insertion
+                        const separatorToAdd = this.plugin.settings.chatSeparator + '\n';
+                        editor.replaceRange(separatorToAdd, responseStartPos, responseStartPos);
                     }
-                    
-                    editor.replaceRange(separatorToAdd, currentCursor, currentCursor);
-                    // Position cursor after the separator for next input
-                    const newCursorPos = this.calculateEndPosition(currentCursor, separatorToAdd);
-                    editor.setCursor(newCursorPos);
                 }
 
-                // After streaming completes, optionally record the call using captured messages
-                if (this.plugin.settings.recordApiCalls && recordedMessages.length > 0) {
-                    try {
-                        const redaction = redactMessages(recordedMessages);
-
-                        const requestRecord: ChatRequestRecord = {
-                            provider: this.plugin.settings.apiProvider,
-                            model: recordedModel,
-                            messages: redaction.messages,
-                            options: recordedOptions,
-                            timestamp: requestStart.toISOString(),
-                        };
-
-                        const responseRecord: ChatResponseRecord = {
-                            content: responseBuffer || null,
-                            provider: this.plugin.settings.apiProvider,
-                            model: recordedModel,
-                            timestamp: new Date().toISOString(),
-                            duration_ms: Date.now() - requestStart.getTime(),
-                        };
-
-                        const dir = resolveAiCallsDir((this.plugin as any).app);
-                        await recordChatCall({
-                            dir,
-                            provider: requestRecord.provider,
-                            model: requestRecord.model,
-                            request: requestRecord,
-                            response: responseRecord,
-                            redacted: redaction.redacted,
-                        });
-                    } catch (recErr) {
-                        console.error('Recording AI call failed (non-fatal):', recErr);
-                    }
-                }
+                await this.recordCall(settings.apiProvider, requestStart, recordedMessages, recordedModel, recordedOptions, responseBuffer, responseMetadata);
 
             } catch (error) {
                 if (error.name !== 'AbortError') {
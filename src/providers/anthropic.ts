@@ -0,0 +1,329 @@
+import { AIProvider, AIProviderSettings, AIMessage, ModelInfo, AIResponseMetadata, AIRequestOptions, AIToolCall, AIMessageContent, getMessageText } from './base';
+import { debugConsole } from '../utils/debug';
+
+export interface AnthropicProviderSettings extends AIProviderSettings {
+    api_key: string;
+    model: string;
+    system_prompt: string;
+    temperature: number;
+    max_tokens: number;
+}
+
+const ANTHROPIC_API_BASE = 'https://api.anthropic.com/v1';
+const ANTHROPIC_VERSION = '2023-06-01';
+
+type AnthropicContentBlock =
+    | { type: 'text'; text: string }
+    | { type: 'image'; source: { type: 'base64'; media_type: string; data: string } | { type: 'url'; url: string } }
+    | { type: 'tool_use'; id: string; name: string; input: unknown }
+    | { type: 'tool_result'; tool_use_id: string; content: string };
+
+interface AnthropicMessage {
+    role: 'user' | 'assistant';
+    content: string | AnthropicContentBlock[];
+}
+
+function toBlocks(content: string | AnthropicContentBlock[]): AnthropicContentBlock[] {
+    if (typeof content !== 'string') return content;
+    return content ? [{ type: 'text', text: content }] : [];
+}
+
+function toAnthropicContent(content: AIMessageContent): string | AnthropicContentBlock[] {
+    if (typeof content === 'string') return content;
+    return content.map((part): AnthropicContentBlock => {
+        if (part.type === 'text') return { type: 'text', text: part.text };
+        if (part.type === 'image_base64') {
+            return { type: 'image', source: { type: 'base64', media_type: part.mime_type, data: part.data } };
+        }
+        const dataUri = part.url.match(/^data:([^;]+);base64,(.+)$/);
+        return dataUri
+            ? { type: 'image', source: { type: 'base64', media_type: dataUri[1], data: dataUri[2] } }
+            : { type: 'image', source: { type: 'url', url: part.url } };
+    });
+}
+
+function parseToolInput(args: string): unknown {
+    try {
+        return args ? JSON.parse(args) : {};
+    } catch {
+        return {};
+    }
+}
+
+export class AnthropicProvider implements AIProvider {
+    private settings: AnthropicProviderSettings;
+
+    constructor(settings: AnthropicProviderSettings) {
+        this.settings = settings;
+    }
+
+    private getHeaders(): Record<string, string> {
+        return {
+            'Content-Type': 'application/json',
+            'x-api-key': this.settings.api_key,
+            'anthropic-version': ANTHROPIC_VERSION,
+            // Required for requests issued from a browser-like (Electron) context
+            'anthropic-dangerous-direct-browser-access': 'true'
+        };
+    }
+
+    /**
+     * Anthropic takes the system prompt as a top-level field and requires
+     * strictly alternating user/assistant turns that start with a user turn.
+     * Tool calls become tool_use blocks and tool results are sent as user turns.
+     */
+    private toAnthropicPayload(messages: AIMessage[]): { system?: string; messages: AnthropicMessage[] } {
+        const systemParts: string[] = [];
+        const converted: AnthropicMessage[] = [];
+
+        for (const msg of messages) {
+            if (msg.role === 'system') {
+                const text = getMessageText(msg.content);
+                if (text.trim()) systemParts.push(text);
+                continue;
+            }
+
+            let next: AnthropicMessage;
+            if (msg.role === 'tool') {
+                next = { role: 'user', content: [{ type: 'tool_result', tool_use_id: msg.tool_call_id || '', content: getMessageText(msg.content) }] };
+            } else if (msg.role === 'assistant' && msg.tool_calls?.length) {
+                next = {
+                    role: 'assistant',
+                    content: [
+                        ...toBlocks(getMessageText(msg.content)),
+                        ...msg.tool_calls.map(call => ({
+                            type: 'tool_use' as const,
+                            id: call.id,
+                            name: call.name,
+                            input: parseToolInput(call.arguments)
+                        }))
+                    ]
+                };
+            } else {
+                next = { role: msg.role, content: toAnthropicContent(msg.content) };
+            }
+
+            const last = converted[converted.length - 1];
+            if (last && last.role === next.role) {
+                // Merge consecutive turns of the same role
+                if (typeof last.content === 'string' && typeof next.content === 'string') {
+                    last.content = `${last.content}\n\n${next.content}`;
+                } else {
+                    last.content = [...toBlocks(last.content), ...toBlocks(next.content)];
+                }
+            } else {
+                converted.push(next);
+            }
+        }
+
+        if (converted.length > 0 && converted[0].role === 'assistant') {
+            converted.unshift({ role: 'user', content: '(continue)' });
+        }
+
+        return {
+            system: systemParts.length > 0 ? systemParts.join('\n\n') : undefined,
+            messages: converted
+        };
+    }
+
+    async getStreamingResponse(prompt: string, onUpdate: (text: string) => void, signal: AbortSignal): Promise<AIResponseMetadata> {
+        // Convert single prompt to message array and delegate to conversation method
+        const messages: AIMessage[] = [
+            {
+                role: 'user',
+                content: prompt
+            }
+        ];
+        return this.getStreamingResponseWithConversation(messages, onUpdate, signal);
+    }
+
+    async getStreamingResponseWithConversation(messages: AIMessage[], onUpdate: (text: string) => void, signal: AbortSignal, options?: AIRequestOptions): Promise<AIResponseMetadata> {
+        const metadata: AIResponseMetadata = {};
+        try {
+            const { system, messages: anthropicMessages } = this.toAnthropicPayload(messages);
+
+            const response = await fetch(`${ANTHROPIC_API_BASE}/messages`, {
+                method: 'POST',
+                headers: this.getHeaders(),
+                body: JSON.stringify({
+                    model: this.settings.model,
+                    max_tokens: this.settings.max_tokens || 4096,
+                    // Anthropic accepts temperatures in the 0-1 range only
+                    temperature: Math.min(Math.max(this.settings.temperature, 0), 1),
+                    ...(system ? { system } : {}),
+                    ...(options?.tools?.length ? {
+                        tools: options.tools.map(tool => ({
+                            name: tool.name,
+                            description: tool.description,
+                            input_schema: tool.parameters
+                        }))
+                    } : {}),
+                    messages: anthropicMessages,
+                    stream: true
+                }),
+                signal
+            });
+
+            if (!response.ok) {
+                const errorText = await response.text();
+                throw new Error(`HTTP ${response.status}: ${errorText}`);
+            }
+
+            if (!response.body) {
+                throw new Error('Anthropic response did not include a stream body');
+            }
+
+            await this.readEventStream(response.body, onUpdate, metadata);
+            return metadata;
+        } catch (error: any) {
+            if (error.name === 'AbortError') {
+                debugConsole.log('Anthropic request was aborted.');
+                return metadata;
+            }
+            console.error('Error in Anthropic API request:', error);
+            throw new Error('Failed to get response from Anthropic.');
+        }
+    }
+
+    /**
+     * Parse the server-sent event stream, forward text deltas and collect response metadata
+     */
+    private async readEventStream(body: ReadableStream<Uint8Array>, onUpdate: (text: string) => void, metadata: AIResponseMetadata): Promise<void> {
+        const reader = body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+        // Tool calls by content block index; their input arrives as partial JSON
+        const toolCalls = new Map<number, AIToolCall>();
+
+        let chunk = await reader.read();
+        while (!chunk.done) {
+            buffer += decoder.decode(chunk.value, { stream: true }).replace(/\r\n/g, '\n');
+
+            let boundary = buffer.indexOf('\n\n');
+            while (boundary !== -1) {
+                const rawEvent = buffer.slice(0, boundary);
+                buffer = buffer.slice(boundary + 2);
+                this.handleEvent(rawEvent, onUpdate, metadata, toolCalls);
+                boundary = buffer.indexOf('\n\n');
+            }
+
+            chunk = await reader.read();
+        }
+
+        if (buffer.trim()) {
+            this.handleEvent(buffer, onUpdate, metadata, toolCalls);
+        }
+
+        if (toolCalls.size > 0) {
+            metadata.tool_calls = Array.from(toolCalls.values());
+        }
+    }
+
+    private handleEvent(rawEvent: string, onUpdate: (text: string) => void, metadata: AIResponseMetadata, toolCalls: Map<number, AIToolCall>): void {
+        const dataLines = rawEvent
+            .split('\n')
+            .filter(line => line.startsWith('data:'))
+            .map(line => line.slice(5).trim());
+
+        if (dataLines.length === 0) return;
+
+        let payload: any;
+        try {
+            payload = JSON.parse(dataLines.join('\n'));
+        } catch (error) {
+            debugConsole.warn('Skipping malformed Anthropic stream event:', rawEvent);
+            return;
+        }
+
+        if (payload.type === 'content_block_delta' && payload.delta?.type === 'text_delta') {
+            const text = payload.delta.text;
+            if (typeof text === 'string' && text.length > 0) {
+                onUpdate(text);
+            }
+        } else if (payload.type === 'content_block_start' && payload.content_block?.type === 'tool_use') {
+            toolCalls.set(payload.index, { id: payload.content_block.id, name: payload.content_block.name, arguments: '' });
+        } else if (payload.type === 'content_block_delta' && payload.delta?.type === 'input_json_delta') {
+            const call = toolCalls.get(payload.index);
+            if (call) call.arguments += payload.delta.partial_json || '';
+        } else if (payload.type === 'message_start' && payload.message) {
+            metadata.request_id = payload.message.id;
+            metadata.model = payload.message.model;
+            this.updateUsage(metadata, payload.message.usage);
+        } else if (payload.type === 'message_delta') {
+            if (payload.delta?.stop_reason) metadata.finish_reason = payload.delta.stop_reason;
+            this.updateUsage(metadata, payload.usage);
+        } else if (payload.type === 'error') {
+            throw new Error(payload.error?.message || 'Anthropic stream error');
+        }
+    }
+
+    /**
+     * Anthropic reports input tokens on message_start and cumulative output tokens on message_delta
+     */
+    private updateUsage(metadata: AIResponseMetadata, usage: any): void {
+        if (!usage) return;
+        const promptTokens = usage.input_tokens ?? metadata.usage?.prompt_tokens ?? 0;
+        const completionTokens = usage.output_tokens ?? metadata.usage?.completion_tokens ?? 0;
+        metadata.usage = {
+            prompt_tokens: promptTokens,
+            completion_tokens: completionTokens,
+            total_tokens: promptTokens + completionTokens
+        };
+    }
+
+    async validateApiKey(): Promise<{ valid: boolean; error?: string }> {
+        try {
+            // Make a simple API call to validate the key
+            const response = await fetch(`${ANTHROPIC_API_BASE}/models`, {
+                method: 'GET',
+                headers: this.getHeaders()
+            });
+
+            if (response.ok) {
+                return { valid: true };
+            } else if (response.status === 401) {
+                return { valid: false, error: 'Invalid API key' };
+            } else if (response.status === 429) {
+                return { valid: false, error: 'Rate limit exceeded' };
+            } else if (response.status >= 500) {
+                return { valid: false, error: 'Anthropic service temporarily unavailable' };
+            } else {
+                const errorText = await response.text();
+                return { valid: false, error: errorText || 'Unknown error occurred' };
+            }
+        } catch (error: any) {
+            console.error('Anthropic API key validation failed:', error);
+            return { valid: false, error: error.message || 'Network error occurred' };
+        }
+    }
+
+    async listModels(): Promise<ModelInfo[]> {
+        try {
+            const response = await fetch(`${ANTHROPIC_API_BASE}/models?limit=100`, {
+                method: 'GET',
+                headers: this.getHeaders()
+            });
+
+            if (!response.ok) {
+                throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+            }
+
+            const data = await response.json();
+            return data.data.map((model: any) => ({
+                id: model.id,
+                name: model.display_name || model.id,
+                description: `Anthropic ${model.id}`,
+                context_length: 200000
+            })).sort((a: ModelInfo, b: ModelInfo) => a.name.localeCompare(b.name));
+        } catch (error: any) {
+            console.error('Failed to fetch Anthropic models:', error);
+            // Return a fallback list of common models
+            return [
+                { id: 'claude-3-5-haiku-latest', name: 'Claude 3.5 Haiku', description: 'Anthropic Claude 3.5 Haiku', context_length: 200000 },
+                { id: 'claude-3-7-sonnet-latest', name: 'Claude 3.7 Sonnet', description: 'Anthropic Claude 3.7 Sonnet', context_length: 200000 },
+                { id: 'claude-sonnet-4-0', name: 'Claude Sonnet 4', description: 'Anthropic Claude Sonnet 4', context_length: 200000 },
+                { id: 'claude-opus-4-0', name: 'Claude Opus 4', description: 'Anthropic Claude Opus 4', context_length: 200000 }
+            ];
+        }
+    }
+}
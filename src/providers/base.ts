@@ -1,6 +1,56 @@
+/**
+ * A tool invocation requested by the model. Arguments are the raw JSON string the model produced.
+ */
+export interface AIToolCall {
+    id: string;
+    name: string;
+    arguments: string;
+}
+
+/**
+ * Typed message content. Images are either a URL (http(s) or data: URI) or raw base64 data.
+ */
+export type AIContentPart =
+    | { type: 'text'; text: string }
+    | { type: 'image_url'; url: string; name?: string }
+    | { type: 'image_base64'; data: string; mime_type: string; name?: string };
+
+export type AIMessageContent = string | AIContentPart[];
+
+/**
+ * The text of a message, ignoring any image parts
+ */
+export function getMessageText(content: AIMessageContent): string {
+    if (typeof content === 'string') return content;
+    return content
+        .filter((part): part is { type: 'text'; text: string } => part.type === 'text')
+        .map(part => part.text)
+        .join('\n\n');
+}
+
 export interface AIMessage {
-    role: 'system' | 'user' | 'assistant';
-    content: string;
+    role: 'system' | 'user' | 'assistant' | 'tool';
+    // Plain text, or typed parts for user messages that carry images
+    content: AIMessageContent;
+    // Set on assistant messages that requested tools
+    tool_calls?: AIToolCall[];
+    // Set on tool messages: the call this message is the result of
+    tool_call_id?: string;
+    // Set on tool messages: the name of the tool that produced the result
+    name?: string;
+}
+
+/**
+ * A tool the model may call. `parameters` is a JSON Schema object describing the arguments.
+ */
+export interface AIToolDefinition {
+    name: string;
+    description: string;
+    parameters: Record<string, any>;
+}
+
+export interface AIRequestOptions {
+    tools?: AIToolDefinition[];
 }
 
 export interface ModelInfo {
@@ -14,9 +64,28 @@ export interface ModelInfo {
     };
 }
 
+export interface TokenUsage {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+}
+
+/**
+ * What the provider reported about a completed (or aborted) streaming call.
+ * Every field is optional: not all providers or servers report all of them.
+ */
+export interface AIResponseMetadata {
+    usage?: TokenUsage;
+    finish_reason?: string;
+    model?: string; // Model that actually served the request
+    request_id?: string;
+    // Tools the model asked to run before it can finish its answer
+    tool_calls?: AIToolCall[];
+}
+
 export interface AIProvider {
-    getStreamingResponse(prompt: string, onUpdate: (text: string) => void, signal: AbortSignal): Promise<void>;
-    getStreamingResponseWithConversation(messages: AIMessage[], onUpdate: (text: string) => void, signal: AbortSignal): Promise<void>;
+    getStreamingResponse(prompt: string, onUpdate: (text: string) => void, signal: AbortSignal): Promise<AIResponseMetadata>;
+    getStreamingResponseWithConversation(messages: AIMessage[], onUpdate: (text: string) => void, signal: AbortSignal, options?: AIRequestOptions): Promise<AIResponseMetadata>;
     validateApiKey(): Promise<{ valid: boolean; error?: string }>;
     listModels(): Promise<ModelInfo[]>;
     // Optional image upload/vision methods. Providers may implement these to support
@@ -24,6 +93,8 @@ export interface AIProvider {
     uploadImageFromDataURI?: (dataUri: string, filename?: string) => Promise<{ url?: string; id?: string } | null>;
     uploadImageFromUrl?: (url: string, filename?: string) => Promise<{ url?: string; id?: string } | null>;
     analyzeImage?: (imageUrlOrId: string) => Promise<{ text?: string; labels?: string[] } | null>;
+    // Optional embeddings endpoint used for semantic retrieval. Returns one vector per input, in order.
+    embed?(texts: string[], model: string, signal?: AbortSignal): Promise<number[][]>;
 }
 
 export interface AIProviderSettings {
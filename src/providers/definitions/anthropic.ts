@@ -0,0 +1,52 @@
+import { Setting } from 'obsidian';
+import { AnthropicProvider, type AnthropicProviderSettings } from '../anthropic';
+import type { ProviderDefinition, SettingsSaveCallback } from '../registry';
+
+function renderAnthropicSettings(
+    container: HTMLElement,
+    anthropic: AnthropicProviderSettings,
+    save: SettingsSaveCallback
+) {
+    new Setting(container)
+        .setName('Max Tokens')
+        .setDesc('Maximum number of tokens Anthropic may generate per response (required by the Messages API)')
+        .addText((text) => {
+            text
+                .setPlaceholder('4096')
+                .setValue(String(anthropic.max_tokens || 4096))
+                .onChange(async (value) => {
+                    const parsed = parseInt(value, 10);
+                    if (!isNaN(parsed) && parsed > 0) {
+                        anthropic.max_tokens = parsed;
+                        await save();
+                    }
+                });
+            return text;
+        });
+}
+
+export const anthropicProviderDefinition: ProviderDefinition<AnthropicProviderSettings> = {
+    id: 'anthropic',
+    displayName: 'Anthropic',
+    defaultSettings: () => ({
+        api_key: '',
+        model: 'claude-sonnet-4-0',
+        system_prompt: 'You are a helpful assistant.',
+        temperature: 1.0,
+        max_tokens: 4096,
+    }),
+    createProvider: (settings) => new AnthropicProvider(settings),
+    modelPlaceholder: 'claude-sonnet-4-0',
+    apiKey: {
+        label: 'Anthropic API Key',
+        description: 'Your API key for Anthropic.',
+        placeholder: 'Enter your Anthropic API key',
+    },
+    settingsSections: [
+        {
+            title: 'Anthropic Settings',
+            initiallyExpanded: false,
+            render: renderAnthropicSettings,
+        },
+    ],
+};
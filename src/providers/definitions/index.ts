@@ -0,0 +1,32 @@
+import type { AIProviderSettings } from '../base';
+import type { ProviderDefinition } from '../registry';
+import { openaiProviderDefinition } from './openai';
+import { openrouterProviderDefinition } from './openrouter';
+import { anthropicProviderDefinition } from './anthropic';
+import { openaiCompatibleProviderDefinition } from './openai_compatible';
+
+/**
+ * Check a definition against its own settings type, then list it with the others. Its
+ * callbacks are only ever handed the settings that its defaultSettings created.
+ */
+function builtinProvider<S extends AIProviderSettings>(definition: ProviderDefinition<S>): ProviderDefinition {
+    return definition as unknown as ProviderDefinition;
+}
+
+/**
+ * Providers registered with the shared registry, in dropdown order.
+ * A new provider only needs a definition module and an entry here.
+ */
+export const BUILTIN_PROVIDERS: ProviderDefinition[] = [
+    builtinProvider(openaiProviderDefinition),
+    builtinProvider(openrouterProviderDefinition),
+    builtinProvider(anthropicProviderDefinition),
+    builtinProvider(openaiCompatibleProviderDefinition),
+];
+
+export {
+    openaiProviderDefinition,
+    openrouterProviderDefinition,
+    anthropicProviderDefinition,
+    openaiCompatibleProviderDefinition,
+};
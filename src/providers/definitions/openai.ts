@@ -0,0 +1,21 @@
+import { OpenAIProvider, type OpenAIProviderSettings } from '../openai';
+import type { ProviderDefinition } from '../registry';
+
+export const openaiProviderDefinition: ProviderDefinition<OpenAIProviderSettings> = {
+    id: 'openai',
+    displayName: 'OpenAI',
+    defaultSettings: () => ({
+        api_key: '',
+        model: 'gpt-4o',
+        system_prompt: 'You are a helpful assistant.',
+        temperature: 1.0,
+    }),
+    createProvider: (settings) => new OpenAIProvider(settings),
+    modelPlaceholder: 'gpt-4o',
+    apiKey: {
+        label: 'OpenAI API Key',
+        description: 'Your API key for OpenAI.',
+        placeholder: 'Enter your OpenAI API key',
+    },
+    supportsEmbeddings: true,
+};
@@ -0,0 +1,77 @@
+import { Setting } from 'obsidian';
+import {
+    OpenAICompatibleProvider,
+    parseHeaderLines,
+    formatHeaderLines,
+    type OpenAICompatibleProviderSettings
+} from '../openai_compatible';
+import type { ProviderDefinition, SettingsSaveCallback } from '../registry';
+
+function renderServerSettings(
+    container: HTMLElement,
+    compatible: OpenAICompatibleProviderSettings,
+    save: SettingsSaveCallback
+) {
+    new Setting(container)
+        .setName('Base URL')
+        .setDesc('OpenAI-compatible endpoint, e.g. Ollama (http://localhost:11434/v1), LM Studio (http://localhost:1234/v1), llama.cpp or vLLM (http://localhost:8000/v1)')
+        .addText((text) => {
+            text
+                .setPlaceholder('http://localhost:11434/v1')
+                .setValue(compatible.base_url || '')
+                .onChange(async (value) => {
+                    compatible.base_url = value.trim();
+                    await save();
+                });
+            return text;
+        });
+
+    new Setting(container)
+        .setName('Custom Headers (Optional)')
+        .setDesc('Extra HTTP headers sent with every request. One "Header-Name: value" per line.')
+        .addTextArea((text) => {
+            text
+                .setPlaceholder('X-Api-Token: abc123')
+                .setValue(formatHeaderLines(compatible.headers))
+                .onChange(async (value) => {
+                    compatible.headers = parseHeaderLines(value);
+                    await save();
+                });
+            const anyInput: any = (text as any).inputEl;
+            if (anyInput) {
+                if (typeof anyInput.rows !== 'undefined') anyInput.rows = 3;
+                if (anyInput.style) anyInput.style.width = '100%';
+            }
+            return text;
+        });
+}
+
+export const openaiCompatibleProviderDefinition: ProviderDefinition<OpenAICompatibleProviderSettings> = {
+    id: 'openai-compatible',
+    displayName: 'OpenAI-Compatible (Local)',
+    defaultSettings: () => ({
+        api_key: '',
+        model: 'llama3.1',
+        system_prompt: 'You are a helpful assistant.',
+        temperature: 1.0,
+        base_url: 'http://localhost:11434/v1',
+        headers: {},
+    }),
+    createProvider: (settings) => new OpenAICompatibleProvider(settings),
+    modelPlaceholder: 'llama3.1',
+    apiKey: {
+        label: 'OpenAI-Compatible API Key (Optional)',
+        description: 'API key for your OpenAI-compatible server. Leave empty for local servers that do not require one.',
+        placeholder: 'Leave empty if not required',
+        optional: true,
+    },
+    settingsSections: [
+        {
+            // Server settings come first: the model list depends on the base URL
+            title: 'Server Settings',
+            placement: 'before',
+            render: renderServerSettings,
+        },
+    ],
+    supportsEmbeddings: true,
+};
@@ -0,0 +1,64 @@
+import { Setting } from 'obsidian';
+import { OpenRouterProvider, type OpenRouterProviderSettings } from '../openrouter';
+import type { ProviderDefinition, SettingsSaveCallback } from '../registry';
+
+function renderOpenRouterAnalyticsSettings(
+    container: HTMLElement,
+    or: OpenRouterProviderSettings,
+    save: SettingsSaveCallback
+) {
+    new Setting(container)
+        .setName('Site URL (Optional)')
+        .setDesc('Your site URL for OpenRouter analytics')
+        .addText((text) => {
+            text
+                .setPlaceholder('https://yoursite.com')
+                .setValue(or.site_url || '')
+                .onChange(async (value) => {
+                    or.site_url = value;
+                    await save();
+                });
+            return text;
+        });
+
+    new Setting(container)
+        .setName('Site Name (Optional)')
+        .setDesc('Your site name for OpenRouter analytics')
+        .addText((text) => {
+            text
+                .setPlaceholder('Your App Name')
+                .setValue(or.site_name || '')
+                .onChange(async (value) => {
+                    or.site_name = value;
+                    await save();
+                });
+            return text;
+        });
+}
+
+export const openrouterProviderDefinition: ProviderDefinition<OpenRouterProviderSettings> = {
+    id: 'openrouter',
+    displayName: 'OpenRouter',
+    defaultSettings: () => ({
+        api_key: '',
+        model: 'openai/gpt-4o',
+        system_prompt: 'You are a helpful assistant.',
+        temperature: 1.0,
+        site_url: '',
+        site_name: 'Obsidian Vault-Bot',
+    }),
+    createProvider: (settings) => new OpenRouterProvider(settings),
+    modelPlaceholder: 'openai/gpt-4o',
+    apiKey: {
+        label: 'OpenRouter API Key',
+        description: 'Your API key for OpenRouter.',
+        placeholder: 'Enter your OpenRouter API key',
+    },
+    settingsSections: [
+        {
+            title: 'OpenRouter Analytics Settings',
+            initiallyExpanded: false,
+            render: renderOpenRouterAnalyticsSettings,
+        },
+    ],
+};
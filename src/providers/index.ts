@@ -1,3 +1,7 @@
-export type { AIProvider, AIProviderSettings, AIMessage, ModelInfo } from "./base";
+export type { AIProvider, AIProviderSettings, AIMessage, ModelInfo, AIResponseMetadata, TokenUsage, AIToolCall, AIToolDefinition, AIRequestOptions, AIContentPart, AIMessageContent } from "./base";
+export { getMessageText } from "./base";
 export { OpenAIProvider, type OpenAIProviderSettings } from "./openai";
 export { OpenRouterProvider, type OpenRouterProviderSettings } from "./openrouter";
+export { AnthropicProvider, type AnthropicProviderSettings } from "./anthropic";
+export { OpenAICompatibleProvider, type OpenAICompatibleProviderSettings } from "./openai_compatible";
+export { ProviderRegistry, type ProviderDefinition, type ProviderSettingsSection, type SettingsSaveCallback } from "./registry";
@@ -1,5 +1,5 @@
-import { AIProvider, AIProviderSettings, AIMessage, ModelInfo } from "./base";
-import OpenAI from "openai";
+import { AIProvider, AIProviderSettings, AIMessage, ModelInfo, AIResponseMetadata, AIRequestOptions, AIToolCall, AIContentPart, getMessageText } from "./base";
+import OpenAI, { type ClientOptions } from "openai";
 import { debugConsole } from '../utils/debug';
 
 export interface OpenAIProviderSettings extends AIProviderSettings {
@@ -10,17 +10,45 @@ export interface OpenAIProviderSettings extends AIProviderSettings {
 }
 
 export class OpenAIProvider implements AIProvider {
-    private openai: OpenAI;
-    private settings: OpenAIProviderSettings;
+    protected openai: OpenAI;
+    protected settings: OpenAIProviderSettings;
 
     constructor(settings: OpenAIProviderSettings) {
         this.settings = settings;
         this.openai = new OpenAI({
-            apiKey: this.settings.api_key,
+            ...this.getClientOptions(),
             dangerouslyAllowBrowser: true
         });
     }
 
+    /**
+     * Options passed to the OpenAI client. Subclasses override this to target other endpoints.
+     */
+    protected getClientOptions(): ClientOptions {
+        return { apiKey: this.settings.api_key };
+    }
+
+    /**
+     * Base URL used for the raw REST calls (file uploads, responses)
+     */
+    protected getApiBaseUrl(): string {
+        return 'https://api.openai.com/v1';
+    }
+
+    /**
+     * Display name used in log and error messages
+     */
+    protected getProviderName(): string {
+        return 'OpenAI';
+    }
+
+    /**
+     * Headers used for the raw REST calls (file uploads, responses)
+     */
+    protected getRequestHeaders(): Record<string, string> {
+        return { 'Authorization': `Bearer ${this.settings.api_key}` };
+    }
+
     async uploadImageFromDataURI?(dataUri: string, filename?: string): Promise<{ url?: string; id?: string } | null> {
         try {
             const match = dataUri.match(/^data:(image\/[a-zA-Z0-9.+-]+);base64,(.+)$/);
@@ -37,11 +65,9 @@ export class OpenAIProvider implements AIProvider {
             // Purpose is unspecified; use 'answers' as a lightweight option
             form.append('purpose', 'answers');
 
-            const resp = await fetch('https://api.openai.com/v1/files', {
+            const resp = await fetch(`${this.getApiBaseUrl()}/files`, {
                 method: 'POST',
-                headers: {
-                    'Authorization': `Bearer ${this.settings.api_key}`
-                },
+                headers: this.getRequestHeaders(),
                 body: form as any
             });
 
@@ -61,11 +87,11 @@ export class OpenAIProvider implements AIProvider {
     async uploadImageFromUrl?(url: string, filename?: string): Promise<{ url?: string; id?: string } | null> {
         try {
             // For remote URLs, try server-side fetch to re-upload to OpenAI files endpoint by sending JSON instructing remote fetch
-            const resp = await fetch('https://api.openai.com/v1/files', {
+            const resp = await fetch(`${this.getApiBaseUrl()}/files`, {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${this.settings.api_key}`
+                    ...this.getRequestHeaders()
                 },
                 body: JSON.stringify({ url })
             });
@@ -88,11 +114,11 @@ export class OpenAIProvider implements AIProvider {
             // Attempt a simple text response asking the model to describe the image by including the image URL in the prompt.
             const prompt = `Describe the following image and list any notable objects or text:\n${imageUrlOrId}`;
 
-            const resp = await fetch('https://api.openai.com/v1/responses', {
+            const resp = await fetch(`${this.getApiBaseUrl()}/responses`, {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${this.settings.api_key}`
+                    ...this.getRequestHeaders()
                 },
                 body: JSON.stringify({ model: this.settings.model, input: prompt })
             });
@@ -108,7 +134,7 @@ export class OpenAIProvider implements AIProvider {
         }
     }
 
-    async getStreamingResponse(prompt: string, onUpdate: (text: string) => void, signal: AbortSignal): Promise<void> {
+    async getStreamingResponse(prompt: string, onUpdate: (text: string) => void, signal: AbortSignal): Promise<AIResponseMetadata> {
         // Convert single prompt to message array and delegate to conversation method
         const messages: AIMessage[] = [
             {
@@ -119,27 +145,22 @@ export class OpenAIProvider implements AIProvider {
         return this.getStreamingResponseWithConversation(messages, onUpdate, signal);
     }
 
-    async getStreamingResponseWithConversation(messages: AIMessage[], onUpdate: (text: string) => void, signal: AbortSignal): Promise<void> {
+    async getStreamingResponseWithConversation(messages: AIMessage[], onUpdate: (text: string) => void, signal: AbortSignal, options?: AIRequestOptions): Promise<AIResponseMetadata> {
+        const metadata: AIResponseMetadata = {};
         try {
             // Convert our AIMessage format to OpenAI's format
-            const openaiMessages = messages.map(msg => ({
-                role: msg.role,
-                content: msg.content
-            }));
+            const openaiMessages = this.toOpenAIMessages(messages);
+            const tools = options?.tools?.length
+                ? options.tools.map(tool => ({
+                    type: 'function' as const,
+                    function: { name: tool.name, description: tool.description, parameters: tool.parameters }
+                }))
+                : undefined;
 
             // First attempt with user's configured temperature
             try {
-                const stream = await this.openai.chat.completions.create({
-                    model: this.settings.model,
-                    messages: openaiMessages,
-                    temperature: this.settings.temperature,
-                    stream: true,
-                }, { signal });
-
-                for await (const chunk of stream) {
-                    onUpdate(chunk.choices[0]?.delta?.content || '');
-                }
-                return;
+                await this.streamCompletion(openaiMessages, this.settings.temperature, onUpdate, signal, metadata, tools);
+                return metadata;
             } catch (error: any) {
                 // Check if it's a temperature-related error
                 const errorMessage = error.message || error.toString();
@@ -151,17 +172,8 @@ export class OpenAIProvider implements AIProvider {
                     debugConsole.warn(`Model ${this.settings.model} rejected temperature=${this.settings.temperature}, retrying with temperature=1`);
                     
                     // Retry with temperature = 1
-                    const stream = await this.openai.chat.completions.create({
-                        model: this.settings.model,
-                        messages: openaiMessages,
-                        temperature: 1.0,
-                        stream: true,
-                    }, { signal });
-
-                    for await (const chunk of stream) {
-                        onUpdate(chunk.choices[0]?.delta?.content || '');
-                    }
-                    return;
+                    await this.streamCompletion(openaiMessages, 1.0, onUpdate, signal, metadata, tools);
+                    return metadata;
                 }
                 
                 // If it's not a temperature error, re-throw
@@ -170,12 +182,108 @@ export class OpenAIProvider implements AIProvider {
 
         } catch (error: any) {
             if (error.name === 'AbortError') {
-                debugConsole.log('OpenAI request was aborted.');
+                debugConsole.log(`${this.getProviderName()} request was aborted.`);
+                return metadata;
             } else {
-                console.error('Error in OpenAI API request:', error);
-                throw new Error('Failed to get response from OpenAI.');
+                console.error(`Error in ${this.getProviderName()} API request:`, error);
+                throw new Error(`Failed to get response from ${this.getProviderName()}.`);
+            }
+        }
+    }
+
+    /**
+     * Map our messages onto the chat completions format, including image parts, tool calls and tool results
+     */
+    private toOpenAIMessages(messages: AIMessage[]): OpenAI.Chat.Completions.ChatCompletionMessageParam[] {
+        return messages.map((msg): OpenAI.Chat.Completions.ChatCompletionMessageParam => {
+            if (msg.role === 'tool') {
+                return { role: 'tool', tool_call_id: msg.tool_call_id || '', content: getMessageText(msg.content) };
+            }
+            if (msg.role === 'user' && typeof msg.content !== 'string') {
+                return { role: 'user', content: msg.content.map(part => this.toOpenAIContentPart(part)) };
+            }
+            if (msg.role === 'assistant' && msg.tool_calls?.length) {
+                return {
+                    role: 'assistant',
+                    content: getMessageText(msg.content) || null,
+                    tool_calls: msg.tool_calls.map(call => ({
+                        id: call.id,
+                        type: 'function' as const,
+                        function: { name: call.name, arguments: call.arguments }
+                    }))
+                };
+            }
+            return { role: msg.role, content: getMessageText(msg.content) };
+        });
+    }
+
+    private toOpenAIContentPart(part: AIContentPart): OpenAI.Chat.Completions.ChatCompletionContentPart {
+        switch (part.type) {
+            case 'text':
+                return { type: 'text', text: part.text };
+            case 'image_url':
+                return { type: 'image_url', image_url: { url: part.url } };
+            case 'image_base64':
+                return { type: 'image_url', image_url: { url: `data:${part.mime_type};base64,${part.data}` } };
+        }
+    }
+
+    /**
+     * Stream one completion, forwarding text and collecting usage/finish metadata as it arrives.
+     * Tool call arguments arrive in fragments keyed by index and are joined here.
+     */
+    private async streamCompletion(
+        openaiMessages: OpenAI.Chat.Completions.ChatCompletionMessageParam[],
+        temperature: number,
+        onUpdate: (text: string) => void,
+        signal: AbortSignal,
+        metadata: AIResponseMetadata,
+        tools?: OpenAI.Chat.Completions.ChatCompletionTool[]
+    ): Promise<void> {
+        const stream = await this.openai.chat.completions.create({
+            model: this.settings.model,
+            messages: openaiMessages,
+            temperature,
+            stream: true,
+            // Ask for a final chunk carrying token usage
+            stream_options: { include_usage: true },
+            ...(tools ? { tools } : {}),
+        }, { signal });
+
+        const toolCalls: AIToolCall[] = [];
+        for await (const chunk of stream) {
+            const choice = chunk.choices?.[0];
+            onUpdate(choice?.delta?.content || '');
+
+            for (const delta of choice?.delta?.tool_calls || []) {
+                const call = toolCalls[delta.index] ??= { id: '', name: '', arguments: '' };
+                if (delta.id) call.id = delta.id;
+                if (delta.function?.name) call.name += delta.function.name;
+                if (delta.function?.arguments) call.arguments += delta.function.arguments;
+            }
+
+            if (chunk.id) metadata.request_id = chunk.id;
+            if (chunk.model) metadata.model = chunk.model;
+            if (choice?.finish_reason) metadata.finish_reason = choice.finish_reason;
+            if (chunk.usage) {
+                metadata.usage = {
+                    prompt_tokens: chunk.usage.prompt_tokens,
+                    completion_tokens: chunk.usage.completion_tokens,
+                    total_tokens: chunk.usage.total_tokens
+                };
             }
         }
+
+        const completedCalls = toolCalls.filter(call => call && call.name);
+        if (completedCalls.length > 0) metadata.tool_calls = completedCalls;
+    }
+
+    async embed(texts: string[], model: string, signal?: AbortSignal): Promise<number[][]> {
+        const response = await this.openai.embeddings.create({ model, input: texts }, { signal });
+        // The API tags each vector with its input index; don't rely on response order
+        return [...response.data]
+            .sort((a, b) => a.index - b.index)
+            .map(item => item.embedding);
     }
 
     async validateApiKey(): Promise<{ valid: boolean; error?: string }> {
@@ -184,7 +292,7 @@ export class OpenAIProvider implements AIProvider {
             await this.openai.models.list();
             return { valid: true };
         } catch (error: any) {
-            console.error('OpenAI API key validation failed:', error);
+            console.error(`${this.getProviderName()} API key validation failed:`, error);
             
             // Check for specific error types
             if (error.status === 401) {
@@ -192,7 +300,7 @@ export class OpenAIProvider implements AIProvider {
             } else if (error.status === 429) {
                 return { valid: false, error: 'Rate limit exceeded' };
             } else if (error.status >= 500) {
-                return { valid: false, error: 'OpenAI service temporarily unavailable' };
+                return { valid: false, error: `${this.getProviderName()} service temporarily unavailable` };
             } else {
                 return { valid: false, error: error.message || 'Unknown error occurred' };
             }
@@ -225,8 +333,16 @@ export class OpenAIProvider implements AIProvider {
         }
     }
 
-    private getContextLength(modelId: string): number {
+    private getContextLength(modelId: string): number | undefined {
         const contextLengths: Record<string, number> = {
+            'gpt-5': 400000,
+            'gpt-5-mini': 400000,
+            'gpt-5-nano': 400000,
+            'gpt-4.1': 1047576,
+            'gpt-4.1-mini': 1047576,
+            'gpt-4.1-nano': 1047576,
+            'o3': 200000,
+            'o4-mini': 200000,
             'gpt-4o': 128000,
             'gpt-4o-mini': 128000,
             'gpt-4-turbo': 128000,
@@ -235,6 +351,7 @@ export class OpenAIProvider implements AIProvider {
             'o1-preview': 128000,
             'o1-mini': 128000
         };
-        return contextLengths[modelId] || 4096;
+        // Unknown models report no length rather than a guess that would trim requests
+        return contextLengths[modelId];
     }
 }
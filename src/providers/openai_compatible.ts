@@ -0,0 +1,119 @@
+import { type ClientOptions } from "openai";
+import { ModelInfo } from "./base";
+import { OpenAIProvider, type OpenAIProviderSettings } from "./openai";
+
+export interface OpenAICompatibleProviderSettings extends OpenAIProviderSettings {
+    api_key: string; // Optional for most local servers; may be left empty
+    base_url: string;
+    headers?: Record<string, string>;
+}
+
+/**
+ * Provider for servers that speak the OpenAI Chat Completions API
+ * (Ollama, LM Studio, llama.cpp server, vLLM, ...).
+ * Reuses the OpenAI streaming path against a configurable base URL.
+ */
+export class OpenAICompatibleProvider extends OpenAIProvider {
+    constructor(settings: OpenAICompatibleProviderSettings) {
+        super(settings);
+    }
+
+    private get compatibleSettings(): OpenAICompatibleProviderSettings {
+        return this.settings as OpenAICompatibleProviderSettings;
+    }
+
+    protected getClientOptions(): ClientOptions {
+        return {
+            // The OpenAI client refuses to start without a key; local servers ignore it
+            apiKey: this.compatibleSettings.api_key || 'not-needed',
+            baseURL: this.getApiBaseUrl(),
+            defaultHeaders: this.compatibleSettings.headers || {}
+        };
+    }
+
+    protected getApiBaseUrl(): string {
+        return normalizeBaseUrl(this.compatibleSettings.base_url);
+    }
+
+    protected getProviderName(): string {
+        return 'OpenAI-compatible server';
+    }
+
+    protected getRequestHeaders(): Record<string, string> {
+        return {
+            ...(this.compatibleSettings.api_key ? { 'Authorization': `Bearer ${this.compatibleSettings.api_key}` } : {}),
+            ...(this.compatibleSettings.headers || {})
+        };
+    }
+
+    async validateApiKey(): Promise<{ valid: boolean; error?: string }> {
+        try {
+            // Listing models doubles as a reachability check for local servers
+            await this.openai.models.list();
+            return { valid: true };
+        } catch (error: any) {
+            console.error('OpenAI-compatible server validation failed:', error);
+
+            if (error.status === 401 || error.status === 403) {
+                return { valid: false, error: 'Server rejected the API key' };
+            } else if (error.status === 404) {
+                return { valid: false, error: `No models endpoint at ${this.getApiBaseUrl()}` };
+            } else if (error.status) {
+                return { valid: false, error: error.message || `HTTP ${error.status}` };
+            } else {
+                return { valid: false, error: `Could not reach ${this.getApiBaseUrl()}` };
+            }
+        }
+    }
+
+    async listModels(): Promise<ModelInfo[]> {
+        try {
+            const response = await this.openai.models.list();
+            // Local servers only expose what is installed, so no filtering by name
+            return response.data
+                .map(model => ({
+                    id: model.id,
+                    name: model.id,
+                    description: `${model.owned_by || 'local'} ${model.id}`
+                }))
+                .sort((a, b) => a.name.localeCompare(b.name));
+        } catch (error: any) {
+            console.error('Failed to fetch models from OpenAI-compatible server:', error);
+            // Fall back to the configured model so the selector still shows something useful
+            const configured = this.compatibleSettings.model;
+            return configured ? [{ id: configured, name: configured, description: 'Configured model' }] : [];
+        }
+    }
+}
+
+/**
+ * Trim trailing slashes and default to the Ollama endpoint when empty
+ */
+export function normalizeBaseUrl(baseUrl: string | undefined): string {
+    const trimmed = (baseUrl || '').trim().replace(/\/+$/, '');
+    return trimmed || 'http://localhost:11434/v1';
+}
+
+/**
+ * Parse "Header-Name: value" lines (as entered in settings) into a header record
+ */
+export function parseHeaderLines(text: string): Record<string, string> {
+    const headers: Record<string, string> = {};
+    for (const line of text.split('\n')) {
+        const colonIndex = line.indexOf(':');
+        if (colonIndex <= 0) continue;
+        const name = line.substring(0, colonIndex).trim();
+        const value = line.substring(colonIndex + 1).trim();
+        if (name) headers[name] = value;
+    }
+    return headers;
+}
+
+/**
+ * Format a header record back into "Header-Name: value" lines
+ */
+export function formatHeaderLines(headers: Record<string, string> | undefined): string {
+    return Object.entries(headers || {})
+        .map(([name, value]) => `${name}: ${value}`)
+        .join('\n');
+}
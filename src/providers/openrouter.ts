@@ -1,6 +1,6 @@
 import { createOpenRouter } from '@openrouter/ai-sdk-provider';
-import { streamText } from 'ai';
-import { AIProvider, AIProviderSettings, AIMessage, ModelInfo } from './base';
+import { streamText, jsonSchema, type ModelMessage, type ToolSet, type TextPart, type ImagePart } from 'ai';
+import { AIProvider, AIProviderSettings, AIMessage, ModelInfo, AIResponseMetadata, AIRequestOptions, AIContentPart, getMessageText } from './base';
 import { debugConsole } from '../utils/debug';
 
 export interface OpenRouterProviderSettings extends AIProviderSettings {
@@ -12,6 +12,14 @@ export interface OpenRouterProviderSettings extends AIProviderSettings {
     site_name?: string;
 }
 
+function parseToolInput(args: string): unknown {
+    try {
+        return args ? JSON.parse(args) : {};
+    } catch {
+        return {};
+    }
+}
+
 export class OpenRouterProvider implements AIProvider {
     private settings: OpenRouterProviderSettings;
 
@@ -104,7 +112,7 @@ export class OpenRouterProvider implements AIProvider {
         prompt: string,
         onUpdate: (text: string) => void,
         signal: AbortSignal
-    ): Promise<void> {
+    ): Promise<AIResponseMetadata> {
         // Convert single prompt to message array and delegate to conversation method
         const messages: AIMessage[] = [
             {
@@ -118,8 +126,9 @@ export class OpenRouterProvider implements AIProvider {
     async getStreamingResponseWithConversation(
         messages: AIMessage[],
         onUpdate: (text: string) => void,
-        signal: AbortSignal
-    ): Promise<void> {
+        signal: AbortSignal,
+        options?: AIRequestOptions
+    ): Promise<AIResponseMetadata> {
         try {
             const openrouter = createOpenRouter({
                 apiKey: this.settings.api_key,
@@ -132,24 +141,23 @@ export class OpenRouterProvider implements AIProvider {
             const model = openrouter(this.settings.model);
 
             // Convert our AIMessage format to the format expected by the AI SDK
-            const formattedMessages = messages.map(msg => ({
-                role: msg.role,
-                content: msg.content
-            }));
+            const formattedMessages = this.toModelMessages(messages);
+            const tools = this.toToolSet(options);
 
             // First attempt with user's configured temperature
             try {
-                const { textStream } = await streamText({
+                const result = await streamText({
                     model,
                     messages: formattedMessages,
                     temperature: this.settings.temperature,
+                    ...(tools ? { tools } : {}),
                     abortSignal: signal
                 });
 
                 // Handle streaming with error recovery
                 let hasReceivedData = false;
                 
-                for await (const textPart of textStream) {
+                for await (const textPart of result.textStream) {
                     hasReceivedData = true;
                     
                     // Ensure textPart is a string and not empty
@@ -163,7 +171,7 @@ export class OpenRouterProvider implements AIProvider {
                     debugConsole.warn('OpenRouter streaming completed but no data was received. This may indicate a model-specific issue.');
                 }
                 
-                return;
+                return await this.collectMetadata(result);
             } catch (error: any) {
                 // Check if it's a temperature-related error
                 const errorMessage = error.message || error.toString();
@@ -175,19 +183,20 @@ export class OpenRouterProvider implements AIProvider {
                     debugConsole.warn(`Model ${this.settings.model} rejected temperature=${this.settings.temperature}, retrying with temperature=1`);
                     
                     // Retry with temperature = 1
-                    const { textStream } = await streamText({
+                    const result = await streamText({
                         model,
                         messages: formattedMessages,
                         temperature: 1.0,
+                        ...(tools ? { tools } : {}),
                         abortSignal: signal
                     });
 
-                    for await (const textPart of textStream) {
+                    for await (const textPart of result.textStream) {
                         if (typeof textPart === 'string' && textPart.length > 0) {
                             onUpdate(textPart);
                         }
                     }
-                    return;
+                    return await this.collectMetadata(result);
                 }
                 
                 // If it's not a temperature error, re-throw
@@ -198,7 +207,7 @@ export class OpenRouterProvider implements AIProvider {
             // Check if it's an abort error
             if (error.name === 'AbortError') {
                 debugConsole.log('OpenRouter request was aborted.');
-                return; // Gracefully handle abort
+                return {}; // Gracefully handle abort
             }
             
             // Check for specific OpenRouter streaming errors
@@ -212,6 +221,109 @@ export class OpenRouterProvider implements AIProvider {
         }
     }
 
+    /**
+     * Map our messages onto AI SDK messages; images, tool calls and results become typed content parts
+     */
+    private toModelMessages(messages: AIMessage[]): ModelMessage[] {
+        return messages.map((msg): ModelMessage => {
+            if (msg.role === 'tool') {
+                return {
+                    role: 'tool',
+                    content: [{
+                        type: 'tool-result',
+                        toolCallId: msg.tool_call_id || '',
+                        toolName: msg.name || '',
+                        output: { type: 'text', value: getMessageText(msg.content) }
+                    }]
+                };
+            }
+            if (msg.role === 'user' && typeof msg.content !== 'string') {
+                return { role: 'user', content: msg.content.map(part => this.toUserContentPart(part)) };
+            }
+            if (msg.role === 'assistant' && msg.tool_calls?.length) {
+                const text = getMessageText(msg.content);
+                return {
+                    role: 'assistant',
+                    content: [
+                        ...(text ? [{ type: 'text' as const, text }] : []),
+                        ...msg.tool_calls.map(call => ({
+                            type: 'tool-call' as const,
+                            toolCallId: call.id,
+                            toolName: call.name,
+                            input: parseToolInput(call.arguments)
+                        }))
+                    ]
+                };
+            }
+            return { role: msg.role, content: getMessageText(msg.content) };
+        });
+    }
+
+    private toUserContentPart(part: AIContentPart): TextPart | ImagePart {
+        switch (part.type) {
+            case 'text':
+                return { type: 'text', text: part.text };
+            case 'image_url':
+                return { type: 'image', image: new URL(part.url) };
+            case 'image_base64':
+                return { type: 'image', image: part.data, mediaType: part.mime_type };
+        }
+    }
+
+    /**
+     * Tools are declared without an execute function so the SDK hands the calls back to us
+     */
+    private toToolSet(options?: AIRequestOptions): ToolSet | undefined {
+        if (!options?.tools?.length) return undefined;
+        const tools: ToolSet = {};
+        for (const tool of options.tools) {
+            tools[tool.name] = {
+                description: tool.description,
+                inputSchema: jsonSchema(tool.parameters)
+            };
+        }
+        return tools;
+    }
+
+    /**
+     * Read usage, finish reason and response ids once the stream has been consumed.
+     * These resolve after the stream finishes; failures here must not lose the response.
+     */
+    private async collectMetadata(result: any): Promise<AIResponseMetadata> {
+        const metadata: AIResponseMetadata = {};
+        try {
+            const [usage, finishReason, response, toolCalls] = await Promise.all([
+                result.usage,
+                result.finishReason,
+                result.response,
+                result.toolCalls
+            ]);
+
+            if (usage) {
+                const promptTokens = usage.inputTokens ?? 0;
+                const completionTokens = usage.outputTokens ?? 0;
+                metadata.usage = {
+                    prompt_tokens: promptTokens,
+                    completion_tokens: completionTokens,
+                    total_tokens: usage.totalTokens ?? promptTokens + completionTokens
+                };
+            }
+            if (finishReason) metadata.finish_reason = finishReason;
+            if (response?.modelId) metadata.model = response.modelId;
+            if (response?.id) metadata.request_id = response.id;
+            if (toolCalls?.length) {
+                metadata.tool_calls = toolCalls.map((call: any) => ({
+                    id: call.toolCallId,
+                    name: call.toolName,
+                    arguments: JSON.stringify(call.input ?? {})
+                }));
+            }
+        } catch (error) {
+            debugConsole.warn('Failed to read OpenRouter response metadata:', error);
+        }
+        return metadata;
+    }
+
     async validateApiKey(): Promise<{ valid: boolean; error?: string }> {
         try {
             // Make a simple API call to validate the key
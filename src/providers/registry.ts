@@ -0,0 +1,111 @@
+import type { AIProvider, AIProviderSettings } from './base';
+import { BUILTIN_PROVIDERS } from './definitions';
+
+export type SettingsSaveCallback = (immediate?: boolean) => Promise<void> | void;
+
+/**
+ * A provider-specific collapsible section in the model settings UI
+ */
+export interface ProviderSettingsSection<S extends AIProviderSettings = AIProviderSettings> {
+    title: string;
+    // 'before' renders ahead of the model selector, e.g. when the model list depends on it
+    placement?: 'before' | 'after';
+    initiallyExpanded?: boolean;
+    render: (container: HTMLElement, settings: S, save: SettingsSaveCallback) => void;
+}
+
+/**
+ * Everything the plugin needs to know about a provider. Registering one of these
+ * makes the provider available in the wrapper, settings tab and side panel.
+ */
+export interface ProviderDefinition<S extends AIProviderSettings = AIProviderSettings> {
+    id: string;
+    displayName: string;
+    defaultSettings: () => S;
+    createProvider: (settings: S) => AIProvider;
+    // Example model id shown when entering a model manually
+    modelPlaceholder: string;
+    apiKey: {
+        label: string;
+        description: string;
+        placeholder: string;
+        // Providers such as local servers work without a key
+        optional?: boolean;
+    };
+    settingsSections?: ProviderSettingsSection<S>[];
+    // Offered as an embeddings provider for semantic search; the provider must implement embed()
+    supportsEmbeddings?: boolean;
+}
+
+export class ProviderRegistry {
+    private static instance: ProviderRegistry;
+    private definitions = new Map<string, ProviderDefinition>();
+
+    /**
+     * Shared registry, pre-populated with the built-in providers
+     */
+    static getInstance(): ProviderRegistry {
+        if (!ProviderRegistry.instance) {
+            const registry = new ProviderRegistry();
+            BUILTIN_PROVIDERS.forEach(definition => registry.register(definition));
+            ProviderRegistry.instance = registry;
+        }
+        return ProviderRegistry.instance;
+    }
+
+    register<S extends AIProviderSettings>(definition: ProviderDefinition<S>): void {
+        if (this.definitions.has(definition.id)) {
+            throw new Error(`AI provider already registered: ${definition.id}`);
+        }
+        this.definitions.set(definition.id, definition as unknown as ProviderDefinition);
+    }
+
+    unregister(id: string): void {
+        this.definitions.delete(id);
+    }
+
+    get(id: string): ProviderDefinition | undefined {
+        return this.definitions.get(id);
+    }
+
+    has(id: string): boolean {
+        return this.definitions.has(id);
+    }
+
+    /**
+     * Registered providers in registration order
+     */
+    getAll(): ProviderDefinition[] {
+        return Array.from(this.definitions.values());
+    }
+
+    createProvider(id: string, settings: AIProviderSettings): AIProvider {
+        const definition = this.definitions.get(id);
+        if (!definition) {
+            throw new Error(`Unsupported AI provider: ${id}`);
+        }
+        return definition.createProvider(settings);
+    }
+
+    /**
+     * Fresh default settings for every registered provider, keyed by id
+     */
+    buildDefaultSettings(): Record<string, AIProviderSettings> {
+        const defaults: Record<string, AIProviderSettings> = {};
+        for (const definition of this.definitions.values()) {
+            defaults[definition.id] = definition.defaultSettings();
+        }
+        return defaults;
+    }
+
+    /**
+     * Fill in default settings for any registered provider missing from the map
+     */
+    ensureDefaults(providerSettings: Record<string, AIProviderSettings>): void {
+        for (const definition of this.definitions.values()) {
+            if (!providerSettings[definition.id]) {
+                providerSettings[definition.id] = definition.defaultSettings();
+            }
+        }
+    }
+}
@@ -2,6 +2,7 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { writeAtomic } from './fs_utils';
 import { resolveAiCallsDir } from './storage_paths';
+import type { AIResponseMetadata, TokenUsage } from './providers';
 
 export interface ChatMessage {
   role: 'system' | 'user' | 'assistant' | string;
@@ -24,6 +25,9 @@ export interface ChatResponseRecord {
   duration_ms: number | null;
   truncated?: boolean;
   error?: string;
+  usage?: TokenUsage;
+  finish_reason?: string;
+  request_id?: string;
 }
 
 export interface RecordMeta {
@@ -34,6 +38,24 @@ export interface RecordMeta {
   truncated?: boolean;
   redacted?: boolean;
   size_bytes?: number;
+  usage?: TokenUsage;
+  finish_reason?: string;
+  request_id?: string;
+}
+
+/**
+ * Copy provider-reported metadata onto a response record. The response keeps the model
+ * that actually served the call; the request record keeps the configured model.
+ */
+export function applyResponseMetadata(response: ChatResponseRecord, metadata?: AIResponseMetadata): ChatResponseRecord {
+  if (!metadata) return response;
+  return {
+    ...response,
+    model: metadata.model || response.model,
+    ...(metadata.usage ? { usage: metadata.usage } : {}),
+    ...(metadata.finish_reason ? { finish_reason: metadata.finish_reason } : {}),
+    ...(metadata.request_id ? { request_id: metadata.request_id } : {}),
+  };
 }
 
 function sanitizeForFilename(input: string, maxLen = 40): string {
@@ -179,6 +201,9 @@ export async function recordChatCall(params: {
       redacted: params.redacted ?? false,
       timestamp_iso: request.timestamp,
       timestamp_utc_iso: start.toISOString(),
+      usage: response.usage,
+      finish_reason: response.finish_reason,
+      request_id: response.request_id,
     };
     // Build once to compute size, then rebuild with size_bytes
     const buildBody = (m: RecordMeta & { timestamp_iso?: string; timestamp_utc_iso?: string }) => {
@@ -191,6 +216,13 @@ export async function recordChatCall(params: {
   if ((m as any).timestamp_iso !== undefined) s += `timestamp_iso: ${(m as any).timestamp_iso}\n`;
   if ((m as any).timestamp_utc_iso !== undefined) s += `timestamp_utc_iso: ${(m as any).timestamp_utc_iso}\n`;
       s += `duration_ms: ${m.duration_ms ?? ''}\n`;
+      if (m.usage) {
+        s += `prompt_tokens: ${m.usage.prompt_tokens}\n`;
+        s += `completion_tokens: ${m.usage.completion_tokens}\n`;
+        s += `total_tokens: ${m.usage.total_tokens}\n`;
+      }
+      if (m.finish_reason) s += `finish_reason: ${m.finish_reason}\n`;
+      if (m.request_id) s += `request_id: ${m.request_id}\n`;
       if (m.truncated !== undefined) s += `truncated: ${!!m.truncated}\n`;
       if (m.redacted !== undefined) s += `redacted: ${!!m.redacted}\n`;
       if (m.size_bytes !== undefined) s += `size_bytes: ${m.size_bytes}\n`;
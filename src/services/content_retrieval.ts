@@ -1,10 +1,15 @@
-import { App, TFile, Notice, Vault, MetadataCache, MarkdownRenderer, Component, Setting } from 'obsidian';
+import { App, TFile, Notice, Vault, MetadataCache, MarkdownRenderer, Component, Setting, arrayBufferToBase64 } from 'obsidian';
 import { VaultBotPluginSettings } from '../settings';
+import type { AIContentPart } from '../providers';
 import { debugConsole } from '../utils/debug';
+import { SearchIndexService, type SearchResult } from './search_index';
+import { EmbeddingIndexService } from './embedding_index';
+import { getNoteTags, matchesExclusionRules, parseExclusionRule } from './note_exclusions';
 
 // Plugin-like interface for settings UI
 interface PluginLike {
   settings: VaultBotPluginSettings;
+  app?: App; // used for the exclusion preview; absent in some tests
 }
 
 export interface RetrievedNote {
@@ -13,6 +18,18 @@ export interface RetrievedNote {
   title: string;
   content: string;
   images?: RetrievedImageRef[];
+  source?: 'current' | 'open' | 'linked' | 'backlink' | 'graph' | 'search' | 'semantic' | 'mention'; // why the note was included
+  depth?: number; // link depth for linked and graph notes, 1 = linked from the message or the current note
+  relation?: string; // how a graph note connects, shown next to its title, e.g. "links to Concept"
+  renderedLinks?: LinkInfo[]; // internal links found in the rendered note (reading view extraction only)
+}
+
+/**
+ * A file, folder or tag picked with @ in the chat input
+ */
+export interface VaultMention {
+  kind: 'file' | 'folder' | 'tag';
+  path: string; // vault path for files and folders, `#tag` for tags
 }
 
 export interface LinkInfo {
@@ -23,11 +40,41 @@ export interface LinkInfo {
 }
 
 export interface RetrievedImageRef {
-  sourceType: 'data' | 'url';
-  raw: string; // original markdown or data-uri
+  sourceType: 'data' | 'url' | 'vault';
+  raw: string; // data-uri, remote url or vault path as written in the note
   alt?: string;
   filename?: string;
   mime?: string;
+  file?: TFile; // resolved attachment for 'vault' images
+}
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+};
+
+// Vision APIs reject larger images, so don't bother reading them
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+const MAX_IMAGES_PER_MESSAGE = 10;
+// Embeds nested deeper than this are left as link syntax
+const MAX_EMBED_DEPTH = 3;
+// Backlinks and graph neighbours included per request, best ranked first
+const MAX_GRAPH_NOTES = 10;
+// Notes included per mentioned folder or tag, most recently modified first
+const MAX_MENTION_NOTES = 20;
+// A shared tag is a weaker connection than a link
+const SHARED_TAG_WEIGHT = 0.5;
+// Dataview and similar plugins fill in their blocks after the markdown render resolves
+const RENDER_SETTLE_MS = 200;
+
+interface GraphCandidate {
+  depth: number;
+  score: number;
+  relation: string;
+  relationWeight: number;
 }
 
 export class ContentRetrievalService {
@@ -51,10 +98,10 @@ export class ContentRetrievalService {
 
     try {
       // Include current note if enabled (but not if explicitly excluded to avoid conversation duplication)
-      if (this.settings.includeCurrentNote && currentFile && !excludeCurrentFileContent) {
+      if (this.settings.includeCurrentNote && currentFile && !excludeCurrentFileContent && !this.isExcluded(currentFile.path, 1)) {
         const currentNote = await this.retrieveNote(currentFile);
         if (currentNote) {
-          retrievedNotes.set(currentFile.path, currentNote);
+          retrievedNotes.set(currentFile.path, { ...currentNote, source: 'current' });
         }
       }
 
@@ -63,7 +110,7 @@ export class ContentRetrievalService {
         const openNotes = await this.getOpenNotes();
         for (const note of openNotes) {
           if (!retrievedNotes.has(note.path)) {
-            retrievedNotes.set(note.path, note);
+            retrievedNotes.set(note.path, { ...note, source: 'open' });
           }
         }
       }
@@ -78,6 +125,29 @@ export class ContentRetrievalService {
         }
       }
 
+      // Include notes around the current note in the link graph if enabled
+      if (currentFile && (this.settings.includeBacklinks || this.settings.includeGraphNeighborhood)) {
+        const mode = this.settings.includeGraphNeighborhood ? 'neighborhood' : 'backlinks';
+        for (const note of await this.getGraphNotes(currentFile, mode)) {
+          if (!retrievedNotes.has(note.path)) {
+            retrievedNotes.set(note.path, note);
+          }
+        }
+      }
+
+      // Include the most relevant passages from the vault search and semantic indexes if enabled.
+      // The current note is skipped: it's either already included or deliberately left out.
+      const searchNotes = [
+        ...(this.settings.enableVaultSearch ? await this.searchVault(messageText) : []),
+        ...(this.settings.enableSemanticSearch ? await this.searchSemantic(messageText) : []),
+      ];
+      for (const note of searchNotes) {
+        if (note.file.path === currentFile?.path) continue;
+        if (!retrievedNotes.has(note.path) && !retrievedNotes.has(note.file.path)) {
+          retrievedNotes.set(note.path, note);
+        }
+      }
+
       return Array.from(retrievedNotes.values());
     } catch (error) {
       console.error('Error retrieving content:', error);
@@ -86,6 +156,89 @@ export class ContentRetrievalService {
     }
   }
 
+  /**
+   * Notes for the files, folders and tags mentioned in a chat. A mentioned file is included even
+   * when an exclusion rule matches it; the notes in a folder or under a tag follow the level 1
+   * exclusions like any other retrieved note.
+   */
+  async retrieveMentions(mentions: VaultMention[]): Promise<RetrievedNote[]> {
+    const files = new Map<string, { file: TFile; relation?: string }>();
+
+    for (const mention of mentions) {
+      if (mention.kind === 'file') {
+        const file = this.vault.getAbstractFileByPath(mention.path);
+        if (file instanceof TFile && !files.has(file.path)) files.set(file.path, { file });
+        continue;
+      }
+
+      const tag = mention.path.toLowerCase();
+      const folder = mention.path.replace(/\/+$/, '');
+      const matches = this.vault.getMarkdownFiles()
+        .filter(file => mention.kind === 'folder'
+          ? folder === '' || folder === '/' || file.path.startsWith(`${folder}/`)
+          : this.getTags(file.path).some(t => t.toLowerCase() === tag || t.toLowerCase().startsWith(`${tag}/`)))
+        .filter(file => !this.isExcluded(file.path, 1))
+        .sort((a, b) => (b.stat?.mtime || 0) - (a.stat?.mtime || 0));
+      if (matches.length > MAX_MENTION_NOTES) {
+        debugConsole.warn(`Only including the ${MAX_MENTION_NOTES} most recent of ${matches.length} notes for ${mention.path}`);
+      }
+      for (const file of matches.slice(0, MAX_MENTION_NOTES)) {
+        if (!files.has(file.path)) {
+          files.set(file.path, { file, relation: mention.kind === 'folder' ? `in ${folder}/` : `tagged ${mention.path}` });
+        }
+      }
+    }
+
+    const notes: RetrievedNote[] = [];
+    for (const { file, relation } of files.values()) {
+      const note = await this.retrieveNote(file);
+      if (note) notes.push({ ...note, source: 'mention', relation });
+    }
+    return notes;
+  }
+
+  /**
+   * Top passages from the vault search index, one entry per passage
+   */
+  private async searchVault(messageText: string): Promise<RetrievedNote[]> {
+    const index = SearchIndexService.getInstance();
+    if (!index) return [];
+    await index.initialize();
+    return this.toSearchNotes(index.search(messageText, this.settings.vaultSearchResults || 5), 'search');
+  }
+
+  /**
+   * Nearest chunks from the embedding index. Embedding the query needs the provider,
+   * so failures are logged and the request goes ahead without them.
+   */
+  private async searchSemantic(messageText: string): Promise<RetrievedNote[]> {
+    const index = EmbeddingIndexService.getInstance();
+    if (!index) return [];
+    try {
+      return this.toSearchNotes(await index.search(messageText, this.settings.semanticSearchResults || 5), 'semantic');
+    } catch (error) {
+      debugConsole.warn('Semantic search failed:', error);
+      return [];
+    }
+  }
+
+  private toSearchNotes(results: SearchResult[], source: 'search' | 'semantic'): RetrievedNote[] {
+    const notes: RetrievedNote[] = [];
+    for (const result of results) {
+      if (this.isExcluded(result.path, 1)) continue;
+      const file = this.vault.getAbstractFileByPath(result.path);
+      if (!(file instanceof TFile)) continue;
+      notes.push({
+        file,
+        path: result.heading ? `${result.path}#${result.heading}` : result.path,
+        title: result.heading ? `${file.basename} › ${result.heading}` : file.basename,
+        content: result.text,
+        source
+      });
+    }
+    return notes;
+  }
+
   /**
    * Parse links from text content
    */
@@ -160,7 +313,12 @@ export class ContentRetrievalService {
     if (pathPart.includes('#')) {
       const [notePath, sectionName] = pathPart.split('#', 2);
       path = notePath.trim();
-      section = sectionName.trim();
+      // [[Note#^blockId]] is how Obsidian writes block links
+      if (sectionName.trim().startsWith('^')) {
+        block = sectionName.trim().slice(1);
+      } else {
+        section = sectionName.trim();
+      }
     } else if (pathPart.includes('^')) {
       const [notePath, blockId] = pathPart.split('^', 2);
       path = notePath.trim();
@@ -232,38 +390,27 @@ export class ContentRetrievalService {
         processedContent = this.extractBlock(content, linkInfo.block);
       }
 
+      // Expand ![[embeds]] so notes built from transclusions (MOCs) carry the embedded text
+      processedContent = await this.expandEmbeds(processedContent, file, new Set([file.path]), 1);
+
+      // Find images before reading view extraction turns the markdown into plain text
+      const images = this.findImages(processedContent, file.path);
+
       // Apply reading view extraction if enabled
+      let renderedLinks: LinkInfo[] = [];
       if (this.settings.extractNotesInReadingView) {
-        processedContent = await this.extractFromReadingView(processedContent, file);
-      }
-
-      // Find images in the processed content
-      const images: RetrievedImageRef[] = [];
-      // data URIs
-      const dataUriRegex = /data:(image\/[a-zA-Z0-9.+-]+);base64,[A-Za-z0-9+/=]+/g;
-      let imgMatch;
-      while ((imgMatch = dataUriRegex.exec(processedContent)) !== null) {
-        images.push({ sourceType: 'data', raw: imgMatch[0], mime: imgMatch[1] });
-      }
-      // markdown images
-      const imageMarkdownRegex = /!\[([^\]]*)\]\(([^)]+)\)/g;
-      while ((imgMatch = imageMarkdownRegex.exec(processedContent)) !== null) {
-        const alt = imgMatch[1];
-        const imgPath = imgMatch[2];
-        if (/^data:image\//.test(imgPath)) {
-          const m = imgPath.match(/data:(image\/[a-zA-Z0-9.+-]+);base64,(.+)$/);
-          images.push({ sourceType: 'data', raw: imgPath, alt, mime: m?.[1] });
-        } else {
-          images.push({ sourceType: 'url', raw: imgPath, alt });
-        }
+        const rendered = await this.extractFromReadingView(processedContent, file);
+        processedContent = rendered.text;
+        renderedLinks = rendered.links;
       }
 
       return {
         file,
         path: file.path,
         title: file.basename,
-  content: processedContent,
-  images: images.length ? images : undefined
+        content: processedContent,
+        images: images.length ? images : undefined,
+        renderedLinks: renderedLinks.length ? renderedLinks : undefined
       };
     } catch (error) {
       debugConsole.warn(`Failed to read note: ${file.path}`, error);
@@ -272,10 +419,180 @@ export class ContentRetrievalService {
     }
   }
 
+  /**
+   * Find images in markdown: data URIs, ![alt](path-or-url) and ![[attachment.png]] embeds.
+   * Local paths are resolved against the vault relative to sourcePath; unresolved ones are dropped.
+   */
+  findImages(text: string, sourcePath = ''): RetrievedImageRef[] {
+    const images: RetrievedImageRef[] = [];
+    const seen = new Set<string>();
+    const add = (image: RetrievedImageRef) => {
+      const key = image.file?.path || image.raw;
+      if (seen.has(key)) return;
+      seen.add(key);
+      images.push(image);
+    };
+
+    // markdown images
+    const imageMarkdownRegex = /!\[([^\]]*)\]\(([^)]+)\)/g;
+    let match;
+    while ((match = imageMarkdownRegex.exec(text)) !== null) {
+      const alt = match[1];
+      const imgPath = match[2].trim().replace(/^<|>$/g, '');
+      if (/^data:image\//.test(imgPath)) {
+        const m = imgPath.match(/^data:(image\/[a-zA-Z0-9.+-]+);base64,/);
+        add({ sourceType: 'data', raw: imgPath, alt, mime: m?.[1] });
+      } else if (/^https?:\/\//.test(imgPath)) {
+        add({ sourceType: 'url', raw: imgPath, alt, filename: imgPath.split(/[?#]/)[0].split('/').pop() });
+      } else {
+        const file = this.resolveImageFile(imgPath, sourcePath);
+        if (file) add({ sourceType: 'vault', raw: imgPath, alt, filename: file.name, mime: IMAGE_MIME_TYPES[file.extension.toLowerCase()], file });
+      }
+    }
+
+    // wiki embeds: ![[diagram.png]], ![[diagram.png|300]]
+    const embedRegex = /!\[\[([^\]|#^]+)(?:[|#^][^\]]*)?\]\]/g;
+    while ((match = embedRegex.exec(text)) !== null) {
+      const file = this.resolveImageFile(match[1].trim(), sourcePath);
+      if (file) add({ sourceType: 'vault', raw: match[1].trim(), filename: file.name, mime: IMAGE_MIME_TYPES[file.extension.toLowerCase()], file });
+    }
+
+    // bare data URIs not already found inside markdown images
+    const dataUriRegex = /data:(image\/[a-zA-Z0-9.+-]+);base64,[A-Za-z0-9+/=]+/g;
+    while ((match = dataUriRegex.exec(text)) !== null) {
+      add({ sourceType: 'data', raw: match[0], mime: match[1] });
+    }
+
+    return images;
+  }
+
+  /**
+   * Turn image references into message content parts. Vault attachments are read and
+   * base64-encoded; remote URLs are only passed through when includeRemoteImages is on.
+   */
+  async loadImageParts(images: RetrievedImageRef[]): Promise<AIContentPart[]> {
+    const parts: AIContentPart[] = [];
+    for (const image of images) {
+      if (parts.length >= MAX_IMAGES_PER_MESSAGE) {
+        debugConsole.warn(`Only sending the first ${MAX_IMAGES_PER_MESSAGE} images`);
+        break;
+      }
+      if (image.file && this.isExcluded(image.file.path, 1)) continue;
+
+      try {
+        const part = await this.loadImagePart(image);
+        if (part) parts.push(part);
+      } catch (error) {
+        debugConsole.warn(`Failed to load image: ${image.raw}`, error);
+      }
+    }
+    return parts;
+  }
+
+  private async loadImagePart(image: RetrievedImageRef): Promise<AIContentPart | null> {
+    const name = image.filename || image.alt || undefined;
+    switch (image.sourceType) {
+      case 'data': {
+        const match = image.raw.match(/^data:(image\/[a-zA-Z0-9.+-]+);base64,(.+)$/);
+        if (!match) return null;
+        if (match[2].length * 0.75 > MAX_IMAGE_BYTES) {
+          new Notice(`Skipped an inline image larger than ${MAX_IMAGE_BYTES / 1024 / 1024} MB`);
+          return null;
+        }
+        return { type: 'image_base64', data: match[2], mime_type: match[1], name };
+      }
+      case 'url':
+        return this.settings.includeRemoteImages ? { type: 'image_url', url: image.raw, name } : null;
+      case 'vault': {
+        if (!image.file || !image.mime) return null;
+        if (image.file.stat && image.file.stat.size > MAX_IMAGE_BYTES) {
+          new Notice(`Skipped ${image.file.path}: images over ${MAX_IMAGE_BYTES / 1024 / 1024} MB are not sent`);
+          return null;
+        }
+        const buffer = await this.vault.readBinary(image.file);
+        return { type: 'image_base64', data: arrayBufferToBase64(buffer), mime_type: image.mime, name: image.file.path };
+      }
+    }
+  }
+
+  private resolveImageFile(linkPath: string, sourcePath: string): TFile | null {
+    let path = linkPath;
+    try {
+      path = decodeURI(linkPath);
+    } catch {
+      // Keep the path as written if it isn't valid URI encoding
+    }
+    const file = this.metadataCache.getFirstLinkpathDest(path, sourcePath);
+    if (!file || !IMAGE_MIME_TYPES[file.extension?.toLowerCase()]) return null;
+    return file;
+  }
+
+  /**
+   * Replace ![[Note]], ![[Note#Section]] and ![[Note^block]] embeds with the embedded text.
+   * Embeds of notes already being expanded (cycles), excluded notes, unresolved links,
+   * missing sections, non-markdown files and embeds nested past MAX_EMBED_DEPTH are left as written.
+   */
+  private async expandEmbeds(content: string, source: TFile, ancestors: Set<string>, depth: number): Promise<string> {
+    if (depth > MAX_EMBED_DEPTH) return content;
+
+    const embedRegex = /!\[\[([^\]]+)\]\]/g;
+    const parts: string[] = [];
+    let lastIndex = 0;
+    let match;
+
+    while ((match = embedRegex.exec(content)) !== null) {
+      parts.push(content.slice(lastIndex, match.index));
+      lastIndex = match.index + match[0].length;
+      parts.push(await this.resolveEmbed(match[0], match[1], source, ancestors, depth) ?? match[0]);
+    }
+    parts.push(content.slice(lastIndex));
+    return parts.join('');
+  }
+
+  private async resolveEmbed(raw: string, linkText: string, source: TFile, ancestors: Set<string>, depth: number): Promise<string | null> {
+    const linkInfo = this.parseWikiLink(linkText);
+    if (!linkInfo) return null;
+    // A bare ![[#Section]] embeds a section of the same note
+    const file = linkInfo.path ? this.resolveLinkToFile(linkInfo, source.path) : source;
+    if (!file || file.extension !== 'md') return null;
+    if (this.isExcluded(file.path, 1) || this.isExcluded(file.path, 2)) return null;
+    // Ancestors are tracked per note, section and block, so a note can embed its own sections
+    const key = file.path + (linkInfo.section ? `#${linkInfo.section}` : linkInfo.block ? `^${linkInfo.block}` : '');
+    if (ancestors.has(key)) {
+      debugConsole.warn(`Skipping circular embed ${raw} in ${source.path}`);
+      return null;
+    }
+
+    try {
+      const content = await this.vault.read(file);
+      let embedded: string | null;
+      if (linkInfo.section) {
+        embedded = this.findSection(content, linkInfo.section);
+      } else if (linkInfo.block) {
+        embedded = this.findBlock(content, linkInfo.block);
+      } else {
+        embedded = content.replace(/^---\n[\s\S]*?\n---\n?/, '');
+      }
+      if (embedded === null) return null;
+      const nested = new Set(ancestors).add(key);
+      return (await this.expandEmbeds(embedded, file, nested, depth + 1)).trim();
+    } catch (error) {
+      debugConsole.warn(`Failed to expand embed ${raw} in ${source.path}`, error);
+      return null;
+    }
+  }
+
   /**
    * Extract a specific section from markdown content
    */
   private extractSection(content: string, sectionName: string): string {
+    return this.findSection(content, sectionName) ?? content; // Section not found, return full content
+  }
+
+  /**
+   * The section under the given heading, or null when there is no such heading
+   */
+  private findSection(content: string, sectionName: string): string | null {
     const lines = content.split('\n');
     const sectionRegex = new RegExp(`^#+\\s+${sectionName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\s*$`, 'i');
     
@@ -291,7 +608,7 @@ export class ContentRetrievalService {
     }
     
     if (startIndex === -1) {
-      return content; // Section not found, return full content
+      return null;
     }
     
     // Find the section end (next heading of same or higher level)
@@ -314,6 +631,13 @@ export class ContentRetrievalService {
    * Extract a specific block from markdown content
    */
   private extractBlock(content: string, blockId: string): string {
+    return this.findBlock(content, blockId) ?? content; // Block not found, return full content
+  }
+
+  /**
+   * The line carrying the block id, without the id, or null when there is no such block
+   */
+  private findBlock(content: string, blockId: string): string | null {
     const lines = content.split('\n');
     
     // Look for block reference
@@ -325,42 +649,69 @@ export class ContentRetrievalService {
       }
     }
     
-    return content; // Block not found, return full content
+    return null;
   }
 
   /**
-   * Extract text content from reading view (HTML rendering)
+   * Extract text content from reading view (HTML rendering). With includeLinksInRenderedHTML,
+   * also returns the internal links in the rendered DOM, including those generated by
+   * Dataview queries and other rendered blocks.
    */
-  private async extractFromReadingView(content: string, file: TFile): Promise<string> {
+  private async extractFromReadingView(content: string, file: TFile): Promise<{ text: string; links: LinkInfo[] }> {
+    // Plugins attach their block renderers to the component, so it has to be loaded for
+    // generated content to appear
+    const component = new Component();
     try {
       // Create a temporary container for rendering
       const container = document.createElement('div');
       
       // Use Obsidian's markdown renderer
-      const component = new Component();
+      component.load();
       await MarkdownRenderer.renderMarkdown(content, container, file.path, component);
+
+      const links: LinkInfo[] = [];
+      if (this.settings.includeLinksInRenderedHTML) {
+        await new Promise(resolve => setTimeout(resolve, RENDER_SETTLE_MS));
+        links.push(...this.collectRenderedLinks(container));
+      }
       
       // Extract text content from rendered HTML
       const textContent = container.innerText || container.textContent || '';
       
-      // Clean up
-      component.unload();
-      
-      // If enabled, also scan rendered HTML for additional links
-      if (this.settings.includeLinksInRenderedHTML) {
-        // This is a placeholder - in practice, we would extract links from the HTML
-        // and add them to the processing queue, but not resolve them recursively
-        // to avoid infinite loops
-      }
-      
-      return textContent;
+      return { text: textContent, links };
     } catch (error) {
       debugConsole.warn(`HTML rendering failed for ${file.path}, using markdown:`, error);
       new Notice(`HTML rendering failed for ${file.path}, using markdown`);
-      return content;
+      return { text: content, links: [] };
+    } finally {
+      // Clean up, also when rendering failed
+      component.unload();
     }
   }
 
+  /**
+   * Internal link targets in rendered HTML. Obsidian and Dataview render them as
+   * a.internal-link with the link text (path, #section or #^block) in data-href.
+   */
+  private collectRenderedLinks(container: HTMLElement): LinkInfo[] {
+    const links: LinkInfo[] = [];
+    const seen = new Set<string>();
+    container.querySelectorAll('a.internal-link, a[data-href]').forEach((anchor) => {
+      const href = anchor.getAttribute('data-href') || anchor.getAttribute('href');
+      if (!href || this.isExternalLink(href) || seen.has(href)) return;
+      seen.add(href);
+      let target = href;
+      try {
+        target = decodeURIComponent(href);
+      } catch {
+        // Not percent-encoded; use as written
+      }
+      const linkInfo = this.parseWikiLink(target);
+      if (linkInfo?.path) links.push(linkInfo);
+    });
+    return links;
+  }
+
   /**
    * Get all currently open notes
    */
@@ -393,18 +744,18 @@ export class ContentRetrievalService {
   /**
    * Get linked notes with recursion support
    */
-  private async getLinkedNotes(text: string, currentDepth: number): Promise<RetrievedNote[]> {
+  private async getLinkedNotes(text: string, currentDepth: number, extraLinks: LinkInfo[] = [], sourcePath?: string): Promise<RetrievedNote[]> {
     const maxDepth = this.settings.linkRecursionDepth || 1;
     if (currentDepth > maxDepth) {
       return [];
     }
 
-    const links = this.parseLinks(text);
+    const links = [...this.parseLinks(text), ...extraLinks];
     const notes: RetrievedNote[] = [];
     const processedPaths = new Set<string>();
 
     for (const linkInfo of links) {
-      const file = this.resolveLinkToFile(linkInfo);
+      const file = this.resolveLinkToFile(linkInfo, sourcePath);
       if (!file) {
         new Notice(`Could not resolve link to: ${linkInfo.path}`);
         continue;
@@ -420,12 +771,15 @@ export class ContentRetrievalService {
 
       const note = await this.retrieveNote(file, linkInfo);
       if (note) {
+        note.source = 'linked';
+        note.depth = currentDepth;
         notes.push(note);
         processedPaths.add(file.path);
 
         // Recursive processing for deeper levels
         if (currentDepth < maxDepth) {
-          const nestedNotes = await this.getLinkedNotes(note.content, currentDepth + 1);
+          // Links found in the rendered note (e.g. Dataview lists) are followed like written ones
+          const nestedNotes = await this.getLinkedNotes(note.content, currentDepth + 1, note.renderedLinks, file.path);
           for (const nestedNote of nestedNotes) {
             if (!processedPaths.has(nestedNote.path)) {
               notes.push(nestedNote);
@@ -440,41 +794,120 @@ export class ContentRetrievalService {
   }
 
   /**
-   * Check if a file path should be excluded based on settings
+   * Notes around the current note in the link graph, up to linkRecursionDepth hops away,
+   * nearest and most strongly connected first. Backlinks mode follows incoming links only;
+   * neighborhood mode also follows outgoing links and shared tags.
    */
-  private isExcluded(filePath: string, depth: number): boolean {
-    const exclusions = depth === 1 
-      ? this.settings.noteExclusionsLevel1 || []
-      : this.settings.noteExclusionsDeepLink || [];
+  private async getGraphNotes(currentFile: TFile, mode: 'backlinks' | 'neighborhood'): Promise<RetrievedNote[]> {
+    const maxDepth = this.settings.linkRecursionDepth || 1;
+    const resolvedLinks = this.metadataCache.resolvedLinks || {};
+    const incoming = new Map<string, Map<string, number>>();
+    for (const [source, targets] of Object.entries(resolvedLinks)) {
+      for (const [target, count] of Object.entries(targets)) {
+        if (!incoming.has(target)) incoming.set(target, new Map());
+        incoming.get(target)!.set(source, count);
+      }
+    }
+    const tagIndex = mode === 'neighborhood' ? this.buildTagIndex() : null;
 
-    for (const exclusion of exclusions) {
-      const trimmed = exclusion.trim();
-      if (!trimmed) continue;
+    const candidates = new Map<string, GraphCandidate>();
+    const visited = new Set([currentFile.path]);
+    let frontier = [currentFile.path];
 
-      if (trimmed.startsWith('#')) {
-        // Tag-based exclusion - check if file has this tag
-        const file = this.vault.getAbstractFileByPath(filePath);
-        if (file instanceof TFile) {
-          const cache = this.metadataCache.getFileCache(file);
-          const tags = cache?.tags?.map(tag => tag.tag) || [];
-          if (tags.includes(trimmed)) {
-            return true;
-          }
+    for (let depth = 1; depth <= maxDepth && frontier.length > 0; depth++) {
+      const found = new Map<string, GraphCandidate>();
+      const connect = (path: string, weight: number, relation: string) => {
+        if (visited.has(path)) return;
+        const candidate = found.get(path) || { depth, score: 0, relation, relationWeight: 0 };
+        candidate.score += weight;
+        // Label each note with its strongest connection
+        if (weight > candidate.relationWeight) {
+          candidate.relation = relation;
+          candidate.relationWeight = weight;
         }
-      } else if (trimmed.endsWith('/')) {
-        // Folder exclusion
-        if (filePath.startsWith(trimmed)) {
-          return true;
+        found.set(path, candidate);
+      };
+
+      for (const node of frontier) {
+        const name = this.noteName(node);
+        for (const [source, count] of incoming.get(node) || []) {
+          connect(source, count, `links to ${name}`);
         }
-      } else {
-        // Exact file path exclusion
-        if (filePath === trimmed || filePath.endsWith('/' + trimmed)) {
-          return true;
+        if (mode === 'neighborhood') {
+          for (const [target, count] of Object.entries(resolvedLinks[node] || {})) {
+            connect(target, count, `linked from ${name}`);
+          }
+          for (const tag of this.getTags(node)) {
+            for (const other of tagIndex!.get(tag) || []) {
+              connect(other, SHARED_TAG_WEIGHT, `shares ${tag} with ${name}`);
+            }
+          }
         }
       }
+
+      frontier = [];
+      for (const [path, candidate] of found) {
+        visited.add(path);
+        // Excluded notes are neither included nor walked through, so their names never show up as relations
+        if (!path.endsWith('.md') || this.isExcluded(path, depth === 1 ? 1 : 2)) continue;
+        candidates.set(path, candidate);
+        frontier.push(path);
+      }
+    }
+
+    const ranked = Array.from(candidates.entries())
+      .sort((a, b) => a[1].depth - b[1].depth || b[1].score - a[1].score)
+      .slice(0, MAX_GRAPH_NOTES);
+
+    const notes: RetrievedNote[] = [];
+    for (const [path, candidate] of ranked) {
+      const file = this.vault.getAbstractFileByPath(path);
+      if (!(file instanceof TFile)) continue;
+      const note = await this.retrieveNote(file);
+      if (note) {
+        notes.push({
+          ...note,
+          source: mode === 'backlinks' ? 'backlink' : 'graph',
+          depth: candidate.depth,
+          relation: candidate.relation,
+        });
+      }
+    }
+    return notes;
+  }
+
+  private getTags(path: string): string[] {
+    const file = this.vault.getAbstractFileByPath(path);
+    return file instanceof TFile ? getNoteTags(this.metadataCache.getFileCache(file)) : [];
+  }
+
+  private buildTagIndex(): Map<string, string[]> {
+    const index = new Map<string, string[]>();
+    for (const file of this.vault.getMarkdownFiles()) {
+      for (const tag of this.getTags(file.path)) {
+        if (!index.has(tag)) index.set(tag, []);
+        index.get(tag)!.push(file.path);
+      }
     }
+    return index;
+  }
+
+  private noteName(path: string): string {
+    return (path.split('/').pop() || path).replace(/\.md$/, '');
+  }
+
+  /**
+   * Check if a file path should be excluded based on settings
+   */
+  isExcluded(filePath: string, depth: number): boolean {
+    const exclusions = depth === 1 
+      ? this.settings.noteExclusionsLevel1 || []
+      : this.settings.noteExclusionsDeepLink || [];
 
-    return false;
+    return matchesExclusionRules(exclusions, filePath, () => {
+      const file = this.vault.getAbstractFileByPath(filePath);
+      return file instanceof TFile ? this.metadataCache.getFileCache(file) : null;
+    });
   }
 
   /**
@@ -486,7 +919,7 @@ export class ContentRetrievalService {
     }
 
     const sections = notes.map(note => {
-      return `## ${note.title} (${note.path})\n\n${note.content}`;
+      return `## ${formatNoteHeading(note)}\n\n${note.content}`;
     });
 
     return '\n\n---\n\n**Included Notes:**\n\n' + sections.join('\n\n---\n\n');
@@ -504,38 +937,43 @@ export function renderNoteExclusionsSettings(
   const exclusionsContainer = container.createDiv();
   exclusionsContainer.createEl('h3', { text: 'Note Exclusions' });
   exclusionsContainer.createEl('p', { 
-    text: 'Exclude specific folders, notes, or tags from link retrieval. One entry per line.',
+    text: 'Exclude notes from retrieval. One rule per line: folder/, note path, glob (**/journal/*.md), /regex/, #tag (also matches nested tags like #tag/child) or frontmatter property (vault-bot: exclude). Matching notes are previewed below each list.',
     cls: 'setting-item-description'
   });
 
-  new Setting(exclusionsContainer)
-    .setName('Level 1 Exclusions')
-    .setDesc('Excludes from direct link retrieval. Format: folder paths, note paths, or tags (with #)')
-    .addTextArea((text) => {
-      text
-        .setPlaceholder('folder/\nspecific-note.md\n#tag-to-exclude')
-        .setValue((plugin.settings.noteExclusionsLevel1 || []).join('\n'))
-        .onChange(async (value) => {
-          plugin.settings.noteExclusionsLevel1 = value.split('\n').filter(line => line.trim());
-          await save();
-        });
-      const anyInput: any = (text as any).inputEl;
-      if (anyInput) {
-        if (typeof anyInput.rows !== 'undefined') anyInput.rows = 4;
-        if (anyInput.style) anyInput.style.width = '100%';
-      }
-      return text;
-    });
+  renderExclusionList(exclusionsContainer, plugin, save, {
+    name: 'Level 1 Exclusions',
+    desc: 'Excludes from direct link retrieval, the current and open notes, search and the first hop of backlinks.',
+    placeholder: 'folder/\nspecific-note.md\n**/journal/*.md\n#tag-to-exclude\nvault-bot: exclude',
+    key: 'noteExclusionsLevel1',
+  });
+
+  renderExclusionList(exclusionsContainer, plugin, save, {
+    name: 'Deep Link Exclusions',
+    desc: 'Excludes from level 2+ recursive retrieval.',
+    placeholder: 'templates/\nlarge-reference-note.md\n/\\.excalidraw\\.md$/\n#private',
+    key: 'noteExclusionsDeepLink',
+  });
+}
 
-  new Setting(exclusionsContainer)
-    .setName('Deep Link Exclusions')
-    .setDesc('Excludes from level 2+ recursive retrieval. Format: folder paths, note paths, or tags (with #)')
+function renderExclusionList(
+  container: HTMLElement,
+  plugin: PluginLike,
+  save: (immediate?: boolean) => Promise<void> | void,
+  options: { name: string; desc: string; placeholder: string; key: 'noteExclusionsLevel1' | 'noteExclusionsDeepLink' }
+) {
+  let previewEl: HTMLElement | null = null;
+
+  new Setting(container)
+    .setName(options.name)
+    .setDesc(options.desc)
     .addTextArea((text) => {
       text
-        .setPlaceholder('templates/\nlarge-reference-note.md\n#private')
-        .setValue((plugin.settings.noteExclusionsDeepLink || []).join('\n'))
+        .setPlaceholder(options.placeholder)
+        .setValue((plugin.settings[options.key] || []).join('\n'))
         .onChange(async (value) => {
-          plugin.settings.noteExclusionsDeepLink = value.split('\n').filter(line => line.trim());
+          plugin.settings[options.key] = value.split('\n').filter(line => line.trim());
+          if (previewEl) renderExclusionPreview(previewEl, plugin.settings[options.key] || [], plugin.app);
           await save();
         });
       const anyInput: any = (text as any).inputEl;
@@ -545,4 +983,51 @@ export function renderNoteExclusionsSettings(
       }
       return text;
     });
+
+  if (plugin.app?.vault) {
+    previewEl = container.createDiv({ cls: 'vault-bot-exclusion-preview' });
+    renderExclusionPreview(previewEl, plugin.settings[options.key] || [], plugin.app);
+  }
+}
+
+// Paths listed per rule in the preview before collapsing to a count
+const PREVIEW_PATHS_PER_RULE = 5;
+
+/**
+ * List the vault notes each rule currently matches, so a typo that matches nothing is visible
+ */
+function renderExclusionPreview(previewEl: HTMLElement, rules: string[], app: App | undefined) {
+  previewEl.empty();
+  if (!app?.vault || rules.length === 0) return;
+
+  const files = app.vault.getMarkdownFiles();
+  const list = previewEl.createEl('ul');
+  for (const line of rules) {
+    const rule = parseExclusionRule(line);
+    const item = list.createEl('li');
+    item.createEl('code', { text: rule.raw });
+    if (rule.error) {
+      item.createSpan({ text: ` ${rule.error}`, cls: 'vault-bot-exclusion-error' });
+      continue;
+    }
+
+    const matched = files
+      .filter(file => rule.matches(file.path, () => app.metadataCache.getFileCache(file)))
+      .map(file => file.path)
+      .sort();
+    if (matched.length === 0) {
+      item.createSpan({ text: ' matches no notes', cls: 'vault-bot-exclusion-none' });
+      continue;
+    }
+    const shown = matched.slice(0, PREVIEW_PATHS_PER_RULE).join(', ');
+    const more = matched.length > PREVIEW_PATHS_PER_RULE ? ` and ${matched.length - PREVIEW_PATHS_PER_RULE} more` : '';
+    item.createSpan({ text: ` matches ${matched.length} note${matched.length === 1 ? '' : 's'}: ${shown}${more}` });
+  }
+}
+
+/**
+ * Heading line for a note in the formatted context: title, path and, for graph notes, how it connects
+ */
+export function formatNoteHeading(note: RetrievedNote): string {
+  return `${note.title} (${note.path})${note.relation ? ` - ${note.relation}` : ''}`;
 }
@@ -0,0 +1,161 @@
+import type { AIMessage } from '../providers';
+import { formatNoteHeading, type RetrievedNote } from './content_retrieval';
+
+// Rough average for English prose with current BPE tokenizers; errs on the generous side
+const CHARS_PER_TOKEN = 4;
+// Role markers and separators the APIs add around every message
+const MESSAGE_OVERHEAD_TOKENS = 4;
+// Vision models bill a typical screenshot at around this many tokens
+const IMAGE_TOKENS = 1000;
+// Below this it's not worth sending the start of a note
+const MIN_TRUNCATED_NOTE_TOKENS = 200;
+
+export interface ContextBudgetInput {
+  contextLength: number;
+  reservedForResponse: number;
+  systemPrompt?: AIMessage;
+  history: AIMessage[]; // earlier turns, oldest first
+  latestTurn: AIMessage[]; // latest user message and anything after it, always sent
+  notes: RetrievedNote[]; // in the order they will be formatted
+}
+
+export interface ContextDrop {
+  kind: 'note' | 'history';
+  label: string;
+  truncated: boolean; // partially kept rather than dropped
+}
+
+export interface ContextBudgetResult {
+  history: AIMessage[];
+  notes: RetrievedNote[];
+  dropped: ContextDrop[];
+  estimatedTokens: number;
+  budget: number;
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export function estimateMessageTokens(message: AIMessage): number {
+  let tokens = MESSAGE_OVERHEAD_TOKENS;
+  if (typeof message.content === 'string') {
+    tokens += estimateTokens(message.content);
+  } else {
+    for (const part of message.content) {
+      tokens += part.type === 'text' ? estimateTokens(part.text) : IMAGE_TOKENS;
+    }
+  }
+  for (const call of message.tool_calls || []) {
+    tokens += estimateTokens(call.name + call.arguments);
+  }
+  return tokens;
+}
+
+// Matches the per-note section produced by ContentRetrievalService.formatNotesForAI
+export function estimateNoteTokens(note: RetrievedNote, content = note.content): number {
+  return estimateTokens(`\n\n---\n\n## ${formatNoteHeading(note)}\n\n${content}`);
+}
+
+/**
+ * Lower numbers are kept first: the current note and notes mentioned in the chat, then open notes,
+ * then linked notes by depth (backlinks and graph neighbours rank just below links at the same
+ * depth), then search passages
+ */
+function notePriority(note: RetrievedNote): number {
+  switch (note.source) {
+    case 'current':
+    case 'mention':
+      return 0;
+    case 'open': return 1;
+    // Search passages only fill whatever room the explicitly linked notes leave
+    case 'backlink':
+    case 'graph':
+      return 1.5 + (note.depth || 1);
+    case 'search':
+    case 'semantic':
+      return Number.MAX_SAFE_INTEGER;
+    default: return 1 + (note.depth || 1);
+  }
+}
+
+/**
+ * Fit a request into the model's context window, leaving room for the response.
+ * The system prompt and latest turn always go; notes are kept by priority (the last
+ * one that partly fits is truncated) and the remaining space goes to the most recent
+ * history. Everything that didn't make it is listed in `dropped`.
+ */
+export function allocateContext(input: ContextBudgetInput): ContextBudgetResult {
+  const budget = Math.max(input.contextLength - input.reservedForResponse, 0);
+  const fixed = [...(input.systemPrompt ? [input.systemPrompt] : []), ...input.latestTurn];
+  let used = fixed.reduce((sum, message) => sum + estimateMessageTokens(message), 0);
+  const dropped: ContextDrop[] = [];
+
+  // Notes, highest priority first
+  const keptNotes = new Map<RetrievedNote, RetrievedNote>();
+  const byPriority = input.notes
+    .map((note, index) => ({ note, index }))
+    .sort((a, b) => notePriority(a.note) - notePriority(b.note) || a.index - b.index)
+    .map(entry => entry.note);
+  if (byPriority.length > 0) used += estimateTokens('\n\n---\n\n**Included Notes:**');
+
+  for (const note of byPriority) {
+    const cost = estimateNoteTokens(note);
+    const remaining = budget - used;
+    if (cost <= remaining) {
+      keptNotes.set(note, note);
+      used += cost;
+    } else if (remaining >= MIN_TRUNCATED_NOTE_TOKENS) {
+      const truncated = truncateNote(note, remaining);
+      keptNotes.set(note, truncated);
+      used += estimateNoteTokens(truncated);
+      dropped.push({ kind: 'note', label: note.path, truncated: true });
+    } else {
+      dropped.push({ kind: 'note', label: note.path, truncated: false });
+    }
+  }
+
+  // History, newest first, stopping at the first message that doesn't fit
+  let firstKept = input.history.length;
+  while (firstKept > 0) {
+    const cost = estimateMessageTokens(input.history[firstKept - 1]);
+    if (used + cost > budget) break;
+    used += cost;
+    firstKept--;
+  }
+  // Don't start mid-exchange: providers expect history to open with a user message
+  if (firstKept > 0) {
+    while (firstKept < input.history.length && input.history[firstKept].role !== 'user') {
+      used -= estimateMessageTokens(input.history[firstKept]);
+      firstKept++;
+    }
+    dropped.push({ kind: 'history', label: `${firstKept} earlier message${firstKept === 1 ? '' : 's'}`, truncated: false });
+  }
+
+  return {
+    history: input.history.slice(firstKept),
+    notes: input.notes.filter(note => keptNotes.has(note)).map(note => keptNotes.get(note)!),
+    dropped,
+    estimatedTokens: used,
+    budget,
+  };
+}
+
+function truncateNote(note: RetrievedNote, availableTokens: number): RetrievedNote {
+  const marker = `\n\n[Truncated to fit the context window: showing the start of ${note.content.length} characters]`;
+  const overhead = estimateNoteTokens(note, marker);
+  const keepChars = Math.max((availableTokens - overhead) * CHARS_PER_TOKEN, 0);
+  return { ...note, content: note.content.slice(0, keepChars) + marker };
+}
+
+/**
+ * One-line summary for the notice shown when something was dropped
+ */
+export function describeContextDrops(dropped: ContextDrop[], model: string): string {
+  const truncated = dropped.filter(d => d.truncated).map(d => d.label);
+  const omitted = dropped.filter(d => !d.truncated).map(d => d.label);
+  const parts: string[] = [];
+  if (truncated.length > 0) parts.push(`truncated ${truncated.join(', ')}`);
+  if (omitted.length > 0) parts.push(`left out ${omitted.join(', ')}`);
+  return `Trimmed context to fit ${model}: ${parts.join('; ')}`;
+}
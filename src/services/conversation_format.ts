@@ -0,0 +1,122 @@
+/**
+ * In-note conversation formats. The separator format assigns roles by position; the callout
+ * and heading formats label every turn, so a missing or extra turn doesn't flip later roles.
+ */
+
+export type ConversationFormat = 'separator' | 'callouts' | 'headings';
+
+export type TurnRole = 'user' | 'assistant' | 'system';
+
+export interface ConversationTurn {
+  role: TurnRole;
+  content: string;
+}
+
+export const CONVERSATION_FORMAT_LABELS: Record<ConversationFormat, string> = {
+  separator: 'Chat separator',
+  callouts: 'Callouts (> [!user] / > [!assistant])',
+  headings: 'Headings (### User / ### Assistant)',
+};
+
+const ROLE_LABELS: Record<TurnRole, string> = { user: 'User', assistant: 'Assistant', system: 'System' };
+
+const CALLOUT_MARKER = /^>\s*\[!(user|assistant|system)\][+-]?(?:\s.*)?$/i;
+const HEADING_MARKER = /^#{1,6}\s+(user|assistant|system)\s*$/i;
+
+/**
+ * The text that opens a turn; the turn's body follows directly after it
+ */
+export function formatTurnStart(role: TurnRole, format: ConversationFormat): string {
+  if (format === 'callouts') return `> [!${role}]\n> `;
+  if (format === 'headings') return `### ${ROLE_LABELS[role]}\n\n`;
+  return '';
+}
+
+/**
+ * Body text as it appears inside a turn; callout lines each need the quote prefix
+ */
+export function formatTurnBody(text: string, format: ConversationFormat): string {
+  return format === 'callouts' ? text.replace(/\n/g, '\n> ') : text;
+}
+
+export function formatTurn(role: TurnRole, content: string, format: ConversationFormat): string {
+  return formatTurnStart(role, format) + formatTurnBody(content.trim(), format);
+}
+
+/**
+ * Write turns in the given format; marked turns are separated by a blank line
+ */
+export function formatConversation(turns: ConversationTurn[], format: ConversationFormat, separator: string): string {
+  if (format === 'separator') return turns.map(turn => turn.content.trim()).join(separator);
+  return turns.map(turn => formatTurn(turn.role, turn.content, format)).join('\n\n');
+}
+
+export function isTurnMarker(line: string): boolean {
+  return CALLOUT_MARKER.test(line.trim()) || HEADING_MARKER.test(line.trim());
+}
+
+export function hasTurnMarkers(text: string): boolean {
+  return text.split('\n').some(isTurnMarker);
+}
+
+/**
+ * First line of the labelled turn containing `line`: its callout or heading marker, or `line`
+ * itself when the text there isn't inside a labelled turn
+ */
+export function findTurnStart(getLine: (line: number) => string, line: number): number {
+  const inCallout = getLine(line).trimStart().startsWith('>');
+  for (let i = line; i >= 0; i--) {
+    const text = getLine(i);
+    if (isTurnMarker(text)) {
+      // Text below a callout that has ended isn't part of it
+      return inCallout || HEADING_MARKER.test(text.trim()) ? i : line;
+    }
+    const quoted = text.trimStart().startsWith('>');
+    if (inCallout ? !quoted : quoted) return line;
+  }
+  return line;
+}
+
+/**
+ * Parse callout- or heading-labelled turns, or null when the text has no turn markers.
+ * Unlabelled text before the first marker or after a callout ends is a user turn, so a
+ * question typed below the last answer needs no marker. Adjacent turns with the same role
+ * are merged, empty turns dropped and a leading frontmatter block ignored.
+ */
+export function parseMarkedConversation(text: string): ConversationTurn[] | null {
+  if (!hasTurnMarkers(text)) return null;
+  const body = text.replace(/^---\n[\s\S]*?\n---\n?/, '');
+
+  const turns: ConversationTurn[] = [];
+  let current: { role: TurnRole; lines: string[]; callout: boolean } = { role: 'user', lines: [], callout: false };
+  const flush = () => {
+    const content = current.lines.join('\n').trim();
+    if (!content) return;
+    const previous = turns[turns.length - 1];
+    if (previous && previous.role === current.role) previous.content += `\n\n${content}`;
+    else turns.push({ role: current.role, content });
+  };
+
+  for (const line of body.split('\n')) {
+    const trimmed = line.trim();
+    const marker = trimmed.match(CALLOUT_MARKER) || trimmed.match(HEADING_MARKER);
+    if (marker) {
+      flush();
+      current = { role: marker[1].toLowerCase() as TurnRole, lines: [], callout: trimmed.startsWith('>') };
+      continue;
+    }
+    if (current.callout) {
+      if (trimmed.startsWith('>')) {
+        current.lines.push(line.trimStart().replace(/^>\s?/, ''));
+        continue;
+      }
+      // The callout ended; what follows is unlabelled
+      flush();
+      current = { role: 'user', lines: [], callout: false };
+    }
+    current.lines.push(line);
+  }
+  flush();
+
+  return turns;
+}
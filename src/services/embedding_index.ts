@@ -0,0 +1,307 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { App, Notice, TAbstractFile, TFile } from 'obsidian';
+import { writeAtomic } from '../fs_utils';
+import { debugConsole } from '../utils/debug';
+import { splitIntoPassages, type SearchResult } from './search_index';
+
+const INDEX_FILE = 'vectors.json';
+const INDEX_VERSION = 1;
+
+// Chunks sent per embeddings request
+const BATCH_SIZE = 64;
+// Embedding models cap their input; a single huge paragraph is cut rather than rejected
+const MAX_CHUNK_CHARS = 6000;
+// Edits arrive as a stream of modify events; embed once typing has settled
+const SYNC_DELAY_MS = 30000;
+const SAVE_DELAY_MS = 5000;
+
+export type EmbedFunction = (texts: string[], signal?: AbortSignal) => Promise<number[][]>;
+
+interface EmbeddedChunk {
+  heading?: string;
+  text: string;
+  vector: number[];
+}
+
+interface EmbeddedDocument {
+  mtime: number;
+  chunks: EmbeddedChunk[];
+}
+
+interface PersistedVectors {
+  version: number;
+  model: string;
+  documents: Record<string, EmbeddedDocument>;
+}
+
+/**
+ * Cosine similarity of two vectors; 0 when either is empty or of a different length
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Heading-level chunk vectors for the vault, persisted per embedding model. Notes are
+ * re-embedded when their mtime changes; syncing runs in the background so queries
+ * answer from whatever is already embedded instead of waiting for the whole vault.
+ */
+export class EmbeddingIndexService {
+  private static instance: EmbeddingIndexService | null = null;
+
+  private app: App;
+  private indexDir: string;
+  private model: string;
+  private embed: EmbedFunction;
+  private isExcluded: (path: string) => boolean;
+  private documents = new Map<string, EmbeddedDocument>();
+  private loaded: Promise<void> | null = null;
+  private syncing: Promise<void> | null = null;
+  private resyncRequested = false;
+  private syncTimer: ReturnType<typeof setTimeout> | null = null;
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+  private abortController = new AbortController();
+  private lastErrorShown = false;
+
+  /**
+   * @param model identifies the embedding model; vectors stored for another model are discarded
+   */
+  constructor(app: App, indexDir: string, model: string, embed: EmbedFunction, isExcluded: (path: string) => boolean) {
+    this.app = app;
+    this.indexDir = indexDir;
+    this.model = model;
+    this.embed = embed;
+    this.isExcluded = isExcluded;
+  }
+
+  /**
+   * The index the plugin is running, or null when semantic search is off
+   */
+  static getInstance(): EmbeddingIndexService | null {
+    return EmbeddingIndexService.instance;
+  }
+
+  static setInstance(instance: EmbeddingIndexService | null): void {
+    EmbeddingIndexService.instance = instance;
+  }
+
+  get modelKey(): string {
+    return this.model;
+  }
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  /**
+   * Load stored vectors and start embedding new or changed notes in the background
+   */
+  async initialize(): Promise<void> {
+    if (!this.loaded) this.loaded = this.load();
+    await this.loaded;
+    void this.sync();
+  }
+
+  /**
+   * Nearest chunks to the query, most similar first
+   */
+  async search(query: string, limit: number): Promise<SearchResult[]> {
+    if (!query.trim()) return [];
+    if (!this.loaded) this.loaded = this.load();
+    await this.loaded;
+    if (this.documents.size === 0) return [];
+
+    const [queryVector] = await this.embed([query.slice(0, MAX_CHUNK_CHARS)], this.abortController.signal);
+    if (!queryVector) return [];
+
+    const results: SearchResult[] = [];
+    for (const [notePath, document] of this.documents) {
+      if (this.isExcluded(notePath)) continue;
+      for (const chunk of document.chunks) {
+        results.push({ path: notePath, heading: chunk.heading, text: chunk.text, score: cosineSimilarity(queryVector, chunk.vector) });
+      }
+    }
+    return results.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  /**
+   * Embed notes whose mtime changed and forget notes that are gone or now excluded.
+   * Concurrent calls share the sync already running, which then makes one more pass so
+   * notes edited after it listed the vault aren't left with stale vectors.
+   */
+  sync(): Promise<void> {
+    if (this.syncing) {
+      this.resyncRequested = true;
+      return this.syncing;
+    }
+    this.syncing = (async () => {
+      do {
+        this.resyncRequested = false;
+        await this.runSync();
+      } while (this.resyncRequested && !this.abortController.signal.aborted);
+    })().finally(() => { this.syncing = null; });
+    return this.syncing;
+  }
+
+  async rebuild(): Promise<void> {
+    await this.syncing;
+    this.documents.clear();
+    await this.sync();
+  }
+
+  onModify(file: TAbstractFile): void {
+    if (!(file instanceof TFile) || file.extension !== 'md') return;
+    if (this.syncTimer) clearTimeout(this.syncTimer);
+    this.syncTimer = setTimeout(() => {
+      this.syncTimer = null;
+      void this.sync();
+    }, SYNC_DELAY_MS);
+  }
+
+  onDelete(file: TAbstractFile): void {
+    if (this.documents.delete(file.path)) this.scheduleSave();
+  }
+
+  onRename(file: TAbstractFile, oldPath: string): void {
+    // Content is unchanged, so the vectors move with the note
+    const document = this.documents.get(oldPath);
+    if (!document) return;
+    this.documents.delete(oldPath);
+    if (!this.isExcluded(file.path)) this.documents.set(file.path, document);
+    this.scheduleSave();
+  }
+
+  /**
+   * Cancel embedding in progress and write any pending changes
+   */
+  async close(): Promise<void> {
+    this.abortController.abort();
+    if (this.syncTimer) {
+      clearTimeout(this.syncTimer);
+      this.syncTimer = null;
+    }
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+      await this.save();
+    }
+  }
+
+  private async runSync(): Promise<void> {
+    if (!this.loaded) this.loaded = this.load();
+    await this.loaded;
+
+    const seen = new Set<string>();
+    const stale: TFile[] = [];
+    for (const file of this.app.vault.getMarkdownFiles()) {
+      if (this.isExcluded(file.path)) continue;
+      seen.add(file.path);
+      if (this.documents.get(file.path)?.mtime !== file.stat.mtime) stale.push(file);
+    }
+    for (const notePath of Array.from(this.documents.keys())) {
+      if (!seen.has(notePath)) this.documents.delete(notePath);
+    }
+
+    try {
+      await this.embedFiles(stale);
+      this.lastErrorShown = false;
+      debugConsole.log(`Semantic index ready: ${this.documents.size} notes (${stale.length} embedded)`);
+    } catch (error: any) {
+      if (this.abortController.signal.aborted) return;
+      console.error('Failed to embed notes for semantic search:', error);
+      // One notice per failure streak; a missing key would otherwise repeat on every edit
+      if (!this.lastErrorShown) {
+        this.lastErrorShown = true;
+        new Notice(`Semantic search: could not embed notes - ${error?.message || error}`);
+      }
+    } finally {
+      this.scheduleSave();
+    }
+  }
+
+  /**
+   * Embed the chunks of several notes per request; each note is stored once all its chunks are done
+   */
+  private async embedFiles(files: TFile[]): Promise<void> {
+    let pending: Array<{ file: TFile; mtime: number; chunks: Array<Omit<EmbeddedChunk, 'vector'>> }> = [];
+    let pendingCount = 0;
+
+    const flush = async () => {
+      if (pending.length === 0) return;
+      const inputs = pending.flatMap(({ file, chunks }) =>
+        chunks.map(chunk => [file.basename, chunk.heading, chunk.text].filter(Boolean).join('\n').slice(0, MAX_CHUNK_CHARS)));
+      const vectors = await this.embed(inputs, this.abortController.signal);
+      if (vectors.length !== inputs.length) {
+        throw new Error(`Expected ${inputs.length} embeddings, received ${vectors.length}`);
+      }
+      let offset = 0;
+      for (const { file, mtime, chunks } of pending) {
+        this.documents.set(file.path, {
+          mtime,
+          chunks: chunks.map((chunk, i) => ({ ...chunk, vector: vectors[offset + i] })),
+        });
+        offset += chunks.length;
+      }
+      pending = [];
+      pendingCount = 0;
+      this.scheduleSave();
+    };
+
+    for (const file of files) {
+      const content = await this.app.vault.cachedRead(file);
+      const chunks = splitIntoPassages(content);
+      if (chunks.length === 0) {
+        this.documents.set(file.path, { mtime: file.stat.mtime, chunks: [] });
+        continue;
+      }
+      if (pendingCount > 0 && pendingCount + chunks.length > BATCH_SIZE) await flush();
+      pending.push({ file, mtime: file.stat.mtime, chunks });
+      pendingCount += chunks.length;
+    }
+    await flush();
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const raw = await fs.promises.readFile(path.join(this.indexDir, INDEX_FILE), 'utf8');
+      const persisted = JSON.parse(raw) as PersistedVectors;
+      if (persisted.version !== INDEX_VERSION || persisted.model !== this.model) return;
+      for (const [notePath, document] of Object.entries(persisted.documents || {})) {
+        this.documents.set(notePath, document);
+      }
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') {
+        debugConsole.warn('Could not read stored embeddings, re-embedding the vault', error);
+      }
+    }
+  }
+
+  private scheduleSave(): void {
+    // After close() the index may have been replaced, and its vectors would overwrite the new model's
+    if (this.abortController.signal.aborted) return;
+    if (this.saveTimer) clearTimeout(this.saveTimer);
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      void this.save();
+    }, SAVE_DELAY_MS);
+  }
+
+  private async save(): Promise<void> {
+    const persisted: PersistedVectors = { version: INDEX_VERSION, model: this.model, documents: Object.fromEntries(this.documents) };
+    try {
+      await writeAtomic(path.join(this.indexDir, INDEX_FILE), JSON.stringify(persisted));
+    } catch (error) {
+      console.error('Failed to save embeddings:', error);
+    }
+  }
+}
@@ -70,7 +70,8 @@ export class ModelService {
         const providerSettings = settings.aiProviderSettings[settings.apiProvider];
         return btoa(JSON.stringify({
             api_key: providerSettings?.api_key?.substring(0, 8) || '', // Only use first 8 chars for privacy
-            provider: settings.apiProvider
+            provider: settings.apiProvider,
+            base_url: (providerSettings as any)?.base_url || '' // Distinguish different local servers
         }));
     }
 
@@ -0,0 +1,124 @@
+import { TFile, type App } from 'obsidian';
+import type { VaultBotPluginSettings } from '../settings';
+import { ProviderRegistry, type AIProviderSettings } from '../providers';
+
+// Frontmatter keys a note can use to override the global settings
+export const NOTE_CONFIG_KEYS = {
+  provider: 'vault-bot-provider',
+  model: 'vault-bot-model',
+  systemPrompt: 'vault-bot-system-prompt',
+  temperature: 'vault-bot-temperature',
+  includeLinked: 'vault-bot-include-linked',
+} as const;
+
+export interface NoteSettings {
+  settings: VaultBotPluginSettings; // a copy with the note's overrides applied; the global settings are untouched
+  overrides: string[]; // frontmatter keys that took effect
+  problems: string[]; // values that were ignored, worded for a notice
+}
+
+/**
+ * Apply a note's `vault-bot-*` frontmatter on top of the global settings. The system prompt
+ * can be inline text or a link to a prompt note (`"[[Personas/Editor]]"`), whose body is used.
+ */
+export async function resolveNoteSettings(app: App, settings: VaultBotPluginSettings, file?: TFile | null): Promise<NoteSettings> {
+  const result: NoteSettings = { settings, overrides: [], problems: [] };
+  const frontmatter = file ? app.metadataCache?.getFileCache(file)?.frontmatter : undefined;
+  if (!file || !frontmatter) return result;
+
+  const registry = ProviderRegistry.getInstance();
+  let providerId = settings.apiProvider;
+  const requestedProvider = frontmatter[NOTE_CONFIG_KEYS.provider];
+  if (requestedProvider !== undefined) {
+    if (typeof requestedProvider === 'string' && registry.has(requestedProvider.trim())) {
+      providerId = requestedProvider.trim();
+      result.overrides.push(NOTE_CONFIG_KEYS.provider);
+    } else {
+      result.problems.push(`unknown provider "${requestedProvider}"`);
+    }
+  }
+
+  const providerSettings: AIProviderSettings & Record<string, any> = {
+    ...(settings.aiProviderSettings[providerId] || registry.get(providerId)?.defaultSettings()),
+  };
+
+  const model = frontmatter[NOTE_CONFIG_KEYS.model];
+  if (model !== undefined) {
+    if (typeof model === 'string' && model.trim()) {
+      providerSettings.model = model.trim();
+      result.overrides.push(NOTE_CONFIG_KEYS.model);
+    } else {
+      result.problems.push(`${NOTE_CONFIG_KEYS.model} must be a model id`);
+    }
+  }
+
+  const temperature = frontmatter[NOTE_CONFIG_KEYS.temperature];
+  if (temperature !== undefined) {
+    const value = typeof temperature === 'number' ? temperature : parseFloat(String(temperature));
+    if (Number.isFinite(value) && value >= 0 && value <= 2) {
+      providerSettings.temperature = value;
+      result.overrides.push(NOTE_CONFIG_KEYS.temperature);
+    } else {
+      result.problems.push(`${NOTE_CONFIG_KEYS.temperature} must be a number from 0 to 2`);
+    }
+  }
+
+  const systemPrompt = frontmatter[NOTE_CONFIG_KEYS.systemPrompt];
+  if (systemPrompt !== undefined) {
+    const prompt = await resolveSystemPrompt(app, systemPrompt, file);
+    if (prompt.text !== null) {
+      providerSettings.system_prompt = prompt.text;
+      result.overrides.push(NOTE_CONFIG_KEYS.systemPrompt);
+    } else {
+      result.problems.push(prompt.problem);
+    }
+  }
+
+  let includeLinkedNotes = settings.includeLinkedNotes;
+  const includeLinked = frontmatter[NOTE_CONFIG_KEYS.includeLinked];
+  if (includeLinked !== undefined) {
+    const value = parseBoolean(includeLinked);
+    if (value !== null) {
+      includeLinkedNotes = value;
+      result.overrides.push(NOTE_CONFIG_KEYS.includeLinked);
+    } else {
+      result.problems.push(`${NOTE_CONFIG_KEYS.includeLinked} must be true or false`);
+    }
+  }
+
+  if (result.overrides.length === 0) return result;
+
+  result.settings = {
+    ...settings,
+    apiProvider: providerId,
+    includeLinkedNotes,
+    aiProviderSettings: { ...settings.aiProviderSettings, [providerId]: providerSettings },
+  };
+  return result;
+}
+
+async function resolveSystemPrompt(app: App, value: unknown, file: TFile): Promise<{ text: string | null; problem: string }> {
+  if (typeof value !== 'string' || !value.trim()) {
+    return { text: null, problem: `${NOTE_CONFIG_KEYS.systemPrompt} must be text or a link to a prompt note` };
+  }
+
+  const link = value.trim().match(/^\[\[([^\]|#^]+)(?:[#^|][^\]]*)?\]\]$/);
+  if (!link) return { text: value.trim(), problem: '' };
+
+  const promptFile = app.metadataCache.getFirstLinkpathDest(link[1].trim(), file.path);
+  if (!(promptFile instanceof TFile)) {
+    return { text: null, problem: `prompt note "${link[1].trim()}" not found` };
+  }
+  const content = await app.vault.cachedRead(promptFile);
+  return { text: content.replace(/^---\n[\s\S]*?\n---\n?/, '').trim(), problem: '' };
+}
+
+function parseBoolean(value: unknown): boolean | null {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'string') {
+    const lower = value.trim().toLowerCase();
+    if (['true', 'yes', 'on'].includes(lower)) return true;
+    if (['false', 'no', 'off'].includes(lower)) return false;
+  }
+  return null;
+}
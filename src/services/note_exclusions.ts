@@ -0,0 +1,156 @@
+import type { CachedMetadata } from 'obsidian';
+
+export type ExclusionRuleKind = 'tag' | 'folder' | 'regex' | 'glob' | 'property' | 'path';
+
+export interface ExclusionRule {
+  raw: string;
+  kind: ExclusionRuleKind;
+  error?: string; // set when the rule can't be used, e.g. an invalid regex; such rules match nothing
+  matches: (filePath: string, getCache: () => CachedMetadata | null | undefined) => boolean;
+}
+
+// Rules are re-evaluated for every candidate note, so each distinct rule is parsed once
+const parsedRules = new Map<string, ExclusionRule>();
+
+/**
+ * Parse one exclusion line:
+ * - `#tag` matches the tag and its nested tags (`#private` matches `#private/health`)
+ * - `folder/` matches everything under the folder
+ * - `/pattern/flags` matches the path against a regular expression
+ * - globs (`**` across folders, `*` and `?` within a name) match the whole path
+ * - `property: value` matches a frontmatter property; `property:` alone matches any truthy value
+ * - anything else is a note path, matched exactly or as a path suffix
+ */
+export function parseExclusionRule(line: string): ExclusionRule {
+  const raw = line.trim();
+  const cached = parsedRules.get(raw);
+  if (cached) return cached;
+
+  const rule = buildRule(raw);
+  parsedRules.set(raw, rule);
+  return rule;
+}
+
+function buildRule(raw: string): ExclusionRule {
+  if (raw.startsWith('#')) {
+    const tag = raw.toLowerCase();
+    return {
+      raw,
+      kind: 'tag',
+      matches: (_path, getCache) => getNoteTags(getCache()).some(noteTag => {
+        const lower = noteTag.toLowerCase();
+        return lower === tag || lower.startsWith(`${tag}/`);
+      }),
+    };
+  }
+
+  const regexMatch = raw.match(/^\/(.+)\/([a-z]*)$/);
+  if (regexMatch) {
+    try {
+      const regex = new RegExp(regexMatch[1], regexMatch[2].replace('g', ''));
+      return { raw, kind: 'regex', matches: (filePath) => regex.test(filePath) };
+    } catch (error: any) {
+      return { raw, kind: 'regex', error: `Invalid regular expression: ${error?.message || error}`, matches: () => false };
+    }
+  }
+
+  if (raw.endsWith('/')) {
+    return { raw, kind: 'folder', matches: (filePath) => filePath.startsWith(raw) };
+  }
+
+  if (/[*?[]/.test(raw)) {
+    const regex = globToRegExp(raw);
+    return { raw, kind: 'glob', matches: (filePath) => regex.test(filePath) };
+  }
+
+  const propertyMatch = raw.match(/^([^/:#]+):\s*(.*)$/);
+  if (propertyMatch) {
+    const key = propertyMatch[1].trim();
+    const expected = propertyMatch[2].trim().toLowerCase();
+    return {
+      raw,
+      kind: 'property',
+      matches: (_path, getCache) => {
+        const value = getCache()?.frontmatter?.[key];
+        if (value === undefined || value === null) return false;
+        const values = Array.isArray(value) ? value : [value];
+        return expected
+          ? values.some(item => String(item).trim().toLowerCase() === expected)
+          : values.some(item => Boolean(item));
+      },
+    };
+  }
+
+  return { raw, kind: 'path', matches: (filePath) => filePath === raw || filePath.endsWith('/' + raw) };
+}
+
+/**
+ * Whether any of the rules matches the note. Metadata is only looked up for tag and property rules.
+ */
+export function matchesExclusionRules(rules: string[], filePath: string, getCache: () => CachedMetadata | null | undefined): boolean {
+  let cache: CachedMetadata | null | undefined;
+  let cacheLoaded = false;
+  const lazyCache = () => {
+    if (!cacheLoaded) {
+      cache = getCache();
+      cacheLoaded = true;
+    }
+    return cache;
+  };
+
+  return rules.some(line => line.trim() !== '' && parseExclusionRule(line).matches(filePath, lazyCache));
+}
+
+/**
+ * Convert a glob to an anchored regular expression: `**` spans folders, `*` and `?` stay within one name
+ */
+export function globToRegExp(glob: string): RegExp {
+  let pattern = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        // `**/` also matches zero folders, so `**/journal/*.md` matches `journal/x.md`
+        if (glob[i + 2] === '/') {
+          pattern += '(?:.*/)?';
+          i += 2;
+        } else {
+          pattern += '.*';
+          i += 1;
+        }
+      } else {
+        pattern += '[^/]*';
+      }
+    } else if (char === '?') {
+      pattern += '[^/]';
+    } else if (char === '[') {
+      const close = glob.indexOf(']', i + 1);
+      if (close === -1) {
+        pattern += '\\[';
+      } else {
+        pattern += `[${glob.slice(i + 1, close).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`;
+        i = close;
+      }
+    } else {
+      pattern += char.replace(/[.+^${}()|\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${pattern}$`);
+}
+
+/**
+ * Tags of a note from both the body and the frontmatter, with a leading #
+ */
+export function getNoteTags(cache: CachedMetadata | null | undefined): string[] {
+  const tags = (cache?.tags || []).map(tag => tag.tag);
+  const frontmatterTags = cache?.frontmatter?.tags ?? cache?.frontmatter?.tag;
+  const listed: unknown[] = Array.isArray(frontmatterTags)
+    ? frontmatterTags
+    : typeof frontmatterTags === 'string' ? frontmatterTags.split(/[,\s]+/) : [];
+  for (const tag of listed) {
+    if (typeof tag === 'string' && tag.trim()) {
+      tags.push(tag.trim().startsWith('#') ? tag.trim() : `#${tag.trim()}`);
+    }
+  }
+  return Array.from(new Set(tags));
+}
@@ -0,0 +1,103 @@
+import { TFile, normalizePath, type App } from 'obsidian';
+
+export interface PromptTemplate {
+  path: string;
+  name: string; // path inside the templates folder without the extension, e.g. `Translate/French`
+  commandId: string;
+}
+
+export interface PromptTemplateContext {
+  selection: string;
+  note: string;
+  title: string;
+  frontmatter: Record<string, unknown>;
+  clipboard?: string; // only read when the template uses {{clipboard}}
+  date: Date;
+}
+
+const VARIABLE_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+/**
+ * Markdown notes in the templates folder and its subfolders, sorted by name. Names that
+ * slugify to the same command id (`A-B` and `A B`) get a numbered suffix after the first.
+ */
+export function listPromptTemplates(app: App, folder: string): PromptTemplate[] {
+  const root = normalizeFolder(folder);
+  if (!root) return [];
+
+  const usedIds = new Set<string>();
+  return app.vault.getMarkdownFiles()
+    .filter(file => file.path.startsWith(`${root}/`))
+    .map(file => ({ path: file.path, name: file.path.slice(root.length + 1).replace(/\.md$/, '') }))
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map(({ path, name }) => {
+      const baseId = templateCommandId(name);
+      let commandId = baseId;
+      for (let n = 2; usedIds.has(commandId); n++) commandId = `${baseId}-${n}`;
+      usedIds.add(commandId);
+      return { path, name, commandId };
+    });
+}
+
+/**
+ * Whether a vault path is inside the templates folder, so vault events there can refresh the commands
+ */
+export function isInTemplatesFolder(path: string, folder: string): boolean {
+  const root = normalizeFolder(folder);
+  return !!root && path.startsWith(`${root}/`);
+}
+
+export function templateCommandId(name: string): string {
+  return `prompt-template-${name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')}`;
+}
+
+/**
+ * Template body without its frontmatter
+ */
+export async function readPromptTemplate(app: App, path: string): Promise<string | null> {
+  const file = app.vault.getAbstractFileByPath(path);
+  if (!(file instanceof TFile)) return null;
+  const content = await app.vault.cachedRead(file);
+  return content.replace(/^---\n[\s\S]*?\n---\n?/, '').trim();
+}
+
+export function usesVariable(template: string, name: string): boolean {
+  return Array.from(template.matchAll(VARIABLE_PATTERN)).some(match => match[1] === name);
+}
+
+/**
+ * Replace `{{selection}}`, `{{note}}`, `{{title}}`, `{{date}}`, `{{clipboard}}` and
+ * `{{frontmatter.key}}`. Unknown variables are left as written; missing frontmatter keys become empty.
+ */
+export function renderPromptTemplate(template: string, context: PromptTemplateContext): string {
+  return template.replace(VARIABLE_PATTERN, (match, name: string) => {
+    switch (name) {
+      case 'selection': return context.selection;
+      case 'note': return context.note;
+      case 'title': return context.title;
+      case 'clipboard': return context.clipboard ?? '';
+      case 'date': return formatDate(context.date);
+    }
+    if (name.startsWith('frontmatter.')) {
+      return formatValue(context.frontmatter[name.slice('frontmatter.'.length)]);
+    }
+    return match;
+  });
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (Array.isArray(value)) return value.map(formatValue).join(', ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function formatDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function normalizeFolder(folder: string): string {
+  const trimmed = (folder || '').trim().replace(/^\/+|\/+$/g, '');
+  return trimmed ? normalizePath(trimmed) : '';
+}
@@ -0,0 +1,316 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { App, TAbstractFile, TFile } from 'obsidian';
+import { writeAtomic } from '../fs_utils';
+import { debugConsole } from '../utils/debug';
+
+const INDEX_FILE = 'bm25.json';
+const INDEX_VERSION = 1;
+
+// BM25 tuning; the usual defaults
+const K1 = 1.2;
+const B = 0.75;
+
+// Passages are split at headings, then at paragraph breaks once they pass this length
+const MAX_PASSAGE_CHARS = 1200;
+const SAVE_DELAY_MS = 5000;
+
+const STOP_WORDS = new Set([
+  'a', 'about', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'did', 'do', 'does', 'for', 'from',
+  'had', 'has', 'have', 'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or',
+  'our', 'so', 'that', 'the', 'their', 'them', 'then', 'there', 'these', 'they', 'this', 'to', 'was',
+  'we', 'were', 'what', 'when', 'where', 'which', 'who', 'why', 'will', 'with', 'write', 'wrote', 'you', 'your',
+]);
+
+export interface SearchPassage {
+  heading?: string;
+  text: string;
+}
+
+export interface SearchResult {
+  path: string;
+  heading?: string;
+  text: string;
+  score: number;
+}
+
+interface IndexedDocument {
+  mtime: number;
+  passages: SearchPassage[];
+}
+
+interface PersistedIndex {
+  version: number;
+  documents: Record<string, IndexedDocument>;
+}
+
+interface PassageEntry {
+  path: string;
+  passage: SearchPassage;
+  length: number;
+}
+
+/**
+ * Lowercased words and numbers, without stop words or single characters
+ */
+export function tokenize(text: string): string[] {
+  const words: string[] = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+  return words.filter(word => word.length > 1 && !STOP_WORDS.has(word));
+}
+
+/**
+ * Split a note into passages at headings, breaking long sections at paragraph boundaries
+ */
+export function splitIntoPassages(content: string): SearchPassage[] {
+  const body = content.replace(/^---\n[\s\S]*?\n---\n?/, '');
+  const passages: SearchPassage[] = [];
+  let heading: string | undefined;
+  let paragraphs: string[] = [];
+
+  const flush = () => {
+    let current = '';
+    for (const paragraph of paragraphs) {
+      if (current && current.length + paragraph.length > MAX_PASSAGE_CHARS) {
+        passages.push({ heading, text: current });
+        current = '';
+      }
+      current = current ? `${current}\n\n${paragraph}` : paragraph;
+    }
+    if (current) passages.push({ heading, text: current });
+    paragraphs = [];
+  };
+
+  for (const block of body.split(/\n\s*\n/)) {
+    const trimmed = block.trim();
+    if (!trimmed) continue;
+    const headingMatch = trimmed.match(/^#{1,6}\s+(.+)/);
+    if (headingMatch) {
+      flush();
+      heading = headingMatch[1].trim();
+      const rest = trimmed.includes('\n') ? trimmed.slice(trimmed.indexOf('\n') + 1).trim() : '';
+      if (rest) paragraphs.push(rest);
+      continue;
+    }
+    paragraphs.push(trimmed);
+  }
+  flush();
+  return passages;
+}
+
+/**
+ * An incremental BM25 index over note passages, kept up to date from vault events and
+ * persisted as JSON so startup only re-reads notes that changed. Excluded notes are
+ * never indexed and are filtered again at query time.
+ */
+export class SearchIndexService {
+  private static instance: SearchIndexService | null = null;
+
+  private app: App;
+  private indexDir: string;
+  private isExcluded: (path: string) => boolean;
+  private documents = new Map<string, IndexedDocument>();
+  private passages = new Map<string, PassageEntry>();
+  private postings = new Map<string, Map<string, number>>();
+  private totalLength = 0;
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+  private ready: Promise<void> | null = null;
+
+  constructor(app: App, indexDir: string, isExcluded: (path: string) => boolean) {
+    this.app = app;
+    this.indexDir = indexDir;
+    this.isExcluded = isExcluded;
+  }
+
+  /**
+   * The index the plugin is running, or null when vault search is off
+   */
+  static getInstance(): SearchIndexService | null {
+    return SearchIndexService.instance;
+  }
+
+  static setInstance(instance: SearchIndexService | null): void {
+    SearchIndexService.instance = instance;
+  }
+
+  /**
+   * Load the persisted index and bring it up to date with the vault. Safe to call repeatedly.
+   */
+  initialize(): Promise<void> {
+    if (!this.ready) {
+      this.ready = (async () => {
+        await this.load();
+        await this.sync();
+      })();
+    }
+    return this.ready;
+  }
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  search(query: string, limit: number): SearchResult[] {
+    const terms = Array.from(new Set(tokenize(query)));
+    if (terms.length === 0 || this.passages.size === 0) return [];
+
+    const count = this.passages.size;
+    const averageLength = this.totalLength / count || 1;
+    const scores = new Map<string, number>();
+
+    for (const term of terms) {
+      const postings = this.postings.get(term);
+      if (!postings) continue;
+      const idf = Math.log(1 + (count - postings.size + 0.5) / (postings.size + 0.5));
+      for (const [id, frequency] of postings) {
+        const entry = this.passages.get(id)!;
+        const score = idf * (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * entry.length / averageLength));
+        scores.set(id, (scores.get(id) || 0) + score);
+      }
+    }
+
+    return Array.from(scores.entries())
+      .filter(([id]) => !this.isExcluded(this.passages.get(id)!.path))
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, limit)
+      .map(([id, score]) => {
+        const { path: notePath, passage } = this.passages.get(id)!;
+        return { path: notePath, heading: passage.heading, text: passage.text, score };
+      });
+  }
+
+  /**
+   * Re-index notes whose mtime changed and forget notes that are gone or now excluded
+   */
+  async sync(): Promise<void> {
+    const seen = new Set<string>();
+    for (const file of this.app.vault.getMarkdownFiles()) {
+      if (this.isExcluded(file.path)) continue;
+      seen.add(file.path);
+      if (this.documents.get(file.path)?.mtime !== file.stat.mtime) {
+        await this.indexFile(file);
+      }
+    }
+    for (const notePath of Array.from(this.documents.keys())) {
+      if (!seen.has(notePath)) this.removeDocument(notePath);
+    }
+    this.scheduleSave();
+    debugConsole.log(`Vault search index ready: ${this.documents.size} notes, ${this.passages.size} passages`);
+  }
+
+  async rebuild(): Promise<void> {
+    for (const notePath of Array.from(this.documents.keys())) {
+      this.removeDocument(notePath);
+    }
+    await this.sync();
+  }
+
+  async onModify(file: TAbstractFile): Promise<void> {
+    if (!(file instanceof TFile) || file.extension !== 'md') return;
+    if (this.isExcluded(file.path)) {
+      this.removeDocument(file.path);
+    } else {
+      await this.indexFile(file);
+    }
+    this.scheduleSave();
+  }
+
+  onDelete(file: TAbstractFile): void {
+    if (this.documents.has(file.path)) {
+      this.removeDocument(file.path);
+      this.scheduleSave();
+    }
+  }
+
+  async onRename(file: TAbstractFile, oldPath: string): Promise<void> {
+    this.removeDocument(oldPath);
+    await this.onModify(file);
+  }
+
+  /**
+   * Write any pending changes and stop the save timer
+   */
+  async close(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+      await this.save();
+    }
+  }
+
+  private async indexFile(file: TFile): Promise<void> {
+    try {
+      const content = await this.app.vault.cachedRead(file);
+      this.addDocument(file.path, { mtime: file.stat.mtime, passages: splitIntoPassages(content) });
+    } catch (error) {
+      debugConsole.warn(`Failed to index ${file.path}`, error);
+    }
+  }
+
+  private addDocument(notePath: string, document: IndexedDocument): void {
+    this.removeDocument(notePath);
+    this.documents.set(notePath, document);
+    document.passages.forEach((passage, i) => {
+      const id = `${notePath}#${i}`;
+      const terms = tokenize(`${passage.heading || ''}\n${passage.text}`);
+      this.passages.set(id, { path: notePath, passage, length: terms.length });
+      this.totalLength += terms.length;
+      for (const term of terms) {
+        let postings = this.postings.get(term);
+        if (!postings) {
+          postings = new Map();
+          this.postings.set(term, postings);
+        }
+        postings.set(id, (postings.get(id) || 0) + 1);
+      }
+    });
+  }
+
+  private removeDocument(notePath: string): void {
+    const document = this.documents.get(notePath);
+    if (!document) return;
+    this.documents.delete(notePath);
+    document.passages.forEach((passage, i) => {
+      const id = `${notePath}#${i}`;
+      const entry = this.passages.get(id);
+      if (entry) this.totalLength -= entry.length;
+      this.passages.delete(id);
+      for (const term of new Set(tokenize(`${passage.heading || ''}\n${passage.text}`))) {
+        const postings = this.postings.get(term);
+        postings?.delete(id);
+        if (postings?.size === 0) this.postings.delete(term);
+      }
+    });
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const raw = await fs.promises.readFile(path.join(this.indexDir, INDEX_FILE), 'utf8');
+      const persisted = JSON.parse(raw) as PersistedIndex;
+      if (persisted.version !== INDEX_VERSION) return;
+      for (const [notePath, document] of Object.entries(persisted.documents || {})) {
+        this.addDocument(notePath, document);
+      }
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') {
+        debugConsole.warn('Could not read the vault search index, rebuilding it', error);
+      }
+    }
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) clearTimeout(this.saveTimer);
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      void this.save();
+    }, SAVE_DELAY_MS);
+  }
+
+  private async save(): Promise<void> {
+    const persisted: PersistedIndex = { version: INDEX_VERSION, documents: Object.fromEntries(this.documents) };
+    try {
+      await writeAtomic(path.join(this.indexDir, INDEX_FILE), JSON.stringify(persisted));
+    } catch (error) {
+      console.error('Failed to save the vault search index:', error);
+    }
+  }
+}
@@ -0,0 +1,286 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { writeAtomic } from '../fs_utils';
+import { extractAiCallsArchive } from '../archiveCalls';
+import type { ModelInfo } from '../providers';
+
+/**
+ * One recorded AI call, as read from the YAML header written by recordChatCall
+ */
+export interface UsageRecord {
+  provider: string;
+  model: string;
+  timestamp: string; // ISO 8601
+  duration_ms: number | null;
+  prompt_tokens: number | null;
+  completion_tokens: number | null;
+  total_tokens: number | null;
+}
+
+export type UsageGrouping = 'day' | 'month' | 'provider' | 'model' | 'month-model';
+
+export interface UsageRow {
+  key: string;
+  calls: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  // Calls that recorded token usage; older records predate usage capture
+  calls_with_usage: number;
+  avg_duration_ms: number | null;
+  cost: number;
+  // Calls with usage whose model has no known pricing
+  unpriced_calls: number;
+}
+
+// Pricing per token in USD, keyed by `${provider}:${model}`
+export type PricingTable = Map<string, { prompt: number; completion: number }>;
+
+// Summaries of archives are cached beside them; archives never change once written
+const ARCHIVE_CACHE_FILE = '.usage-cache.json';
+
+interface ArchiveCache {
+  [archiveName: string]: { size: number; mtimeMs: number; records: UsageRecord[] };
+}
+
+function parseNumber(value: string | undefined): number | null {
+  if (value === undefined || value.trim() === '') return null;
+  const n = Number(value);
+  return isNaN(n) ? null : n;
+}
+
+/**
+ * Parse the YAML header of a recorded call. Returns null for files that are not call records.
+ */
+export function parseUsageRecord(text: string): UsageRecord | null {
+  const normalized = text.replace(/\r\n/g, '\n');
+  if (!normalized.startsWith('---\n')) return null;
+  const end = normalized.indexOf('\n---', 4);
+  if (end === -1) return null;
+
+  const fields: Record<string, string> = {};
+  for (const line of normalized.slice(4, end).split('\n')) {
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+    fields[line.slice(0, colon).trim()] = line.slice(colon + 1).trim();
+  }
+
+  if (!fields.provider) return null;
+  const timestamp = fields.timestamp_utc_iso || fields.timestamp_iso;
+  if (!timestamp || isNaN(new Date(timestamp).getTime())) return null;
+
+  const promptTokens = parseNumber(fields.prompt_tokens);
+  const completionTokens = parseNumber(fields.completion_tokens);
+  return {
+    provider: fields.provider,
+    model: fields.model || '',
+    timestamp,
+    duration_ms: parseNumber(fields.duration_ms),
+    prompt_tokens: promptTokens,
+    completion_tokens: completionTokens,
+    total_tokens: parseNumber(fields.total_tokens) ??
+      (promptTokens !== null && completionTokens !== null ? promptTokens + completionTokens : null),
+  };
+}
+
+async function readRecordsFromFolder(folder: string): Promise<UsageRecord[]> {
+  const records: UsageRecord[] = [];
+  let entries: fs.Dirent[] = [];
+  try {
+    entries = await fs.promises.readdir(folder, { withFileTypes: true });
+  } catch {
+    return records;
+  }
+
+  for (const entry of entries) {
+    const abs = path.join(folder, entry.name);
+    if (entry.isDirectory()) {
+      // Date folders, and the date folder nested inside an extracted archive
+      records.push(...await readRecordsFromFolder(abs));
+    } else if (entry.isFile() && entry.name.endsWith('.txt')) {
+      try {
+        const record = parseUsageRecord(await fs.promises.readFile(abs, 'utf8'));
+        if (record) records.push(record);
+      } catch (error) {
+        console.error('Failed to read AI call record:', abs, error);
+      }
+    }
+  }
+  return records;
+}
+
+async function readRecordsFromArchive(archivePath: string): Promise<UsageRecord[]> {
+  const tmpDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'vault-bot-usage-'));
+  try {
+    await extractAiCallsArchive(archivePath, tmpDir);
+    return await readRecordsFromFolder(tmpDir);
+  } finally {
+    try { await fs.promises.rm(tmpDir, { recursive: true, force: true }); } catch { /* temp dir cleanup is best effort */ }
+  }
+}
+
+async function loadArchiveCache(dir: string): Promise<ArchiveCache> {
+  try {
+    return JSON.parse(await fs.promises.readFile(path.join(dir, ARCHIVE_CACHE_FILE), 'utf8'));
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Load every recorded call in the ai-calls directory: loose files from today,
+ * date folders awaiting compression and the .7z archives produced by zipOldAiCalls.
+ */
+export async function loadUsageRecords(dir: string): Promise<UsageRecord[]> {
+  let entries: fs.Dirent[] = [];
+  try {
+    entries = await fs.promises.readdir(dir, { withFileTypes: true });
+  } catch {
+    return []; // Nothing recorded yet
+  }
+
+  const records: UsageRecord[] = [];
+  const cache = await loadArchiveCache(dir);
+  const nextCache: ArchiveCache = {};
+
+  for (const entry of entries) {
+    if (entry.name.startsWith('.')) continue;
+    if (entry.name.includes('.tmp-') || entry.name.includes('.partial-')) continue;
+    const abs = path.join(dir, entry.name);
+
+    if (entry.isDirectory()) {
+      records.push(...await readRecordsFromFolder(abs));
+    } else if (entry.name.endsWith('.7z')) {
+      const st = await fs.promises.stat(abs);
+      const cached = cache[entry.name];
+      if (cached && cached.size === st.size && cached.mtimeMs === st.mtimeMs) {
+        nextCache[entry.name] = cached;
+        records.push(...cached.records);
+        continue;
+      }
+      try {
+        const archived = await readRecordsFromArchive(abs);
+        nextCache[entry.name] = { size: st.size, mtimeMs: st.mtimeMs, records: archived };
+        records.push(...archived);
+      } catch (error) {
+        console.error('Failed to read AI call archive:', abs, error);
+      }
+    } else if (entry.isFile() && entry.name.endsWith('.txt')) {
+      try {
+        const record = parseUsageRecord(await fs.promises.readFile(abs, 'utf8'));
+        if (record) records.push(record);
+      } catch (error) {
+        console.error('Failed to read AI call record:', abs, error);
+      }
+    }
+  }
+
+  if (JSON.stringify(nextCache) !== JSON.stringify(cache)) {
+    try {
+      await writeAtomic(path.join(dir, ARCHIVE_CACHE_FILE), JSON.stringify(nextCache));
+    } catch (error) {
+      console.error('Failed to write usage cache:', error);
+    }
+  }
+
+  return records.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+}
+
+/**
+ * Build a pricing table from provider model lists. Only models that publish
+ * per-token prices (e.g. via OpenRouter) end up in the table.
+ */
+export function buildPricingTable(modelsByProvider: Record<string, ModelInfo[]>): PricingTable {
+  const table: PricingTable = new Map();
+  for (const [provider, models] of Object.entries(modelsByProvider)) {
+    for (const model of models) {
+      const prompt = parseFloat(model.pricing?.prompt ?? '');
+      const completion = parseFloat(model.pricing?.completion ?? '');
+      if (isNaN(prompt) && isNaN(completion)) continue;
+      table.set(`${provider}:${model.id}`, {
+        prompt: isNaN(prompt) ? 0 : prompt,
+        completion: isNaN(completion) ? 0 : completion,
+      });
+    }
+  }
+  return table;
+}
+
+/**
+ * Estimated cost of one call in USD, or null when usage or pricing is unknown
+ */
+export function estimateCost(record: UsageRecord, pricing: PricingTable): number | null {
+  if (record.prompt_tokens === null && record.completion_tokens === null) return null;
+  const price = pricing.get(`${record.provider}:${record.model}`);
+  if (!price) return null;
+  return (record.prompt_tokens ?? 0) * price.prompt + (record.completion_tokens ?? 0) * price.completion;
+}
+
+function toLocalDateKey(iso: string): string {
+  const d = new Date(iso);
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+function groupKey(record: UsageRecord, grouping: UsageGrouping): string {
+  switch (grouping) {
+    case 'day': return toLocalDateKey(record.timestamp);
+    case 'month': return toLocalDateKey(record.timestamp).slice(0, 7);
+    case 'provider': return record.provider;
+    case 'model': return `${record.provider} / ${record.model || 'unknown'}`;
+    case 'month-model': return `${toLocalDateKey(record.timestamp).slice(0, 7)} · ${record.model || 'unknown'}`;
+  }
+}
+
+/**
+ * Aggregate calls, tokens, latency and estimated spend per group.
+ * Date groupings are sorted newest first; other groupings by spend, then calls.
+ */
+export function aggregateUsage(records: UsageRecord[], grouping: UsageGrouping, pricing: PricingTable): UsageRow[] {
+  const rows = new Map<string, UsageRow & { duration_total: number; duration_count: number }>();
+
+  for (const record of records) {
+    const key = groupKey(record, grouping);
+    let row = rows.get(key);
+    if (!row) {
+      row = {
+        key, calls: 0, prompt_tokens: 0, completion_tokens: 0, total_tokens: 0,
+        calls_with_usage: 0, avg_duration_ms: null, cost: 0, unpriced_calls: 0,
+        duration_total: 0, duration_count: 0,
+      };
+      rows.set(key, row);
+    }
+
+    row.calls++;
+    if (record.duration_ms !== null) {
+      row.duration_total += record.duration_ms;
+      row.duration_count++;
+    }
+
+    const hasUsage = record.prompt_tokens !== null || record.completion_tokens !== null;
+    if (hasUsage) {
+      row.calls_with_usage++;
+      row.prompt_tokens += record.prompt_tokens ?? 0;
+      row.completion_tokens += record.completion_tokens ?? 0;
+      row.total_tokens += record.total_tokens ?? 0;
+      const cost = estimateCost(record, pricing);
+      if (cost === null) row.unpriced_calls++;
+      else row.cost += cost;
+    }
+  }
+
+  const result: UsageRow[] = Array.from(rows.values()).map(({ duration_total, duration_count, ...row }) => ({
+    ...row,
+    avg_duration_ms: duration_count > 0 ? Math.round(duration_total / duration_count) : null,
+  }));
+
+  if (grouping === 'day' || grouping === 'month') {
+    return result.sort((a, b) => b.key.localeCompare(a.key));
+  }
+  if (grouping === 'month-model') {
+    // Newest month first, most expensive model first within a month
+    return result.sort((a, b) => b.key.slice(0, 7).localeCompare(a.key.slice(0, 7)) || b.cost - a.cost || b.calls - a.calls);
+  }
+  return result.sort((a, b) => b.cost - a.cost || b.calls - a.calls);
+}
@@ -0,0 +1,306 @@
+import { App, TFile, TFolder, Vault, MetadataCache, Modal, Notice, normalizePath } from 'obsidian';
+import type { AIToolCall, AIToolDefinition } from '../providers';
+import { ContentRetrievalService } from './content_retrieval';
+import { debugConsole } from '../utils/debug';
+
+export type VaultWriteAction = 'create' | 'append';
+
+// Resolves true when the user allows the write
+export type ConfirmWriteCallback = (action: VaultWriteAction, path: string, content: string) => Promise<boolean>;
+
+// Keep tool results small enough to leave room for the rest of the conversation
+const MAX_NOTE_CHARS = 20000;
+const DEFAULT_SEARCH_LIMIT = 10;
+const MAX_SEARCH_LIMIT = 50;
+
+export const VAULT_TOOL_DEFINITIONS: AIToolDefinition[] = [
+  {
+    name: 'search_notes',
+    description: 'Search notes in the vault by title, path and content. Returns matching note paths with a short snippet.',
+    parameters: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Text to search for (case-insensitive)' },
+        limit: { type: 'number', description: `Maximum number of results (default ${DEFAULT_SEARCH_LIMIT})` },
+      },
+      required: ['query'],
+    },
+  },
+  {
+    name: 'read_note',
+    description: 'Read the full markdown content of a note by its vault path or link text.',
+    parameters: {
+      type: 'object',
+      properties: {
+        path: { type: 'string', description: 'Vault path such as "Projects/Plan.md", or a note name as used in a [[link]]' },
+      },
+      required: ['path'],
+    },
+  },
+  {
+    name: 'list_folder',
+    description: 'List the notes and subfolders in a vault folder. Use "/" for the vault root.',
+    parameters: {
+      type: 'object',
+      properties: {
+        path: { type: 'string', description: 'Folder path, e.g. "Projects" or "/"' },
+      },
+      required: ['path'],
+    },
+  },
+  {
+    name: 'get_backlinks',
+    description: 'List the notes that link to the given note.',
+    parameters: {
+      type: 'object',
+      properties: {
+        path: { type: 'string', description: 'Vault path or link text of the note' },
+      },
+      required: ['path'],
+    },
+  },
+  {
+    name: 'create_note',
+    description: 'Create a new note. The user is asked to confirm before anything is written.',
+    parameters: {
+      type: 'object',
+      properties: {
+        path: { type: 'string', description: 'Vault path for the new note, e.g. "Inbox/Idea.md"' },
+        content: { type: 'string', description: 'Markdown content of the note' },
+      },
+      required: ['path', 'content'],
+    },
+  },
+  {
+    name: 'append_to_note',
+    description: 'Append markdown to the end of an existing note. The user is asked to confirm before anything is written.',
+    parameters: {
+      type: 'object',
+      properties: {
+        path: { type: 'string', description: 'Vault path or link text of the note' },
+        content: { type: 'string', description: 'Markdown to append' },
+      },
+      required: ['path', 'content'],
+    },
+  },
+];
+
+/**
+ * Executes the built-in vault tools on behalf of the model. Reads honour the level 1
+ * note exclusions; writes always go through the confirmation callback.
+ */
+export class VaultToolService {
+  private app: App;
+  private vault: Vault;
+  private metadataCache: MetadataCache;
+  private contentRetrievalService: ContentRetrievalService;
+  private confirmWrite: ConfirmWriteCallback;
+
+  constructor(app: App, contentRetrievalService: ContentRetrievalService, confirmWrite?: ConfirmWriteCallback) {
+    this.app = app;
+    this.vault = app.vault;
+    this.metadataCache = app.metadataCache;
+    this.contentRetrievalService = contentRetrievalService;
+    this.confirmWrite = confirmWrite || ((action, path, content) => confirmVaultWrite(app, action, path, content));
+  }
+
+  getToolDefinitions(): AIToolDefinition[] {
+    return VAULT_TOOL_DEFINITIONS;
+  }
+
+  /**
+   * Run one tool call. Failures are returned as text so the model can recover.
+   */
+  async executeToolCall(call: AIToolCall): Promise<string> {
+    let args: Record<string, any>;
+    try {
+      args = call.arguments ? JSON.parse(call.arguments) : {};
+    } catch {
+      return `Error: arguments for ${call.name} are not valid JSON`;
+    }
+
+    debugConsole.log(`Running vault tool ${call.name}`, args);
+    try {
+      switch (call.name) {
+        case 'search_notes':
+          return await this.searchNotes(String(args.query ?? ''), Number(args.limit) || DEFAULT_SEARCH_LIMIT);
+        case 'read_note':
+          return await this.readNote(String(args.path ?? ''));
+        case 'list_folder':
+          return this.listFolder(String(args.path ?? '/'));
+        case 'get_backlinks':
+          return this.getBacklinks(String(args.path ?? ''));
+        case 'create_note':
+          return await this.createNote(String(args.path ?? ''), String(args.content ?? ''));
+        case 'append_to_note':
+          return await this.appendToNote(String(args.path ?? ''), String(args.content ?? ''));
+        default:
+          return `Error: unknown tool ${call.name}`;
+      }
+    } catch (error: any) {
+      console.error(`Vault tool ${call.name} failed:`, error);
+      return `Error: ${error?.message || 'tool failed'}`;
+    }
+  }
+
+  private async searchNotes(query: string, limit: number): Promise<string> {
+    const needle = query.trim().toLowerCase();
+    if (!needle) return 'Error: query is empty';
+    const max = Math.min(Math.max(limit, 1), MAX_SEARCH_LIMIT);
+
+    const titleMatches: string[] = [];
+    const contentMatches: string[] = [];
+    for (const file of this.vault.getMarkdownFiles()) {
+      if (titleMatches.length >= max) break;
+      if (this.contentRetrievalService.isExcluded(file.path, 1)) continue;
+
+      if (file.path.toLowerCase().includes(needle)) {
+        titleMatches.push(`- ${file.path}`);
+        continue;
+      }
+      if (titleMatches.length + contentMatches.length >= max) continue;
+
+      const content = await this.vault.cachedRead(file);
+      const index = content.toLowerCase().indexOf(needle);
+      if (index !== -1) {
+        const start = Math.max(0, index - 60);
+        const snippet = content.slice(start, index + needle.length + 60).replace(/\s+/g, ' ').trim();
+        contentMatches.push(`- ${file.path}: …${snippet}…`);
+      }
+    }
+
+    const results = [...titleMatches, ...contentMatches].slice(0, max);
+    return results.length > 0 ? results.join('\n') : `No notes found matching "${query}"`;
+  }
+
+  private async readNote(path: string): Promise<string> {
+    const file = this.resolveNote(path);
+    if (!file) return `Error: note not found: ${path}`;
+    if (this.contentRetrievalService.isExcluded(file.path, 1)) return `Error: note is excluded: ${file.path}`;
+
+    const content = await this.vault.cachedRead(file);
+    if (content.length > MAX_NOTE_CHARS) {
+      return `${content.slice(0, MAX_NOTE_CHARS)}\n\n[Truncated: showing ${MAX_NOTE_CHARS} of ${content.length} characters]`;
+    }
+    return content;
+  }
+
+  private listFolder(path: string): string {
+    const trimmed = path.trim().replace(/^\/+|\/+$/g, '');
+    const folder = trimmed ? this.vault.getAbstractFileByPath(normalizePath(trimmed)) : this.vault.getRoot();
+    if (!(folder instanceof TFolder)) return `Error: folder not found: ${path}`;
+
+    const entries = folder.children
+      .filter(child => !this.contentRetrievalService.isExcluded(child instanceof TFolder ? `${child.path}/` : child.path, 1))
+      .map(child => child instanceof TFolder ? `${child.name}/` : child.name)
+      .sort((a, b) => a.localeCompare(b));
+    return entries.length > 0 ? entries.join('\n') : '(empty folder)';
+  }
+
+  private getBacklinks(path: string): string {
+    const file = this.resolveNote(path);
+    if (!file) return `Error: note not found: ${path}`;
+    if (this.contentRetrievalService.isExcluded(file.path, 1)) return `Error: note is excluded: ${file.path}`;
+
+    const sources = Object.entries(this.metadataCache.resolvedLinks || {})
+      .filter(([source, targets]) => targets[file.path] && !this.contentRetrievalService.isExcluded(source, 1))
+      .map(([source]) => `- ${source}`)
+      .sort((a, b) => a.localeCompare(b));
+    return sources.length > 0 ? sources.join('\n') : `No notes link to ${file.path}`;
+  }
+
+  private async createNote(path: string, content: string): Promise<string> {
+    let target = normalizePath(path.trim());
+    if (!target) return 'Error: path is empty';
+    if (!target.endsWith('.md')) target += '.md';
+    if (this.vault.getAbstractFileByPath(target)) return `Error: a file already exists at ${target}`;
+
+    if (!await this.confirmWrite('create', target, content)) {
+      return `The user declined to create ${target}`;
+    }
+
+    const folder = target.includes('/') ? target.slice(0, target.lastIndexOf('/')) : '';
+    if (folder && !this.vault.getAbstractFileByPath(folder)) {
+      await this.vault.createFolder(folder);
+    }
+    await this.vault.create(target, content);
+    new Notice(`Vault Bot created ${target}`);
+    return `Created ${target}`;
+  }
+
+  private async appendToNote(path: string, content: string): Promise<string> {
+    const file = this.resolveNote(path);
+    if (!file) return `Error: note not found: ${path}`;
+    if (this.contentRetrievalService.isExcluded(file.path, 1)) return `Error: note is excluded: ${file.path}`;
+
+    if (!await this.confirmWrite('append', file.path, content)) {
+      return `The user declined to append to ${file.path}`;
+    }
+
+    await this.vault.append(file, `\n${content}`);
+    new Notice(`Vault Bot appended to ${file.path}`);
+    return `Appended to ${file.path}`;
+  }
+
+  /**
+   * Accept exact vault paths, paths without the .md extension, or link text
+   */
+  private resolveNote(path: string): TFile | null {
+    const trimmed = path.trim();
+    if (!trimmed) return null;
+
+    const normalized = normalizePath(trimmed);
+    for (const candidate of [normalized, `${normalized}.md`]) {
+      const file = this.vault.getAbstractFileByPath(candidate);
+      if (file instanceof TFile) return file;
+    }
+    return this.metadataCache.getFirstLinkpathDest(trimmed.replace(/^\[\[|\]\]$/g, ''), '');
+  }
+}
+
+class ConfirmWriteModal extends Modal {
+  private resolver: (allowed: boolean) => void;
+  private resolved = false;
+  private action: VaultWriteAction;
+  private path: string;
+  private content: string;
+
+  constructor(app: App, action: VaultWriteAction, path: string, content: string, resolver: (allowed: boolean) => void) {
+    super(app);
+    this.action = action;
+    this.path = path;
+    this.content = content;
+    this.resolver = resolver;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl('h3', { text: this.action === 'create' ? 'Allow AI to create a note?' : 'Allow AI to append to a note?' });
+    contentEl.createEl('p', { text: this.path });
+    contentEl.createEl('pre', { text: this.content, cls: 'vault-bot-tool-preview' });
+    const buttons = contentEl.createDiv({ cls: 'modal-button-container' });
+    const allow = buttons.createEl('button', { text: this.action === 'create' ? 'Create' : 'Append', cls: 'mod-cta' });
+    const deny = buttons.createEl('button', { text: 'Deny' });
+    allow.addEventListener('click', () => { this.finish(true); });
+    deny.addEventListener('click', () => { this.finish(false); });
+  }
+
+  onClose() {
+    // Dismissing the modal counts as a refusal
+    if (!this.resolved) this.resolver(false);
+    this.contentEl.empty();
+  }
+
+  private finish(allowed: boolean) {
+    this.resolved = true;
+    this.resolver(allowed);
+    this.close();
+  }
+}
+
+function confirmVaultWrite(app: App, action: VaultWriteAction, path: string, content: string): Promise<boolean> {
+  return new Promise<boolean>((resolve) => {
+    new ConfirmWriteModal(app, action, path, content, resolve).open();
+  });
+}
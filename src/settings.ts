@@ -3,18 +3,19 @@ import { resolveAiCallsDir } from './storage_paths';
 import * as fs from 'fs';
 import * as path from 'path';
 import { exec, spawn } from 'child_process';
-import type { OpenAIProviderSettings, OpenRouterProviderSettings } from './aiprovider';
-import type { AIProviderSettings } from './providers';
+import { ProviderRegistry, type AIProviderSettings } from './providers';
 import { AIProviderWrapper } from './aiprovider';
 import { zipOldAiCalls } from './archiveCalls';
 import { renderModelSettingsSection, type PluginLike } from './ui/model_settings_shared';
 import { renderCoreConfigSection } from './ui/ai_bot_config_shared';
 import { renderNoteExclusionsSettings } from './services/content_retrieval';
 import { openChatView } from './chat/chat_view';
+import type { ConversationFormat } from './services/conversation_format';
 
 export interface VaultBotPluginSettings {
 	apiProvider: string;
 	chatSeparator: string;
+	conversationFormat?: ConversationFormat;
 	aiProviderSettings: Record<string, AIProviderSettings>;
 	recordApiCalls: boolean;
 	debugMode?: boolean;
@@ -24,11 +25,24 @@ export interface VaultBotPluginSettings {
 	includeLinkedNotes?: boolean;
 	extractNotesInReadingView?: boolean;
 	includeLinksInRenderedHTML?: boolean;
+	includeImages?: boolean;
+	includeRemoteImages?: boolean;
+	inspectContextBeforeSending?: boolean;
+	includeBacklinks?: boolean;
+	includeGraphNeighborhood?: boolean;
+	enableVaultSearch?: boolean;
+	vaultSearchResults?: number;
+	enableSemanticSearch?: boolean;
+	semanticSearchResults?: number;
+	embeddingProvider?: string;
+	embeddingModel?: string;
 	linkRecursionDepth?: number;
 	noteExclusionsLevel1?: string[];
 	noteExclusionsDeepLink?: string[];
+	enableVaultTools?: boolean;
 	chatDefaultSaveLocation?: string;
 	chatAutoSaveNotes?: boolean;
+	promptTemplatesFolder?: string;
 	uiState?: {
 		collapsedSections?: Record<string, boolean>;
 	};
@@ -37,6 +51,7 @@ export interface VaultBotPluginSettings {
 export const DEFAULT_SETTINGS: VaultBotPluginSettings = {
 	apiProvider: 'openai',
 	chatSeparator: '\n\n----\n\n',
+	conversationFormat: 'separator',
 	recordApiCalls: true,
 	debugMode: false,
 	includeDatetime: true,
@@ -45,27 +60,25 @@ export const DEFAULT_SETTINGS: VaultBotPluginSettings = {
 	includeLinkedNotes: true,
 	extractNotesInReadingView: false,
 	includeLinksInRenderedHTML: false,
+	includeImages: true,
+	includeRemoteImages: false,
+	inspectContextBeforeSending: false,
+	includeBacklinks: false,
+	includeGraphNeighborhood: false,
+	enableVaultSearch: false,
+	vaultSearchResults: 5,
+	enableSemanticSearch: false,
+	semanticSearchResults: 5,
+	embeddingProvider: 'openai',
+	embeddingModel: 'text-embedding-3-small',
 	linkRecursionDepth: 1,
 	noteExclusionsLevel1: [],
 	noteExclusionsDeepLink: [],
+	enableVaultTools: false,
 	chatDefaultSaveLocation: "",
 	chatAutoSaveNotes: false,
-	aiProviderSettings: {
-		openai: {
-			api_key: '',
-			model: "gpt-4o",
-			system_prompt: "You are a helpful assistant.",
-			temperature: 1.0,
-		} as OpenAIProviderSettings,
-		openrouter: {
-			api_key: '',
-			model: "openai/gpt-4o",
-			system_prompt: "You are a helpful assistant.",
-			temperature: 1.0,
-			site_url: "",
-			site_name: "Obsidian Vault-Bot",
-		} as OpenRouterProviderSettings
-	},
+	promptTemplatesFolder: 'Prompts',
+	aiProviderSettings: ProviderRegistry.getInstance().buildDefaultSettings(),
 	uiState: {
 		collapsedSections: {}
 	}
@@ -297,7 +310,9 @@ export class VaultBotSettingTab extends PluginSettingTab {
 	private async testApiKey(): Promise<void> {
 		const allProviders = Object.keys(this.plugin.settings.aiProviderSettings);
 		const providersWithKeys = allProviders.filter(provider => 
-			this.plugin.settings.aiProviderSettings[provider]?.api_key
+			this.plugin.settings.aiProviderSettings[provider]?.api_key ||
+			// Providers that work without a key (local servers) are tested when active
+			(provider === this.plugin.settings.apiProvider && ProviderRegistry.getInstance().get(provider)?.apiKey.optional)
 		);
 		
 		if (providersWithKeys.length === 0) {
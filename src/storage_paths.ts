@@ -1,7 +1,7 @@
 import * as path from 'path';
 import * as fs from 'fs';
 
-export type StorageType = 'ai-calls' | 'chats' | 'active-conversation';
+export type StorageType = 'ai-calls' | 'chats' | 'active-conversation' | 'search-index' | 'embeddings';
 
 /**
  * Central path resolver for all storage types
@@ -32,6 +32,10 @@ export function resolveStorageDir(
           return path.join(historyDir, 'chats');
         case 'active-conversation':
           return historyDir;
+        case 'search-index':
+          return path.join(historyDir, 'search-index');
+        case 'embeddings':
+          return path.join(historyDir, 'embeddings');
         default:
           throw new Error(`Unknown storage type: ${type}`);
       }
@@ -44,6 +48,10 @@ export function resolveStorageDir(
           return path.join(pluginDir, 'chats');
         case 'active-conversation':
           return pluginDir; // active_conversation.json in plugin root
+        case 'search-index':
+          return path.join(pluginDir, 'search-index');
+        case 'embeddings':
+          return path.join(pluginDir, 'embeddings');
         default:
           throw new Error(`Unknown storage type: ${type}`);
       }
@@ -71,6 +79,10 @@ export function resolveStorageDir(
       return path.join(historyBase, 'chats');
     case 'active-conversation':
       return historyBase;
+    case 'search-index':
+      return path.join(historyBase, 'search-index');
+    case 'embeddings':
+      return path.join(historyBase, 'embeddings');
     default:
       throw new Error(`Unknown storage type: ${type}`);
   }
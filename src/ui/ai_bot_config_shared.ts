@@ -1,6 +1,7 @@
 import { Setting } from 'obsidian';
 import type { VaultBotPluginSettings } from '../settings';
-import type { OpenAIProviderSettings, OpenRouterProviderSettings } from '../aiprovider';
+import { ProviderRegistry } from '../providers';
+import { CONVERSATION_FORMAT_LABELS, type ConversationFormat } from '../services/conversation_format';
 
 // A minimal "plugin-like" contract used by Settings tab, Side Panel, and Modal
 export type PluginLike = {
@@ -10,24 +11,7 @@ export type PluginLike = {
 
 // Ensure defaults exist for provider blocks to avoid undefined access.
 function ensureProviderDefaults(settings: VaultBotPluginSettings) {
-  if (!settings.aiProviderSettings.openai) {
-    settings.aiProviderSettings.openai = {
-      api_key: '',
-      model: 'gpt-4o',
-      system_prompt: 'You are a helpful assistant.',
-      temperature: 1.0,
-    } as OpenAIProviderSettings;
-  }
-  if (!settings.aiProviderSettings.openrouter) {
-    settings.aiProviderSettings.openrouter = {
-      api_key: '',
-      model: 'openai/gpt-4o',
-      system_prompt: 'You are a helpful assistant.',
-      temperature: 1.0,
-      site_url: '',
-      site_name: 'Obsidian Vault-Bot',
-    } as OpenRouterProviderSettings;
-  }
+  ProviderRegistry.getInstance().ensureDefaults(settings.aiProviderSettings);
 }
 
 // Renders the API Provider selector dropdown. Caller should pass a reRender function
@@ -44,9 +28,10 @@ export function renderApiProviderSelector(
     .setName('API Provider')
     .setDesc('Select the AI provider to use.')
     .addDropdown((dropdown) => {
+      ProviderRegistry.getInstance().getAll().forEach((definition) => {
+        dropdown.addOption(definition.id, definition.displayName);
+      });
       dropdown
-        .addOption('openai', 'OpenAI')
-        .addOption('openrouter', 'OpenRouter')
         .setValue(plugin.settings.apiProvider)
         .onChange(async (value) => {
           plugin.settings.apiProvider = value;
@@ -67,43 +52,26 @@ export function renderApiKeyField(
   
   const currentProvider = plugin.settings.apiProvider;
   
-  // Render API key field for OpenAI
-  const openaiSettings = plugin.settings.aiProviderSettings.openai;
-  new Setting(container)
-    .setName('OpenAI API Key')
-    .setDesc(`Your API key for OpenAI.${currentProvider === 'openai' ? ' (Currently Active)' : ''}`)
-    .addText(text => {
-      text
-        .setPlaceholder('Enter your OpenAI API key')
-        .setValue(openaiSettings?.api_key || '')
-        .onChange(async (value) => {
-          if (openaiSettings) {
-            openaiSettings.api_key = value;
-            await save();
-          }
-        });
-      text.inputEl.type = 'password';
-      return text;
-    });
-
-  // Render API key field for OpenRouter
-  const openrouterSettings = plugin.settings.aiProviderSettings.openrouter;
-  new Setting(container)
-    .setName('OpenRouter API Key')
-    .setDesc(`Your API key for OpenRouter.${currentProvider === 'openrouter' ? ' (Currently Active)' : ''}`)
-    .addText(text => {
-      text
-        .setPlaceholder('Enter your OpenRouter API key')
-        .setValue(openrouterSettings?.api_key || '')
-        .onChange(async (value) => {
-          if (openrouterSettings) {
-            openrouterSettings.api_key = value;
-            await save();
-          }
-        });
-      text.inputEl.type = 'password';
-      return text;
-    });
+  // Render one API key field per registered provider
+  ProviderRegistry.getInstance().getAll().forEach((definition) => {
+    const providerSettings = plugin.settings.aiProviderSettings[definition.id];
+    new Setting(container)
+      .setName(definition.apiKey.label)
+      .setDesc(`${definition.apiKey.description}${currentProvider === definition.id ? ' (Currently Active)' : ''}`)
+      .addText(text => {
+        text
+          .setPlaceholder(definition.apiKey.placeholder)
+          .setValue(providerSettings?.api_key || '')
+          .onChange(async (value) => {
+            if (providerSettings) {
+              providerSettings.api_key = value;
+              await save();
+            }
+          });
+        text.inputEl.type = 'password';
+        return text;
+      });
+  });
 }
 
 // Renders the Record chat AI calls toggle
@@ -158,6 +126,28 @@ export function renderChatSeparatorField(
       }));
 }
 
+// Renders the Conversation Format dropdown used when writing conversations into notes.
+export function renderConversationFormatField(
+  container: HTMLElement,
+  plugin: PluginLike,
+  save: (immediate?: boolean) => Promise<void> | void
+) {
+  new Setting(container)
+    .setName('Conversation Format')
+    .setDesc('How conversations are written into notes. Callouts and headings label each turn, so edits can\'t swap roles. Labelled turns are always read, whichever format is chosen.')
+    .addDropdown((dropdown) => {
+      for (const [value, label] of Object.entries(CONVERSATION_FORMAT_LABELS)) {
+        dropdown.addOption(value, label);
+      }
+      dropdown
+        .setValue(plugin.settings.conversationFormat || 'separator')
+        .onChange(async (value) => {
+          plugin.settings.conversationFormat = value as ConversationFormat;
+          await save();
+        });
+    });
+}
+
 // Renders the Chat Default Save Location field.
 export function renderChatSaveLocationField(
   container: HTMLElement,
@@ -178,6 +168,26 @@ export function renderChatSaveLocationField(
     });
 }
 
+// Renders the Prompt Templates Folder field. Each note in the folder becomes a command.
+export function renderPromptTemplatesFolderField(
+  container: HTMLElement,
+  plugin: PluginLike,
+  save: (immediate?: boolean) => Promise<void> | void
+) {
+  new Setting(container)
+    .setName('Prompt Templates Folder')
+    .setDesc('Each note in this folder becomes a "Prompt: ..." command. Templates can use {{selection}}, {{note}}, {{title}}, {{date}}, {{clipboard}} and {{frontmatter.key}}.')
+    .addText((text) => {
+      text
+        .setPlaceholder('Prompts')
+        .setValue(plugin.settings.promptTemplatesFolder || '')
+        .onChange(async (value) => {
+          plugin.settings.promptTemplatesFolder = value.trim();
+          await save();
+        });
+    });
+}
+
 // Renders the Chat Auto-Save Notes toggle.
 export function renderChatAutoSaveToggle(
   container: HTMLElement,
@@ -230,8 +240,10 @@ export function renderCoreConfigSection(
     renderRecordingToggle(container, plugin, save);
     renderDebugModeToggle(container, plugin, save);
     renderChatSeparatorField(container, plugin, save);
+    renderConversationFormatField(container, plugin, save);
     renderChatSaveLocationField(container, plugin, save);
     renderChatAutoSaveToggle(container, plugin, save);
+    renderPromptTemplatesFolderField(container, plugin, save);
     
     // Add chat view button if callback provided
     if (onOpenChat) {
@@ -0,0 +1,159 @@
+import { App, Modal } from 'obsidian';
+import type { PreparedRequest } from '../aiprovider';
+import { getMessageText, type AIContentPart, type AIMessage } from '../providers';
+import { formatNoteHeading, type RetrievedNote } from '../services/content_retrieval';
+import { estimateMessageTokens, estimateNoteTokens } from '../services/context_budget';
+
+/**
+ * Shows the assembled request before it is sent. Notes and images can be unticked and
+ * message text edited; Send resolves with the edited request, Cancel or closing with null.
+ */
+export class ContextInspectorModal extends Modal {
+  private request: PreparedRequest;
+  private resolver: (request: PreparedRequest | null) => void;
+  private resolved = false;
+  private messages: AIMessage[];
+  private includedNotes: Set<RetrievedNote>;
+  private includedImages: Set<AIContentPart>;
+  private totalEl: HTMLElement | null = null;
+
+  constructor(app: App, request: PreparedRequest, resolver: (request: PreparedRequest | null) => void) {
+    super(app);
+    this.request = request;
+    this.resolver = resolver;
+    this.messages = request.messages.map(message => ({ ...message }));
+    this.includedNotes = new Set(request.notes);
+    this.includedImages = new Set(request.imageParts);
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('vault-bot-context-inspector');
+    contentEl.createEl('h3', { text: 'Review Context Before Sending' });
+    this.totalEl = contentEl.createEl('p', { cls: 'vault-bot-context-total' });
+
+    contentEl.createEl('h4', { text: 'Messages' });
+    this.messages.forEach((message, index) => this.renderMessage(contentEl, message, index));
+
+    if (this.request.notes.length > 0) {
+      contentEl.createEl('h4', { text: 'Included Notes' });
+      for (const note of this.request.notes) {
+        this.renderCheckbox(contentEl, formatNoteHeading(note), estimateNoteTokens(note), this.includedNotes, note, note.content);
+      }
+    }
+
+    if (this.request.imageParts.length > 0) {
+      contentEl.createEl('h4', { text: 'Images' });
+      this.request.imageParts.forEach((image, index) => {
+        const label = image.type === 'text' ? image.text : image.name || (image.type === 'image_url' ? image.url : `Image ${index + 1}`);
+        this.renderCheckbox(contentEl, label, estimateMessageTokens({ role: 'user', content: [image] }), this.includedImages, image);
+      });
+    }
+
+    if (this.request.dropped.length > 0) {
+      contentEl.createEl('h4', { text: 'Left Out to Fit the Context Window' });
+      const list = contentEl.createEl('ul');
+      for (const drop of this.request.dropped) {
+        list.createEl('li', { text: drop.truncated ? `${drop.label} (truncated)` : drop.label });
+      }
+    }
+
+    const buttons = contentEl.createDiv({ cls: 'modal-button-container' });
+    const send = buttons.createEl('button', { text: 'Send', cls: 'mod-cta' });
+    const cancel = buttons.createEl('button', { text: 'Cancel' });
+    send.addEventListener('click', () => { this.finish(this.buildRequest()); });
+    cancel.addEventListener('click', () => { this.finish(null); });
+
+    this.updateTotal();
+  }
+
+  onClose() {
+    // Dismissing the modal cancels the request
+    if (!this.resolved) this.resolver(null);
+    this.contentEl.empty();
+  }
+
+  private renderMessage(container: HTMLElement, message: AIMessage, index: number) {
+    const item = container.createDiv({ cls: 'vault-bot-context-item' });
+    const header = item.createDiv({ cls: 'vault-bot-context-item-header' });
+    header.createSpan({ text: message.role, cls: 'vault-bot-context-role' });
+    const tokensEl = header.createSpan({ cls: 'vault-bot-context-tokens' });
+    const showTokens = () => tokensEl.setText(formatTokens(estimateMessageTokens(this.messages[index])));
+    showTokens();
+
+    const textarea = item.createEl('textarea', { cls: 'vault-bot-context-text' });
+    textarea.value = getMessageText(message.content);
+    textarea.rows = Math.min(Math.max(textarea.value.split('\n').length, 2), 10);
+    textarea.addEventListener('input', () => {
+      this.messages[index] = withText(this.messages[index], textarea.value);
+      showTokens();
+      this.updateTotal();
+    });
+  }
+
+  private renderCheckbox<T>(container: HTMLElement, label: string, tokens: number, included: Set<T>, item: T, preview?: string) {
+    const row = container.createDiv({ cls: 'vault-bot-context-item' });
+    const header = row.createEl('label', { cls: 'vault-bot-context-item-header' });
+    const checkbox = header.createEl('input', { type: 'checkbox' });
+    checkbox.checked = included.has(item);
+    checkbox.addEventListener('change', () => {
+      if (checkbox.checked) included.add(item);
+      else included.delete(item);
+      this.updateTotal();
+    });
+    header.createSpan({ text: label });
+    header.createSpan({ text: formatTokens(tokens), cls: 'vault-bot-context-tokens' });
+
+    if (preview !== undefined) {
+      const details = row.createEl('details');
+      details.createEl('summary', { text: 'Preview' });
+      details.createEl('pre', { text: preview, cls: 'vault-bot-context-preview' });
+    }
+  }
+
+  private buildRequest(): PreparedRequest {
+    return {
+      ...this.request,
+      messages: this.messages,
+      notes: this.request.notes.filter(note => this.includedNotes.has(note)),
+      imageParts: this.request.imageParts.filter(image => this.includedImages.has(image)),
+    };
+  }
+
+  private updateTotal() {
+    if (!this.totalEl) return;
+    const request = this.buildRequest();
+    const tokens = request.messages.reduce((sum, message) => sum + estimateMessageTokens(message), 0)
+      + request.notes.reduce((sum, note) => sum + estimateNoteTokens(note), 0)
+      + (request.imageParts.length > 0 ? estimateMessageTokens({ role: 'user', content: request.imageParts }) : 0);
+    const limit = request.contextLength ? ` of ${request.contextLength.toLocaleString()}` : '';
+    this.totalEl.setText(`${request.model || 'Model'}: ${formatTokens(tokens)}${limit}`);
+  }
+
+  private finish(request: PreparedRequest | null) {
+    this.resolved = true;
+    this.resolver(request);
+    this.close();
+  }
+}
+
+function formatTokens(tokens: number): string {
+  return `~${tokens.toLocaleString()} tokens`;
+}
+
+function withText(message: AIMessage, text: string): AIMessage {
+  if (typeof message.content === 'string') return { ...message, content: text };
+  // Keep any images already on the message; the edited text replaces its text parts
+  const images = message.content.filter(part => part.type !== 'text');
+  return { ...message, content: [{ type: 'text', text }, ...images] };
+}
+
+/**
+ * Open the inspector and wait for the user to send (possibly edited) or cancel
+ */
+export function inspectRequest(app: App, request: PreparedRequest): Promise<PreparedRequest | null> {
+  return new Promise<PreparedRequest | null>((resolve) => {
+    new ContextInspectorModal(app, request, resolve).open();
+  });
+}
@@ -1,9 +1,8 @@
 import { Setting } from 'obsidian';
 import type { VaultBotPluginSettings } from '../settings';
-import type { OpenAIProviderSettings, OpenRouterProviderSettings } from '../aiprovider';
 import { ModelService } from '../services/model_service';
 import { FuzzyModelDropdown } from './fuzzy_model_dropdown';
-import { ModelInfo } from '../providers';
+import { ModelInfo, ProviderRegistry, type AIProviderSettings, type ProviderDefinition } from '../providers';
 
 // A minimal "plugin-like" contract used by both Settings tab and Side Panel
 export type PluginLike = {
@@ -11,6 +10,13 @@ export type PluginLike = {
   saveSettings: () => Promise<void> | void;
 };
 
+// Settings fields shared by every chat provider
+type ModelProviderSettings = AIProviderSettings & {
+  model: string;
+  system_prompt: string;
+  temperature: number;
+};
+
 // Utility function to create collapsible sections
 function createCollapsibleSection(
   parent: HTMLElement,
@@ -78,9 +84,10 @@ export function renderProviderSelector(
     .setName('Provider')
     .setDesc('Select the AI provider')
     .addDropdown((dropdown) => {
+      ProviderRegistry.getInstance().getAll().forEach((definition) => {
+        dropdown.addOption(definition.id, definition.displayName);
+      });
       dropdown
-        .addOption('openai', 'OpenAI')
-        .addOption('openrouter', 'OpenRouter')
         .setValue(plugin.settings.apiProvider)
         .onChange(async (value) => {
           plugin.settings.apiProvider = value;
@@ -93,24 +100,7 @@ export function renderProviderSelector(
 
 // Ensure defaults exist for provider blocks to avoid undefined access.
 function ensureProviderDefaults(settings: VaultBotPluginSettings) {
-  if (!settings.aiProviderSettings.openai) {
-    settings.aiProviderSettings.openai = {
-      api_key: '',
-      model: 'gpt-4o',
-      system_prompt: 'You are a helpful assistant.',
-      temperature: 1.0,
-    } as OpenAIProviderSettings;
-  }
-  if (!settings.aiProviderSettings.openrouter) {
-    settings.aiProviderSettings.openrouter = {
-      api_key: '',
-      model: 'openai/gpt-4o',
-      system_prompt: 'You are a helpful assistant.',
-      temperature: 1.0,
-      site_url: '',
-      site_name: 'Obsidian Vault-Bot',
-    } as OpenRouterProviderSettings;
-  }
+  ProviderRegistry.getInstance().ensureDefaults(settings.aiProviderSettings);
   // Ensure includeDatetime has a default value
   if (settings.includeDatetime === undefined) {
     settings.includeDatetime = true;
@@ -125,57 +115,54 @@ export function renderProviderSpecificSettings(
 ) {
   ensureProviderDefaults(plugin.settings);
 
-  if (plugin.settings.apiProvider === 'openai') {
-    const openai = plugin.settings.aiProviderSettings.openai as OpenAIProviderSettings;
-
-    createCollapsibleSection(container, 'Model', (content) => {
-      renderModelSelector(content, plugin, openai, save, 'OpenAI');
-    }, plugin, save);
-    
-    createCollapsibleSection(container, 'Date/Time', (content) => {
-      renderDateTimeToggle(content, plugin, save);
-    }, plugin, save);
-    
-    createCollapsibleSection(container, 'System Prompt & Temperature', (content) => {
-      renderSystemPromptAndTemperature(content, openai, save);
-    }, plugin, save);
-    
-    createCollapsibleSection(container, 'Linked Notes Settings', (content) => {
-      renderLinkedNotesSettings(content, plugin, save);
-    }, plugin, save);
-
-  } else if (plugin.settings.apiProvider === 'openrouter') {
-    const or = plugin.settings.aiProviderSettings.openrouter as OpenRouterProviderSettings;
-
-    createCollapsibleSection(container, 'Model', (content) => {
-      renderModelSelector(content, plugin, or, save, 'OpenRouter');
-    }, plugin, save);
-    
-    createCollapsibleSection(container, 'Date/Time', (content) => {
-      renderDateTimeToggle(content, plugin, save);
-    }, plugin, save);
-    
-    createCollapsibleSection(container, 'System Prompt & Temperature', (content) => {
-      renderSystemPromptAndTemperature(content, or, save);
-    }, plugin, save);
-    
-    createCollapsibleSection(container, 'Linked Notes Settings', (content) => {
-      renderLinkedNotesSettings(content, plugin, save);
-    }, plugin, save);
-    
-    createCollapsibleSection(container, 'OpenRouter Analytics Settings', (content) => {
-      renderOpenRouterSpecificSettings(content, or, save);
-    }, plugin, save, false); // Default to collapsed
-  }
+  const definition = ProviderRegistry.getInstance().get(plugin.settings.apiProvider);
+  if (!definition) return;
+
+  const providerSettings = plugin.settings.aiProviderSettings[definition.id] as ModelProviderSettings;
+  const sections = definition.settingsSections || [];
+
+  const renderSections = (placement: 'before' | 'after') => {
+    sections
+      .filter((section) => (section.placement || 'after') === placement)
+      .forEach((section) => {
+        createCollapsibleSection(container, section.title, (content) => {
+          section.render(content, providerSettings, save);
+        }, plugin, save, section.initiallyExpanded !== false);
+      });
+  };
+
+  renderSections('before');
+
+  createCollapsibleSection(container, 'Model', (content) => {
+    renderModelSelector(content, plugin, providerSettings, save, definition);
+  }, plugin, save);
+  
+  createCollapsibleSection(container, 'Date/Time', (content) => {
+    renderDateTimeToggle(content, plugin, save);
+  }, plugin, save);
+  
+  createCollapsibleSection(container, 'System Prompt & Temperature', (content) => {
+    renderSystemPromptAndTemperature(content, providerSettings, save);
+  }, plugin, save);
+  
+  createCollapsibleSection(container, 'Linked Notes Settings', (content) => {
+    renderLinkedNotesSettings(content, plugin, save);
+  }, plugin, save);
+
+  createCollapsibleSection(container, 'Vault Tools', (content) => {
+    renderVaultToolsSettings(content, plugin, save);
+  }, plugin, save, false);
+
+  renderSections('after');
 }
 
 // Render model selector with dropdown and fuzzy search
 function renderModelSelector(
   container: HTMLElement,
   plugin: PluginLike,
-  providerSettings: OpenAIProviderSettings | OpenRouterProviderSettings,
+  providerSettings: ModelProviderSettings,
   save: (immediate?: boolean) => Promise<void> | void,
-  providerName: string
+  definition: ProviderDefinition
 ) {
   const modelService = ModelService.getInstance();
   let models: ModelInfo[] = [];
@@ -183,7 +170,7 @@ function renderModelSelector(
 
   const setting = new Setting(container)
     .setName('Model')
-    .setDesc(`Select a ${providerName} model`);
+    .setDesc(`Select a ${definition.displayName} model`);
 
   // Create container for dropdown and buttons with responsive layout
   const controlContainer = setting.controlEl.createDiv({ cls: 'vault-bot-model-control-container' });
@@ -252,7 +239,7 @@ function renderModelSelector(
     const textInput = inputRow.createEl('input', {
       type: 'text',
       value: providerSettings.model,
-      placeholder: `e.g. ${providerName === 'OpenAI' ? 'gpt-4o' : 'openai/gpt-4o'}`
+      placeholder: `e.g. ${definition.modelPlaceholder}`
     });
 
     const buttonRow = controlContainer.createDiv({ cls: 'vault-bot-model-button-row' });
@@ -386,7 +373,7 @@ function renderConditionalHtmlLinksSetting(
     const conditionalDiv = extractContainer.createDiv({ cls: 'vault-bot-conditional-html-links' });
     new Setting(conditionalDiv)
       .setName('Include Links Found in Rendered HTML')
-      .setDesc('When extracting notes in reading view, also scan the rendered HTML for additional links to include.')
+      .setDesc('When extracting notes in reading view, also follow links in the rendered HTML, such as lists generated by Dataview queries. They are followed like written links, up to the link recursion depth.')
       .addToggle((toggle) => {
         toggle
           .setValue(plugin.settings.includeLinksInRenderedHTML === true)
@@ -420,6 +407,39 @@ function renderLinkedNotesSettings(
   if (plugin.settings.includeLinksInRenderedHTML === undefined) {
     plugin.settings.includeLinksInRenderedHTML = false;
   }
+  if (plugin.settings.includeImages === undefined) {
+    plugin.settings.includeImages = true;
+  }
+  if (plugin.settings.includeRemoteImages === undefined) {
+    plugin.settings.includeRemoteImages = false;
+  }
+  if (plugin.settings.inspectContextBeforeSending === undefined) {
+    plugin.settings.inspectContextBeforeSending = false;
+  }
+  if (plugin.settings.includeBacklinks === undefined) {
+    plugin.settings.includeBacklinks = false;
+  }
+  if (plugin.settings.includeGraphNeighborhood === undefined) {
+    plugin.settings.includeGraphNeighborhood = false;
+  }
+  if (plugin.settings.enableVaultSearch === undefined) {
+    plugin.settings.enableVaultSearch = false;
+  }
+  if (plugin.settings.vaultSearchResults === undefined) {
+    plugin.settings.vaultSearchResults = 5;
+  }
+  if (plugin.settings.enableSemanticSearch === undefined) {
+    plugin.settings.enableSemanticSearch = false;
+  }
+  if (plugin.settings.semanticSearchResults === undefined) {
+    plugin.settings.semanticSearchResults = 5;
+  }
+  if (plugin.settings.embeddingProvider === undefined) {
+    plugin.settings.embeddingProvider = 'openai';
+  }
+  if (plugin.settings.embeddingModel === undefined) {
+    plugin.settings.embeddingModel = 'text-embedding-3-small';
+  }
   if (plugin.settings.linkRecursionDepth === undefined) {
     plugin.settings.linkRecursionDepth = 1;
   }
@@ -469,6 +489,32 @@ function renderLinkedNotesSettings(
       return toggle;
     });
 
+  new Setting(container)
+    .setName('Include Backlinks')
+    .setDesc('Automatically include notes that link to the current note, following backlinks up to the link recursion depth.')
+    .addToggle((toggle) => {
+      toggle
+        .setValue(plugin.settings.includeBacklinks === true)
+        .onChange(async (value) => {
+          plugin.settings.includeBacklinks = value;
+          await save();
+        });
+      return toggle;
+    });
+
+  new Setting(container)
+    .setName('Include Graph Neighborhood')
+    .setDesc('Include notes around the current note in the graph: backlinks, outgoing links and notes sharing tags, up to the link recursion depth. The closest and most connected notes are included first.')
+    .addToggle((toggle) => {
+      toggle
+        .setValue(plugin.settings.includeGraphNeighborhood === true)
+        .onChange(async (value) => {
+          plugin.settings.includeGraphNeighborhood = value;
+          await save();
+        });
+      return toggle;
+    });
+
   // Create a container for the Extract in Reading View setting and its conditional child
   const extractContainer = container.createDiv();
 
@@ -490,6 +536,133 @@ function renderLinkedNotesSettings(
   // Render the conditional setting initially
   renderConditionalHtmlLinksSetting(extractContainer, plugin, save);
 
+  new Setting(container)
+    .setName('Send Images')
+    .setDesc('Send images embedded in your message and included notes (e.g. ![[diagram.png]]) to the model. Requires a vision-capable model.')
+    .addToggle((toggle) => {
+      toggle
+        .setValue(plugin.settings.includeImages !== false)
+        .onChange(async (value) => {
+          plugin.settings.includeImages = value;
+          await save();
+        });
+      return toggle;
+    });
+
+  new Setting(container)
+    .setName('Send Remote Images')
+    .setDesc('Also send images linked by http(s) URL. The provider fetches these itself.')
+    .addToggle((toggle) => {
+      toggle
+        .setValue(plugin.settings.includeRemoteImages === true)
+        .onChange(async (value) => {
+          plugin.settings.includeRemoteImages = value;
+          await save();
+        });
+      return toggle;
+    });
+
+  new Setting(container)
+    .setName('Review Context Before Sending')
+    .setDesc('Open a preview of the system prompt, included notes and conversation before each request, where you can untick notes, edit messages or cancel.')
+    .addToggle((toggle) => {
+      toggle
+        .setValue(plugin.settings.inspectContextBeforeSending === true)
+        .onChange(async (value) => {
+          plugin.settings.inspectContextBeforeSending = value;
+          await save();
+        });
+      return toggle;
+    });
+
+  new Setting(container)
+    .setName('Search Vault')
+    .setDesc('Add the most relevant passages from across the vault to each message, using a local full-text index. Works offline; excluded notes are never indexed.')
+    .addToggle((toggle) => {
+      toggle
+        .setValue(plugin.settings.enableVaultSearch === true)
+        .onChange(async (value) => {
+          plugin.settings.enableVaultSearch = value;
+          await save();
+        });
+      return toggle;
+    });
+
+  new Setting(container)
+    .setName('Vault Search Results')
+    .setDesc('How many passages to add from the vault search index.')
+    .addSlider((slider) => {
+      slider
+        .setLimits(1, 20, 1)
+        .setValue(plugin.settings.vaultSearchResults || 5)
+        .setDynamicTooltip()
+        .onChange(async (value) => {
+          plugin.settings.vaultSearchResults = value;
+          await save();
+        });
+      return slider;
+    });
+
+  new Setting(container)
+    .setName('Semantic Search')
+    .setDesc('Add the notes closest in meaning to each message, using embeddings of every heading section. Finds paraphrased notes that keyword search misses. Notes are sent to the embeddings provider when they change.')
+    .addToggle((toggle) => {
+      toggle
+        .setValue(plugin.settings.enableSemanticSearch === true)
+        .onChange(async (value) => {
+          plugin.settings.enableSemanticSearch = value;
+          await save();
+        });
+      return toggle;
+    });
+
+  new Setting(container)
+    .setName('Embeddings Provider')
+    .setDesc('Provider used to embed notes and messages. Uses the API key and server configured for that provider.')
+    .addDropdown((dropdown) => {
+      ProviderRegistry.getInstance().getAll()
+        .filter((definition) => definition.supportsEmbeddings)
+        .forEach((definition) => {
+          dropdown.addOption(definition.id, definition.displayName);
+        });
+      dropdown
+        .setValue(plugin.settings.embeddingProvider || 'openai')
+        .onChange(async (value) => {
+          plugin.settings.embeddingProvider = value;
+          await save();
+        });
+      return dropdown;
+    });
+
+  new Setting(container)
+    .setName('Embedding Model')
+    .setDesc('For example text-embedding-3-small (OpenAI) or nomic-embed-text (Ollama). Changing it re-embeds the vault.')
+    .addText((text) => {
+      text
+        .setPlaceholder('text-embedding-3-small')
+        .setValue(plugin.settings.embeddingModel || '')
+        .onChange(async (value) => {
+          plugin.settings.embeddingModel = value.trim();
+          await save();
+        });
+      return text;
+    });
+
+  new Setting(container)
+    .setName('Semantic Search Results')
+    .setDesc('How many sections to add from semantic search.')
+    .addSlider((slider) => {
+      slider
+        .setLimits(1, 20, 1)
+        .setValue(plugin.settings.semanticSearchResults || 5)
+        .setDynamicTooltip()
+        .onChange(async (value) => {
+          plugin.settings.semanticSearchResults = value;
+          await save();
+        });
+      return slider;
+    });
+
   new Setting(container)
     .setName('Link Recursion Depth')
     .setDesc('How many levels of linked notes to include. 1 = only directly linked notes, 2 = also include notes linked from those notes, etc.')
@@ -506,9 +679,28 @@ function renderLinkedNotesSettings(
     });
 }
 
+function renderVaultToolsSettings(
+  container: HTMLElement,
+  plugin: PluginLike,
+  save: (immediate?: boolean) => Promise<void> | void
+) {
+  new Setting(container)
+    .setName('Enable Vault Tools')
+    .setDesc('Let the model search, read and list notes and their backlinks on its own. Creating or appending to notes always asks for confirmation. Requires a model that supports tool calling.')
+    .addToggle((toggle) => {
+      toggle
+        .setValue(plugin.settings.enableVaultTools === true)
+        .onChange(async (value) => {
+          plugin.settings.enableVaultTools = value;
+          await save();
+        });
+      return toggle;
+    });
+}
+
 function renderSystemPromptAndTemperature(
   container: HTMLElement,
-  providerSettings: OpenAIProviderSettings | OpenRouterProviderSettings,
+  providerSettings: ModelProviderSettings,
   save: (immediate?: boolean) => Promise<void> | void
 ) {
   new Setting(container)
@@ -546,40 +738,6 @@ function renderSystemPromptAndTemperature(
     });
 }
 
-function renderOpenRouterSpecificSettings(
-  container: HTMLElement,
-  or: OpenRouterProviderSettings,
-  save: (immediate?: boolean) => Promise<void> | void
-) {
-  new Setting(container)
-    .setName('Site URL (Optional)')
-    .setDesc('Your site URL for OpenRouter analytics')
-    .addText((text) => {
-      text
-        .setPlaceholder('https://yoursite.com')
-        .setValue(or.site_url || '')
-        .onChange(async (value) => {
-          or.site_url = value;
-          await save();
-        });
-      return text;
-    });
-
-  new Setting(container)
-    .setName('Site Name (Optional)')
-    .setDesc('Your site name for OpenRouter analytics')
-    .addText((text) => {
-      text
-        .setPlaceholder('Your App Name')
-        .setValue(or.site_name || '')
-        .onChange(async (value) => {
-          or.site_name = value;
-          await save();
-        });
-      return text;
-    });
-}
-
 // Render the complete Model Settings section (with header + provider selector + fields).
 // This function manages its own re-render cycle so both Settings and Side Panel can
 // import and display identical UI with a single call.
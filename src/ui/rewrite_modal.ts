@@ -0,0 +1,143 @@
+import { App, Modal } from 'obsidian';
+import { diffWords } from '../utils/text_diff';
+
+export const DEFAULT_REWRITE_INSTRUCTION = 'Improve clarity, grammar and flow while keeping the meaning and the author\'s voice.';
+
+/**
+ * Streams one rewrite for the instruction, calling onUpdate with each chunk
+ */
+export type RewriteGenerator = (instruction: string, onUpdate: (text: string) => void, signal: AbortSignal) => Promise<void>;
+
+/**
+ * Streams a rewrite of the selection into an inline word diff. Accept resolves with the
+ * rewritten text; Retry streams a new rewrite, optionally with a different instruction;
+ * Reject or closing resolves with null.
+ */
+export class RewriteModal extends Modal {
+  private original: string;
+  private generate: RewriteGenerator;
+  private resolver: (text: string | null) => void;
+  private resolved = false;
+  private rewritten = '';
+  private running: AbortController | null = null;
+  private instruction = DEFAULT_REWRITE_INSTRUCTION;
+  private statusEl: HTMLElement | null = null;
+  private diffEl: HTMLElement | null = null;
+  private acceptButton: HTMLButtonElement | null = null;
+
+  constructor(app: App, original: string, generate: RewriteGenerator, resolver: (text: string | null) => void) {
+    super(app);
+    this.original = original;
+    this.generate = generate;
+    this.resolver = resolver;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('vault-bot-rewrite');
+    contentEl.createEl('h3', { text: 'Rewrite Selection' });
+
+    const instructionInput = contentEl.createEl('input', { type: 'text', cls: 'vault-bot-rewrite-instruction' });
+    instructionInput.value = this.instruction;
+    instructionInput.addEventListener('input', () => { this.instruction = instructionInput.value; });
+    instructionInput.addEventListener('keydown', (event: KeyboardEvent) => {
+      if (event.key === 'Enter') {
+        event.preventDefault();
+        void this.run();
+      }
+    });
+
+    this.statusEl = contentEl.createEl('p', { cls: 'vault-bot-rewrite-status' });
+    this.diffEl = contentEl.createDiv({ cls: 'vault-bot-rewrite-diff' });
+
+    const buttons = contentEl.createDiv({ cls: 'modal-button-container' });
+    this.acceptButton = buttons.createEl('button', { text: 'Accept', cls: 'mod-cta' });
+    const retry = buttons.createEl('button', { text: 'Retry' });
+    const reject = buttons.createEl('button', { text: 'Reject' });
+    this.acceptButton.addEventListener('click', () => {
+      if (!this.running && this.rewritten.trim()) this.finish(this.rewritten.trim());
+    });
+    retry.addEventListener('click', () => { void this.run(); });
+    reject.addEventListener('click', () => { this.finish(null); });
+
+    void this.run();
+  }
+
+  onClose() {
+    this.running?.abort();
+    if (!this.resolved) this.resolver(null);
+    this.contentEl.empty();
+  }
+
+  private async run() {
+    this.running?.abort();
+    const controller = new AbortController();
+    this.running = controller;
+    this.rewritten = '';
+    this.setStatus('Rewriting…');
+    this.renderDiff();
+
+    try {
+      await this.generate(this.instruction.trim() || DEFAULT_REWRITE_INSTRUCTION, (text) => {
+        if (controller.signal.aborted || !text) return;
+        this.rewritten += text;
+        this.renderDiff();
+      }, controller.signal);
+      if (controller.signal.aborted) return;
+      this.setStatus(this.rewritten.trim() ? 'Accept to replace the selection, or retry.' : 'The model returned no text. Retry or reject.');
+    } catch (error: any) {
+      if (controller.signal.aborted) return;
+      if (error?.name === 'AbortError') {
+        // Stopped from outside the modal, e.g. with the Stop Response command
+        this.setStatus('Stopped. Accept what was written, retry or reject.');
+        return;
+      }
+      console.error('Rewrite failed:', error);
+      this.setStatus(`Rewrite failed: ${error?.message || error}`);
+    } finally {
+      if (this.running === controller) {
+        this.running = null;
+        this.updateAcceptButton();
+      }
+    }
+  }
+
+  private renderDiff() {
+    if (!this.diffEl) return;
+    this.diffEl.empty();
+    const rewritten = this.rewritten.trim();
+    if (!rewritten) {
+      this.diffEl.createSpan({ text: this.original });
+    } else {
+      for (const part of diffWords(this.original, rewritten)) {
+        if (part.type === 'equal') this.diffEl.createSpan({ text: part.text });
+        else this.diffEl.createEl(part.type === 'insert' ? 'ins' : 'del', { text: part.text, cls: `vault-bot-diff-${part.type}` });
+      }
+    }
+    this.updateAcceptButton();
+  }
+
+  private updateAcceptButton() {
+    if (this.acceptButton) this.acceptButton.disabled = !!this.running || !this.rewritten.trim();
+  }
+
+  private setStatus(text: string) {
+    this.statusEl?.setText(text);
+  }
+
+  private finish(text: string | null) {
+    this.resolved = true;
+    this.resolver(text);
+    this.close();
+  }
+}
+
+/**
+ * Open the rewrite preview and wait for the user to accept (with the rewritten text) or reject
+ */
+export function reviewRewrite(app: App, original: string, generate: RewriteGenerator): Promise<string | null> {
+  return new Promise<string | null>((resolve) => {
+    new RewriteModal(app, original, generate, resolve).open();
+  });
+}
@@ -0,0 +1,190 @@
+import { ItemView, WorkspaceLeaf, Setting } from 'obsidian';
+import VaultBotPlugin from '../main';
+import { resolveAiCallsDir } from './storage_paths';
+import { ModelService } from './services/model_service';
+import { ProviderRegistry, type ModelInfo } from './providers';
+import {
+    loadUsageRecords,
+    buildPricingTable,
+    aggregateUsage,
+    type UsageRecord,
+    type UsageGrouping,
+    type PricingTable
+} from './services/usage_stats';
+
+export const USAGE_DASHBOARD_VIEW_TYPE = 'vault-bot-usage-dashboard';
+
+const GROUPING_LABELS: Record<UsageGrouping, string> = {
+    'day': 'Day',
+    'month': 'Month',
+    'provider': 'Provider',
+    'model': 'Model',
+    'month-model': 'Month and model',
+};
+
+export class UsageDashboardView extends ItemView {
+    plugin: VaultBotPlugin;
+    private grouping: UsageGrouping = 'month-model';
+    private records: UsageRecord[] = [];
+    private pricing: PricingTable = new Map();
+    private bodyEl: HTMLElement;
+
+    constructor(leaf: WorkspaceLeaf, plugin: VaultBotPlugin) {
+        super(leaf);
+        this.plugin = plugin;
+    }
+
+    getViewType() {
+        return USAGE_DASHBOARD_VIEW_TYPE;
+    }
+
+    getDisplayText() {
+        return 'AI Usage & Cost';
+    }
+
+    getIcon() {
+        return 'bar-chart';
+    }
+
+    async onOpen() {
+        const container = this.containerEl.children[1] as HTMLElement;
+        container.empty();
+        container.classList.add('vault-bot-ui', 'vault-bot-usage-dashboard');
+        container.createEl('h2', { text: 'AI Usage & Cost' });
+
+        new Setting(container)
+            .setName('Group by')
+            .addDropdown((dropdown) => {
+                (Object.keys(GROUPING_LABELS) as UsageGrouping[]).forEach((grouping) => {
+                    dropdown.addOption(grouping, GROUPING_LABELS[grouping]);
+                });
+                dropdown
+                    .setValue(this.grouping)
+                    .onChange((value) => {
+                        this.grouping = value as UsageGrouping;
+                        this.renderTable();
+                    });
+                return dropdown;
+            })
+            .addButton((button) => {
+                button
+                    .setButtonText('Refresh')
+                    .onClick(() => this.refresh());
+            });
+
+        this.bodyEl = container.createDiv({ cls: 'vault-bot-usage-body' });
+        await this.refresh();
+    }
+
+    async onClose() {
+        // Nothing to clean up
+    }
+
+    async refresh() {
+        this.bodyEl.empty();
+        this.bodyEl.createDiv({ cls: 'vault-bot-usage-status', text: 'Loading recorded AI calls...' });
+
+        try {
+            this.records = await loadUsageRecords(resolveAiCallsDir(this.app));
+            this.pricing = await this.loadPricing(this.records);
+        } catch (error) {
+            console.error('Failed to load usage records:', error);
+            this.records = [];
+        }
+        this.renderTable();
+    }
+
+    /**
+     * Fetch model lists (with pricing, where published) for every provider seen in the records
+     */
+    private async loadPricing(records: UsageRecord[]): Promise<PricingTable> {
+        const registry = ProviderRegistry.getInstance();
+        const modelService = ModelService.getInstance();
+        const modelsByProvider: Record<string, ModelInfo[]> = {};
+
+        const providers = new Set(records.map(r => r.provider));
+        for (const provider of providers) {
+            if (!registry.has(provider) || !this.plugin.settings.aiProviderSettings[provider]) continue;
+            modelsByProvider[provider] = await modelService.getModels({
+                ...this.plugin.settings,
+                apiProvider: provider
+            });
+        }
+        return buildPricingTable(modelsByProvider);
+    }
+
+    private renderTable() {
+        this.bodyEl.empty();
+
+        if (this.records.length === 0) {
+            this.bodyEl.createDiv({
+                cls: 'vault-bot-usage-status',
+                text: this.plugin.settings.recordApiCalls
+                    ? 'No recorded AI calls yet.'
+                    : 'No recorded AI calls. Enable "Record chat AI calls" to collect usage.'
+            });
+            return;
+        }
+
+        const rows = aggregateUsage(this.records, this.grouping, this.pricing);
+        const totals = aggregateUsage(this.records, 'provider', this.pricing).reduce(
+            (acc, row) => ({
+                calls: acc.calls + row.calls,
+                tokens: acc.tokens + row.total_tokens,
+                cost: acc.cost + row.cost,
+                unpriced: acc.unpriced + row.unpriced_calls,
+                withoutUsage: acc.withoutUsage + (row.calls - row.calls_with_usage),
+            }),
+            { calls: 0, tokens: 0, cost: 0, unpriced: 0, withoutUsage: 0 }
+        );
+
+        const summary = this.bodyEl.createDiv({ cls: 'vault-bot-usage-summary' });
+        summary.createDiv({ text: `Calls: ${totals.calls.toLocaleString()}` });
+        summary.createDiv({ text: `Tokens: ${totals.tokens.toLocaleString()}` });
+        summary.createDiv({ text: `Estimated spend: ${formatCost(totals.cost)}` });
+        if (totals.unpriced > 0 || totals.withoutUsage > 0) {
+            summary.createDiv({
+                cls: 'vault-bot-usage-note',
+                text: `${totals.unpriced} call(s) have no published pricing and ${totals.withoutUsage} call(s) were recorded without token usage; neither is included in spend.`
+            });
+        }
+
+        const table = this.bodyEl.createEl('table', { cls: 'vault-bot-usage-table' });
+        const headerRow = table.createEl('thead').createEl('tr');
+        [GROUPING_LABELS[this.grouping], 'Calls', 'Prompt tokens', 'Completion tokens', 'Avg latency', 'Est. spend']
+            .forEach(label => headerRow.createEl('th', { text: label }));
+
+        const tbody = table.createEl('tbody');
+        for (const row of rows) {
+            const tr = tbody.createEl('tr');
+            tr.createEl('td', { text: row.key });
+            tr.createEl('td', { text: row.calls.toLocaleString() });
+            tr.createEl('td', { text: row.calls_with_usage > 0 ? row.prompt_tokens.toLocaleString() : '—' });
+            tr.createEl('td', { text: row.calls_with_usage > 0 ? row.completion_tokens.toLocaleString() : '—' });
+            tr.createEl('td', { text: row.avg_duration_ms !== null ? `${(row.avg_duration_ms / 1000).toFixed(1)} s` : '—' });
+            const priced = row.calls_with_usage - row.unpriced_calls;
+            tr.createEl('td', { text: priced > 0 ? formatCost(row.cost) : '—' });
+        }
+    }
+}
+
+function formatCost(cost: number): string {
+    // Sub-cent amounts are common for single calls; keep them visible
+    return cost > 0 && cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+}
+
+export async function openUsageDashboard(plugin: VaultBotPlugin) {
+    const { workspace } = plugin.app;
+
+    let leaf: WorkspaceLeaf | null = null;
+    const leaves = workspace.getLeavesOfType(USAGE_DASHBOARD_VIEW_TYPE);
+
+    if (leaves.length > 0) {
+        leaf = leaves[0];
+    } else {
+        leaf = workspace.getLeaf('tab');
+        await leaf.setViewState({ type: USAGE_DASHBOARD_VIEW_TYPE, active: true });
+    }
+
+    workspace.revealLeaf(leaf);
+}
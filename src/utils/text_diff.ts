@@ -0,0 +1,70 @@
+/**
+ * Word-level diff used to preview rewrites
+ */
+
+export interface DiffPart {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+// Above this many token pairs the LCS table gets too large to build on every streamed chunk
+const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * Diff two texts by words, keeping whitespace attached to the token stream so joining
+ * the equal and delete parts gives the original and the equal and insert parts the rewrite.
+ */
+export function diffWords(original: string, rewritten: string): DiffPart[] {
+  const a = tokenizeForDiff(original);
+  const b = tokenizeForDiff(rewritten);
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return mergeParts([{ type: 'delete', text: original }, { type: 'insert', text: rewritten }]);
+  }
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths: Uint32Array[] = [];
+  for (let i = 0; i <= a.length; i++) lengths.push(new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      parts.push({ type: 'equal', text: a[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      parts.push({ type: 'delete', text: a[i++] });
+    } else {
+      parts.push({ type: 'insert', text: b[j++] });
+    }
+  }
+  while (i < a.length) parts.push({ type: 'delete', text: a[i++] });
+  while (j < b.length) parts.push({ type: 'insert', text: b[j++] });
+
+  return mergeParts(parts);
+}
+
+function tokenizeForDiff(text: string): string[] {
+  return text.split(/(\s+)/).filter(token => token !== '');
+}
+
+// Join runs of the same type so the preview renders one span per change
+function mergeParts(parts: DiffPart[]): DiffPart[] {
+  const merged: DiffPart[] = [];
+  for (const part of parts) {
+    if (!part.text) continue;
+    const last = merged[merged.length - 1];
+    if (last && last.type === part.type) last.text += part.text;
+    else merged.push({ ...part });
+  }
+  return merged;
+}
@@ -5,6 +5,44 @@ export class Notice {
 
 export class App {}
 
+export class TAbstractFile {
+    path = '';
+    name = '';
+    parent: TFolder | null = null;
+}
+
+export class TFile extends TAbstractFile {
+    basename = '';
+    extension = 'md';
+    stat = { ctime: 0, mtime: 0, size: 0 };
+}
+
+export class TFolder extends TAbstractFile {
+    children: TAbstractFile[] = [];
+}
+
+export function normalizePath(path: string): string {
+    return path.replace(/\\/g, '/').replace(/\/+/g, '/').replace(/^\/|\/$/g, '') || '/';
+}
+
+export function arrayBufferToBase64(buffer: ArrayBuffer): string {
+    return Buffer.from(buffer).toString('base64');
+}
+
+export class Modal {
+    app: App;
+    contentEl: any;
+
+    constructor(app: App) {
+        this.app = app;
+        this.contentEl = { empty: () => {}, createEl: () => ({}), createDiv: () => ({}) };
+    }
+
+    open(): void {}
+
+    close(): void {}
+}
+
 export class Plugin {
     app: App;
     settings: any;
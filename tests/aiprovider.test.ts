@@ -1,8 +1,10 @@
 import { vi, expect, describe, it, beforeEach } from "vitest";
 import { AIProviderWrapper } from "../src/aiprovider";
 import { VaultBotPluginSettings } from "../src/settings";
-import { OpenAIProvider, OpenRouterProvider } from "../src/providers";
-import type { OpenAIProviderSettings, OpenRouterProviderSettings } from "../src/aiprovider";
+import { OpenAIProvider, OpenRouterProvider, AnthropicProvider, OpenAICompatibleProvider } from "../src/providers";
+import type { OpenAIProviderSettings, OpenRouterProviderSettings, AnthropicProviderSettings, OpenAICompatibleProviderSettings } from "../src/aiprovider";
+import { TFile, TFolder } from "obsidian";
+import { ModelService } from "../src/services/model_service";
 
 // Mock the provider modules
 vi.mock("../src/providers/openai", () => ({
@@ -13,6 +15,14 @@ vi.mock("../src/providers/openrouter", () => ({
     OpenRouterProvider: vi.fn(),
 }));
 
+vi.mock("../src/providers/anthropic", () => ({
+    AnthropicProvider: vi.fn(),
+}));
+
+vi.mock("../src/providers/openai_compatible", () => ({
+    OpenAICompatibleProvider: vi.fn(),
+}));
+
 // Mock OpenAI module since it's imported by the providers
 vi.mock("openai", () => ({
     default: vi.fn(),
@@ -101,6 +111,67 @@ describe("AIProviderWrapper", () => {
         expect(OpenAIProvider).not.toHaveBeenCalled();
     });
 
+    it("should create Anthropic provider when apiProvider is 'anthropic'", () => {
+        (AnthropicProvider as any).mockImplementation(() => ({}));
+        const settings: VaultBotPluginSettings = {
+            apiProvider: "anthropic",
+            chatSeparator: "---",
+            recordApiCalls: true,
+            aiProviderSettings: {
+                anthropic: {
+                    api_key: "test-key",
+                    model: "claude-sonnet-4-0",
+                    system_prompt: "Test prompt",
+                    temperature: 0.7,
+                    max_tokens: 2048,
+                } as AnthropicProviderSettings,
+            },
+        };
+
+        new AIProviderWrapper(settings);
+
+        expect(AnthropicProvider).toHaveBeenCalledWith({
+            api_key: "test-key",
+            model: "claude-sonnet-4-0",
+            system_prompt: "Test prompt",
+            temperature: 0.7,
+            max_tokens: 2048,
+        });
+        expect(OpenAIProvider).not.toHaveBeenCalled();
+        expect(OpenRouterProvider).not.toHaveBeenCalled();
+    });
+
+    it("should create OpenAI-compatible provider when apiProvider is 'openai-compatible'", () => {
+        (OpenAICompatibleProvider as any).mockImplementation(() => ({}));
+        const settings: VaultBotPluginSettings = {
+            apiProvider: "openai-compatible",
+            chatSeparator: "---",
+            recordApiCalls: true,
+            aiProviderSettings: {
+                "openai-compatible": {
+                    api_key: "",
+                    model: "llama3.1",
+                    system_prompt: "Test prompt",
+                    temperature: 0.7,
+                    base_url: "http://localhost:1234/v1",
+                    headers: {},
+                } as OpenAICompatibleProviderSettings,
+            },
+        };
+
+        new AIProviderWrapper(settings);
+
+        expect(OpenAICompatibleProvider).toHaveBeenCalledWith({
+            api_key: "",
+            model: "llama3.1",
+            system_prompt: "Test prompt",
+            temperature: 0.7,
+            base_url: "http://localhost:1234/v1",
+            headers: {},
+        });
+        expect(OpenAIProvider).not.toHaveBeenCalled();
+    });
+
     it("should throw error for unsupported provider", () => {
         const settings: VaultBotPluginSettings = {
             apiProvider: "unsupported",
@@ -858,4 +929,217 @@ describe("AIProviderWrapper", () => {
             expect(calledArgs[1]).toEqual({ role: "user", content: "Hello" });
         });
     });
-});
\ No newline at end of file
+
+    describe("Vault Tools", () => {
+        const toolSettings = (enableVaultTools: boolean): VaultBotPluginSettings => ({
+            apiProvider: "openai",
+            chatSeparator: "---",
+            recordApiCalls: false,
+            includeDatetime: false,
+            includeCurrentNote: false,
+            includeOpenNotes: false,
+            includeLinkedNotes: false,
+            enableVaultTools,
+            aiProviderSettings: {
+                openai: { api_key: "test-key", model: "gpt-4o", system_prompt: "", temperature: 0.7 } as OpenAIProviderSettings,
+            },
+        });
+
+        const mockApp: any = {
+            vault: {
+                getRoot: () => Object.assign(new TFolder(), { children: [Object.assign(new TFile(), { path: "Plan.md", name: "Plan.md" })] }),
+            },
+            metadataCache: {},
+        };
+
+        it("runs requested tools and sends the results back until the model answers", async () => {
+            mockOpenAIProvider.getStreamingResponseWithConversation
+                .mockImplementationOnce(async (_messages: any, onUpdate: (text: string) => void) => {
+                    onUpdate("Let me look.");
+                    return {
+                        tool_calls: [{ id: "call_1", name: "list_folder", arguments: "{\"path\":\"/\"}" }],
+                        usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+                    };
+                })
+                .mockImplementationOnce(async (_messages: any, onUpdate: (text: string) => void) => {
+                    onUpdate("You have one note.");
+                    return { finish_reason: "stop", usage: { prompt_tokens: 20, completion_tokens: 6, total_tokens: 26 } };
+                });
+
+            const wrapper = new AIProviderWrapper(toolSettings(true), mockApp);
+            const chunks: string[] = [];
+            const metadata = await wrapper.getStreamingResponse("What's in my vault?", (text) => chunks.push(text), new AbortController().signal);
+
+            const calls = mockOpenAIProvider.getStreamingResponseWithConversation.mock.calls;
+            expect(calls).toHaveLength(2);
+            expect(calls[0][3].tools.map((t: any) => t.name)).toContain("list_folder");
+            expect(calls[1][0].slice(1)).toEqual([
+                { role: "assistant", content: "Let me look.", tool_calls: [{ id: "call_1", name: "list_folder", arguments: "{\"path\":\"/\"}" }] },
+                { role: "tool", tool_call_id: "call_1", name: "list_folder", content: "Plan.md" },
+            ]);
+            expect(chunks.join("")).toBe("Let me look.\n\nYou have one note.");
+            expect(metadata).toEqual({ finish_reason: "stop", usage: { prompt_tokens: 30, completion_tokens: 11, total_tokens: 41 } });
+        });
+
+        it("does not offer tools when the setting is off", async () => {
+            mockOpenAIProvider.getStreamingResponseWithConversation.mockResolvedValue({});
+
+            const wrapper = new AIProviderWrapper(toolSettings(false), mockApp);
+            await wrapper.getStreamingResponse("Hello", vi.fn(), new AbortController().signal);
+
+            expect(mockOpenAIProvider.getStreamingResponseWithConversation.mock.calls[0]).toHaveLength(3);
+        });
+    });
+    describe("Context budget", () => {
+        const budgetSettings: VaultBotPluginSettings = {
+            apiProvider: "openai",
+            chatSeparator: "---",
+            recordApiCalls: false,
+            includeDatetime: false,
+            aiProviderSettings: {
+                openai: { api_key: "budget-key", model: "small-model", system_prompt: "Be brief", temperature: 0.7 } as OpenAIProviderSettings,
+            },
+        };
+
+        beforeEach(() => {
+            ModelService.getInstance().clearCache();
+        });
+
+        it("drops the oldest history when the model's context window is too small", async () => {
+            mockOpenAIProvider.listModels = vi.fn().mockResolvedValue([{ id: "small-model", name: "small-model", context_length: 1200 }]);
+            mockOpenAIProvider.getStreamingResponseWithConversation.mockResolvedValue({});
+
+            const wrapper = new AIProviderWrapper(budgetSettings);
+            await wrapper.getStreamingResponseWithConversation([
+                { role: "user", content: "a".repeat(2000) },
+                { role: "assistant", content: "b".repeat(2000) },
+                { role: "user", content: "c".repeat(400) },
+                { role: "assistant", content: "d".repeat(400) },
+                { role: "user", content: "And now?" },
+            ], vi.fn(), new AbortController().signal);
+
+            const sent = mockOpenAIProvider.getStreamingResponseWithConversation.mock.calls[0][0];
+            expect(sent.map((m: any) => m.role)).toEqual(["system", "user", "assistant", "user"]);
+            expect(sent[1].content).toBe("c".repeat(400));
+            expect(sent[3].content).toBe("And now?");
+        });
+
+        it("sends everything when the context length is unknown", async () => {
+            mockOpenAIProvider.listModels = vi.fn().mockResolvedValue([]);
+            mockOpenAIProvider.getStreamingResponseWithConversation.mockResolvedValue({});
+
+            const wrapper = new AIProviderWrapper(budgetSettings);
+            const messages = [
+                { role: "user" as const, content: "a".repeat(20000) },
+                { role: "assistant" as const, content: "b" },
+                { role: "user" as const, content: "And now?" },
+            ];
+            await wrapper.getStreamingResponseWithConversation(messages, vi.fn(), new AbortController().signal);
+
+            expect(mockOpenAIProvider.getStreamingResponseWithConversation.mock.calls[0][0].slice(1)).toEqual(messages);
+        });
+    });
+    describe("Prepared requests", () => {
+        // Only the given retrieval setting is on; retrieveContent returns one note from that source
+        const prepareWithOnly = async (setting: keyof VaultBotPluginSettings, source: string) => {
+            const settings = {
+                apiProvider: "openai",
+                chatSeparator: "---",
+                recordApiCalls: false,
+                includeDatetime: false,
+                includeImages: false,
+                [setting]: true,
+                aiProviderSettings: {
+                    openai: { api_key: "gate-key", model: "gpt-4o", system_prompt: "", temperature: 0.7 } as OpenAIProviderSettings,
+                },
+            } as VaultBotPluginSettings;
+            const retrieveContent = vi.fn(async () => [{ file: { path: "Plan.md" } as any, path: "Plan.md", title: "Plan", content: "Ship it", source }]);
+            const wrapper = new AIProviderWrapper(settings);
+            (wrapper as any).contentRetrievalService = { retrieveContent, findImages: () => [], loadImageParts: async () => [] };
+            const prepared = await wrapper.prepareRequest([{ role: "user", content: "When do we ship?" }], { path: "Current.md" } as any);
+            expect(retrieveContent).toHaveBeenCalledTimes(1);
+            return prepared.notes.map(n => [n.path, n.source]);
+        };
+
+        it("retrieves search passages when vault search is the only retrieval setting", async () => {
+            expect(await prepareWithOnly("enableVaultSearch", "search")).toEqual([["Plan.md", "search"]]);
+        });
+
+        it("retrieves semantic matches when semantic search is the only retrieval setting", async () => {
+            expect(await prepareWithOnly("enableSemanticSearch", "semantic")).toEqual([["Plan.md", "semantic"]]);
+        });
+
+        it("retrieves backlinks when they are the only retrieval setting", async () => {
+            expect(await prepareWithOnly("includeBacklinks", "backlink")).toEqual([["Plan.md", "backlink"]]);
+        });
+
+        it("retrieves the graph neighborhood when it is the only retrieval setting", async () => {
+            expect(await prepareWithOnly("includeGraphNeighborhood", "graph")).toEqual([["Plan.md", "graph"]]);
+        });
+
+        it("sends only the notes left in a reviewed request", async () => {
+            mockOpenAIProvider.getStreamingResponseWithConversation.mockResolvedValue({});
+            const settings: VaultBotPluginSettings = {
+                apiProvider: "openai",
+                chatSeparator: "---",
+                recordApiCalls: false,
+                includeDatetime: false,
+                includeLinkedNotes: true,
+                aiProviderSettings: {
+                    openai: { api_key: "review-key", model: "gpt-4o", system_prompt: "", temperature: 0.7 } as OpenAIProviderSettings,
+                },
+            };
+            const wrapper = new AIProviderWrapper(settings);
+            const notes = [
+                { file: {} as any, path: "Plan.md", title: "Plan", content: "Ship it", source: "linked", depth: 1 },
+                { file: {} as any, path: "Diary.md", title: "Diary", content: "Private", source: "linked", depth: 1 },
+            ];
+            (wrapper as any).contentRetrievalService = {
+                retrieveContent: async () => notes,
+                formatNotesForAI: (included: any[]) => included.map(n => `\n\n## ${n.title}\n\n${n.content}`).join(""),
+                findImages: () => [],
+                loadImageParts: async () => [],
+            };
+
+            const prepared = await wrapper.prepareRequest([{ role: "user", content: "See [[Plan]] and [[Diary]]" }]);
+            expect(prepared.notes.map(n => n.path)).toEqual(["Plan.md", "Diary.md"]);
+            expect(mockOpenAIProvider.getStreamingResponseWithConversation).not.toHaveBeenCalled();
+
+            await wrapper.sendPreparedRequest({ ...prepared, notes: prepared.notes.slice(0, 1) }, vi.fn(), new AbortController().signal);
+
+            const sent = mockOpenAIProvider.getStreamingResponseWithConversation.mock.calls[0][0];
+            expect(sent).toEqual([{ role: "user", content: "See [[Plan]] and [[Diary]]\n\n## Plan\n\nShip it" }]);
+        });
+
+        it("puts mentioned notes first and retrieves them with the retrieval settings off", async () => {
+            const settings: VaultBotPluginSettings = {
+                apiProvider: "openai",
+                chatSeparator: "---",
+                recordApiCalls: false,
+                includeDatetime: false,
+                includeImages: false,
+                aiProviderSettings: {
+                    openai: { api_key: "mention-key", model: "gpt-4o", system_prompt: "", temperature: 0.7 } as OpenAIProviderSettings,
+                },
+            };
+            const plan = { file: { path: "Plan.md" } as any, path: "Plan.md", title: "Plan", content: "Ship it", source: "mention" };
+            const retrieveMentions = vi.fn(async () => [plan]);
+            const retrieveContent = vi.fn(async () => [
+                { ...plan, source: "linked", depth: 1 },
+                { file: { path: "Diary.md" } as any, path: "Diary.md", title: "Diary", content: "Private", source: "linked", depth: 1 },
+            ]);
+            const wrapper = new AIProviderWrapper(settings);
+            (wrapper as any).contentRetrievalService = { retrieveMentions, retrieveContent, findImages: () => [], loadImageParts: async () => [] };
+
+            const mentions = [{ kind: "file" as const, path: "Plan.md" }];
+            const prepared = await wrapper.prepareRequest([{ role: "user", content: "Summarize this" }], undefined, true, mentions);
+            expect(retrieveMentions).toHaveBeenCalledWith(mentions);
+            expect(retrieveContent).not.toHaveBeenCalled();
+            expect(prepared.notes.map(n => [n.path, n.source])).toEqual([["Plan.md", "mention"]]);
+
+            settings.includeLinkedNotes = true;
+            const withLinks = await wrapper.prepareRequest([{ role: "user", content: "See [[Plan]] and [[Diary]]" }], undefined, true, mentions);
+            expect(withLinks.notes.map(n => [n.path, n.source])).toEqual([["Plan.md", "mention"], ["Diary.md", "linked"]]);
+        });
+    });
+});
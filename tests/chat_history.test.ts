@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { groupConversationsByDate, matchConversation } from '../src/chat/chat_history';
+import { summarizeConversation } from '../src/chat/chat_storage';
+import { createChatMessage, createConversation } from '../src/chat/chat_types';
+
+const now = new Date(2025, 5, 15, 12, 0);
+
+function conversation(title: string, updatedAt: Date, messages: string[] = [], pinned = false) {
+  const result = createConversation(title);
+  result.updatedAt = updatedAt;
+  result.messages = messages.map((content, i) => createChatMessage(i % 2 === 0 ? 'user' : 'assistant', content));
+  result.pinned = pinned;
+  return result;
+}
+
+describe('chat history', () => {
+  it('groups conversations by date with pinned ones first', () => {
+    const groups = groupConversationsByDate([
+      conversation('Morning', new Date(2025, 5, 15, 9, 0)),
+      conversation('Late last night', new Date(2025, 5, 14, 23, 30)),
+      conversation('Pinned old chat', new Date(2024, 0, 3), [], true),
+      conversation('Last week', new Date(2025, 5, 10)),
+      conversation('Last month', new Date(2025, 4, 20)),
+      conversation('Long ago', new Date(2025, 1, 2)),
+    ].map(summarizeConversation), now);
+
+    expect(groups.map(g => [g.label, g.conversations.map(c => c.title)])).toEqual([
+      ['Pinned', ['Pinned old chat']],
+      ['Today', ['Morning']],
+      ['Yesterday', ['Late last night']],
+      ['Previous 7 days', ['Last week']],
+      ['Previous 30 days', ['Last month']],
+      [new Date(2025, 1, 2).toLocaleDateString([], { month: 'long', year: 'numeric' }), ['Long ago']],
+    ]);
+  });
+
+  it('matches titles and message content for every word', () => {
+    const cooking = conversation('Cooking', now, ['How long should I boil an egg?', 'About seven minutes for a firm yolk.']);
+    const physics = conversation('Physics', now, ['What is entropy?', 'A measure of disorder.']);
+    physics.alternates = [createChatMessage('assistant', 'Entropy counts microstates.', { parentId: 'x' })];
+
+    expect(matchConversation(cooking, 'EGG yolk')).toEqual({ snippet: 'How long should I boil an egg?' });
+    expect(matchConversation(physics, 'EGG yolk')).toBeNull();
+    expect(matchConversation(physics, 'microstates')).toEqual({ snippet: 'Entropy counts microstates.' });
+    expect(matchConversation(physics, 'physics')).toEqual({ snippet: null });
+    expect(matchConversation(cooking, 'egg turtle')).toBeNull();
+    expect(matchConversation(cooking, '  ')).toEqual({ snippet: null });
+  });
+});
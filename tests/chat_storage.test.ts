@@ -0,0 +1,126 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ChatStorage } from '../src/chat/chat_storage';
+import { createChatMessage, createConversation } from '../src/chat/chat_types';
+
+function createApp(files = new Map<string, string>()) {
+  const app: any = {
+    vault: {
+      adapter: {
+        exists: vi.fn(async (path: string) => path === 'plugin/chats' || files.has(path)),
+        mkdir: vi.fn(),
+        list: vi.fn(async () => ({ files: Array.from(files.keys()), folders: [] })),
+        write: vi.fn(async (path: string, data: string) => { files.set(path, data); }),
+        read: vi.fn(async (path: string) => {
+          if (!files.has(path)) throw new Error(`ENOENT: ${path}`);
+          return files.get(path)!;
+        }),
+        remove: vi.fn(async (path: string) => { files.delete(path); }),
+      },
+    },
+  };
+  return { app, files };
+}
+
+function conversation(title: string, minutesAgo: number, question = `About ${title}`) {
+  const result = createConversation(title);
+  result.updatedAt = new Date(Date.UTC(2025, 5, 15, 12, 0) - minutesAgo * 60_000);
+  result.messages = [createChatMessage('user', question), createChatMessage('assistant', 'An answer')];
+  result.model = 'gpt-4o';
+  return result;
+}
+
+describe('ChatStorage index', () => {
+  it('lists pages from the index without reading conversation files', async () => {
+    const { app, files } = createApp();
+    const storage = new ChatStorage(app, 'plugin');
+    const chats = [conversation('Older', 30), conversation('Newest', 1, 'What   is\nentropy?'), conversation('Middle', 10)];
+    await Promise.all(chats.map(chat => storage.saveConversation(chat)));
+
+    // A fresh instance reads only the index
+    app.vault.adapter.read.mockClear();
+    const page = await new ChatStorage(app, 'plugin').queryConversations({ offset: 0, limit: 2 });
+    expect(app.vault.adapter.read).toHaveBeenCalledTimes(1);
+    expect(app.vault.adapter.read).toHaveBeenCalledWith('plugin/chats/index.json');
+
+    expect(page.total).toBe(3);
+    expect(page.conversations.map(c => c.title)).toEqual(['Newest', 'Middle']);
+    expect(page.conversations[0]).toMatchObject({ messageCount: 2, model: 'gpt-4o', preview: 'What is entropy?' });
+    expect((await storage.queryConversations({ offset: 2, limit: 2 })).conversations.map(c => c.title)).toEqual(['Older']);
+    expect(files.has('plugin/chats/index.json')).toBe(true);
+  });
+
+  it('keeps the index in step with renames, pins and deletes', async () => {
+    vi.useFakeTimers();
+    try {
+      const { app, files } = createApp();
+      const storage = new ChatStorage(app, 'plugin');
+      const older = conversation('Older', 30);
+      const newer = conversation('Newer', 1);
+      await storage.saveConversation(older);
+      await storage.saveConversation(newer);
+
+      await storage.updateConversationMetadata(older.id, { title: 'Renamed', pinned: true });
+      expect((await storage.queryConversations()).conversations.map(c => [c.title, c.pinned])).toEqual([
+        ['Renamed', true],
+        ['Newer', undefined],
+      ]);
+
+      // A pending auto-save must not write a deleted conversation back
+      storage.autoSaveConversation(newer);
+      await storage.deleteConversation(newer.id);
+      await vi.runAllTimersAsync();
+      expect(files.has(`plugin/chats/${newer.id}.json`)).toBe(false);
+      expect((await storage.queryConversations()).conversations.map(c => c.id)).toEqual([older.id]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('rebuilds a corrupted index and picks up files it does not list', async () => {
+    const { app, files } = createApp();
+    const first = conversation('First', 5);
+    await new ChatStorage(app, 'plugin').saveConversation(first);
+
+    files.set('plugin/chats/index.json', '{"version": 1, "conversations": [');
+    expect((await new ChatStorage(app, 'plugin').queryConversations()).conversations.map(c => c.title)).toEqual(['First']);
+
+    // Written by another device, not yet in the index
+    const synced = conversation('Synced', 1);
+    files.set(`plugin/chats/${synced.id}.json`, JSON.stringify({ ...synced, messages: [] }));
+    files.delete(`plugin/chats/${first.id}.json`);
+    const storage = new ChatStorage(app, 'plugin');
+    expect((await storage.queryConversations()).conversations.map(c => c.title)).toEqual(['Synced']);
+    expect(JSON.parse(files.get('plugin/chats/index.json')!).conversations.map((c: any) => c.title)).toEqual(['Synced']);
+  });
+
+  it('shares one storage per plugin folder and lets a direct save replace a pending auto-save', async () => {
+    vi.useFakeTimers();
+    try {
+      const { app } = createApp();
+      const storage = ChatStorage.getShared(app, 'plugin');
+      expect(ChatStorage.getShared(app, 'plugin')).toBe(storage);
+
+      const chat = conversation('Flushed', 1);
+      storage.autoSaveConversation(chat);
+      await storage.saveConversation(chat);
+      app.vault.adapter.write.mockClear();
+      await vi.runAllTimersAsync();
+      expect(app.vault.adapter.write).not.toHaveBeenCalled();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('searches message content and returns index entries with a snippet', async () => {
+    const { app } = createApp();
+    const storage = new ChatStorage(app, 'plugin');
+    await storage.saveConversation(conversation('Cooking', 2, 'How long should I boil an egg?'));
+    await storage.saveConversation(conversation('Physics', 1, 'What is entropy?'));
+
+    const matches = await storage.searchConversations('boil');
+    expect(matches).toHaveLength(1);
+    expect(matches[0].summary.title).toBe('Cooking');
+    expect(matches[0].snippet).toBe('How long should I boil an egg?');
+    expect(await storage.searchConversations('answer')).toHaveLength(2);
+  });
+});
@@ -58,14 +58,37 @@ vi.mock('obsidian', () => ({
 // Mock AI Provider Wrapper
 const mockGetStreamingResponse = vi.fn();
 const mockGetStreamingResponseWithConversation = vi.fn();
+const mockPrepareRequest = vi.fn();
+const mockSendPreparedRequest = vi.fn();
 vi.mock('../src/aiprovider', () => ({
     AIProviderWrapper: vi.fn().mockImplementation(() => ({
         getStreamingResponse: mockGetStreamingResponse,
         getStreamingResponseWithConversation: mockGetStreamingResponseWithConversation,
+        prepareRequest: mockPrepareRequest,
+        sendPreparedRequest: mockSendPreparedRequest,
         getSystemPrompt: vi.fn().mockReturnValue('System prompt (test)'),
     })),
 }));
 
+// Mock the context inspector modal
+const mockInspectRequest = vi.fn();
+vi.mock('../src/ui/context_inspector_modal', () => ({
+    inspectRequest: (...args: any[]) => mockInspectRequest(...args),
+}));
+
+// Mock the rewrite preview; tests drive the generator and choose the outcome
+const mockReviewRewrite = vi.fn();
+vi.mock('../src/ui/rewrite_modal', () => ({
+    reviewRewrite: (...args: any[]) => mockReviewRewrite(...args),
+}));
+
+// Mock template loading; the rest of the prompt template module is used as is
+const mockReadPromptTemplate = vi.fn();
+vi.mock('../src/services/prompt_templates', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('../src/services/prompt_templates')>()),
+    readPromptTemplate: (...args: any[]) => mockReadPromptTemplate(...args),
+}));
+
 describe('CommandHandler', () => {
     let plugin: VaultBotPlugin;
     let commandHandler: CommandHandler;
@@ -89,6 +112,7 @@ describe('CommandHandler', () => {
             setCursor: vi.fn(),
             getRange: vi.fn(),
             lastLine: vi.fn(),
+            getValue: vi.fn(),
         };
         
         plugin = {
@@ -569,6 +593,74 @@ describe('CommandHandler', () => {
         });
     });
 
+    describe('Context inspector', () => {
+        const conversationText = 'Previous conversation\n\n----\n\nUser message on current line';
+        const currentLineText = 'User message on current line';
+        const prepared = { messages: [{ role: 'user', content: 'User message on current line' }], notes: [], imageParts: [], dropped: [], model: 'gpt-4o' };
+
+        beforeEach(() => {
+            plugin.settings.inspectContextBeforeSending = true;
+            mockEditor.getSelection.mockReturnValue('');
+            mockEditor.getCursor.mockReturnValue({ line: 4, ch: 10 });
+            mockEditor.getLine.mockReturnValue(currentLineText);
+            mockEditor.getRange.mockReturnValue(conversationText);
+            mockPrepareRequest.mockResolvedValue(prepared);
+        });
+
+        it('should leave the note untouched when the review is cancelled', async () => {
+            mockInspectRequest.mockResolvedValue(null);
+
+            await commandHandler.handleGetResponseBelow(mockEditor as any, mockMarkdownView);
+
+            expect(mockPrepareRequest).toHaveBeenCalledWith(expect.any(Array), undefined, true);
+            expect(mockEditor.replaceRange).not.toHaveBeenCalled();
+            expect(mockSendPreparedRequest).not.toHaveBeenCalled();
+            expect(mockGetStreamingResponseWithConversation).not.toHaveBeenCalled();
+            expect(mockNotice).toHaveBeenCalledWith('Request cancelled');
+            expect(commandHandler.abortController).toBeNull();
+        });
+
+        it('should send the reviewed request', async () => {
+            const reviewed = { ...prepared, messages: [{ role: 'user', content: 'Edited message' }] };
+            mockInspectRequest.mockResolvedValue(reviewed);
+            mockSendPreparedRequest.mockImplementation(async (_request: any, onUpdate: any) => {
+                onUpdate('AI response');
+                return {};
+            });
+
+            await commandHandler.handleGetResponseBelow(mockEditor as any, mockMarkdownView);
+
+            expect(mockInspectRequest).toHaveBeenCalledWith(undefined, prepared);
+            expect(mockSendPreparedRequest).toHaveBeenCalledWith(reviewed, expect.any(Function), expect.any(AbortSignal), expect.any(Function));
+            expect(mockGetStreamingResponseWithConversation).not.toHaveBeenCalled();
+            expect(mockEditor.replaceRange).toHaveBeenCalledWith('AI response', expect.anything(), expect.anything());
+        });
+
+        it('should review a selection sent with Get Response Above', async () => {
+            mockEditor.getSelection.mockReturnValue('Selected question');
+            mockInspectRequest.mockResolvedValue(null);
+
+            await commandHandler.handleGetResponseAbove(mockEditor as any, mockMarkdownView);
+
+            expect(mockPrepareRequest).toHaveBeenCalledWith([{ role: 'user', content: 'Selected question' }], undefined, false);
+            expect(mockEditor.replaceRange).not.toHaveBeenCalled();
+            expect(mockGetStreamingResponse).not.toHaveBeenCalled();
+            expect(commandHandler.abortController).toBeNull();
+
+            const reviewed = { ...prepared, messages: [{ role: 'user', content: 'Selected question' }] };
+            mockInspectRequest.mockResolvedValue(reviewed);
+            mockSendPreparedRequest.mockImplementation(async (_request: any, onUpdate: any) => {
+                onUpdate('AI response');
+                return {};
+            });
+            await commandHandler.handleGetResponseAbove(mockEditor as any, mockMarkdownView);
+
+            expect(mockSendPreparedRequest).toHaveBeenCalledWith(reviewed, expect.any(Function), expect.any(AbortSignal), expect.any(Function));
+            expect(mockGetStreamingResponse).not.toHaveBeenCalled();
+            expect(mockEditor.replaceRange).toHaveBeenCalledWith('AI response', expect.anything(), expect.anything());
+        });
+    });
+
     describe('Position Calculation Methods', () => {
         it('should calculate response start position correctly for single-line content', () => {
             const selectionStart = { line: 2, ch: 10 };
@@ -606,4 +698,295 @@ describe('CommandHandler', () => {
             expect(result).toEqual({ line: 4, ch: 5 }); // line 2 + 2 lines, ch = length of 'final'
         });
     });
+    describe('Prompt templates', () => {
+        beforeEach(() => {
+            mockEditor.getCursor.mockReturnValue({ line: 2, ch: 0 });
+            mockEditor.getValue.mockReturnValue('# Trip\n\nBonjour tout le monde');
+            mockMarkdownView = { file: { path: 'Trip.md', basename: 'Trip' } };
+            mockGetStreamingResponse.mockImplementation(async (_prompt: any, onUpdate: any) => {
+                onUpdate('Hello everyone');
+            });
+        });
+
+        it('should fill in the template and stream the response below the selection', async () => {
+            mockReadPromptTemplate.mockResolvedValue('Translate this from {{title}} into English:\n\n{{selection}}');
+            mockEditor.getSelection.mockReturnValue('Bonjour tout le monde');
+
+            await commandHandler.handleRunPromptTemplate(mockEditor as any, mockMarkdownView, 'Prompts/Translate.md');
+
+            expect(mockReadPromptTemplate).toHaveBeenCalledWith(undefined, 'Prompts/Translate.md');
+            expect(mockEditor.replaceSelection).toHaveBeenCalledWith('Bonjour tout le monde' + plugin.settings.chatSeparator);
+            expect(mockGetStreamingResponse).toHaveBeenCalledWith(
+                'Translate this from Trip into English:\n\nBonjour tout le monde',
+                expect.any(Function),
+                expect.any(AbortSignal),
+                expect.any(Function),
+                mockMarkdownView.file
+            );
+            expect(mockEditor.replaceRange).toHaveBeenCalledWith('Hello everyone', expect.anything(), expect.anything());
+        });
+
+        it('should stream at the cursor when nothing is selected', async () => {
+            mockReadPromptTemplate.mockResolvedValue('Summarize:\n\n{{note}}');
+            mockEditor.getSelection.mockReturnValue('');
+
+            await commandHandler.handleRunPromptTemplate(mockEditor as any, mockMarkdownView, 'Prompts/Summarize.md');
+
+            expect(mockEditor.replaceSelection).toHaveBeenCalledWith('');
+            expect(mockGetStreamingResponse.mock.calls[0][0]).toBe('Summarize:\n\n# Trip\n\nBonjour tout le monde');
+        });
+
+        it('should show a notice when the template is missing', async () => {
+            mockReadPromptTemplate.mockResolvedValue(null);
+
+            await commandHandler.handleRunPromptTemplate(mockEditor as any, mockMarkdownView, 'Prompts/Gone.md');
+
+            expect(mockNotice).toHaveBeenCalledWith('Prompt template not found: Prompts/Gone.md');
+            expect(mockGetStreamingResponse).not.toHaveBeenCalled();
+        });
+    });
+    describe('Rewrite selection', () => {
+        const from = { line: 3, ch: 0 };
+        const to = { line: 3, ch: 24 };
+
+        beforeEach(() => {
+            mockEditor.getSelection.mockReturnValue('Their going to the park.\n');
+            mockEditor.getCursor.mockImplementation((type?: string) => (type === 'to' ? to : from));
+            mockPrepareRequest.mockImplementation(async (messages: any) => ({ messages, notes: [], imageParts: [], dropped: [], model: 'gpt-4o' }));
+            mockSendPreparedRequest.mockImplementation(async (_request: any, onUpdate: any) => {
+                onUpdate('They\'re going ');
+                onUpdate('to the park.');
+                return {};
+            });
+        });
+
+        it('should stream the rewrite into the preview and replace the selection in one edit on accept', async () => {
+            const chunks: string[] = [];
+            mockReviewRewrite.mockImplementation(async (_app: any, original: string, generate: any) => {
+                expect(original).toBe('Their going to the park.\n');
+                await generate('Fix the grammar.', (text: string) => chunks.push(text), new AbortController().signal);
+                return chunks.join('');
+            });
+
+            await commandHandler.handleRewriteSelection(mockEditor as any, mockMarkdownView);
+
+            const prompt = mockSendPreparedRequest.mock.calls[0][0].messages[0].content;
+            expect(prompt).toContain('Fix the grammar.');
+            expect(prompt).toContain('Their going to the park.');
+            expect(mockInspectRequest).not.toHaveBeenCalled();
+            expect(chunks).toEqual(['They\'re going ', 'to the park.']);
+            expect(mockEditor.replaceRange).toHaveBeenCalledTimes(1);
+            expect(mockEditor.replaceRange).toHaveBeenCalledWith('They\'re going to the park.\n', from, to);
+            expect(mockEditor.replaceSelection).not.toHaveBeenCalled();
+            expect(commandHandler.abortController).toBeNull();
+        });
+
+        it('should leave the note untouched when the rewrite is rejected', async () => {
+            mockReviewRewrite.mockResolvedValue(null);
+
+            await commandHandler.handleRewriteSelection(mockEditor as any, mockMarkdownView);
+
+            expect(mockEditor.replaceRange).not.toHaveBeenCalled();
+        });
+
+        it('should let Stop Response abort the current attempt', async () => {
+            let attemptSignal: AbortSignal | undefined;
+            mockSendPreparedRequest.mockImplementation(async (_request: any, _onUpdate: any, signal: AbortSignal) => {
+                attemptSignal = signal;
+                expect(commandHandler.handleStopResponse(false)).toBe(true);
+            });
+            mockReviewRewrite.mockImplementation(async (_app: any, _original: string, generate: any) => {
+                await generate('Shorter.', () => {}, new AbortController().signal);
+                return null;
+            });
+
+            await commandHandler.handleRewriteSelection(mockEditor as any, mockMarkdownView);
+
+            expect(attemptSignal?.aborted).toBe(true);
+        });
+
+        it('should review each attempt when the context inspector is on', async () => {
+            plugin.settings.inspectContextBeforeSending = true;
+            mockInspectRequest.mockResolvedValueOnce(null).mockImplementationOnce(async (_app: any, request: any) => request);
+            const outcomes: string[] = [];
+            mockReviewRewrite.mockImplementation(async (_app: any, _original: string, generate: any) => {
+                for (const instruction of ['Shorter.', 'Formal.']) {
+                    await generate(instruction, () => {}, new AbortController().signal)
+                        .then(() => outcomes.push('sent'), (error: Error) => outcomes.push(error.name));
+                }
+                return null;
+            });
+
+            await commandHandler.handleRewriteSelection(mockEditor as any, mockMarkdownView);
+
+            expect(outcomes).toEqual(['AbortError', 'sent']);
+            expect(mockInspectRequest).toHaveBeenCalledTimes(2);
+            expect(mockSendPreparedRequest).toHaveBeenCalledTimes(1);
+            expect(mockSendPreparedRequest.mock.calls[0][0].messages[0].content).toContain('Formal.');
+            expect(commandHandler.abortController).toBeNull();
+        });
+
+        it('should ask for a selection first', async () => {
+            mockEditor.getSelection.mockReturnValue('  ');
+
+            await commandHandler.handleRewriteSelection(mockEditor as any, mockMarkdownView);
+
+            expect(mockNotice).toHaveBeenCalledWith('Select the text to rewrite first.');
+            expect(mockReviewRewrite).not.toHaveBeenCalled();
+        });
+    });
+    describe('Continue writing', () => {
+        const lines = ['# Essay', '', 'The first argument is', '', 'In conclusion, it holds.'];
+
+        beforeEach(() => {
+            mockEditor.getCursor.mockReturnValue({ line: 2, ch: 21 });
+            mockEditor.lastLine.mockReturnValue(4);
+            mockEditor.getLine.mockImplementation((line: number) => lines[line]);
+            mockEditor.getRange.mockImplementation((from: any) =>
+                from.line === 0 ? '# Essay\n\nThe first argument is' : '\n\nIn conclusion, it holds.');
+            mockGetStreamingResponseWithConversation.mockImplementation(async (_messages: any, onUpdate: any) => {
+                onUpdate(' that the');
+                onUpdate(' premise\nholds.');
+                return {};
+            });
+        });
+
+        it('should send the text before the cursor as a document and stream at the cursor without a separator', async () => {
+            await commandHandler.handleContinueWriting(mockEditor as any, mockMarkdownView);
+
+            const [messages, , , , , isConversationMode] = mockGetStreamingResponseWithConversation.mock.calls[0];
+            expect(messages[0].role).toBe('system');
+            expect(messages[0].content).toContain('System prompt (test)');
+            expect(messages[1].content).toContain('<document>\n# Essay\n\nThe first argument is\n</document>');
+            expect(messages[1].content).not.toContain('In conclusion');
+            expect(isConversationMode).toBe(true);
+
+            expect(mockEditor.replaceRange).toHaveBeenNthCalledWith(1, ' that the', { line: 2, ch: 21 }, { line: 2, ch: 21 });
+            expect(mockEditor.replaceRange).toHaveBeenNthCalledWith(2, ' premise\nholds.', { line: 2, ch: 30 }, { line: 2, ch: 30 });
+            expect(mockEditor.setCursor).toHaveBeenLastCalledWith({ line: 3, ch: 6 });
+            expect(mockEditor.replaceSelection).not.toHaveBeenCalled();
+            expect(mockEditor.replaceRange).not.toHaveBeenCalledWith(expect.stringContaining(plugin.settings.chatSeparator), expect.anything(), expect.anything());
+            expect(commandHandler.abortController).toBeNull();
+        });
+
+        it('should include the text after the cursor for fill-in-the-middle', async () => {
+            await commandHandler.handleContinueWriting(mockEditor as any, mockMarkdownView, true);
+
+            const userMessage = mockGetStreamingResponseWithConversation.mock.calls[0][0][1].content;
+            expect(userMessage).toContain('<before_cursor>\n# Essay\n\nThe first argument is\n</before_cursor>');
+            expect(userMessage).toContain('<after_cursor>\n\n\nIn conclusion, it holds.\n</after_cursor>');
+        });
+
+        it('should show a notice for an empty note', async () => {
+            mockEditor.getRange.mockReturnValue('  ');
+
+            await commandHandler.handleContinueWriting(mockEditor as any, mockMarkdownView, true);
+
+            expect(mockNotice).toHaveBeenCalledWith('There is no text to continue.');
+            expect(mockGetStreamingResponseWithConversation).not.toHaveBeenCalled();
+        });
+    });
+    describe('Labelled conversation turns', () => {
+        beforeEach(() => {
+            plugin.settings.conversationFormat = 'callouts';
+            mockGetStreamingResponseWithConversation.mockImplementation(async (_messages: any, onUpdate: any) => {
+                onUpdate('Line one');
+                onUpdate('\nLine two');
+                return {};
+            });
+        });
+
+        it('should read roles from markers instead of separator parity', async () => {
+            const lines = ['> [!user]', '> First question', '', '> [!assistant]', '> First answer', '', 'Follow-up question'];
+            let cursor = { line: 6, ch: 3 };
+            mockEditor.getSelection.mockReturnValue('');
+            mockEditor.getCursor.mockImplementation(() => cursor);
+            mockEditor.setCursor.mockImplementation((pos: any) => { cursor = pos; });
+            mockEditor.getLine.mockImplementation((line: number) => lines[line]);
+            mockEditor.getRange.mockReturnValue(lines.join('\n'));
+
+            await commandHandler.handleGetResponseBelow(mockEditor as any, mockMarkdownView);
+
+            expect(mockGetStreamingResponseWithConversation.mock.calls[0][0]).toEqual([
+                { role: 'system', content: 'System prompt (test)' },
+                { role: 'user', content: 'First question' },
+                { role: 'assistant', content: 'First answer' },
+                { role: 'user', content: 'Follow-up question' },
+            ]);
+
+            const end = { line: 6, ch: 18 };
+            expect(mockEditor.replaceRange).toHaveBeenNthCalledWith(1, '\n\n> [!assistant]\n> ', end, end);
+            expect(mockEditor.replaceRange).toHaveBeenLastCalledWith('\n\n> [!user]\n> ', { line: 10, ch: 10 }, { line: 10, ch: 10 });
+            expect(mockEditor.replaceRange).toHaveBeenCalledWith('Line one\n> Line two', { line: 9, ch: 2 }, expect.anything());
+            expect(mockEditor.replaceRange).not.toHaveBeenCalledWith(expect.stringContaining('----'), expect.anything(), expect.anything());
+        });
+
+        it('should insert the answer above a user turn in reversed layout', async () => {
+            const lines = ['> [!user]', '> Newest question', '', '> [!assistant]', '> Older answer', '', '> [!user]', '> Older question'];
+            mockEditor.getSelection.mockReturnValue('');
+            mockEditor.getCursor.mockReturnValue({ line: 1, ch: 5 });
+            mockEditor.getLine.mockImplementation((line: number) => lines[line]);
+            mockEditor.lastLine.mockReturnValue(7);
+            mockEditor.getRange.mockReturnValue(lines.join('\n'));
+
+            await commandHandler.handleGetResponseAbove(mockEditor as any, mockMarkdownView);
+
+            expect(mockEditor.getRange).toHaveBeenCalledWith({ line: 0, ch: 0 }, { line: 7, ch: 16 });
+            expect(mockGetStreamingResponseWithConversation.mock.calls[0][0].slice(1)).toEqual([
+                { role: 'user', content: 'Older question' },
+                { role: 'assistant', content: 'Older answer' },
+                { role: 'user', content: 'Newest question' },
+            ]);
+            expect(mockEditor.replaceRange).toHaveBeenNthCalledWith(1, '> [!assistant]\n> \n\n', { line: 0, ch: 0 }, { line: 0, ch: 0 });
+            expect(mockEditor.replaceRange).toHaveBeenLastCalledWith('> [!user]\n> \n\n', { line: 0, ch: 0 }, { line: 0, ch: 0 });
+            expect(mockEditor.setCursor).toHaveBeenLastCalledWith({ line: 1, ch: 2 });
+        });
+
+        it('should wrap a selection and its answer in turns', async () => {
+            mockEditor.getSelection.mockReturnValue('Question');
+            mockEditor.getCursor.mockReturnValue({ line: 0, ch: 0 });
+            mockGetStreamingResponse.mockImplementation(async (_prompt: any, onUpdate: any) => {
+                onUpdate('Answer');
+                return {};
+            });
+
+            await commandHandler.handleGetResponseBelow(mockEditor as any, mockMarkdownView);
+
+            expect(mockEditor.replaceSelection).toHaveBeenCalledWith('> [!user]\n> Question\n\n> [!assistant]\n> ');
+            expect(mockEditor.replaceRange).toHaveBeenCalledWith('\n\n> [!user]\n> ', expect.anything(), expect.anything());
+        });
+
+        it('should answer a selection above it in turns with Get Response Above', async () => {
+            mockEditor.getSelection.mockReturnValue('Question');
+            mockEditor.getCursor.mockReturnValue({ line: 2, ch: 0 });
+            mockGetStreamingResponse.mockImplementation(async (_prompt: any, onUpdate: any) => {
+                onUpdate('Line one');
+                onUpdate('\nLine two');
+                return {};
+            });
+
+            await commandHandler.handleGetResponseAbove(mockEditor as any, mockMarkdownView);
+
+            const lineStart = { line: 2, ch: 0 };
+            expect(mockEditor.replaceRange).toHaveBeenNthCalledWith(1, '> [!assistant]\n> \n\n> [!user]\n> ', lineStart, lineStart);
+            expect(mockEditor.replaceRange).toHaveBeenCalledWith('Line one\n> Line two', { line: 3, ch: 2 }, expect.anything());
+            expect(mockEditor.replaceRange).toHaveBeenLastCalledWith('> [!user]\n> \n\n', lineStart, lineStart);
+            expect(mockEditor.replaceRange).not.toHaveBeenCalledWith(expect.stringContaining('----'), expect.anything(), expect.anything());
+        });
+
+        it('should open an assistant turn rather than answer above a separator line', async () => {
+            const lines = ['> [!user]', '> Question', '----', 'More of the question'];
+            mockEditor.getSelection.mockReturnValue('');
+            mockEditor.getCursor.mockReturnValue({ line: 3, ch: 0 });
+            mockEditor.getLine.mockImplementation((line: number) => lines[line]);
+            mockEditor.lastLine.mockReturnValue(3);
+            mockEditor.getRange.mockReturnValue(lines.slice(3).join('\n'));
+
+            await commandHandler.handleGetResponseAbove(mockEditor as any, mockMarkdownView);
+
+            expect(mockGetStreamingResponse.mock.calls[0][0]).toBe('More of the question');
+            expect(mockEditor.replaceRange).toHaveBeenNthCalledWith(1, '> [!assistant]\n> \n\n', { line: 3, ch: 0 }, { line: 3, ch: 0 });
+            expect(mockEditor.replaceRange).not.toHaveBeenCalledWith(expect.stringContaining('----'), expect.anything(), expect.anything());
+        });
+    });
 });
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { allocateContext, describeContextDrops, estimateMessageTokens, estimateTokens } from '../src/services/context_budget';
+import type { RetrievedNote } from '../src/services/content_retrieval';
+import type { AIMessage } from '../src/providers';
+
+function note(path: string, chars: number, source: RetrievedNote['source'], depth?: number): RetrievedNote {
+  return { file: {} as any, path, title: path.replace(/\.md$/, ''), content: 'x'.repeat(chars), source, depth };
+}
+
+const user = (content: string): AIMessage => ({ role: 'user', content });
+const assistant = (content: string): AIMessage => ({ role: 'assistant', content });
+
+describe('context budget', () => {
+  it('estimates text, image and tool call tokens', () => {
+    expect(estimateTokens('abcdefgh')).toBe(2);
+    expect(estimateMessageTokens(user('abcdefgh'))).toBe(6);
+    expect(estimateMessageTokens({
+      role: 'user',
+      content: [{ type: 'text', text: 'abcd' }, { type: 'image_base64', data: 'AAAA', mime_type: 'image/png' }],
+    })).toBe(1005);
+    expect(estimateMessageTokens({ role: 'assistant', content: '', tool_calls: [{ id: '1', name: 'read', arguments: '{}xx' }] })).toBe(6);
+  });
+
+  it('keeps everything when it fits', () => {
+    const history = [user('hi'), assistant('hello')];
+    const notes = [note('A.md', 400, 'linked', 1)];
+    const result = allocateContext({
+      contextLength: 10000, reservedForResponse: 1000,
+      systemPrompt: { role: 'system', content: 'Be brief' },
+      history, latestTurn: [user('Summarise [[A]]')], notes,
+    });
+
+    expect(result.history).toEqual(history);
+    expect(result.notes).toEqual(notes);
+    expect(result.dropped).toEqual([]);
+    expect(result.budget).toBe(9000);
+  });
+
+  it('keeps the current note before linked notes by depth and keeps the original order', () => {
+    const notes = [
+      note('Deep.md', 4000, 'linked', 2),
+      note('Linked.md', 4000, 'linked', 1),
+      note('Current.md', 4000, 'current'),
+    ];
+    const result = allocateContext({
+      contextLength: 2300, reservedForResponse: 500,
+      history: [], latestTurn: [user('question')], notes,
+    });
+
+    expect(result.notes.map(n => n.path)).toEqual(['Linked.md', 'Current.md']);
+    expect(result.notes[0].content).toContain('[Truncated to fit the context window');
+    expect(result.dropped).toEqual([
+      { kind: 'note', label: 'Linked.md', truncated: true },
+      { kind: 'note', label: 'Deep.md', truncated: false },
+    ]);
+    expect(result.estimatedTokens).toBeLessThanOrEqual(result.budget);
+  });
+
+  it('drops the oldest history first and never starts with an assistant message', () => {
+    const history = [user('a'.repeat(800)), assistant('b'.repeat(800)), user('c'.repeat(40)), assistant('d'.repeat(400))];
+    const result = allocateContext({
+      contextLength: 500, reservedForResponse: 100,
+      history, latestTurn: [user('latest')], notes: [note('Current.md', 800, 'current')],
+    });
+
+    expect(result.notes).toHaveLength(1);
+    expect(result.history).toEqual(history.slice(2));
+    expect(result.dropped).toEqual([{ kind: 'history', label: '2 earlier messages', truncated: false }]);
+
+    const tight = allocateContext({
+      contextLength: 170, reservedForResponse: 50,
+      history, latestTurn: [user('latest')], notes: [],
+    });
+    expect(tight.history).toEqual([]);
+    expect(tight.dropped).toEqual([{ kind: 'history', label: '4 earlier messages', truncated: false }]);
+  });
+
+  it('describes what was dropped', () => {
+    expect(describeContextDrops([
+      { kind: 'note', label: 'A.md', truncated: true },
+      { kind: 'note', label: 'B.md', truncated: false },
+      { kind: 'history', label: '3 earlier messages', truncated: false },
+    ], 'gpt-4o')).toBe('Trimmed context to fit gpt-4o: truncated A.md; left out B.md, 3 earlier messages');
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect, vi } from 'vitest';
+import { TFile } from 'obsidian';
+import {
+  findTurnStart,
+  formatConversation,
+  parseMarkedConversation,
+} from '../src/services/conversation_format';
+import { NoteSaver } from '../src/chat/note_saver';
+import { NoteLoader } from '../src/chat/note_loader';
+import { createChatMessage, createConversation } from '../src/chat/chat_types';
+import { DEFAULT_SETTINGS, type VaultBotPluginSettings } from '../src/settings';
+
+vi.mock('obsidian', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('obsidian')>()),
+  FuzzySuggestModal: class {},
+}));
+
+const turns = [
+  { role: 'user' as const, content: 'What is entropy?' },
+  { role: 'assistant' as const, content: 'A measure of disorder.\n\nIt always increases.' },
+  { role: 'user' as const, content: 'Why?' },
+];
+
+describe('conversation formats', () => {
+  it('writes callouts, headings and separators', () => {
+    expect(formatConversation(turns, 'callouts', '\n---\n')).toBe(
+      '> [!user]\n> What is entropy?\n\n> [!assistant]\n> A measure of disorder.\n> \n> It always increases.\n\n> [!user]\n> Why?'
+    );
+    expect(formatConversation(turns, 'headings', '\n---\n')).toBe(
+      '### User\n\nWhat is entropy?\n\n### Assistant\n\nA measure of disorder.\n\nIt always increases.\n\n### User\n\nWhy?'
+    );
+    expect(formatConversation(turns, 'separator', '\n---\n')).toBe(
+      'What is entropy?\n---\nA measure of disorder.\n\nIt always increases.\n---\nWhy?'
+    );
+  });
+
+  it('reads back what it writes', () => {
+    expect(parseMarkedConversation(formatConversation(turns, 'callouts', ''))).toEqual(turns);
+    expect(parseMarkedConversation(formatConversation(turns, 'headings', ''))).toEqual(turns);
+    expect(parseMarkedConversation('no markers here\n\n----\n\nat all')).toBeNull();
+  });
+
+  it('keeps roles when turns are edited by hand', () => {
+    const text = [
+      '---', 'tags: [chat]', '---',
+      'Opening question without a marker',
+      '',
+      '> [!assistant]- gpt-4o',
+      '> First answer',
+      '',
+      '> [!assistant]',
+      '> continued answer',
+      '',
+      'A follow-up typed below the callout',
+      '',
+      '> [!user]',
+      '>',
+    ].join('\n');
+
+    expect(parseMarkedConversation(text)).toEqual([
+      { role: 'user', content: 'Opening question without a marker' },
+      { role: 'assistant', content: 'First answer\n\ncontinued answer' },
+      { role: 'user', content: 'A follow-up typed below the callout' },
+    ]);
+  });
+
+  it('finds where the turn at the cursor starts', () => {
+    const lines = ['> [!user]', '> Question', '> more', '', 'Plain text', '### User', '', 'Heading question'];
+    const getLine = (line: number) => lines[line];
+
+    expect(findTurnStart(getLine, 2)).toBe(0);
+    expect(findTurnStart(getLine, 4)).toBe(4);
+    expect(findTurnStart(getLine, 7)).toBe(5);
+  });
+
+  it('round-trips a chat through NoteSaver and NoteLoader', async () => {
+    let saved = '';
+    const app: any = {
+      vault: {
+        adapter: { exists: vi.fn(async () => false) },
+        createFolder: vi.fn(),
+        create: vi.fn(async (path: string, content: string) => {
+          saved = content;
+          const file = new TFile();
+          file.path = path;
+          file.basename = path.replace(/\.md$/, '');
+          return file;
+        }),
+        read: vi.fn(async () => saved),
+      },
+    };
+    const settings = { ...DEFAULT_SETTINGS, conversationFormat: 'callouts' } as VaultBotPluginSettings;
+    const conversation = createConversation('Entropy');
+    conversation.messages = turns.map(turn => createChatMessage(turn.role, turn.content));
+
+    const file = await new NoteSaver(app, settings).saveConversationToNote(conversation);
+    expect(saved).toContain('conversation-format: "callouts"');
+    expect(saved).toContain('> [!assistant]\n> A measure of disorder.');
+
+    // Loading doesn't depend on the current setting
+    const loaded = await new NoteLoader(app, DEFAULT_SETTINGS).loadConversationFromNote(file!);
+    expect(loaded!.messages.filter(m => m.role !== 'system').map(m => ({ role: m.role, content: m.content }))).toEqual(turns);
+  });
+});
@@ -0,0 +1,195 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TFile } from 'obsidian';
+import { EmbeddingIndexService, cosineSimilarity } from '../src/services/embedding_index';
+import { ContentRetrievalService } from '../src/services/content_retrieval';
+import type { VaultBotPluginSettings } from '../src/settings';
+
+function makeFile(path: string, mtime = 1): TFile {
+  const file = new TFile();
+  file.path = path;
+  file.name = path.split('/').pop() || path;
+  file.basename = file.name.replace(/\.md$/, '');
+  file.stat = { ctime: 0, mtime, size: 0 };
+  return file;
+}
+
+// A toy embedding: one dimension per concept, so paraphrases land close together
+const CONCEPTS = [['shed', 'outbuilding', 'cabin'], ['bread', 'loaf', 'sourdough'], ['money', 'budget', 'cost']];
+function fakeEmbed(text: string): number[] {
+  const lower = text.toLowerCase();
+  return CONCEPTS.map(words => words.filter(word => lower.includes(word)).length);
+}
+
+describe('cosineSimilarity', () => {
+  it('compares direction and ignores mismatched vectors', () => {
+    expect(cosineSimilarity([1, 0], [2, 0])).toBeCloseTo(1);
+    expect(cosineSimilarity([1, 0], [0, 1])).toBe(0);
+    expect(cosineSimilarity([1, 0], [1, 0, 0])).toBe(0);
+    expect(cosineSimilarity([0, 0], [1, 0])).toBe(0);
+  });
+});
+
+describe('EmbeddingIndexService', () => {
+  let dir: string;
+  let contents: Record<string, string>;
+  let files: TFile[];
+  let app: any;
+  let embed: ReturnType<typeof vi.fn>;
+
+  const createIndex = (model = 'openai:test-embed') =>
+    new EmbeddingIndexService(app, dir, model, embed, (p) => p.startsWith('Private/'));
+
+  beforeEach(async () => {
+    dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'embedding-index-'));
+    contents = {
+      'Projects/Shed.md': '# Shed\n\nBuild the shed before winter.\n\n## Costs\n\nTimber and felt add up, the budget is tight.',
+      'Recipes/Bread.md': '# Sourdough\n\nFeed the starter, then bake the loaf.',
+      'Private/Diary.md': 'Worried about money and the shed.',
+    };
+    files = Object.keys(contents).map(p => makeFile(p));
+    app = {
+      vault: {
+        getMarkdownFiles: () => files,
+        cachedRead: vi.fn(async (file: TFile) => contents[file.path]),
+        getAbstractFileByPath: (p: string) => files.find(f => f.path === p) || null,
+      },
+    };
+    embed = vi.fn(async (texts: string[]) => texts.map(fakeEmbed));
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  });
+
+  it('embeds heading chunks in batches and finds paraphrased matches', async () => {
+    const index = createIndex();
+    await index.sync();
+
+    expect(index.size).toBe(2);
+    // Three chunks from two notes fit in a single request; the excluded note is never sent
+    expect(embed).toHaveBeenCalledTimes(1);
+    expect(embed.mock.calls[0][0]).toHaveLength(3);
+    expect(embed.mock.calls[0][0].join(' ')).not.toContain('Worried');
+
+    const results = await index.search('How much will the outbuilding cost?', 2);
+    expect(results[0]).toMatchObject({ path: 'Projects/Shed.md', heading: 'Costs' });
+    expect((await index.search('a nice loaf', 1))[0].path).toBe('Recipes/Bread.md');
+    await index.close();
+  });
+
+  it('only re-embeds notes whose mtime changed and keeps vectors per model', async () => {
+    const first = createIndex();
+    await first.sync();
+    await first.close();
+    expect(fs.existsSync(path.join(dir, 'vectors.json'))).toBe(true);
+
+    embed.mockClear();
+    contents['Recipes/Bread.md'] = 'Rye cabin loaf.';
+    files[1].stat = { ctime: 0, mtime: 2, size: 0 };
+    const second = createIndex();
+    await second.sync();
+    expect(embed).toHaveBeenCalledTimes(1);
+    expect(embed.mock.calls[0][0]).toEqual(['Bread\nRye cabin loaf.']);
+    await second.close();
+
+    embed.mockClear();
+    const otherModel = createIndex('openai:other-embed');
+    await otherModel.sync();
+    expect(embed.mock.calls[0][0]).toHaveLength(3);
+    await otherModel.close();
+  });
+
+  it('syncs again when asked while a sync is running', async () => {
+    let release!: () => void;
+    const blocked = new Promise<void>(resolve => { release = resolve; });
+    embed.mockImplementationOnce(async (texts: string[]) => {
+      await blocked;
+      return texts.map(fakeEmbed);
+    });
+    const index = createIndex();
+    const running = index.sync();
+    await vi.waitFor(() => expect(embed).toHaveBeenCalledTimes(1));
+
+    // Edited after the running sync listed the vault
+    contents['Recipes/Bread.md'] = 'Rye cabin loaf.';
+    files[1].stat = { ctime: 0, mtime: 2, size: 0 };
+    const second = index.sync();
+    release();
+    await Promise.all([running, second]);
+
+    expect(embed).toHaveBeenCalledTimes(2);
+    expect(embed.mock.calls[1][0]).toEqual(['Bread\nRye cabin loaf.']);
+    expect((await index.search('cabin loaf', 1))[0].path).toBe('Recipes/Bread.md');
+    await index.close();
+  });
+
+  it('writes nothing once closed, even when a sync finishes afterwards', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    try {
+      const index = createIndex();
+      await index.sync();
+
+      let release!: () => void;
+      const blocked = new Promise<void>(resolve => { release = resolve; });
+      embed.mockImplementationOnce(async (texts: string[]) => {
+        await blocked;
+        return texts.map(fakeEmbed);
+      });
+      files[1].stat = { ctime: 0, mtime: 2, size: 0 };
+      const running = index.sync();
+      await vi.waitFor(() => expect(embed).toHaveBeenCalledTimes(2));
+
+      await index.close();
+      await fs.promises.rm(path.join(dir, 'vectors.json'));
+      release();
+      await running;
+      index.onRename(makeFile('Projects/Barn.md'), 'Projects/Shed.md');
+      index.onDelete(files[1]);
+
+      expect(vi.getTimerCount()).toBe(0);
+      expect(fs.existsSync(path.join(dir, 'vectors.json'))).toBe(false);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('moves vectors on rename and forgets deleted notes', async () => {
+    const index = createIndex();
+    await index.sync();
+    embed.mockClear();
+
+    const renamed = makeFile('Recipes/Loaf.md');
+    contents['Recipes/Loaf.md'] = contents['Recipes/Bread.md'];
+    files[1] = renamed;
+    index.onRename(renamed, 'Recipes/Bread.md');
+    await index.sync();
+    expect(embed).not.toHaveBeenCalled();
+    expect((await index.search('sourdough', 1))[0].path).toBe('Recipes/Loaf.md');
+
+    index.onDelete(renamed);
+    expect(index.size).toBe(1);
+    await index.close();
+  });
+
+  it('adds the nearest chunks to retrieved content and skips them when embedding fails', async () => {
+    const index = createIndex();
+    await index.sync();
+    EmbeddingIndexService.setInstance(index);
+    try {
+      const settings = { enableSemanticSearch: true, semanticSearchResults: 1, noteExclusionsLevel1: ['Private/'] } as VaultBotPluginSettings;
+      const service = new ContentRetrievalService(app, settings);
+      const notes = await service.retrieveContent('What will the outbuilding cost?');
+      expect(notes).toHaveLength(1);
+      expect(notes[0]).toMatchObject({ path: 'Projects/Shed.md#Costs', title: 'Shed › Costs', source: 'semantic' });
+
+      embed.mockRejectedValueOnce(new Error('offline'));
+      expect(await service.retrieveContent('What will the outbuilding cost?')).toEqual([]);
+    } finally {
+      EmbeddingIndexService.setInstance(null);
+      await index.close();
+    }
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { TFile } from 'obsidian';
+import { ContentRetrievalService } from '../src/services/content_retrieval';
+import type { VaultBotPluginSettings } from '../src/settings';
+
+function makeFile(path: string): TFile {
+  const file = new TFile();
+  file.path = path;
+  file.name = path.split('/').pop() || path;
+  file.basename = file.name.replace(/\.md$/, '');
+  return file;
+}
+
+describe('ContentRetrievalService graph retrieval', () => {
+  let files: TFile[];
+  let app: any;
+  let tags: Record<string, { tags?: string[]; frontmatter?: Record<string, unknown> }>;
+
+  const current = () => files.find(f => f.path === 'Concepts/Entropy.md')!;
+  const retrieve = (settings: Partial<VaultBotPluginSettings>) =>
+    new ContentRetrievalService(app, { noteExclusionsLevel1: ['Private/'], ...settings } as VaultBotPluginSettings)
+      .retrieveContent('What do my notes say about this?', current());
+
+  beforeEach(() => {
+    const paths = [
+      'Concepts/Entropy.md', 'Papers/Shannon.md', 'Papers/Boltzmann.md', 'Lectures/Week 3.md',
+      'Concepts/Information.md', 'Concepts/Heat.md', 'Private/Journal.md', 'Reading List.md', 'diagram.png',
+    ];
+    files = paths.map(makeFile);
+    tags = {
+      'Concepts/Entropy.md': { tags: ['#physics'] },
+      'Concepts/Heat.md': { frontmatter: { tags: ['physics'] } },
+    };
+    app = {
+      vault: {
+        read: vi.fn(async (file: TFile) => `Content of ${file.basename}`),
+        getAbstractFileByPath: (path: string) => files.find(f => f.path === path) || null,
+        getMarkdownFiles: () => files.filter(f => f.path.endsWith('.md')),
+      },
+      metadataCache: {
+        resolvedLinks: {
+          'Papers/Shannon.md': { 'Concepts/Entropy.md': 3 },
+          'Papers/Boltzmann.md': { 'Concepts/Entropy.md': 1 },
+          'Private/Journal.md': { 'Concepts/Entropy.md': 5 },
+          'Lectures/Week 3.md': { 'Papers/Shannon.md': 1 },
+          'Reading List.md': { 'Private/Journal.md': 1 },
+          'Concepts/Entropy.md': { 'Concepts/Information.md': 1, 'diagram.png': 1 },
+        },
+        getFileCache: (file: TFile) => {
+          const entry = tags[file.path];
+          return entry ? { tags: entry.tags?.map(tag => ({ tag })), frontmatter: entry.frontmatter } : null;
+        },
+        getFirstLinkpathDest: () => null,
+      },
+      workspace: { iterateAllLeaves: () => {} },
+    };
+  });
+
+  it('includes backlinks ranked by link count and labelled', async () => {
+    const notes = await retrieve({ includeBacklinks: true });
+
+    expect(notes.map(n => n.path)).toEqual(['Papers/Shannon.md', 'Papers/Boltzmann.md']);
+    expect(notes[0]).toMatchObject({ source: 'backlink', depth: 1, relation: 'links to Entropy' });
+  });
+
+  it('follows backlinks up to the link recursion depth without walking through excluded notes', async () => {
+    const notes = await retrieve({ includeBacklinks: true, linkRecursionDepth: 2 });
+
+    expect(notes.map(n => n.path)).toEqual(['Papers/Shannon.md', 'Papers/Boltzmann.md', 'Lectures/Week 3.md']);
+    expect(notes[2]).toMatchObject({ depth: 2, relation: 'links to Shannon' });
+  });
+
+  it('adds outgoing links and notes sharing tags in neighborhood mode', async () => {
+    const notes = await retrieve({ includeGraphNeighborhood: true });
+
+    expect(notes.map(n => [n.path, n.relation])).toEqual([
+      ['Papers/Shannon.md', 'links to Entropy'],
+      ['Papers/Boltzmann.md', 'links to Entropy'],
+      ['Concepts/Information.md', 'linked from Entropy'],
+      ['Concepts/Heat.md', 'shares #physics with Entropy'],
+    ]);
+    expect(notes.every(n => n.source === 'graph')).toBe(true);
+  });
+
+  it('labels graph notes in the formatted context', async () => {
+    const service = new ContentRetrievalService(app, { includeBacklinks: true } as VaultBotPluginSettings);
+    const notes = await service.retrieveContent('', current());
+
+    expect(service.formatNotesForAI(notes)).toContain('## Shannon (Papers/Shannon.md) - links to Entropy\n\nContent of Shannon');
+  });
+});
@@ -1,6 +1,8 @@
 import { describe, it, expect, vi } from 'vitest';
+import { TFile } from 'obsidian';
 import { AIProviderWrapper } from '../src/aiprovider';
-import { VaultBotPluginSettings } from '../src/settings';
+import { ContentRetrievalService } from '../src/services/content_retrieval';
+import type { VaultBotPluginSettings } from '../src/settings';
 
 describe('Image extraction regexes', () => {
   it('detects data URI images', () => {
@@ -23,13 +25,62 @@ describe('Image extraction regexes', () => {
   });
 });
 
-describe('AIProviderWrapper image upload integration (stubbed)', () => {
-  it('calls provider uploadImageFromDataURI and replaces reference in message', async () => {
+describe('ContentRetrievalService.findImages', () => {
+  function makeImage(path: string): TFile {
+    const file = new TFile();
+    file.path = path;
+    file.name = path.split('/').pop() || path;
+    file.basename = file.name.replace(/\.[^.]+$/, '');
+    file.extension = file.name.split('.').pop() || '';
+    return file;
+  }
+
+  const diagram = makeImage('Attachments/diagram.png');
+  const app: any = {
+    vault: {
+      readBinary: vi.fn(async () => new Uint8Array([1, 2, 3]).buffer),
+    },
+    metadataCache: {
+      getFirstLinkpathDest: (link: string) => [diagram].find(f => f.path === link || f.name === link) || null,
+    },
+  };
+
+  it('resolves vault embeds, relative paths, remote urls and data URIs', () => {
+    const service = new ContentRetrievalService(app, {} as VaultBotPluginSettings);
+    const images = service.findImages(
+      'See ![[diagram.png|300]], ![alt](Attachments/diagram.png), ![[missing.png]], ![[Note]], ' +
+      '![chart](https://example.com/chart.jpg) and ![d](data:image/jpeg;base64,AAAA)',
+      'Notes/Plan.md'
+    );
+
+    expect(images).toEqual([
+      { sourceType: 'vault', raw: 'Attachments/diagram.png', alt: 'alt', filename: 'diagram.png', mime: 'image/png', file: diagram },
+      { sourceType: 'url', raw: 'https://example.com/chart.jpg', alt: 'chart', filename: 'chart.jpg' },
+      { sourceType: 'data', raw: 'data:image/jpeg;base64,AAAA', alt: 'd', mime: 'image/jpeg' },
+    ]);
+  });
+
+  it('loads image parts, skipping remote images unless enabled', async () => {
+    const text = '![[diagram.png]] ![chart](https://example.com/chart.jpg)';
+    const service = new ContentRetrievalService(app, { includeRemoteImages: false } as VaultBotPluginSettings);
+    expect(await service.loadImageParts(service.findImages(text))).toEqual([
+      { type: 'image_base64', data: 'AQID', mime_type: 'image/png', name: 'Attachments/diagram.png' },
+    ]);
+
+    const remote = new ContentRetrievalService(app, { includeRemoteImages: true } as VaultBotPluginSettings);
+    expect(await remote.loadImageParts(remote.findImages(text))).toContainEqual(
+      { type: 'image_url', url: 'https://example.com/chart.jpg', name: 'chart.jpg' }
+    );
+  });
+});
+
+describe('AIProviderWrapper image parts', () => {
+  it('sends retrieved note images as image parts alongside the text', async () => {
     const settings: VaultBotPluginSettings = {
       apiProvider: 'openai',
       chatSeparator: '---',
-      recordApiCalls: false,
-  includeLinkedNotes: true,
+      recordApiCalls: true,
+      includeLinkedNotes: true,
       aiProviderSettings: {
         openai: {
           api_key: 'test',
@@ -42,48 +93,46 @@ describe('AIProviderWrapper image upload integration (stubbed)', () => {
 
     const wrapper = new AIProviderWrapper(settings as any);
 
-    // Stub contentRetrievalService to return a note with a data-uri image
     const dataUri = 'data:image/png;base64,AAAA';
     const retrievedNote = {
       file: {} as any,
       path: 'note.md',
       title: 'Note',
       content: `Here is an image ![alt](${dataUri})`,
-      images: [ { sourceType: 'data', raw: dataUri, alt: 'alt' } ]
+      images: [ { sourceType: 'data', raw: dataUri, alt: 'alt', mime: 'image/png' } ]
     };
 
+    const realService = new ContentRetrievalService({ vault: {}, metadataCache: {} } as any, settings);
     (wrapper as any).contentRetrievalService = {
-  retrieveContent: async () => [retrievedNote],
-  formatNotesForAI: (notes: any) => '\n\n---\n\n**Included Notes:**\n\n' + notes.map((n: any) => `## ${n.title} (${n.path})\n\n${n.content}`).join('\n\n---\n\n')
+      retrieveContent: async () => [retrievedNote],
+      formatNotesForAI: (notes: any) => '\n\n---\n\n**Included Notes:**\n\n' + notes.map((n: any) => `## ${n.title} (${n.path})\n\n${n.content}`).join('\n\n---\n\n'),
+      findImages: () => [],
+      loadImageParts: (images: any) => realService.loadImageParts(images)
     };
 
-    // Replace provider with a mock that has uploadImageFromDataURI
-    const uploadedUrl = 'https://cdn.example.com/image.png';
     const mockProvider: any = {
-      getStreamingResponseWithConversation: vi.fn().mockResolvedValue(undefined),
+      getStreamingResponseWithConversation: vi.fn().mockResolvedValue({}),
       validateApiKey: vi.fn(),
-      listModels: vi.fn(),
-      uploadImageFromDataURI: vi.fn().mockResolvedValue({ url: uploadedUrl, id: 'file1' })
+      listModels: vi.fn()
     };
-
     (wrapper as any).provider = mockProvider;
 
-    const onUpdate = vi.fn();
-    const abortController = new AbortController();
-
+    const recordingCallback = vi.fn();
     await wrapper.getStreamingResponseWithConversation([
       { role: 'user', content: 'Please analyze my note' }
-    ], onUpdate, abortController.signal);
-
-    // Ensure upload was called with the data URI
-    expect(mockProvider.uploadImageFromDataURI).toHaveBeenCalled();
-    const calledWith = mockProvider.uploadImageFromDataURI.mock.calls[0][0];
-    expect(calledWith).toBe(dataUri);
+    ], vi.fn(), new AbortController().signal, recordingCallback);
 
-    // Ensure provider received a message where the data URI was replaced with uploaded URL
-    expect(mockProvider.getStreamingResponseWithConversation).toHaveBeenCalled();
     const sentMessages = mockProvider.getStreamingResponseWithConversation.mock.calls[0][0];
     const userMsg = sentMessages.find((m: any) => m.role === 'user');
-    expect(userMsg.content).toContain(uploadedUrl);
+    expect(userMsg.content).toHaveLength(2);
+    expect(userMsg.content[0].type).toBe('text');
+    expect(userMsg.content[0].text).toContain('Please analyze my note');
+    expect(userMsg.content[0].text).toContain('## Note (note.md)');
+    expect(userMsg.content[1]).toEqual({ type: 'image_base64', data: 'AAAA', mime_type: 'image/png', name: 'alt' });
+
+    // Recordings get a placeholder instead of the image data
+    const recorded = recordingCallback.mock.calls[0][0].find((m: any) => m.role === 'user');
+    expect(recorded.content).toContain('[image: alt]');
+    expect(recorded.content).not.toContain('\n\nAAAA');
   });
 });
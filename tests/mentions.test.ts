@@ -0,0 +1,103 @@
+import { describe, it, expect, vi } from 'vitest';
+import { TFile, TFolder } from 'obsidian';
+import { collectMentionCandidates, fuzzyScore, getMentionLabel, rankMentions } from '../src/chat/mention_suggest';
+import { ContentRetrievalService, type VaultMention } from '../src/services/content_retrieval';
+import type { VaultBotPluginSettings } from '../src/settings';
+
+function makeFile(path: string, mtime = 0): TFile {
+  const file = new TFile();
+  file.path = path;
+  file.name = path.split('/').pop() || path;
+  file.basename = file.name.replace(/\.md$/, '');
+  file.stat = { ctime: 0, mtime, size: 0 };
+  return file;
+}
+
+function makeFolder(path: string): TFolder {
+  const folder = new TFolder();
+  folder.path = path;
+  folder.name = path.split('/').pop() || path;
+  return folder;
+}
+
+function createApp() {
+  const files = [
+    makeFile('Projects/Alpha/Plan.md', 3),
+    makeFile('Projects/Alpha/Notes.md', 5),
+    makeFile('Projects/Beta.md', 1),
+    makeFile('Private/Alpha diary.md', 4),
+    makeFile('Reading List.md', 2),
+  ];
+  const tags: Record<string, string[]> = {
+    'Projects/Alpha/Plan.md': ['#project/alpha'],
+    'Projects/Beta.md': ['#project/beta'],
+    'Private/Alpha diary.md': ['#project/alpha'],
+  };
+  const app: any = {
+    vault: {
+      read: vi.fn(async (file: TFile) => `Content of ${file.basename}`),
+      getAbstractFileByPath: (path: string) => files.find(f => f.path === path) || null,
+      getMarkdownFiles: () => [...files],
+      getAllLoadedFiles: () => [makeFolder('/'), makeFolder('Projects'), makeFolder('Projects/Alpha'), makeFolder('Private'), ...files],
+    },
+    metadataCache: {
+      getFileCache: (file: TFile) => ({ tags: (tags[file.path] || []).map(tag => ({ tag })) }),
+      getFirstLinkpathDest: () => null,
+    },
+  };
+  return app;
+}
+
+describe('@-mentions', () => {
+  it('fuzzy-matches names ahead of paths and prefers word starts', () => {
+    expect(fuzzyScore('pln', 'Plan')).not.toBeNull();
+    expect(fuzzyScore('npl', 'Plan')).toBeNull();
+    expect(fuzzyScore('rl', 'Reading List')!).toBeGreaterThan(fuzzyScore('rl', 'Unrelated')!);
+
+    const candidates = collectMentionCandidates(createApp());
+    const labels = (query: string) => rankMentions(candidates, query).map(getMentionLabel);
+    expect(labels('alpha').slice(0, 2)).toEqual(['Alpha/', 'Alpha diary']);
+    expect(labels('#proj/al')).toEqual(['#project/alpha']);
+    expect(labels('pa/plan')[0]).toBe('Plan');
+  });
+
+  it('lists notes by recency, then folders and tags including parent tags', () => {
+    expect(collectMentionCandidates(createApp())).toEqual([
+      { kind: 'file', path: 'Projects/Alpha/Notes.md' },
+      { kind: 'file', path: 'Private/Alpha diary.md' },
+      { kind: 'file', path: 'Projects/Alpha/Plan.md' },
+      { kind: 'file', path: 'Reading List.md' },
+      { kind: 'file', path: 'Projects/Beta.md' },
+      { kind: 'folder', path: 'Private' },
+      { kind: 'folder', path: 'Projects' },
+      { kind: 'folder', path: 'Projects/Alpha' },
+      { kind: 'tag', path: '#project' },
+      { kind: 'tag', path: '#project/alpha' },
+      { kind: 'tag', path: '#project/beta' },
+    ]);
+  });
+
+  it('retrieves mentioned notes, folders and tags, applying exclusions to the expanded ones', async () => {
+    const service = new ContentRetrievalService(createApp(), { noteExclusionsLevel1: ['Private/'] } as VaultBotPluginSettings);
+    const retrieve = async (mentions: VaultMention[]) =>
+      (await service.retrieveMentions(mentions)).map(note => [note.path, note.source, note.relation]);
+
+    expect(await retrieve([{ kind: 'folder', path: 'Projects/Alpha' }])).toEqual([
+      ['Projects/Alpha/Notes.md', 'mention', 'in Projects/Alpha/'],
+      ['Projects/Alpha/Plan.md', 'mention', 'in Projects/Alpha/'],
+    ]);
+    expect(await retrieve([{ kind: 'tag', path: '#Project' }])).toEqual([
+      ['Projects/Alpha/Plan.md', 'mention', 'tagged #Project'],
+      ['Projects/Beta.md', 'mention', 'tagged #Project'],
+    ]);
+    // An explicitly mentioned note is sent even though it's excluded, and only once
+    expect(await retrieve([
+      { kind: 'file', path: 'Private/Alpha diary.md' },
+      { kind: 'tag', path: '#project/alpha' },
+      { kind: 'file', path: 'Missing.md' },
+    ])).toEqual([
+      ['Private/Alpha diary.md', 'mention', undefined],
+      ['Projects/Alpha/Plan.md', 'mention', 'tagged #project/alpha'],
+    ]);
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect, vi } from 'vitest';
+import { TFile } from 'obsidian';
+import {
+  branchFrom,
+  getBranchInfo,
+  getSiblings,
+  removeMessage,
+  selectBranch,
+  switchSibling,
+} from '../src/chat/message_tree';
+import { ChatConversation, createChatMessage, createConversation } from '../src/chat/chat_types';
+import { deserializeConversation, serializeConversation } from '../src/chat/chat_storage';
+import { NoteSaver } from '../src/chat/note_saver';
+import { NoteLoader } from '../src/chat/note_loader';
+import { DEFAULT_SETTINGS, type VaultBotPluginSettings } from '../src/settings';
+
+vi.mock('obsidian', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('obsidian')>()),
+  FuzzySuggestModal: class {},
+}));
+
+let clock = 0;
+function message(role: 'user' | 'assistant', content: string) {
+  return createChatMessage(role, content, { timestamp: new Date(Date.UTC(2025, 0, 1, 0, 0, clock++)) });
+}
+
+function contents(conversation: ChatConversation): string[] {
+  return conversation.messages.map(m => m.content);
+}
+
+// Q1 → A1 → Q2 → A2, with A2 regenerated into A2'
+function regeneratedConversation() {
+  const conversation = createConversation('Test');
+  conversation.messages = [message('user', 'Q1'), message('assistant', 'A1'), message('user', 'Q2'), message('assistant', 'A2')];
+  branchFrom(conversation, 3);
+  conversation.messages.push(message('assistant', "A2'"));
+  return conversation;
+}
+
+describe('message tree', () => {
+  it('keeps a regenerated answer as a sibling and switches between them', () => {
+    const conversation = regeneratedConversation();
+    const latest = conversation.messages[3];
+
+    expect(getSiblings(conversation, latest.id).map(m => m.content)).toEqual(['A2', "A2'"]);
+    expect(getBranchInfo(conversation, latest.id)).toEqual({ index: 1, count: 2 });
+    expect(getBranchInfo(conversation, conversation.messages[2].id)).toEqual({ index: 0, count: 1 });
+
+    expect(switchSibling(conversation, latest.id, 1)).toBe(false);
+    expect(switchSibling(conversation, latest.id, -1)).toBe(true);
+    expect(contents(conversation)).toEqual(['Q1', 'A1', 'Q2', 'A2']);
+    expect(conversation.alternates!.map(m => m.content)).toEqual(["A2'"]);
+    expect(conversation.messages[3].parentId).toBeUndefined();
+  });
+
+  it('returns to the answers that were showing when switching back to an edited turn', () => {
+    const conversation = regeneratedConversation();
+    const originalQ2 = conversation.messages[2];
+
+    // Edit Q2: the old turn and both answers become a branch
+    branchFrom(conversation, 2);
+    conversation.messages.push(message('user', 'Q2 edited'), message('assistant', 'A3'));
+    expect(getBranchInfo(conversation, conversation.messages[2].id)).toEqual({ index: 1, count: 2 });
+
+    expect(selectBranch(conversation, originalQ2.id)).toBe(true);
+    expect(contents(conversation)).toEqual(['Q1', 'A1', 'Q2', "A2'"]);
+    expect(getBranchInfo(conversation, conversation.messages[3].id)).toEqual({ index: 1, count: 2 });
+
+    switchSibling(conversation, originalQ2.id, 1);
+    expect(contents(conversation)).toEqual(['Q1', 'A1', 'Q2 edited', 'A3']);
+  });
+
+  it('deletes a branch and shows its neighbour, or removes a single message', () => {
+    const conversation = regeneratedConversation();
+    removeMessage(conversation, conversation.messages[3].id);
+    expect(contents(conversation)).toEqual(['Q1', 'A1', 'Q2', 'A2']);
+    expect(conversation.alternates).toEqual([]);
+
+    // Q2's alternate answers now hang off A1 once Q2 itself is gone
+    branchFrom(conversation, 3);
+    conversation.messages.push(message('assistant', "A2'"));
+    removeMessage(conversation, conversation.messages[2].id);
+    expect(contents(conversation)).toEqual(['Q1', 'A1', "A2'"]);
+    expect(conversation.alternates![0].parentId).toBe(conversation.messages[1].id);
+  });
+
+  it('persists alternates in storage JSON', () => {
+    const conversation = regeneratedConversation();
+    const restored = deserializeConversation(JSON.parse(JSON.stringify(serializeConversation(conversation))));
+
+    expect(restored.alternates![0].timestamp).toBeInstanceOf(Date);
+    expect(switchSibling(restored, restored.messages[3].id, -1)).toBe(true);
+    expect(contents(restored)).toEqual(['Q1', 'A1', 'Q2', 'A2']);
+  });
+
+  it('round-trips alternates through NoteSaver and NoteLoader', async () => {
+    let saved = '';
+    const app: any = {
+      vault: {
+        adapter: { exists: vi.fn(async () => false) },
+        createFolder: vi.fn(),
+        create: vi.fn(async (path: string, content: string) => {
+          saved = content;
+          const file = new TFile();
+          file.path = path;
+          file.basename = path.replace(/\.md$/, '');
+          return file;
+        }),
+        read: vi.fn(async () => saved),
+      },
+    };
+    const settings = { ...DEFAULT_SETTINGS, conversationFormat: 'headings' } as VaultBotPluginSettings;
+    const conversation = regeneratedConversation();
+    const file = await new NoteSaver(app, settings).saveConversationToNote(conversation);
+    expect(saved).toMatch(/^alternates: \[\{.*"parent":2.*\}\]$/m);
+    expect(saved).not.toContain('\nA2\n');
+
+    const loaded = (await new NoteLoader(app, DEFAULT_SETTINGS).loadConversationFromNote(file!))!;
+    const answer = loaded.messages[loaded.messages.length - 1];
+    expect(answer.content).toBe("A2'");
+    expect(getBranchInfo(loaded, answer.id)).toEqual({ index: 1, count: 2 });
+    expect(switchSibling(loaded, answer.id, -1)).toBe(true);
+    expect(loaded.messages[loaded.messages.length - 1].content).toBe('A2');
+  });
+});
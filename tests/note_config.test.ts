@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { TFile } from 'obsidian';
+import { resolveNoteSettings } from '../src/services/note_config';
+import type { VaultBotPluginSettings } from '../src/settings';
+
+vi.mock('openai', () => ({ default: vi.fn() }));
+
+function makeFile(path: string): TFile {
+  const file = new TFile();
+  file.path = path;
+  file.name = path.split('/').pop() || path;
+  file.basename = file.name.replace(/\.md$/, '');
+  return file;
+}
+
+describe('resolveNoteSettings', () => {
+  let frontmatter: Record<string, unknown> | undefined;
+  let app: any;
+  let settings: VaultBotPluginSettings;
+  const note = makeFile('Drafts/Essay.md');
+  const persona = makeFile('Personas/Editor.md');
+
+  beforeEach(() => {
+    frontmatter = undefined;
+    app = {
+      vault: {
+        cachedRead: vi.fn(async () => '---\ntags: [persona]\n---\nYou are a strict copy editor.\n'),
+      },
+      metadataCache: {
+        getFileCache: () => (frontmatter ? { frontmatter } : null),
+        getFirstLinkpathDest: (link: string) => (link === 'Personas/Editor' || link === 'Editor' ? persona : null),
+      },
+    };
+    settings = {
+      apiProvider: 'openai',
+      includeLinkedNotes: false,
+      aiProviderSettings: {
+        openai: { api_key: 'sk-openai', model: 'gpt-4o', temperature: 1, system_prompt: 'Be helpful.' },
+        anthropic: { api_key: 'sk-anthropic', model: 'claude-sonnet-4', temperature: 1 },
+      },
+    } as unknown as VaultBotPluginSettings;
+  });
+
+  it('returns the global settings when the note has no frontmatter', async () => {
+    const result = await resolveNoteSettings(app, settings, note);
+
+    expect(result.settings).toBe(settings);
+    expect(result.overrides).toEqual([]);
+  });
+
+  it('applies provider, model, temperature, inline prompt and linked-note overrides', async () => {
+    frontmatter = {
+      'vault-bot-provider': 'anthropic',
+      'vault-bot-model': 'claude-opus-4',
+      'vault-bot-temperature': '0.2',
+      'vault-bot-system-prompt': 'Answer in French.',
+      'vault-bot-include-linked': 'yes',
+    };
+    const result = await resolveNoteSettings(app, settings, note);
+
+    expect(result.problems).toEqual([]);
+    expect(result.settings.apiProvider).toBe('anthropic');
+    expect(result.settings.includeLinkedNotes).toBe(true);
+    expect(result.settings.aiProviderSettings.anthropic).toMatchObject({
+      api_key: 'sk-anthropic', model: 'claude-opus-4', temperature: 0.2, system_prompt: 'Answer in French.',
+    });
+    expect(settings.apiProvider).toBe('openai');
+    expect(settings.aiProviderSettings.anthropic).toMatchObject({ model: 'claude-sonnet-4' });
+  });
+
+  it('reads the system prompt from a linked prompt note without its frontmatter', async () => {
+    frontmatter = { 'vault-bot-system-prompt': '[[Personas/Editor|editor]]' };
+    const result = await resolveNoteSettings(app, settings, note);
+
+    expect(result.settings.aiProviderSettings.openai).toMatchObject({ system_prompt: 'You are a strict copy editor.' });
+    expect(app.vault.cachedRead).toHaveBeenCalledWith(persona);
+  });
+
+  it('reports invalid values and keeps the global value for them', async () => {
+    frontmatter = {
+      'vault-bot-provider': 'mystery-ai',
+      'vault-bot-temperature': 5,
+      'vault-bot-system-prompt': '[[Missing Persona]]',
+      'vault-bot-include-linked': 'sometimes',
+      'vault-bot-model': 'gpt-4o-mini',
+    };
+    const result = await resolveNoteSettings(app, settings, note);
+
+    expect(result.overrides).toEqual(['vault-bot-model']);
+    expect(result.problems).toEqual([
+      'unknown provider "mystery-ai"',
+      'vault-bot-temperature must be a number from 0 to 2',
+      'prompt note "Missing Persona" not found',
+      'vault-bot-include-linked must be true or false',
+    ]);
+    expect(result.settings.apiProvider).toBe('openai');
+    expect(result.settings.includeLinkedNotes).toBe(false);
+    expect(result.settings.aiProviderSettings.openai).toMatchObject({ model: 'gpt-4o-mini', temperature: 1, system_prompt: 'Be helpful.' });
+  });
+
+  it('uses the provider defaults when the requested provider was never configured', async () => {
+    frontmatter = { 'vault-bot-provider': 'openrouter' };
+    const result = await resolveNoteSettings(app, settings, note);
+
+    expect(result.settings.apiProvider).toBe('openrouter');
+    expect(result.settings.aiProviderSettings.openrouter).toBeDefined();
+  });
+});
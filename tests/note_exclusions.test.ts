@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { TFile } from 'obsidian';
+import { globToRegExp, matchesExclusionRules, parseExclusionRule } from '../src/services/note_exclusions';
+import { ContentRetrievalService } from '../src/services/content_retrieval';
+import type { VaultBotPluginSettings } from '../src/settings';
+
+const noCache = () => null;
+const withCache = (cache: any) => () => cache;
+
+describe('note exclusion rules', () => {
+  it('keeps folder, path and suffix rules', () => {
+    expect(matchesExclusionRules(['Private/'], 'Private/Diary.md', noCache)).toBe(true);
+    expect(matchesExclusionRules(['Private/'], 'Work/Private notes.md', noCache)).toBe(false);
+    expect(matchesExclusionRules(['Diary.md'], 'Private/Diary.md', noCache)).toBe(true);
+    expect(matchesExclusionRules(['Private/Diary.md'], 'Private/Diary.md', noCache)).toBe(true);
+    expect(matchesExclusionRules(['iary.md'], 'Private/Diary.md', noCache)).toBe(false);
+  });
+
+  it('matches globs against the whole path', () => {
+    expect(globToRegExp('**/journal/*.md').test('Personal/journal/2025-01-01.md')).toBe(true);
+    expect(globToRegExp('**/journal/*.md').test('journal/2025-01-01.md')).toBe(true);
+    expect(globToRegExp('**/journal/*.md').test('Personal/journal/old/2020.md')).toBe(false);
+    expect(globToRegExp('Daily/202?-*.md').test('Daily/2025-03-04.md')).toBe(true);
+    expect(globToRegExp('Daily/[!0-9]*.md').test('Daily/Template.md')).toBe(true);
+    expect(globToRegExp('Daily/[!0-9]*.md').test('Daily/2025.md')).toBe(false);
+    expect(globToRegExp('a+b (copy).md').test('a+b (copy).md')).toBe(true);
+  });
+
+  it('matches regexes and reports invalid ones', () => {
+    expect(matchesExclusionRules(['/\\.excalidraw\\.md$/'], 'Drawings/plan.excalidraw.md', noCache)).toBe(true);
+    expect(matchesExclusionRules(['/^health/i'], 'Health/Sleep.md', noCache)).toBe(true);
+
+    const invalid = parseExclusionRule('/[unclosed/');
+    expect(invalid.kind).toBe('regex');
+    expect(invalid.error).toContain('Invalid regular expression');
+    expect(matchesExclusionRules(['/[unclosed/'], 'anything.md', noCache)).toBe(false);
+  });
+
+  it('matches nested tags from the body and frontmatter', () => {
+    const bodyTag = withCache({ tags: [{ tag: '#Private/health' }] });
+    expect(matchesExclusionRules(['#private'], 'a.md', bodyTag)).toBe(true);
+    expect(matchesExclusionRules(['#private/health'], 'a.md', bodyTag)).toBe(true);
+    expect(matchesExclusionRules(['#priv'], 'a.md', bodyTag)).toBe(false);
+    expect(matchesExclusionRules(['#private'], 'a.md', withCache({ frontmatter: { tags: ['private/finance'] } }))).toBe(true);
+    expect(matchesExclusionRules(['#private'], 'a.md', withCache({ frontmatter: { tags: 'work, private' } }))).toBe(true);
+  });
+
+  it('matches frontmatter properties', () => {
+    const excluded = withCache({ frontmatter: { 'vault-bot': 'Exclude' } });
+    expect(matchesExclusionRules(['vault-bot: exclude'], 'a.md', excluded)).toBe(true);
+    expect(matchesExclusionRules(['vault-bot: include'], 'a.md', excluded)).toBe(false);
+    expect(matchesExclusionRules(['private:'], 'a.md', withCache({ frontmatter: { private: true } }))).toBe(true);
+    expect(matchesExclusionRules(['private:'], 'a.md', withCache({ frontmatter: { private: false } }))).toBe(false);
+    expect(matchesExclusionRules(['status: secret'], 'a.md', withCache({ frontmatter: { status: ['draft', 'secret'] } }))).toBe(true);
+  });
+
+  it('only looks up metadata once and only for rules that need it', () => {
+    let lookups = 0;
+    const counting = () => { lookups++; return { tags: [{ tag: '#x' }] } as any; };
+    matchesExclusionRules(['Private/', '**/*.canvas'], 'a.md', counting);
+    expect(lookups).toBe(0);
+    matchesExclusionRules(['#y', 'vault-bot: exclude', '#x'], 'a.md', counting);
+    expect(lookups).toBe(1);
+  });
+
+  it('is used by ContentRetrievalService.isExcluded for each level', () => {
+    const file = new TFile();
+    file.path = 'Personal/journal/today.md';
+    const app: any = {
+      vault: { getAbstractFileByPath: () => file },
+      metadataCache: { getFileCache: () => ({ frontmatter: { 'vault-bot': 'exclude' } }) },
+    };
+    const service = new ContentRetrievalService(app, {
+      noteExclusionsLevel1: ['**/journal/*.md'],
+      noteExclusionsDeepLink: ['vault-bot: exclude'],
+    } as VaultBotPluginSettings);
+
+    expect(service.isExcluded('Personal/journal/today.md', 1)).toBe(true);
+    expect(service.isExcluded('Personal/journal/today.md', 2)).toBe(true);
+    expect(service.isExcluded('Personal/ideas.md', 1)).toBe(false);
+  });
+
+  it('leaves out an excluded current note', async () => {
+    const file = new TFile();
+    file.path = 'Personal/diary.md';
+    file.basename = 'diary';
+    const app: any = {
+      vault: { getAbstractFileByPath: () => file, read: async () => 'Private thoughts' },
+      metadataCache: { getFileCache: () => ({ frontmatter: { 'vault-bot': 'exclude' } }) },
+    };
+    const retrieve = (rules: string[]) => new ContentRetrievalService(app, {
+      includeCurrentNote: true,
+      noteExclusionsLevel1: rules,
+    } as VaultBotPluginSettings).retrieveContent('Summarize this', file);
+
+    expect(await retrieve(['vault-bot: exclude'])).toEqual([]);
+    expect((await retrieve([])).map(note => note.path)).toEqual(['Personal/diary.md']);
+  });
+});
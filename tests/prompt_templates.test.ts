@@ -0,0 +1,85 @@
+import { describe, it, expect, vi } from 'vitest';
+import { TFile } from 'obsidian';
+import {
+  isInTemplatesFolder,
+  listPromptTemplates,
+  readPromptTemplate,
+  renderPromptTemplate,
+  templateCommandId,
+  usesVariable,
+} from '../src/services/prompt_templates';
+
+function makeFile(path: string): TFile {
+  const file = new TFile();
+  file.path = path;
+  file.name = path.split('/').pop() || path;
+  file.basename = file.name.replace(/\.md$/, '');
+  return file;
+}
+
+describe('prompt templates', () => {
+  const context = {
+    selection: 'Bonjour',
+    note: '# Trip\n\nBonjour',
+    title: 'Trip',
+    frontmatter: { language: 'French', tags: ['travel', 'draft'] },
+    clipboard: 'copied text',
+    date: new Date(2025, 2, 4, 15, 30),
+  };
+
+  it('fills in the built-in and frontmatter variables', () => {
+    const template = 'Translate {{ selection }} from {{frontmatter.language}} ({{frontmatter.tags}}) in {{title}} on {{date}}.\n{{clipboard}}\n{{note}}';
+
+    expect(renderPromptTemplate(template, context)).toBe(
+      'Translate Bonjour from French (travel, draft) in Trip on 2025-03-04.\ncopied text\n# Trip\n\nBonjour'
+    );
+  });
+
+  it('leaves unknown variables as written and empties missing frontmatter keys', () => {
+    expect(renderPromptTemplate('{{author}} / {{frontmatter.missing}} / {{clipboard}}', { ...context, clipboard: undefined }))
+      .toBe('{{author}} /  / ');
+  });
+
+  it('detects which variables a template uses', () => {
+    expect(usesVariable('Rewrite {{ clipboard }}', 'clipboard')).toBe(true);
+    expect(usesVariable('Rewrite {{selection}}', 'clipboard')).toBe(false);
+  });
+
+  it('lists notes in the templates folder and its subfolders as commands', () => {
+    const files = ['Prompts/Summarize.md', 'Prompts/Translate/French.md', 'Prompts Archive/Old.md', 'Notes/Prompts.md'].map(makeFile);
+    const app: any = { vault: { getMarkdownFiles: () => files } };
+
+    expect(listPromptTemplates(app, '/Prompts/')).toEqual([
+      { path: 'Prompts/Summarize.md', name: 'Summarize', commandId: 'prompt-template-summarize' },
+      { path: 'Prompts/Translate/French.md', name: 'Translate/French', commandId: 'prompt-template-translate-french' },
+    ]);
+    expect(listPromptTemplates(app, '')).toEqual([]);
+    expect(isInTemplatesFolder('Prompts/New.md', 'Prompts')).toBe(true);
+    expect(isInTemplatesFolder('Prompts Archive/Old.md', 'Prompts')).toBe(false);
+    expect(templateCommandId('Critique (strict)')).toBe('prompt-template-critique-strict');
+  });
+
+  it('gives templates whose names slugify alike their own command ids', () => {
+    const files = ['Prompts/A B.md', 'Prompts/A-B.md', 'Prompts/a b 2.md'].map(makeFile);
+    const app: any = { vault: { getMarkdownFiles: () => files } };
+
+    const ids = listPromptTemplates(app, 'Prompts').map(template => template.commandId);
+    expect(ids).toHaveLength(3);
+    expect(new Set(ids).size).toBe(3);
+    expect(ids).toContain('prompt-template-a-b');
+    expect(ids).toContain('prompt-template-a-b-2');
+  });
+
+  it('reads the template body without its frontmatter', async () => {
+    const file = makeFile('Prompts/Critique.md');
+    const app: any = {
+      vault: {
+        getAbstractFileByPath: (path: string) => (path === file.path ? file : null),
+        cachedRead: vi.fn(async () => '---\ndescription: Harsh critique\n---\nCritique {{selection}}\n'),
+      },
+    };
+
+    expect(await readPromptTemplate(app, 'Prompts/Critique.md')).toBe('Critique {{selection}}');
+    expect(await readPromptTemplate(app, 'Prompts/Missing.md')).toBeNull();
+  });
+});
@@ -0,0 +1,221 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { AnthropicProvider } from '../../src/providers/anthropic';
+import type { AnthropicProviderSettings } from '../../src/providers/anthropic';
+
+// Helper to build a fetch Response whose body streams the given SSE events
+function createSseResponse(events: Array<Record<string, any>>, chunkSplit = false): Response {
+    const encoder = new TextEncoder();
+    const payload = events
+        .map(e => `event: ${e.type}\ndata: ${JSON.stringify(e)}\n\n`)
+        .join('');
+    const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+            if (chunkSplit) {
+                // Split mid-event to exercise buffering across reads
+                const mid = Math.floor(payload.length / 2);
+                controller.enqueue(encoder.encode(payload.slice(0, mid)));
+                controller.enqueue(encoder.encode(payload.slice(mid)));
+            } else {
+                controller.enqueue(encoder.encode(payload));
+            }
+            controller.close();
+        }
+    });
+    return new Response(stream, { status: 200 });
+}
+
+function textDelta(text: string) {
+    return { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text } };
+}
+
+describe('AnthropicProvider', () => {
+    let provider: AnthropicProvider;
+    let settings: AnthropicProviderSettings;
+    let fetchMock: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+        settings = {
+            api_key: 'test-api-key',
+            model: 'claude-sonnet-4-0',
+            system_prompt: 'You are a helpful assistant.',
+            temperature: 0.7,
+            max_tokens: 1024
+        };
+        fetchMock = vi.fn();
+        vi.stubGlobal('fetch', fetchMock);
+        provider = new AnthropicProvider(settings);
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('should stream text deltas from the SSE response', async () => {
+        fetchMock.mockResolvedValue(createSseResponse([
+            { type: 'message_start', message: { id: 'msg_1' } },
+            textDelta('Hello'),
+            textDelta(' world'),
+            { type: 'message_stop' }
+        ], true));
+
+        const onUpdate = vi.fn();
+        await provider.getStreamingResponse('Hi', onUpdate, new AbortController().signal);
+
+        expect(onUpdate).toHaveBeenCalledTimes(2);
+        expect(onUpdate).toHaveBeenNthCalledWith(1, 'Hello');
+        expect(onUpdate).toHaveBeenNthCalledWith(2, ' world');
+    });
+
+    it('should return usage, stop reason, model and message id', async () => {
+        fetchMock.mockResolvedValue(createSseResponse([
+            { type: 'message_start', message: { id: 'msg_1', model: 'claude-sonnet-4-20250514', usage: { input_tokens: 30, output_tokens: 1 } } },
+            textDelta('Hello'),
+            { type: 'message_delta', delta: { stop_reason: 'end_turn' }, usage: { output_tokens: 7 } },
+            { type: 'message_stop' }
+        ]));
+
+        const metadata = await provider.getStreamingResponse('Hi', vi.fn(), new AbortController().signal);
+
+        expect(metadata).toEqual({
+            request_id: 'msg_1',
+            model: 'claude-sonnet-4-20250514',
+            finish_reason: 'end_turn',
+            usage: { prompt_tokens: 30, completion_tokens: 7, total_tokens: 37 }
+        });
+    });
+
+    it('should send system messages as the top-level system field', async () => {
+        fetchMock.mockResolvedValue(createSseResponse([textDelta('ok')]));
+
+        await provider.getStreamingResponseWithConversation([
+            { role: 'system', content: 'Be terse.' },
+            { role: 'user', content: 'Question' },
+            { role: 'assistant', content: 'Answer' },
+            { role: 'user', content: 'Follow up' }
+        ], vi.fn(), new AbortController().signal);
+
+        const [url, init] = fetchMock.mock.calls[0];
+        expect(url).toBe('https://api.anthropic.com/v1/messages');
+        expect(init.headers['x-api-key']).toBe('test-api-key');
+        expect(init.headers['anthropic-version']).toBeDefined();
+
+        const body = JSON.parse(init.body);
+        expect(body.system).toBe('Be terse.');
+        expect(body.stream).toBe(true);
+        expect(body.max_tokens).toBe(1024);
+        expect(body.temperature).toBe(0.7);
+        expect(body.messages).toEqual([
+            { role: 'user', content: 'Question' },
+            { role: 'assistant', content: 'Answer' },
+            { role: 'user', content: 'Follow up' }
+        ]);
+    });
+
+    it('should merge consecutive same-role turns and clamp temperature', async () => {
+        settings.temperature = 1.6;
+        fetchMock.mockResolvedValue(createSseResponse([textDelta('ok')]));
+
+        await provider.getStreamingResponseWithConversation([
+            { role: 'user', content: 'One' },
+            { role: 'user', content: 'Two' }
+        ], vi.fn(), new AbortController().signal);
+
+        const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+        expect(body.temperature).toBe(1);
+        expect(body.system).toBeUndefined();
+        expect(body.messages).toEqual([{ role: 'user', content: 'One\n\nTwo' }]);
+    });
+
+    it('should send tools, convert tool turns and collect tool_use blocks', async () => {
+        fetchMock.mockResolvedValue(createSseResponse([
+            { type: 'message_start', message: { id: 'msg_1' } },
+            { type: 'content_block_start', index: 0, content_block: { type: 'tool_use', id: 'toolu_2', name: 'read_note', input: {} } },
+            { type: 'content_block_delta', index: 0, delta: { type: 'input_json_delta', partial_json: '{"path":' } },
+            { type: 'content_block_delta', index: 0, delta: { type: 'input_json_delta', partial_json: '"Plan.md"}' } },
+            { type: 'message_delta', delta: { stop_reason: 'tool_use' }, usage: { output_tokens: 9 } }
+        ], true));
+
+        const tools = [{ name: 'read_note', description: 'Read a note', parameters: { type: 'object', properties: {} } }];
+        const metadata = await provider.getStreamingResponseWithConversation([
+            { role: 'user', content: 'Summarise my plan' },
+            { role: 'assistant', content: 'Looking.', tool_calls: [{ id: 'toolu_1', name: 'list_folder', arguments: '{"path":"/"}' }] },
+            { role: 'tool', tool_call_id: 'toolu_1', name: 'list_folder', content: 'Plan.md' }
+        ], vi.fn(), new AbortController().signal, { tools });
+
+        const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+        expect(body.tools).toEqual([{ name: 'read_note', description: 'Read a note', input_schema: { type: 'object', properties: {} } }]);
+        expect(body.messages).toEqual([
+            { role: 'user', content: 'Summarise my plan' },
+            { role: 'assistant', content: [
+                { type: 'text', text: 'Looking.' },
+                { type: 'tool_use', id: 'toolu_1', name: 'list_folder', input: { path: '/' } }
+            ] },
+            { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'toolu_1', content: 'Plan.md' }] }
+        ]);
+        expect(metadata.finish_reason).toBe('tool_use');
+        expect(metadata.tool_calls).toEqual([{ id: 'toolu_2', name: 'read_note', arguments: '{"path":"Plan.md"}' }]);
+    });
+
+    it('should throw a friendly error on HTTP failure', async () => {
+        fetchMock.mockResolvedValue(new Response('bad request', { status: 400 }));
+
+        await expect(
+            provider.getStreamingResponse('Hi', vi.fn(), new AbortController().signal)
+        ).rejects.toThrow('Failed to get response from Anthropic.');
+    });
+
+    it('should throw when the stream reports an error event', async () => {
+        fetchMock.mockResolvedValue(createSseResponse([
+            textDelta('partial'),
+            { type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } }
+        ]));
+
+        await expect(
+            provider.getStreamingResponse('Hi', vi.fn(), new AbortController().signal)
+        ).rejects.toThrow('Failed to get response from Anthropic.');
+    });
+
+    it('should handle abort errors gracefully', async () => {
+        const abortError = new Error('aborted');
+        abortError.name = 'AbortError';
+        fetchMock.mockRejectedValue(abortError);
+
+        const onUpdate = vi.fn();
+        await provider.getStreamingResponse('Hi', onUpdate, new AbortController().signal);
+        expect(onUpdate).not.toHaveBeenCalled();
+    });
+
+    describe('validateApiKey', () => {
+        it('should return valid for a 200 response', async () => {
+            fetchMock.mockResolvedValue(new Response('{}', { status: 200 }));
+            expect(await provider.validateApiKey()).toEqual({ valid: true });
+        });
+
+        it('should report an invalid key on 401', async () => {
+            fetchMock.mockResolvedValue(new Response('unauthorized', { status: 401 }));
+            expect(await provider.validateApiKey()).toEqual({ valid: false, error: 'Invalid API key' });
+        });
+    });
+
+    describe('listModels', () => {
+        it('should map the models endpoint to ModelInfo', async () => {
+            fetchMock.mockResolvedValue(new Response(JSON.stringify({
+                data: [
+                    { id: 'claude-opus-4-0', display_name: 'Claude Opus 4' },
+                    { id: 'claude-3-5-haiku-latest', display_name: 'Claude 3.5 Haiku' }
+                ]
+            }), { status: 200 }));
+
+            const models = await provider.listModels();
+            expect(models.map(m => m.id)).toEqual(['claude-3-5-haiku-latest', 'claude-opus-4-0']);
+            expect(models[0].context_length).toBe(200000);
+        });
+
+        it('should fall back to a static list on failure', async () => {
+            fetchMock.mockRejectedValue(new Error('network down'));
+            const models = await provider.listModels();
+            expect(models.length).toBeGreaterThan(0);
+            expect(models.every(m => m.id.startsWith('claude'))).toBe(true);
+        });
+    });
+});
@@ -4,6 +4,7 @@ import { OpenAIProvider, OpenAIProviderSettings } from "../../src/providers/open
 
 // Mock the entire 'openai' module
 const mockCreate = vi.fn();
+const mockEmbeddingsCreate = vi.fn();
 vi.mock("openai", () => {
     const MockOpenAI = vi.fn().mockImplementation(() => ({
         chat: {
@@ -11,6 +12,9 @@ vi.mock("openai", () => {
                 create: mockCreate,
             },
         },
+        embeddings: {
+            create: mockEmbeddingsCreate,
+        },
     }));
     return {
         default: MockOpenAI,
@@ -83,6 +87,7 @@ describe("OpenAIProvider", () => {
                 ],
                 temperature: 1.0,
                 stream: true,
+                stream_options: { include_usage: true },
             },
             { signal: abortController.signal }
         );
@@ -93,6 +98,91 @@ describe("OpenAIProvider", () => {
         expect(onUpdate).toHaveBeenNthCalledWith(3, "!");
     });
 
+    it("should return usage, finish reason, model and request id from the stream", async () => {
+        async function* streamWithUsage() {
+            yield { id: "chatcmpl-1", model: "gpt-4o-2024-08-06", choices: [{ delta: { content: "Hi" } }] };
+            yield { id: "chatcmpl-1", model: "gpt-4o-2024-08-06", choices: [{ delta: {}, finish_reason: "stop" }] };
+            // Final usage chunk has no choices
+            yield { id: "chatcmpl-1", model: "gpt-4o-2024-08-06", choices: [], usage: { prompt_tokens: 12, completion_tokens: 3, total_tokens: 15 } };
+        }
+        mockCreate.mockResolvedValue(streamWithUsage());
+
+        const metadata = await provider.getStreamingResponse("Test prompt", vi.fn(), new AbortController().signal);
+
+        expect(metadata).toEqual({
+            request_id: "chatcmpl-1",
+            model: "gpt-4o-2024-08-06",
+            finish_reason: "stop",
+            usage: { prompt_tokens: 12, completion_tokens: 3, total_tokens: 15 },
+        });
+    });
+
+    it("should send tools and assemble streamed tool calls", async () => {
+        async function* streamWithToolCall() {
+            yield { choices: [{ delta: { tool_calls: [{ index: 0, id: "call_1", function: { name: "read_note", arguments: "" } }] } }] };
+            yield { choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: "{\"path\":" } }] } }] };
+            yield { choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: "\"Plan.md\"}" } }] }, finish_reason: "tool_calls" }] };
+        }
+        mockCreate.mockResolvedValue(streamWithToolCall());
+
+        const tools = [{ name: "read_note", description: "Read a note", parameters: { type: "object", properties: {} } }];
+        const metadata = await provider.getStreamingResponseWithConversation(
+            [
+                { role: "user", content: "Summarise my plan" },
+                { role: "assistant", content: "", tool_calls: [{ id: "call_0", name: "list_folder", arguments: "{}" }] },
+                { role: "tool", tool_call_id: "call_0", name: "list_folder", content: "Plan.md" },
+            ],
+            vi.fn(),
+            new AbortController().signal,
+            { tools }
+        );
+
+        expect(mockCreate).toHaveBeenCalledWith(
+            expect.objectContaining({
+                tools: [{ type: "function", function: { name: "read_note", description: "Read a note", parameters: { type: "object", properties: {} } } }],
+                messages: [
+                    { role: "user", content: "Summarise my plan" },
+                    { role: "assistant", content: null, tool_calls: [{ id: "call_0", type: "function", function: { name: "list_folder", arguments: "{}" } }] },
+                    { role: "tool", tool_call_id: "call_0", content: "Plan.md" },
+                ],
+            }),
+            expect.anything()
+        );
+        expect(metadata.finish_reason).toBe("tool_calls");
+        expect(metadata.tool_calls).toEqual([{ id: "call_1", name: "read_note", arguments: "{\"path\":\"Plan.md\"}" }]);
+    });
+
+    it("should send image parts as image_url content", async () => {
+        mockCreate.mockResolvedValue(createMockStream(["A diagram"]));
+
+        await provider.getStreamingResponseWithConversation(
+            [{
+                role: "user",
+                content: [
+                    { type: "text", text: "What is in this diagram?" },
+                    { type: "image_base64", data: "iVBORw0KGgo=", mime_type: "image/png", name: "diagram.png" },
+                    { type: "image_url", url: "https://example.com/chart.jpg" },
+                ],
+            }],
+            vi.fn(),
+            new AbortController().signal
+        );
+
+        expect(mockCreate).toHaveBeenCalledWith(
+            expect.objectContaining({
+                messages: [{
+                    role: "user",
+                    content: [
+                        { type: "text", text: "What is in this diagram?" },
+                        { type: "image_url", image_url: { url: "data:image/png;base64,iVBORw0KGgo=" } },
+                        { type: "image_url", image_url: { url: "https://example.com/chart.jpg" } },
+                    ],
+                }],
+            }),
+            expect.anything()
+        );
+    });
+
     it("should handle abort errors gracefully", async () => {
         mockCreate.mockRejectedValue(new MockAbortError());
 
@@ -151,4 +241,22 @@ describe("OpenAIProvider", () => {
         expect(onUpdate).toHaveBeenNthCalledWith(3, " world");
         expect(onUpdate).toHaveBeenNthCalledWith(4, "");
     });
+
+    it("should embed texts and return vectors in input order", async () => {
+        mockEmbeddingsCreate.mockResolvedValue({
+            data: [
+                { index: 1, embedding: [0, 1] },
+                { index: 0, embedding: [1, 0] },
+            ],
+        });
+        const controller = new AbortController();
+
+        const vectors = await provider.embed(["first", "second"], "text-embedding-3-small", controller.signal);
+
+        expect(vectors).toEqual([[1, 0], [0, 1]]);
+        expect(mockEmbeddingsCreate).toHaveBeenCalledWith(
+            { model: "text-embedding-3-small", input: ["first", "second"] },
+            { signal: controller.signal }
+        );
+    });
 });
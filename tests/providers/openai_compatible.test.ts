@@ -0,0 +1,153 @@
+import OpenAI from "openai";
+import { vi, expect, describe, it, beforeEach, afterEach } from "vitest";
+import {
+    OpenAICompatibleProvider,
+    normalizeBaseUrl,
+    parseHeaderLines,
+    formatHeaderLines,
+    type OpenAICompatibleProviderSettings
+} from "../../src/providers/openai_compatible";
+
+// Mock the entire 'openai' module
+const mockCreate = vi.fn();
+const mockModelsList = vi.fn();
+vi.mock("openai", () => {
+    const MockOpenAI = vi.fn().mockImplementation(() => ({
+        chat: {
+            completions: {
+                create: mockCreate,
+            },
+        },
+        models: {
+            list: mockModelsList,
+        },
+    }));
+    return {
+        default: MockOpenAI,
+    };
+});
+
+async function* createMockStream(chunks: string[]) {
+    for (const chunk of chunks) {
+        yield {
+            choices: [{ delta: { content: chunk } }],
+        };
+    }
+}
+
+describe("OpenAICompatibleProvider", () => {
+    let settings: OpenAICompatibleProviderSettings;
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        settings = {
+            api_key: "",
+            model: "llama3.1",
+            system_prompt: "You are a helpful assistant.",
+            temperature: 0.5,
+            base_url: "http://localhost:11434/v1/",
+            headers: { "X-Custom": "yes" },
+        };
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it("should configure the OpenAI client with base URL, headers and a placeholder key", () => {
+        new OpenAICompatibleProvider(settings);
+
+        expect(OpenAI).toHaveBeenCalledWith({
+            apiKey: "not-needed",
+            baseURL: "http://localhost:11434/v1",
+            defaultHeaders: { "X-Custom": "yes" },
+            dangerouslyAllowBrowser: true,
+        });
+    });
+
+    it("should pass a configured API key through", () => {
+        settings.api_key = "secret";
+        new OpenAICompatibleProvider(settings);
+
+        expect(vi.mocked(OpenAI).mock.calls[0][0]).toMatchObject({ apiKey: "secret" });
+    });
+
+    it("should stream through the shared OpenAI path", async () => {
+        mockCreate.mockResolvedValue(createMockStream(["Local", " answer"]));
+        const provider = new OpenAICompatibleProvider(settings);
+        const onUpdate = vi.fn();
+
+        await provider.getStreamingResponse("Hi", onUpdate, new AbortController().signal);
+
+        expect(mockCreate).toHaveBeenCalledWith(
+            expect.objectContaining({ model: "llama3.1", temperature: 0.5, stream: true }),
+            expect.anything()
+        );
+        expect(onUpdate).toHaveBeenNthCalledWith(1, "Local");
+        expect(onUpdate).toHaveBeenNthCalledWith(2, " answer");
+    });
+
+    it("should name the server in streaming errors", async () => {
+        mockCreate.mockRejectedValue(new Error("connection refused"));
+        const provider = new OpenAICompatibleProvider(settings);
+
+        await expect(
+            provider.getStreamingResponse("Hi", vi.fn(), new AbortController().signal)
+        ).rejects.toThrow("Failed to get response from OpenAI-compatible server.");
+    });
+
+    it("should list every model the server reports without filtering", async () => {
+        mockModelsList.mockResolvedValue({
+            data: [{ id: "mistral", owned_by: "library" }, { id: "llama3.1", owned_by: "library" }],
+        });
+        const provider = new OpenAICompatibleProvider(settings);
+
+        const models = await provider.listModels();
+        expect(models.map(m => m.id)).toEqual(["llama3.1", "mistral"]);
+    });
+
+    it("should fall back to the configured model when listing fails", async () => {
+        mockModelsList.mockRejectedValue(new Error("offline"));
+        const provider = new OpenAICompatibleProvider(settings);
+
+        const models = await provider.listModels();
+        expect(models).toEqual([{ id: "llama3.1", name: "llama3.1", description: "Configured model" }]);
+    });
+
+    it("should report an unreachable server during validation", async () => {
+        mockModelsList.mockRejectedValue(new Error("fetch failed"));
+        const provider = new OpenAICompatibleProvider(settings);
+
+        const result = await provider.validateApiKey();
+        expect(result.valid).toBe(false);
+        expect(result.error).toContain("http://localhost:11434/v1");
+    });
+
+    it("should upload images against the configured base URL with custom headers", async () => {
+        const fetchMock = vi.fn().mockResolvedValue({ ok: true, json: async () => ({ id: "file-1" }) });
+        vi.stubGlobal("fetch", fetchMock);
+        const provider = new OpenAICompatibleProvider(settings);
+
+        await provider.uploadImageFromUrl!("https://example.com/a.png");
+
+        const [url, init] = fetchMock.mock.calls[0];
+        expect(url).toBe("http://localhost:11434/v1/files");
+        expect(init.headers["X-Custom"]).toBe("yes");
+        expect(init.headers["Authorization"]).toBeUndefined();
+    });
+});
+
+describe("OpenAI-compatible helpers", () => {
+    it("normalizes base URLs", () => {
+        expect(normalizeBaseUrl("http://host:1234/v1///")).toBe("http://host:1234/v1");
+        expect(normalizeBaseUrl("  ")).toBe("http://localhost:11434/v1");
+        expect(normalizeBaseUrl(undefined)).toBe("http://localhost:11434/v1");
+    });
+
+    it("round-trips header lines", () => {
+        const parsed = parseHeaderLines("X-One: 1\ninvalid line\n: nope\nX-Two:  two words ");
+        expect(parsed).toEqual({ "X-One": "1", "X-Two": "two words" });
+        expect(formatHeaderLines(parsed)).toBe("X-One: 1\nX-Two: two words");
+        expect(formatHeaderLines(undefined)).toBe("");
+    });
+});
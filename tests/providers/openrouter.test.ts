@@ -97,6 +97,24 @@ describe('OpenRouterProvider', () => {
         expect(onUpdate).toHaveBeenCalledWith('!');
     });
 
+    it('should return usage and response metadata from streamText', async () => {
+        vi.mocked(streamText).mockResolvedValue({
+            textStream: createMockAsyncIterable(['Hi']),
+            usage: Promise.resolve({ inputTokens: 20, outputTokens: 5, totalTokens: 25 }),
+            finishReason: Promise.resolve('stop'),
+            response: Promise.resolve({ id: 'gen-123', modelId: 'openai/gpt-4o-2024-08-06' })
+        } as any);
+
+        const metadata = await provider.getStreamingResponse('Test prompt', onUpdate, abortController.signal);
+
+        expect(metadata).toEqual({
+            usage: { prompt_tokens: 20, completion_tokens: 5, total_tokens: 25 },
+            finish_reason: 'stop',
+            model: 'openai/gpt-4o-2024-08-06',
+            request_id: 'gen-123'
+        });
+    });
+
     it('should handle optional headers correctly when not provided', async () => {
         const settingsWithoutOptionals: OpenRouterProviderSettings = {
             api_key: 'test-api-key',
@@ -124,6 +142,31 @@ describe('OpenRouterProvider', () => {
         });
     });
 
+    it('should send image parts as image content', async () => {
+        vi.mocked(streamText).mockResolvedValue({
+            textStream: createMockAsyncIterable(['A diagram'])
+        } as any);
+
+        await provider.getStreamingResponseWithConversation([{
+            role: 'user',
+            content: [
+                { type: 'text', text: 'What is in this diagram?' },
+                { type: 'image_base64', data: 'iVBORw0KGgo=', mime_type: 'image/png', name: 'diagram.png' },
+                { type: 'image_url', url: 'https://example.com/chart.jpg' }
+            ]
+        }], onUpdate, abortController.signal);
+
+        const messages = vi.mocked(streamText).mock.lastCall![0].messages as any[];
+        expect(messages).toEqual([{
+            role: 'user',
+            content: [
+                { type: 'text', text: 'What is in this diagram?' },
+                { type: 'image', image: 'iVBORw0KGgo=', mediaType: 'image/png' },
+                { type: 'image', image: new URL('https://example.com/chart.jpg') }
+            ]
+        }]);
+    });
+
     it('should handle abort errors gracefully', async () => {
         const error = new Error('Request aborted');
         error.name = 'AbortError';
@@ -140,7 +183,7 @@ describe('OpenRouterProvider', () => {
                 onUpdate,
                 abortController.signal
             )
-        ).resolves.toBeUndefined();
+        ).resolves.toEqual({});
 
         expect(onUpdate).not.toHaveBeenCalled();
     });
@@ -0,0 +1,72 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ProviderRegistry, type ProviderDefinition } from '../../src/providers/registry';
+import type { AIProviderSettings } from '../../src/providers/base';
+
+vi.mock('openai', () => ({ default: vi.fn() }));
+
+function createDefinition(id: string, create = vi.fn(() => ({}) as any)): ProviderDefinition {
+    return {
+        id,
+        displayName: `Test ${id}`,
+        defaultSettings: () => ({ api_key: '', model: `${id}-model` }) as AIProviderSettings,
+        createProvider: create,
+        modelPlaceholder: `${id}-model`,
+        apiKey: { label: `${id} key`, description: '', placeholder: '' },
+    };
+}
+
+describe('ProviderRegistry', () => {
+    it('registers the built-in providers in dropdown order', () => {
+        const ids = ProviderRegistry.getInstance().getAll().map(d => d.id);
+        expect(ids).toEqual(['openai', 'openrouter', 'anthropic', 'openai-compatible']);
+    });
+
+    it('creates providers through the registered factory', () => {
+        const registry = new ProviderRegistry();
+        const create = vi.fn(() => ({ listModels: vi.fn() }) as any);
+        registry.register(createDefinition('custom', create));
+
+        const settings = { api_key: 'k' };
+        registry.createProvider('custom', settings);
+
+        expect(create).toHaveBeenCalledWith(settings);
+    });
+
+    it('throws for unknown providers', () => {
+        const registry = new ProviderRegistry();
+        expect(() => registry.createProvider('missing', { api_key: '' })).toThrow(
+            'Unsupported AI provider: missing'
+        );
+    });
+
+    it('rejects duplicate registrations', () => {
+        const registry = new ProviderRegistry();
+        registry.register(createDefinition('custom'));
+        expect(() => registry.register(createDefinition('custom'))).toThrow(
+            'AI provider already registered: custom'
+        );
+    });
+
+    it('fills in missing defaults without overwriting existing settings', () => {
+        const registry = new ProviderRegistry();
+        registry.register(createDefinition('a'));
+        registry.register(createDefinition('b'));
+
+        const existing: Record<string, AIProviderSettings> = { a: { api_key: 'keep' } };
+        registry.ensureDefaults(existing);
+
+        expect(existing.a).toEqual({ api_key: 'keep' });
+        expect(existing.b).toEqual({ api_key: '', model: 'b-model' });
+    });
+
+    it('builds independent default settings objects', () => {
+        const registry = new ProviderRegistry();
+        registry.register(createDefinition('a'));
+
+        const first = registry.buildDefaultSettings();
+        const second = registry.buildDefaultSettings();
+        first.a.api_key = 'changed';
+
+        expect(second.a.api_key).toBe('');
+    });
+});
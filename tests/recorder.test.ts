@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { recordChatCall } from '../src/recorder';
+import { recordChatCall, applyResponseMetadata } from '../src/recorder';
 import { resolveAiCallsDir } from '../src/storage_paths';
 import * as fs from 'fs';
 import * as path from 'path';
@@ -119,4 +119,40 @@ describe('recordChatCall', () => {
       expect(val.length).toBeGreaterThan(19);
     }
   });
+
+  it('writes token usage, finish reason and request id into the header and response', async () => {
+    const dir = resolveAiCallsDir();
+    const nowIso = new Date().toISOString();
+    const request = { provider: 'openai', model: 'gpt-4o', messages: [{ role: 'user', content: 'a' }], options: null, timestamp: nowIso };
+    const response = applyResponseMetadata(
+      { content: 'b', provider: 'openai', model: 'gpt-4o', timestamp: nowIso, duration_ms: 1 },
+      {
+        usage: { prompt_tokens: 10, completion_tokens: 4, total_tokens: 14 },
+        finish_reason: 'stop',
+        model: 'gpt-4o-2024-08-06',
+        request_id: 'chatcmpl-1',
+      }
+    );
+
+    const r = await recordChatCall({ dir, provider: 'openai', model: 'gpt-4o', request, response });
+    if ('error' in r) throw new Error(r.error);
+    const text = await fs.promises.readFile(r.filePath, 'utf8');
+
+    expect(text).toContain('\nprompt_tokens: 10\n');
+    expect(text).toContain('\ncompletion_tokens: 4\n');
+    expect(text).toContain('\ntotal_tokens: 14\n');
+    expect(text).toContain('\nfinish_reason: stop\n');
+    expect(text).toContain('\nrequest_id: chatcmpl-1\n');
+
+    const responseBlock = text.match(/## Response[\s\S]*?```+json\n([\s\S]*?)\n```+/);
+    const parsed = JSON.parse(responseBlock![1]);
+    expect(parsed.model).toBe('gpt-4o-2024-08-06');
+    expect(parsed.usage.total_tokens).toBe(14);
+  });
+
+  it('leaves the response untouched when no metadata is available', () => {
+    const response = { content: 'b', provider: 'openai', model: 'gpt-4o', timestamp: '', duration_ms: 1 };
+    expect(applyResponseMetadata(response, undefined)).toBe(response);
+    expect(applyResponseMetadata(response, {})).toEqual(response);
+  });
 });
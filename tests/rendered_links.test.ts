@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { TFile } from 'obsidian';
+import { ContentRetrievalService } from '../src/services/content_retrieval';
+import type { VaultBotPluginSettings } from '../src/settings';
+
+// What each note renders to: its text and the internal links in the rendered DOM
+const rendered: Record<string, { text: string; hrefs: string[] }> = {};
+const components = { loaded: 0, unloaded: 0 };
+
+vi.mock('obsidian', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('obsidian')>();
+  return {
+    ...actual,
+    Component: class { load() { components.loaded++; } unload() { components.unloaded++; } },
+    MarkdownRenderer: {
+      renderMarkdown: vi.fn(async (_markdown: string, container: any, sourcePath: string) => {
+        if (sourcePath === 'Broken.md') throw new Error('Renderer failed');
+        const output = rendered[sourcePath] || { text: '', hrefs: [] };
+        container.innerText = output.text;
+        container.anchors = output.hrefs.map(href => ({ getAttribute: (name: string) => (name === 'data-href' ? href : null) }));
+      }),
+    },
+  };
+});
+
+function makeFile(path: string): TFile {
+  const file = new TFile();
+  file.path = path;
+  file.name = path.split('/').pop() || path;
+  file.basename = file.name.replace(/\.md$/, '');
+  return file;
+}
+
+describe('ContentRetrievalService rendered HTML links', () => {
+  let files: TFile[];
+  let app: any;
+
+  const retrieve = (settings: Partial<VaultBotPluginSettings>) =>
+    new ContentRetrievalService(app, {
+      includeLinkedNotes: true,
+      extractNotesInReadingView: true,
+      linkRecursionDepth: 2,
+      noteExclusionsDeepLink: ['Archive/'],
+      ...settings,
+    } as VaultBotPluginSettings).retrieveContent('Summarise [[Reading Index]]');
+
+  beforeEach(() => {
+    files = ['Reading Index.md', 'Papers/Shannon.md', 'Papers/Boltzmann.md', 'Archive/Old.md', 'Papers/Deep.md'].map(makeFile);
+    Object.assign(rendered, {
+      'Reading Index.md': { text: 'Papers: Shannon, Boltzmann, Old', hrefs: ['Shannon', 'Boltzmann%20Paper#^key', 'Old', 'https://example.com'] },
+      'Papers/Shannon.md': { text: 'Shannon text', hrefs: ['Deep'] },
+      'Papers/Boltzmann.md': { text: 'Boltzmann text', hrefs: [] },
+      'Archive/Old.md': { text: 'Old text', hrefs: [] },
+      'Papers/Deep.md': { text: 'Deep text', hrefs: [] },
+    });
+    vi.stubGlobal('document', {
+      createElement: () => ({
+        innerText: '',
+        anchors: [] as any[],
+        querySelectorAll(this: any) { return this.anchors; },
+      }),
+    });
+    app = {
+      vault: {
+        read: vi.fn(async () => '```dataview\nLIST FROM "Papers"\n```'),
+        getAbstractFileByPath: (path: string) => files.find(f => f.path === path) || null,
+      },
+      metadataCache: {
+        getFirstLinkpathDest: (link: string) =>
+          files.find(f => f.basename === link || (link === 'Boltzmann Paper' && f.basename === 'Boltzmann')) || null,
+        getFileCache: () => null,
+      },
+      workspace: { iterateAllLeaves: () => {} },
+    };
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('follows links generated in the rendered note within the depth limit and exclusions', async () => {
+    const notes = await retrieve({ includeLinksInRenderedHTML: true });
+
+    expect(notes.map(n => [n.path, n.depth])).toEqual([
+      ['Reading Index.md', 1],
+      ['Papers/Shannon.md', 2],
+      ['Papers/Boltzmann.md', 2],
+    ]);
+    expect(notes[0].content).toBe('Papers: Shannon, Boltzmann, Old');
+    expect(notes[0].renderedLinks).toContainEqual({ path: 'Boltzmann Paper', block: 'key', section: undefined, alias: undefined });
+  });
+
+  it('ignores rendered links when the option is off', async () => {
+    const notes = await retrieve({ includeLinksInRenderedHTML: false });
+
+    expect(notes.map(n => n.path)).toEqual(['Reading Index.md']);
+    expect(notes[0].renderedLinks).toBeUndefined();
+  });
+
+  it('unloads the render component when rendering fails', async () => {
+    files.push(makeFile('Broken.md'));
+    components.loaded = 0;
+    components.unloaded = 0;
+    const notes = await new ContentRetrievalService(app, {
+      includeLinkedNotes: true,
+      extractNotesInReadingView: true,
+    } as VaultBotPluginSettings).retrieveContent('See [[Broken]]');
+
+    expect(notes[0].content).toContain('dataview');
+    expect(components.loaded).toBe(1);
+    expect(components.unloaded).toBe(1);
+  });
+});
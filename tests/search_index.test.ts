@@ -0,0 +1,148 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TFile } from 'obsidian';
+import { SearchIndexService, splitIntoPassages, tokenize } from '../src/services/search_index';
+import { ContentRetrievalService } from '../src/services/content_retrieval';
+import type { VaultBotPluginSettings } from '../src/settings';
+
+function makeFile(path: string, mtime = 1): TFile {
+  const file = new TFile();
+  file.path = path;
+  file.name = path.split('/').pop() || path;
+  file.basename = file.name.replace(/\.md$/, '');
+  file.stat = { ctime: 0, mtime, size: 0 };
+  return file;
+}
+
+describe('search index text processing', () => {
+  it('tokenizes into lowercase words without stop words', () => {
+    expect(tokenize('What is the Garden-Shed budget for 2025?')).toEqual(['garden', 'shed', 'budget', '2025']);
+    expect(tokenize('Café über naïve')).toEqual(['café', 'über', 'naïve']);
+  });
+
+  it('splits notes into passages at headings and skips frontmatter', () => {
+    const passages = splitIntoPassages('---\ntags: [a]\n---\nIntro line\n\n## Tools\nHammer\n\nSaw\n\n# Costs\n\n400 total');
+    expect(passages).toEqual([
+      { heading: undefined, text: 'Intro line' },
+      { heading: 'Tools', text: 'Hammer\n\nSaw' },
+      { heading: 'Costs', text: '400 total' },
+    ]);
+  });
+
+  it('breaks long sections at paragraph boundaries', () => {
+    const paragraph = 'word '.repeat(150).trim();
+    const passages = splitIntoPassages(`# Long\n\n${paragraph}\n\n${paragraph}\n\n${paragraph}`);
+    expect(passages.length).toBeGreaterThan(1);
+    expect(passages.every(p => p.heading === 'Long' && p.text.length <= 1200)).toBe(true);
+  });
+});
+
+describe('SearchIndexService', () => {
+  let dir: string;
+  let contents: Record<string, string>;
+  let files: TFile[];
+  let app: any;
+  let excluded: string[];
+
+  const createIndex = () => new SearchIndexService(app, dir, (p) => excluded.some(prefix => p.startsWith(prefix)));
+
+  beforeEach(async () => {
+    dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'search-index-'));
+    contents = {
+      'Projects/Shed.md': '# Shed\n\nBuild the garden shed before winter.\n\n## Budget\n\nThe shed budget is 400 for timber and roofing felt.',
+      'Recipes/Bread.md': '# Sourdough\n\nFeed the starter, then bake the bread at 240 degrees.',
+      'Private/Diary.md': 'Worried about the shed budget again.',
+    };
+    files = Object.keys(contents).map(p => makeFile(p));
+    excluded = ['Private/'];
+    app = {
+      vault: {
+        getMarkdownFiles: () => files,
+        cachedRead: vi.fn(async (file: TFile) => contents[file.path]),
+        getAbstractFileByPath: (p: string) => files.find(f => f.path === p) || null,
+      },
+    };
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  });
+
+  it('ranks passages with BM25 and leaves out excluded notes', async () => {
+    const index = createIndex();
+    await index.initialize();
+
+    expect(index.size).toBe(2);
+    const results = index.search('how much is the shed budget?', 5);
+    expect(results[0]).toMatchObject({ path: 'Projects/Shed.md', heading: 'Budget' });
+    expect(results.map(r => r.path)).not.toContain('Private/Diary.md');
+    expect(index.search('sourdough', 5).map(r => r.path)).toEqual(['Recipes/Bread.md']);
+    expect(index.search('the and of', 5)).toEqual([]);
+    await index.close();
+  });
+
+  it('updates incrementally on modify, rename and delete', async () => {
+    const index = createIndex();
+    await index.initialize();
+
+    contents['Recipes/Bread.md'] = 'Rye crackers with caraway.';
+    files[1].stat = { ctime: 0, mtime: 2, size: 0 };
+    await index.onModify(files[1]);
+    expect(index.search('sourdough', 5)).toEqual([]);
+    expect(index.search('caraway', 5)[0].path).toBe('Recipes/Bread.md');
+
+    const renamed = makeFile('Recipes/Crackers.md', 2);
+    contents['Recipes/Crackers.md'] = contents['Recipes/Bread.md'];
+    files[1] = renamed;
+    await index.onRename(renamed, 'Recipes/Bread.md');
+    expect(index.search('caraway', 5).map(r => r.path)).toEqual(['Recipes/Crackers.md']);
+
+    index.onDelete(renamed);
+    expect(index.search('caraway', 5)).toEqual([]);
+    expect(index.size).toBe(1);
+    await index.close();
+  });
+
+  it('persists the index and only re-reads changed notes on the next start', async () => {
+    const first = createIndex();
+    await first.initialize();
+    await first.close();
+    expect(fs.existsSync(path.join(dir, 'bm25.json'))).toBe(true);
+
+    app.vault.cachedRead.mockClear();
+    contents['Projects/Shed.md'] += '\n\nRemember the gutter.';
+    files[0].stat = { ctime: 0, mtime: 5, size: 0 };
+
+    const second = createIndex();
+    await second.initialize();
+    expect(app.vault.cachedRead).toHaveBeenCalledTimes(1);
+    expect(app.vault.cachedRead).toHaveBeenCalledWith(files[0]);
+    expect(second.search('gutter', 5)[0].path).toBe('Projects/Shed.md');
+    expect(second.search('sourdough', 5)[0].path).toBe('Recipes/Bread.md');
+    await second.close();
+  });
+
+  it('adds search passages to retrieved content', async () => {
+    const index = createIndex();
+    await index.initialize();
+    SearchIndexService.setInstance(index);
+    try {
+      const settings = { enableVaultSearch: true, vaultSearchResults: 1, noteExclusionsLevel1: ['Private/'] } as VaultBotPluginSettings;
+      const service = new ContentRetrievalService(app, settings);
+      const notes = await service.retrieveContent('What is the shed budget?');
+
+      expect(notes).toHaveLength(1);
+      expect(notes[0]).toMatchObject({
+        path: 'Projects/Shed.md#Budget',
+        title: 'Shed › Budget',
+        content: 'The shed budget is 400 for timber and roofing felt.',
+        source: 'search',
+      });
+    } finally {
+      SearchIndexService.setInstance(null);
+      await index.close();
+    }
+  });
+});
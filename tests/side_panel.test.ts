@@ -102,6 +102,11 @@ vi.mock('obsidian', () => ({
         return setting;
     }),
     Notice: vi.fn(),
+    Modal: class MockModal {
+        constructor(public app: any) {}
+        open() {}
+        close() {}
+    },
     FuzzySuggestModal: class MockFuzzySuggestModal {
         constructor(public app: any) {}
         open() {}
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { diffWords } from '../src/utils/text_diff';
+
+const join = (parts: ReturnType<typeof diffWords>, types: string[]) =>
+  parts.filter(part => types.includes(part.type)).map(part => part.text).join('');
+
+describe('diffWords', () => {
+  it('marks replaced, added and removed words', () => {
+    const parts = diffWords('The quick brown fox jumps.', 'The fast brown fox leaps high.');
+
+    expect(parts).toEqual([
+      { type: 'equal', text: 'The ' },
+      { type: 'delete', text: 'quick' },
+      { type: 'insert', text: 'fast' },
+      { type: 'equal', text: ' brown fox ' },
+      { type: 'delete', text: 'jumps.' },
+      { type: 'insert', text: 'leaps high.' },
+    ]);
+  });
+
+  it('rebuilds both texts from the parts', () => {
+    const original = 'First line\n\nSecond  line with   spacing';
+    const rewritten = 'First line\n\nA second line, tidied';
+    const parts = diffWords(original, rewritten);
+
+    expect(join(parts, ['equal', 'delete'])).toBe(original);
+    expect(join(parts, ['equal', 'insert'])).toBe(rewritten);
+  });
+
+  it('handles empty texts', () => {
+    expect(diffWords('', 'New text')).toEqual([{ type: 'insert', text: 'New text' }]);
+    expect(diffWords('Old text', '')).toEqual([{ type: 'delete', text: 'Old text' }]);
+    expect(diffWords('Same', 'Same')).toEqual([{ type: 'equal', text: 'Same' }]);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { TFile } from 'obsidian';
+import { ContentRetrievalService } from '../src/services/content_retrieval';
+import type { VaultBotPluginSettings } from '../src/settings';
+
+function makeFile(path: string): TFile {
+  const file = new TFile();
+  file.path = path;
+  file.name = path.split('/').pop() || path;
+  file.basename = file.name.replace(/\.[^.]+$/, '');
+  file.extension = file.name.split('.').pop() || '';
+  return file;
+}
+
+describe('ContentRetrievalService embed expansion', () => {
+  let contents: Record<string, string>;
+  let files: TFile[];
+  let service: ContentRetrievalService;
+
+  const retrieve = async (path: string) => {
+    const notes = await service.retrieveContent('', files.find(f => f.path === path));
+    return notes[0].content;
+  };
+
+  beforeEach(() => {
+    contents = {
+      'MOC.md': '# Garden\n\n![[Shed]]\n\n![[Budget#Timber]]\n\nNext: ![[Tasks^next]]',
+      'Shed.md': '---\ntags: [project]\n---\nBuild the shed before winter.',
+      'Budget.md': '# Budget\n\n## Timber\n\n400 for timber\n\n## Felt\n\n60 for felt',
+      'Tasks.md': '- order timber ^next\n- paint',
+      'Loop A.md': 'A starts\n\n![[Loop B]]',
+      'Loop B.md': 'B starts\n\n![[Loop A]]',
+      'Self.md': '# Intro\n\nSee below.\n\n![[#Details]]\n\n## Details\n\nThe details.',
+      'Deep 1.md': 'one ![[Deep 2]]',
+      'Deep 2.md': 'two ![[Deep 3]]',
+      'Deep 3.md': 'three ![[Deep 4]]',
+      'Deep 4.md': 'four',
+      'Private/Secret.md': 'secret',
+      'Uses Secret.md': 'Public ![[Secret]] and ![[diagram.png]] and ![[Budget#Missing]] and ![[Nowhere]]',
+      'diagram.png': '',
+    };
+    files = Object.keys(contents).map(makeFile);
+    const app: any = {
+      vault: {
+        read: vi.fn(async (file: TFile) => contents[file.path]),
+        getAbstractFileByPath: (path: string) => files.find(f => f.path === path) || null,
+      },
+      metadataCache: {
+        getFirstLinkpathDest: (link: string) => files.find(f => f.path === link || f.basename === link || f.name === link) || null,
+        getFileCache: () => null,
+      },
+      workspace: { iterateAllLeaves: () => {} },
+    };
+    const settings = { includeCurrentNote: true, noteExclusionsLevel1: ['Private/'] } as VaultBotPluginSettings;
+    service = new ContentRetrievalService(app, settings);
+  });
+
+  it('expands note, section and block embeds inline', async () => {
+    expect(await retrieve('MOC.md')).toBe(
+      '# Garden\n\nBuild the shed before winter.\n\n## Timber\n\n400 for timber\n\nNext: - order timber'
+    );
+  });
+
+  it('stops at cycles and keeps same-note section embeds', async () => {
+    expect(await retrieve('Loop A.md')).toBe('A starts\n\nB starts\n\n![[Loop A]]');
+    expect(await retrieve('Self.md')).toContain('See below.\n\n## Details\n\nThe details.\n\n## Details');
+  });
+
+  it('leaves embeds past the depth limit as written', async () => {
+    expect(await retrieve('Deep 1.md')).toBe('one two three four');
+
+    contents['Deep 4.md'] = 'four ![[Deep 5]]';
+    contents['Deep 5.md'] = 'five';
+    files.push(makeFile('Deep 5.md'));
+    expect(await retrieve('Deep 1.md')).toBe('one two three four ![[Deep 5]]');
+  });
+
+  it('leaves excluded notes, attachments, missing sections and unresolved links as written', async () => {
+    expect(await retrieve('Uses Secret.md')).toBe(contents['Uses Secret.md']);
+  });
+});
@@ -9,6 +9,8 @@ const headers: Record<Ctx, string[]> = { settings: [], side: [] };
 const fieldNames: Record<Ctx, string[]> = { settings: [], side: [] };
 const emptyCounts: Record<Ctx, number> = { settings: 0, side: 0 };
 const dropdownHandlers: Record<Ctx, Array<(val: string) => any>> = { settings: [], side: [] };
+// Setting name each dropdown handler was registered under, parallel to dropdownHandlers
+const dropdownNames: Record<Ctx, string[]> = { settings: [], side: [] };
 
 // Active context flag to attribute Setting calls
 let activeCtx: Ctx = 'settings';
@@ -101,7 +103,11 @@ vi.mock('obsidian', () => {
         const dropdown = {
           addOption: vi.fn(() => dropdown),
           setValue: vi.fn(() => dropdown),
-          onChange: vi.fn((handler: (val: string) => any) => { dropdownHandlers[activeCtx].push(handler); return dropdown; }),
+          onChange: vi.fn((handler: (val: string) => any) => {
+            dropdownHandlers[activeCtx].push(handler);
+            dropdownNames[activeCtx].push(fieldNames[activeCtx][fieldNames[activeCtx].length - 1]);
+            return dropdown;
+          }),
         };
         cb(dropdown);
         return setting;
@@ -178,6 +184,7 @@ describe('Shared Model Settings UI parity', () => {
     fieldNames.settings = []; fieldNames.side = [];
     emptyCounts.settings = 0; emptyCounts.side = 0;
     dropdownHandlers.settings = []; dropdownHandlers.side = [];
+    dropdownNames.settings = []; dropdownNames.side = [];
 
     // Import after mocks are set
     ({ VaultBotSettingTab, DEFAULT_SETTINGS } = await import('../src/settings'));
@@ -255,7 +262,7 @@ describe('Shared Model Settings UI parity', () => {
     const settingTab = new VaultBotSettingTab({}, plugin);
     settingTab.display();
     expect(dropdownHandlers.settings.length).toBeGreaterThan(0);
-  const lastSettingsHandler = dropdownHandlers.settings[dropdownHandlers.settings.length - 1];
+  const lastSettingsHandler = dropdownHandlers.settings[dropdownNames.settings.lastIndexOf('Provider')];
   await lastSettingsHandler?.('openrouter');
     // After switching provider, we expect at least one empty() call (re-render)
     expect(emptyCounts.settings).toBeGreaterThan(0);
@@ -266,7 +273,7 @@ describe('Shared Model Settings UI parity', () => {
     const panel = new AiBotSidePanel({} as any, plugin);
     await panel.onOpen();
     expect(dropdownHandlers.side.length).toBeGreaterThan(0);
-  const lastSideHandler = dropdownHandlers.side[dropdownHandlers.side.length - 1];
+  const lastSideHandler = dropdownHandlers.side[dropdownNames.side.lastIndexOf('Provider')];
   await lastSideHandler?.('openai');
     expect(emptyCounts.side).toBeGreaterThan(0);
     expect(fieldNames.side).toContain('Temperature');
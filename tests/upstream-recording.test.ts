@@ -12,6 +12,9 @@ vi.mock('../src/providers', () => ({
   AIProvider: vi.fn(),
   OpenAIProvider: vi.fn().mockImplementation(() => mockUnderlyingProvider),
   OpenRouterProvider: vi.fn().mockImplementation(() => mockUnderlyingProvider),
+  ProviderRegistry: {
+    getInstance: () => ({ createProvider: () => mockUnderlyingProvider }),
+  },
 }));
 
 describe('Upstream recording via AIProviderWrapper', () => {
@@ -0,0 +1,170 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { recordChatCall } from '../src/recorder';
+import {
+  parseUsageRecord,
+  loadUsageRecords,
+  buildPricingTable,
+  estimateCost,
+  aggregateUsage,
+  type UsageRecord,
+} from '../src/services/usage_stats';
+
+vi.mock('../src/archiveCalls', () => ({
+  extractAiCallsArchive: vi.fn(async (_archive: string, dest: string) => {
+    const folder = path.join(dest, '2025-01-15');
+    await fs.promises.mkdir(folder, { recursive: true });
+    await fs.promises.writeFile(
+      path.join(folder, 'vault-bot_20250115_100000+0000_openrouter_x_abcde.txt'),
+      '---\nprovider: openrouter\nmodel: openai/gpt-4o\ntimestamp_utc_iso: 2025-01-15T10:00:00.000Z\nduration_ms: 800\nprompt_tokens: 100\ncompletion_tokens: 50\ntotal_tokens: 150\n---\n'
+    );
+  }),
+}));
+
+import { extractAiCallsArchive } from '../src/archiveCalls';
+
+function record(overrides: Partial<UsageRecord> = {}): UsageRecord {
+  return {
+    provider: 'openrouter',
+    model: 'openai/gpt-4o',
+    timestamp: '2025-02-10T12:00:00.000Z',
+    duration_ms: 1000,
+    prompt_tokens: 1000,
+    completion_tokens: 500,
+    total_tokens: 1500,
+    ...overrides,
+  };
+}
+
+const pricing = buildPricingTable({
+  openrouter: [
+    { id: 'openai/gpt-4o', name: 'GPT-4o', pricing: { prompt: '0.000002', completion: '0.00001' } },
+    { id: 'free/model', name: 'Free' },
+  ],
+});
+
+describe('parseUsageRecord', () => {
+  it('reads usage from a file written by recordChatCall', async () => {
+    const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'usage-parse-'));
+    try {
+      const timestamp = '2025-03-01T09:30:00.000Z';
+      const res = await recordChatCall({
+        dir,
+        provider: 'anthropic',
+        model: 'claude-sonnet-4-5',
+        request: { provider: 'anthropic', model: 'claude-sonnet-4-5', messages: [], options: null, timestamp },
+        response: {
+          content: 'ok', provider: 'anthropic', model: 'claude-sonnet-4-5', timestamp, duration_ms: 420,
+          usage: { prompt_tokens: 12, completion_tokens: 34, total_tokens: 46 },
+        },
+      });
+      if ('error' in res) throw new Error(res.error);
+
+      const parsed = parseUsageRecord(await fs.promises.readFile(res.filePath, 'utf8'));
+      expect(parsed).toEqual({
+        provider: 'anthropic',
+        model: 'claude-sonnet-4-5',
+        timestamp,
+        duration_ms: 420,
+        prompt_tokens: 12,
+        completion_tokens: 34,
+        total_tokens: 46,
+      });
+    } finally {
+      await fs.promises.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('keeps records without usage and rejects non-records', () => {
+    const parsed = parseUsageRecord('---\nprovider: openai\nmodel: gpt-4o\ntimestamp_iso: 2025-01-01T00:00:00.000Z\nduration_ms: \n---\n');
+    expect(parsed).toMatchObject({ provider: 'openai', duration_ms: null, prompt_tokens: null, total_tokens: null });
+    expect(parseUsageRecord('just some text')).toBeNull();
+    expect(parseUsageRecord('---\nprovider: openai\n---\n')).toBeNull();
+  });
+});
+
+describe('pricing', () => {
+  it('only includes models that publish prices', () => {
+    expect(pricing.has('openrouter:openai/gpt-4o')).toBe(true);
+    expect(pricing.has('openrouter:free/model')).toBe(false);
+  });
+
+  it('estimates cost from token counts', () => {
+    expect(estimateCost(record(), pricing)).toBeCloseTo(1000 * 0.000002 + 500 * 0.00001);
+    expect(estimateCost(record({ model: 'unknown' }), pricing)).toBeNull();
+    expect(estimateCost(record({ prompt_tokens: null, completion_tokens: null }), pricing)).toBeNull();
+  });
+});
+
+describe('aggregateUsage', () => {
+  const records = [
+    record({ timestamp: '2025-01-10T12:00:00.000Z' }),
+    record({ timestamp: '2025-02-10T12:00:00.000Z', duration_ms: 3000 }),
+    record({ timestamp: '2025-02-11T12:00:00.000Z', model: 'free/model' }),
+    record({ timestamp: '2025-02-12T12:00:00.000Z', provider: 'openai', model: 'gpt-4o', prompt_tokens: null, completion_tokens: null, total_tokens: null, duration_ms: null }),
+  ];
+
+  it('groups by month and model, newest month first', () => {
+    const rows = aggregateUsage(records, 'month-model', pricing);
+    expect(rows.map(r => r.key)).toEqual([
+      '2025-02 · openai/gpt-4o',
+      '2025-02 · free/model',
+      '2025-02 · gpt-4o',
+      '2025-01 · openai/gpt-4o',
+    ]);
+    expect(rows[0]).toMatchObject({ calls: 1, prompt_tokens: 1000, completion_tokens: 500, avg_duration_ms: 3000 });
+    expect(rows[0].cost).toBeCloseTo(0.007);
+  });
+
+  it('tracks unpriced calls and calls without usage separately', () => {
+    const rows = aggregateUsage(records, 'provider', pricing);
+    const openrouter = rows.find(r => r.key === 'openrouter')!;
+    const openai = rows.find(r => r.key === 'openai')!;
+
+    expect(openrouter).toMatchObject({ calls: 3, calls_with_usage: 3, unpriced_calls: 1, avg_duration_ms: 1667 });
+    expect(openrouter.cost).toBeCloseTo(0.014);
+    expect(openai).toMatchObject({ calls: 1, calls_with_usage: 0, unpriced_calls: 0, cost: 0, avg_duration_ms: null });
+    expect(rows[0].key).toBe('openrouter');
+  });
+});
+
+describe('loadUsageRecords', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'usage-load-'));
+    vi.mocked(extractAiCallsArchive).mockClear();
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  });
+
+  it('reads loose files, date folders and archives, caching archive summaries', async () => {
+    const header = (ts: string) => `---\nprovider: openai\nmodel: gpt-4o\ntimestamp_utc_iso: ${ts}\nduration_ms: 100\n---\n`;
+    await fs.promises.writeFile(path.join(dir, 'today.txt'), header('2025-01-17T10:00:00.000Z'));
+    await fs.promises.mkdir(path.join(dir, '2025-01-16'));
+    await fs.promises.writeFile(path.join(dir, '2025-01-16', 'yesterday.txt'), header('2025-01-16T10:00:00.000Z'));
+    await fs.promises.writeFile(path.join(dir, 'ai-calls_2025-01-15.7z'), 'archive');
+    await fs.promises.writeFile(path.join(dir, 'ai-calls_2025-01-14.7z.tmp-123'), 'partial');
+
+    const first = await loadUsageRecords(dir);
+    expect(first.map(r => r.timestamp)).toEqual([
+      '2025-01-15T10:00:00.000Z',
+      '2025-01-16T10:00:00.000Z',
+      '2025-01-17T10:00:00.000Z',
+    ]);
+    expect(first[0]).toMatchObject({ provider: 'openrouter', prompt_tokens: 100 });
+    expect(extractAiCallsArchive).toHaveBeenCalledTimes(1);
+
+    const second = await loadUsageRecords(dir);
+    expect(second).toEqual(first);
+    expect(extractAiCallsArchive).toHaveBeenCalledTimes(1);
+  });
+
+  it('returns nothing when the directory does not exist', async () => {
+    expect(await loadUsageRecords(path.join(dir, 'missing'))).toEqual([]);
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { TFile, TFolder } from 'obsidian';
+import { VaultToolService } from '../src/services/vault_tools';
+import { ContentRetrievalService } from '../src/services/content_retrieval';
+import type { VaultBotPluginSettings } from '../src/settings';
+
+function makeFile(path: string): TFile {
+  const file = new TFile();
+  file.path = path;
+  file.name = path.split('/').pop() || path;
+  file.basename = file.name.replace(/\.md$/, '');
+  return file;
+}
+
+function makeFolder(path: string, children: Array<TFile | TFolder>): TFolder {
+  const folder = new TFolder();
+  folder.path = path;
+  folder.name = path.split('/').pop() || path;
+  folder.children = children;
+  return folder;
+}
+
+describe('VaultToolService', () => {
+  let contents: Record<string, string>;
+  let files: TFile[];
+  let app: any;
+  let confirmWrite: ReturnType<typeof vi.fn>;
+  let service: VaultToolService;
+  let settings: VaultBotPluginSettings;
+
+  const call = (name: string, args: Record<string, unknown>) =>
+    service.executeToolCall({ id: 'call_1', name, arguments: JSON.stringify(args) });
+
+  beforeEach(() => {
+    contents = {
+      'Projects/Plan.md': '# Plan\n\nShip the garden shed before winter.',
+      'Projects/Budget.md': 'Shed budget: 400',
+      'Private/Diary.md': 'Thinking about the shed again.',
+      'Inbox.md': 'See [[Plan]]',
+    };
+    files = Object.keys(contents).map(makeFile);
+    const byPath = new Map<string, TFile | TFolder>(files.map(f => [f.path, f]));
+    const projects = makeFolder('Projects', files.filter(f => f.path.startsWith('Projects/')));
+    const privateFolder = makeFolder('Private', files.filter(f => f.path.startsWith('Private/')));
+    byPath.set('Projects', projects);
+    byPath.set('Private', privateFolder);
+    const root = makeFolder('', [projects, privateFolder, files.find(f => f.path === 'Inbox.md')!]);
+
+    app = {
+      vault: {
+        getMarkdownFiles: () => files,
+        cachedRead: vi.fn(async (file: TFile) => contents[file.path]),
+        getAbstractFileByPath: (path: string) => byPath.get(path) || null,
+        getRoot: () => root,
+        create: vi.fn(async (path: string, data: string) => { contents[path] = data; }),
+        createFolder: vi.fn(async () => {}),
+        append: vi.fn(async (file: TFile, data: string) => { contents[file.path] += data; }),
+      },
+      metadataCache: {
+        resolvedLinks: {
+          'Inbox.md': { 'Projects/Plan.md': 1 },
+          'Private/Diary.md': { 'Projects/Plan.md': 1 },
+          'Projects/Budget.md': {},
+        },
+        getFirstLinkpathDest: (link: string) => files.find(f => f.basename === link) || null,
+        getFileCache: () => null,
+      },
+    };
+
+    settings = { noteExclusionsLevel1: ['Private/'] } as VaultBotPluginSettings;
+    confirmWrite = vi.fn(async () => true);
+    service = new VaultToolService(app, new ContentRetrievalService(app, settings), confirmWrite);
+  });
+
+  it('searches titles and content, skipping excluded notes', async () => {
+    const result = await call('search_notes', { query: 'shed' });
+    expect(result).toContain('Projects/Plan.md');
+    expect(result).toContain('Projects/Budget.md');
+    expect(result).not.toContain('Private/Diary.md');
+  });
+
+  it('reads a note by path or link text', async () => {
+    expect(await call('read_note', { path: 'Projects/Plan.md' })).toContain('garden shed');
+    expect(await call('read_note', { path: 'Plan' })).toContain('garden shed');
+    expect(await call('read_note', { path: 'Private/Diary.md' })).toBe('Error: note is excluded: Private/Diary.md');
+    expect(await call('read_note', { path: 'Missing' })).toBe('Error: note not found: Missing');
+  });
+
+  it('lists folders and the vault root', async () => {
+    expect(await call('list_folder', { path: 'Projects' })).toBe('Budget.md\nPlan.md');
+    expect(await call('list_folder', { path: '/' })).toBe('Inbox.md\nProjects/');
+  });
+
+  it('returns backlinks from the resolved link graph', async () => {
+    expect(await call('get_backlinks', { path: 'Plan' })).toBe('- Inbox.md');
+    expect(await call('get_backlinks', { path: 'Private/Diary.md' })).toBe('Error: note is excluded: Private/Diary.md');
+  });
+
+  it('creates and appends only after confirmation', async () => {
+    expect(await call('create_note', { path: 'Ideas/Shed', content: 'Paint it green' })).toBe('Created Ideas/Shed.md');
+    expect(confirmWrite).toHaveBeenCalledWith('create', 'Ideas/Shed.md', 'Paint it green');
+    expect(app.vault.createFolder).toHaveBeenCalledWith('Ideas');
+    expect(contents['Ideas/Shed.md']).toBe('Paint it green');
+
+    confirmWrite.mockResolvedValueOnce(false);
+    expect(await call('append_to_note', { path: 'Plan', content: '- [ ] Buy wood' })).toBe('The user declined to append to Projects/Plan.md');
+    expect(app.vault.append).not.toHaveBeenCalled();
+
+    expect(await call('append_to_note', { path: 'Plan', content: '- [ ] Buy wood' })).toBe('Appended to Projects/Plan.md');
+    expect(contents['Projects/Plan.md']).toContain('\n- [ ] Buy wood');
+  });
+
+  it('refuses to append to an excluded note without asking', async () => {
+    expect(await call('append_to_note', { path: 'Private/Diary.md', content: 'x' })).toBe('Error: note is excluded: Private/Diary.md');
+    expect(confirmWrite).not.toHaveBeenCalled();
+    expect(app.vault.append).not.toHaveBeenCalled();
+  });
+
+  it('refuses to overwrite an existing note', async () => {
+    expect(await call('create_note', { path: 'Inbox.md', content: 'x' })).toBe('Error: a file already exists at Inbox.md');
+    expect(confirmWrite).not.toHaveBeenCalled();
+  });
+
+  it('reports bad arguments and unknown tools as text', async () => {
+    expect(await service.executeToolCall({ id: 'c', name: 'read_note', arguments: '{oops' })).toBe('Error: arguments for read_note are not valid JSON');
+    expect(await call('delete_vault', {})).toBe('Error: unknown tool delete_vault');
+  });
+});